@@ -1,7 +1,7 @@
 use tauri::{AppHandle, State};
 
-use crate::ports::{find_port_conflicts, normalize_local_url, scan_live_ports, LivePort};
-use crate::processes::{get_dev_processes, get_system_stats as sys_stats, ProcessInfo, SystemStats};
+use crate::ports::{find_port_conflicts, normalize_local_url, scan_live_ports_with, LivePort};
+use crate::processes::{get_all_processes, get_dev_processes, get_system_stats as sys_stats, ProcessInfo, ProcessNode, SystemStats};
 use crate::git::{
     add_remote as git_add_remote, checkout_branch as git_checkout_branch,
     commit as git_commit_changes, create_branch as git_create_branch,
@@ -18,14 +18,20 @@ use crate::workspace::{
     stop_workspace as stop_workspace_runs, DetectedProject, WorkspaceGroup, WorkspaceRunResult,
     WorkspaceServiceSpec, WorkspaceStopSpec,
 };
-use crate::config::{AppConfig, load as load_cfg, save as save_cfg};
+use crate::config::{AppConfig, EnvProfile, StoredWorkspace, load as load_cfg, save as save_cfg};
 use crate::github::{
     fetch_project_context, fetch_repos, open_github_url as open_github_link, poll_token,
     request_device_code, DeviceCodeResponse, GitHubProjectContext, GitHubRepo, GitHubUser,
 };
 use crate::services::{
-    terminate_process_tree, ManagedServiceInfo, ServiceEnvironment, ServiceManager,
+    terminate_process_subtree, terminate_process_tree, ManagedServiceInfo, ServiceEnvironment,
+    ServiceManager,
 };
+use crate::restart::RestartPolicy;
+use crate::guardrails::ResourceGuardrail;
+use crate::hooks::LifecycleHooks;
+use crate::terminal::TerminalSize;
+use crate::watch::FileWatch;
 use crate::scaffold::{
     create_project as scaffold_project, CreateProjectPayload, CreateProjectResult,
 };
@@ -37,6 +43,10 @@ use crate::packages::{
 use crate::env_files::{
     export_file as write_env_file, import_file as parse_env_file, EnvFileImport, EnvFileVariable,
 };
+use crate::workspace_file::{read as read_definition, write as write_definition};
+use crate::manifest_import::{import as import_manifest, ManifestImport};
+use crate::lan::{lan_access as resolve_lan_access, LanAccess};
+use crate::connections::{scan_port_connections as sample_connections, PortConnection};
 
 // ── Config ────────────────────────────────────────────────────────────────────
 
@@ -46,8 +56,16 @@ pub fn load_config(app: AppHandle) -> Result<Option<AppConfig>, String> {
 }
 
 #[tauri::command]
-pub fn save_config(app: AppHandle, config: AppConfig) -> Result<(), String> {
-    save_cfg(&app, &config)
+pub fn save_config(
+    app: AppHandle,
+    notifier: State<crate::notifications::Notifier>,
+    proxy: State<crate::proxy::Proxy>,
+    config: AppConfig,
+) -> Result<(), String> {
+    save_cfg(&app, &config)?;
+    notifier.configure(&config);
+    proxy.configure(&app, &config);
+    Ok(())
 }
 
 /// Reports where secrets are actually stored, so the interface can say so rather
@@ -82,6 +100,21 @@ pub fn read_run_log(
     history_for(&app)?.read_log(&run_id, limit.unwrap_or(2000))
 }
 
+/// Past output for the Logs view to show again after a restart. Runs older than
+/// the retention are dropped first, so what comes back is already within it.
+#[tauri::command]
+pub fn restore_logs(
+    app: AppHandle,
+    retention: crate::history::LogRetention,
+) -> Result<crate::history::RestoredLogs, String> {
+    let history = history_for(&app)?;
+    history.expire(&retention, crate::history::now_ms());
+    Ok(crate::history::RestoredLogs {
+        app_session_ms: crate::history::app_session_ms(),
+        runs: history.restore(&retention),
+    })
+}
+
 #[tauri::command]
 pub fn clear_run_history(app: AppHandle) -> Result<(), String> {
     history_for(&app)?.clear()
@@ -136,8 +169,15 @@ pub fn open_github_url(url: String) -> Result<(), String> {
 // ── Ports ─────────────────────────────────────────────────────────────────────
 
 #[tauri::command]
-pub fn scan_ports() -> Vec<LivePort> {
-    scan_live_ports()
+pub fn scan_ports(watched: Option<Vec<u16>>) -> Vec<LivePort> {
+    scan_live_ports_with(&watched.unwrap_or_default())
+}
+
+/// Connections between local processes that were open at the moment of the
+/// sample, for drawing edges on the ports map.
+#[tauri::command]
+pub fn scan_port_connections(services: State<ServiceManager>) -> Vec<PortConnection> {
+    sample_connections(&services)
 }
 
 #[tauri::command]
@@ -145,16 +185,50 @@ pub fn check_port_conflicts(expected_ports: Vec<u16>) -> Vec<LivePort> {
     find_port_conflicts(&expected_ports)
 }
 
+/// Whether the local proxy is listening, and why not when it should be.
+#[tauri::command]
+pub fn proxy_status(proxy: State<crate::proxy::Proxy>) -> crate::proxy::ProxyStatus {
+    proxy.status()
+}
+
+/// How a phone on the same network could open `url`, or why it cannot.
+#[tauri::command]
+pub fn lan_access(url: String) -> Result<LanAccess, String> {
+    resolve_lan_access(&url)
+}
+
+#[tauri::command]
+pub fn find_free_port(taken: u16, reserved: Vec<u16>) -> Result<u16, String> {
+    crate::ports::find_free_port(taken, &reserved)
+        .ok_or_else(|| format!("No free port found above {taken}"))
+}
+
 // ── Processes ─────────────────────────────────────────────────────────────────
 
+/// Dev tooling only, unless `all` asks for the whole process table.
+#[tauri::command]
+pub fn get_processes(all: Option<bool>) -> Vec<ProcessInfo> {
+    if all.unwrap_or(false) {
+        get_all_processes()
+    } else {
+        get_dev_processes()
+    }
+}
+
+/// `subtree` also terminates descendants that left the process's group, which
+/// is what frees a port held by a child.
 #[tauri::command]
-pub fn get_processes() -> Vec<ProcessInfo> {
-    get_dev_processes()
+pub fn kill_process(pid: u32, subtree: Option<bool>) -> Result<(), String> {
+    if subtree.unwrap_or(false) {
+        terminate_process_subtree(pid)
+    } else {
+        terminate_process_tree(pid)
+    }
 }
 
 #[tauri::command]
-pub fn kill_process(pid: u32) -> Result<(), String> {
-    terminate_process_tree(pid)
+pub fn get_process_tree(pid: u32) -> Option<ProcessNode> {
+    crate::processes::get_process_tree(pid)
 }
 
 #[tauri::command]
@@ -169,6 +243,10 @@ pub fn start_service(
     environment: ServiceEnvironment,
     expected_ports: Vec<u16>,
     allow_port_conflicts: bool,
+    restart_policy: Option<RestartPolicy>,
+    guardrail: Option<ResourceGuardrail>,
+    file_watch: Option<FileWatch>,
+    interactive: Option<bool>,
 ) -> Result<u32, String> {
     services.start(
         app,
@@ -178,6 +256,10 @@ pub fn start_service(
         environment,
         expected_ports,
         allow_port_conflicts,
+        restart_policy.unwrap_or_default(),
+        guardrail,
+        file_watch,
+        interactive.unwrap_or(false),
     )
 }
 
@@ -199,6 +281,32 @@ pub fn restart_service(
     services.restart(app, service_id)
 }
 
+#[tauri::command]
+pub fn write_service_terminal(
+    services: State<ServiceManager>,
+    service_id: String,
+    data: String,
+) -> Result<(), String> {
+    services.write_terminal(&service_id, &data)
+}
+
+#[tauri::command]
+pub fn resize_service_terminal(
+    services: State<ServiceManager>,
+    service_id: String,
+    size: TerminalSize,
+) -> Result<(), String> {
+    services.resize_terminal(&service_id, size)
+}
+
+#[tauri::command]
+pub fn read_service_terminal(
+    services: State<ServiceManager>,
+    service_id: String,
+) -> Result<String, String> {
+    services.terminal_backlog(&service_id)
+}
+
 #[tauri::command]
 pub fn list_managed_services(
     services: State<ServiceManager>,
@@ -212,8 +320,15 @@ pub fn start_workspace(
     services: State<ServiceManager>,
     workspace_id: String,
     workspace_services: Vec<WorkspaceServiceSpec>,
+    workspace_hooks: Option<LifecycleHooks>,
 ) -> Result<WorkspaceRunResult, String> {
-    start_workspace_runs(app, services.inner(), workspace_id, workspace_services)
+    start_workspace_runs(
+        app,
+        services.inner(),
+        workspace_id,
+        workspace_services,
+        workspace_hooks.unwrap_or_default(),
+    )
 }
 
 #[tauri::command]
@@ -222,8 +337,15 @@ pub fn stop_workspace(
     services: State<ServiceManager>,
     workspace_id: String,
     workspace_services: Vec<WorkspaceStopSpec>,
+    workspace_hooks: Option<LifecycleHooks>,
 ) -> Result<WorkspaceRunResult, String> {
-    stop_workspace_runs(app, services.inner(), workspace_id, workspace_services)
+    stop_workspace_runs(
+        app,
+        services.inner(),
+        workspace_id,
+        workspace_services,
+        workspace_hooks.unwrap_or_default(),
+    )
 }
 
 // ── System stats ──────────────────────────────────────────────────────────────
@@ -345,6 +467,32 @@ pub fn scan_workspace_groups(
     scan_as_workspace_groups(&roots, max_depth, ignore_patterns)
 }
 
+/// Reads a checked-in `localhost-hub.json`, given the file or its directory.
+#[tauri::command]
+pub fn read_workspace_definition(
+    path: String,
+    env_profiles: Vec<EnvProfile>,
+) -> Result<StoredWorkspace, String> {
+    read_definition(&path, &env_profiles)
+}
+
+#[tauri::command]
+pub fn write_workspace_definition(
+    workspace: StoredWorkspace,
+    env_profiles: Vec<EnvProfile>,
+) -> Result<(), String> {
+    write_definition(&workspace, &env_profiles)
+}
+
+/// Drafts a workspace from a `Procfile`, Compose file or PM2 ecosystem file.
+/// Blocking because a JavaScript ecosystem file has to be run through Node.
+#[tauri::command]
+pub async fn import_process_manifest(path: String) -> Result<ManifestImport, String> {
+    tauri::async_runtime::spawn_blocking(move || import_manifest(&path))
+        .await
+        .map_err(|error| format!("Import failed: {error}"))?
+}
+
 #[tauri::command]
 pub fn find_default_workspace_roots() -> Vec<String> {
     let home = match std::env::var("HOME").or_else(|_| std::env::var("USERPROFILE")) {
@@ -432,6 +580,25 @@ pub fn open_url(url: String) -> Result<(), String> {
     Ok(())
 }
 
+/// Opens a hyperlink a service printed with OSC 8. Any host is allowed, since
+/// such links usually point at docs or a dashboard, but only over HTTP or HTTPS
+/// and never with credentials embedded in the URL.
+#[tauri::command]
+pub fn open_log_link(url: String) -> Result<(), String> {
+    let parsed = reqwest::Url::parse(&url).map_err(|_| "not a valid link".to_string())?;
+    if !matches!(parsed.scheme(), "http" | "https")
+        || !parsed.username().is_empty()
+        || parsed.password().is_some()
+    {
+        return Err("only HTTP and HTTPS links can be opened".to_string());
+    }
+    let target = parsed.to_string();
+    std::thread::spawn(move || {
+        let _ = open::that(target);
+    });
+    Ok(())
+}
+
 // ── Environment files ─────────────────────────────────────────────────────────
 
 #[tauri::command]
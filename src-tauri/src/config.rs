@@ -5,6 +5,15 @@ use tauri::Manager;
 use ts_rs::TS;
 
 pub use crate::github::GitHubUser;
+use crate::guardrails::ResourceGuardrail;
+use crate::history::LogRetention;
+use crate::hooks::LifecycleHooks;
+use crate::notifications::NotificationPreferences;
+use crate::ports::WatchedPort;
+use crate::proxy::ProxySettings;
+use crate::readiness::{HttpProbe, LogReadiness};
+use crate::restart::RestartPolicy;
+use crate::watch::FileWatch;
 use crate::workspace::WorkspaceRunMode;
 
 #[derive(Debug, Clone, Serialize, Deserialize, Default, TS)]
@@ -38,6 +47,19 @@ pub struct AppConfig {
     /// read back from there rather than trusted from this file.
     #[serde(default)]
     pub start_at_login: bool,
+    #[serde(default)]
+    pub notifications: NotificationPreferences,
+    /// Stable `<service>.<workspace>.localhost` names for managed services.
+    #[serde(default)]
+    pub proxy: ProxySettings,
+    /// Ports run outside Hub that the Ports map shows and workspace boots can
+    /// wait on.
+    #[serde(default)]
+    pub watched_ports: Vec<WatchedPort>,
+    /// How much past output comes back into the Logs view after a restart, and
+    /// how long finished runs are kept at all.
+    #[serde(default)]
+    pub log_retention: LogRetention,
 }
 
 #[derive(Debug, Clone, Serialize, Deserialize, TS)]
@@ -90,6 +112,29 @@ pub struct StoredWorkspace {
     pub name: String,
     pub color: String,
     pub services: Vec<StoredService>,
+    /// Run around the whole workspace: before any of its services start, and
+    /// after they have all stopped.
+    #[serde(default)]
+    pub hooks: LifecycleHooks,
+    /// Named subsets to boot instead of every service.
+    #[serde(default)]
+    pub profiles: Vec<WorkspaceProfile>,
+    /// The `localhost-hub.json` this workspace was imported from or saved to.
+    /// When set, that file is what the workspace is read from and written to;
+    /// this copy only covers the time until it is read again.
+    #[serde(default)]
+    pub definition_path: Option<String>,
+}
+
+/// A named part of a workspace, such as "frontend + api". Only the services a
+/// day's work needs are listed; whatever they depend on is started with them
+/// without being listed here.
+#[derive(Debug, Clone, PartialEq, Eq, Serialize, Deserialize, TS)]
+#[ts(export, export_to = "../../src/generated/")]
+pub struct WorkspaceProfile {
+    pub id: String,
+    pub name: String,
+    pub service_ids: Vec<String>,
 }
 
 #[derive(Debug, Clone, Serialize, Deserialize, TS)]
@@ -120,6 +165,46 @@ pub struct StoredService {
     // Tauri serializes through serde_json, so this arrives as a JSON number.
     #[ts(type = "number")]
     pub readiness_timeout_ms: u64,
+    /// Optional HTTP check run after the expected port is listening. Only used
+    /// when readiness waiting is on, since the timeout bounds the probe too.
+    #[serde(default)]
+    pub http_probe: Option<HttpProbe>,
+    /// A line of output that marks the service ready, for tools that never open
+    /// a port. Independent of the readiness timeout; it carries its own.
+    #[serde(default)]
+    pub log_readiness: Option<LogReadiness>,
+    /// Off unless chosen, so services saved before restart policies existed keep
+    /// staying down when they exit.
+    #[serde(default)]
+    pub restart_policy: RestartPolicy,
+    /// Memory and CPU ceilings, and what to do when one is crossed.
+    #[serde(default)]
+    pub guardrail: Option<ResourceGuardrail>,
+    /// For services with no watcher of their own: restart when these files change.
+    #[serde(default)]
+    pub file_watch: Option<FileWatch>,
+    /// Commands run before the service starts and after it stops.
+    #[serde(default)]
+    pub hooks: LifecycleHooks,
+    /// Gives the service a terminal that can be typed into, instead of piped
+    /// output and no input.
+    #[serde(default)]
+    pub interactive: bool,
+    /// Set when a port conflict was settled by moving to a free port.
+    #[serde(default)]
+    pub port_assignment: Option<PortAssignment>,
+}
+
+/// A free port picked for a service because the one it expects was taken.
+/// Kept with this machine's copy only: what is free here says nothing about
+/// a teammate's machine, so it never goes into a `localhost-hub.json`.
+#[derive(Debug, Clone, Copy, PartialEq, Eq, Serialize, Deserialize, TS)]
+#[ts(export, export_to = "../../src/generated/")]
+pub struct PortAssignment {
+    /// The port the service asked for.
+    pub original: u16,
+    /// The one it gets instead, as `PORT` and in place of any `--port` value.
+    pub port: u16,
 }
 
 /// Accepts an unrecognized run mode and falls back to the default rather than
@@ -356,6 +441,7 @@ mod tests {
                     },
                 ],
             }],
+            ..AppConfig::default()
         }
     }
 
@@ -534,5 +620,27 @@ mod tests {
         assert!(service.depends_on.is_empty());
         assert_eq!(service.startup_delay_ms, 0);
         assert_eq!(service.readiness_timeout_ms, 0);
+        assert_eq!(service.http_probe, None);
+        assert_eq!(service.log_readiness, None);
+        assert_eq!(service.restart_policy, RestartPolicy::default());
+        assert_eq!(service.guardrail, None);
+        assert_eq!(service.file_watch, None);
+        assert!(!service.interactive);
+        assert_eq!(service.hooks, LifecycleHooks::default());
+    }
+
+    #[test]
+    fn older_workspaces_have_no_profiles() {
+        let workspace: StoredWorkspace = serde_json::from_str(
+            r##"{
+                "id": "shop",
+                "name": "Shop",
+                "color": "#4a78c4",
+                "services": []
+            }"##,
+        )
+        .expect("deserialize old workspace");
+
+        assert!(workspace.profiles.is_empty());
     }
 }
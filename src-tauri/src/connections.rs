@@ -0,0 +1,296 @@
+use crate::ports::{parse_bind_endpoint, scan_all_live_ports, successful_output, LivePort};
+use crate::services::{is_descendant_or_self, ServiceManager};
+use serde::Serialize;
+use std::collections::{HashMap, HashSet};
+use std::process::Command;
+use sysinfo::{Pid, System};
+use ts_rs::TS;
+
+/// A live TCP connection between two local processes, named by ports the map
+/// already draws.
+///
+/// `from_port` is a port the client listens on itself, not the ephemeral port
+/// the connection leaves from: a web server calling its API is drawn from the
+/// web server's node.
+#[derive(Debug, Clone, PartialEq, Eq, Serialize, TS)]
+#[ts(export, export_to = "../../src/generated/")]
+pub struct PortConnection {
+    pub from_port: u16,
+    pub from_pid: Option<u32>,
+    pub to_port: u16,
+    pub to_pid: Option<u32>,
+}
+
+/// One end of an established socket, as the platform tool lists it.
+#[derive(Debug, Clone, PartialEq, Eq)]
+struct Established {
+    local_host: String,
+    local_port: u16,
+    peer_host: String,
+    peer_port: u16,
+    pid: Option<u32>,
+}
+
+/// Samples established connections and keeps the ones whose client can be
+/// placed on the map and whose server is listening here.
+pub fn scan_port_connections(manager: &ServiceManager) -> Vec<PortConnection> {
+    let established = scan_established();
+    if established.is_empty() {
+        return Vec::new();
+    }
+    let listening = scan_all_live_ports();
+    let roots = manager.root_pids();
+    crate::processes::with_processes(|system| {
+        attribute(&established, &listening, |pid| {
+            owner_ports(system, &roots, &listening, pid)
+        })
+    })
+}
+
+/// Both ends of a local connection are listed, once per process. Only the
+/// client's end is kept: the one whose peer is a listening port and whose own
+/// port is not.
+fn attribute(
+    established: &[Established],
+    listening: &[LivePort],
+    ports_of: impl Fn(u32) -> Vec<u16>,
+) -> Vec<PortConnection> {
+    let servers = listening
+        .iter()
+        .map(|port| (port.port, port.pid))
+        .collect::<HashMap<_, _>>();
+    let local_hosts = established
+        .iter()
+        .map(|link| link.local_host.as_str())
+        .collect::<HashSet<_>>();
+    let mut seen = HashSet::new();
+    let mut connections = Vec::new();
+    for link in established {
+        let is_local =
+            is_loopback(&link.peer_host) || local_hosts.contains(link.peer_host.as_str());
+        if !is_local || servers.contains_key(&link.local_port) {
+            continue;
+        }
+        let (Some(to_pid), Some(pid)) = (servers.get(&link.peer_port), link.pid) else {
+            continue;
+        };
+        let Some(from_port) = ports_of(pid)
+            .into_iter()
+            .find(|port| *port != link.peer_port)
+        else {
+            continue;
+        };
+        if seen.insert((from_port, link.peer_port)) {
+            connections.push(PortConnection {
+                from_port,
+                from_pid: Some(pid),
+                to_port: link.peer_port,
+                to_pid: *to_pid,
+            });
+        }
+    }
+    connections
+}
+
+/// The ports a client speaks for: those its own process listens on, or else
+/// those of the managed service it was started under, such as a worker a dev
+/// server forked.
+fn owner_ports(system: &System, roots: &[u32], listening: &[LivePort], pid: u32) -> Vec<u16> {
+    let own = ports_owned_by(listening, |owner| owner == pid);
+    if !own.is_empty() {
+        return own;
+    }
+    let client = Pid::from_u32(pid);
+    roots
+        .iter()
+        .map(|root| Pid::from_u32(*root))
+        .find(|root| is_descendant_or_self(system, client, *root))
+        .map(|root| {
+            ports_owned_by(listening, |owner| {
+                is_descendant_or_self(system, Pid::from_u32(owner), root)
+            })
+        })
+        .unwrap_or_default()
+}
+
+fn ports_owned_by(listening: &[LivePort], owned: impl Fn(u32) -> bool) -> Vec<u16> {
+    listening
+        .iter()
+        .filter(|port| port.pid.is_some_and(&owned))
+        .map(|port| port.port)
+        .collect()
+}
+
+fn is_loopback(host: &str) -> bool {
+    let host = host.trim_start_matches("::ffff:");
+    host == "::1" || host == "localhost" || host.starts_with("127.")
+}
+
+#[cfg(target_os = "linux")]
+fn scan_established() -> Vec<Established> {
+    if let Some(output) =
+        successful_output(Command::new("ss").args(["-Htnp", "state", "established"]))
+    {
+        return parse_ss_established(&String::from_utf8_lossy(&output.stdout));
+    }
+    successful_output(Command::new("lsof").args(["-i", "TCP", "-n", "-P", "-s", "TCP:ESTABLISHED"]))
+        .map(|output| parse_lsof_established(&String::from_utf8_lossy(&output.stdout)))
+        .unwrap_or_default()
+}
+
+#[cfg(target_os = "macos")]
+fn scan_established() -> Vec<Established> {
+    successful_output(Command::new("lsof").args(["-i", "TCP", "-n", "-P", "-s", "TCP:ESTABLISHED"]))
+        .map(|output| parse_lsof_established(&String::from_utf8_lossy(&output.stdout)))
+        .unwrap_or_default()
+}
+
+#[cfg(windows)]
+fn scan_established() -> Vec<Established> {
+    successful_output(Command::new("netstat").args(["-ano", "-p", "tcp"]))
+        .map(|output| parse_netstat_established(&String::from_utf8_lossy(&output.stdout)))
+        .unwrap_or_default()
+}
+
+/// `ss` leaves the state column out when filtering by state, so the local and
+/// peer addresses are the third and fourth columns.
+#[allow(dead_code)]
+fn parse_ss_established(text: &str) -> Vec<Established> {
+    text.lines()
+        .filter_map(|line| {
+            let parts = line.split_whitespace().collect::<Vec<_>>();
+            let (local_host, local_port) = parse_bind_endpoint(parts.get(2)?)?;
+            let (peer_host, peer_port) = parse_bind_endpoint(parts.get(3)?)?;
+            let (pid, _) = crate::ports::extract_ss_pid_name(line);
+            Some(Established {
+                local_host,
+                local_port,
+                peer_host,
+                peer_port,
+                pid,
+            })
+        })
+        .collect()
+}
+
+#[allow(dead_code)]
+fn parse_lsof_established(text: &str) -> Vec<Established> {
+    text.lines()
+        .filter(|line| line.contains("(ESTABLISHED)"))
+        .filter_map(|line| {
+            let parts = line.split_whitespace().collect::<Vec<_>>();
+            let pid = parts.get(1).and_then(|pid| pid.parse::<u32>().ok());
+            let (local, peer) = parts.iter().find_map(|part| part.split_once("->"))?;
+            let (local_host, local_port) = parse_bind_endpoint(local)?;
+            let (peer_host, peer_port) = parse_bind_endpoint(peer)?;
+            Some(Established {
+                local_host,
+                local_port,
+                peer_host,
+                peer_port,
+                pid,
+            })
+        })
+        .collect()
+}
+
+#[allow(dead_code)]
+fn parse_netstat_established(text: &str) -> Vec<Established> {
+    text.lines()
+        .filter_map(|line| {
+            let parts = line.split_whitespace().collect::<Vec<_>>();
+            if parts.len() < 5
+                || !parts[0].eq_ignore_ascii_case("TCP")
+                || !parts[3].eq_ignore_ascii_case("ESTABLISHED")
+            {
+                return None;
+            }
+            let (local_host, local_port) = parse_bind_endpoint(parts[1])?;
+            let (peer_host, peer_port) = parse_bind_endpoint(parts[2])?;
+            Some(Established {
+                local_host,
+                local_port,
+                peer_host,
+                peer_port,
+                pid: parts[4].parse::<u32>().ok(),
+            })
+        })
+        .collect()
+}
+
+#[cfg(test)]
+mod tests {
+    use super::*;
+
+    fn listener(port: u16, pid: u32) -> LivePort {
+        LivePort {
+            port,
+            pid: Some(pid),
+            process_name: None,
+            protocol: "tcp".to_string(),
+            bind_address: "127.0.0.1".to_string(),
+            url: format!("http://localhost:{port}"),
+        }
+    }
+
+    #[test]
+    fn parses_each_platforms_established_sockets() {
+        let ss = parse_ss_established(
+            "0 0 127.0.0.1:51234 127.0.0.1:5432 users:((\"node\",pid=4100,fd=21))",
+        );
+        assert_eq!(ss[0].local_port, 51234);
+        assert_eq!(ss[0].peer_port, 5432);
+        assert_eq!(ss[0].pid, Some(4100));
+
+        let lsof = parse_lsof_established(
+            "node 4100 dev 21u IPv6 0x1 0t0 TCP [::1]:51234->[::1]:5432 (ESTABLISHED)",
+        );
+        assert_eq!(lsof[0].peer_host, "::1");
+        assert_eq!(lsof[0].peer_port, 5432);
+
+        let netstat = parse_netstat_established(
+            "  TCP    127.0.0.1:51234    127.0.0.1:5432    ESTABLISHED    4100",
+        );
+        assert_eq!(netstat[0].pid, Some(4100));
+    }
+
+    #[test]
+    fn keeps_the_client_end_and_names_it_by_the_clients_own_port() {
+        // web (pid 10, :3000) calls api (pid 20, :4000), which calls postgres
+        // (pid 30, :5432). Every connection is listed from both ends.
+        let established = parse_ss_established(
+            "0 0 127.0.0.1:50001 127.0.0.1:4000 users:((\"node\",pid=10,fd=1))\n\
+             0 0 127.0.0.1:4000 127.0.0.1:50001 users:((\"node\",pid=20,fd=1))\n\
+             0 0 127.0.0.1:50002 127.0.0.1:5432 users:((\"node\",pid=20,fd=2))\n\
+             0 0 127.0.0.1:5432 127.0.0.1:50002 users:((\"postgres\",pid=30,fd=1))\n\
+             0 0 127.0.0.1:50003 127.0.0.1:5432 users:((\"psql\",pid=40,fd=1))\n\
+             0 0 10.0.0.5:50004 93.184.216.34:443 users:((\"node\",pid=10,fd=2))",
+        );
+        let listening = vec![listener(3000, 10), listener(4000, 20), listener(5432, 30)];
+        let ports = |pid: u32| {
+            listening
+                .iter()
+                .filter(|port| port.pid == Some(pid))
+                .map(|port| port.port)
+                .collect::<Vec<_>>()
+        };
+        let connections = attribute(&established, &listening, ports);
+        assert_eq!(
+            connections,
+            vec![
+                PortConnection {
+                    from_port: 3000,
+                    from_pid: Some(10),
+                    to_port: 4000,
+                    to_pid: Some(20),
+                },
+                PortConnection {
+                    from_port: 4000,
+                    from_pid: Some(20),
+                    to_port: 5432,
+                    to_pid: Some(30),
+                },
+            ]
+        );
+    }
+}
@@ -219,7 +219,7 @@ fn validate_key(key: &str) -> Result<(), String> {
     Ok(())
 }
 
-fn looks_secret(key: &str) -> bool {
+pub(crate) fn looks_secret(key: &str) -> bool {
     let key = key.to_ascii_lowercase();
     ["secret", "token", "password", "passwd", "pwd", "api_key", "private_key", "auth"]
         .iter()
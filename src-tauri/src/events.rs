@@ -14,6 +14,7 @@
 use tauri::{AppHandle, Emitter};
 
 use crate::services::ServiceEvent;
+use crate::terminal::TerminalOutput;
 use crate::workspace::WorkspaceEvent;
 
 /// A destination for events. Implementations must be cheap to call and must not
@@ -21,6 +22,9 @@ use crate::workspace::WorkspaceEvent;
 pub trait EventSink: Send + Sync {
     fn service(&self, event: ServiceEvent);
     fn workspace(&self, event: WorkspaceEvent);
+    /// Raw output from an interactive service. Only a sink with a terminal pane
+    /// behind it has any use for this; the same output also arrives as lines.
+    fn terminal(&self, _output: TerminalOutput) {}
 }
 
 /// Delivers events to the webview. Failures are ignored deliberately: a window
@@ -30,12 +34,17 @@ pub struct TauriEventSink(pub AppHandle);
 
 impl EventSink for TauriEventSink {
     fn service(&self, event: ServiceEvent) {
+        crate::notifications::notify_service_event(&self.0, &event);
         let _ = self.0.emit("service://event", event);
     }
 
     fn workspace(&self, event: WorkspaceEvent) {
         let _ = self.0.emit("workspace://event", event);
     }
+
+    fn terminal(&self, output: TerminalOutput) {
+        let _ = self.0.emit("service://terminal", output);
+    }
 }
 
 /// Drops everything. Used while shutting down, where there is no interface left
@@ -0,0 +1,259 @@
+//! Memory and CPU ceilings for supervised services.
+//!
+//! A runaway `next dev` can climb to several gigabytes before anyone looks at it,
+//! and by then the machine is swapping. A guardrail sets a ceiling per service,
+//! checked against the whole process tree the service started, and says what to
+//! do when it is crossed: warn, restart, or stop.
+//!
+//! Memory trips the moment it is over, because a process that has taken the memory
+//! already has it. CPU trips only after staying over for a while: a build step or
+//! a cold start pegging a core for a few seconds is normal, an hour of it is not.
+//!
+//! As with restart policies, this module only decides; `services.rs` samples the
+//! processes and carries out the action.
+
+use serde::{Deserialize, Serialize};
+use ts_rs::TS;
+
+/// CPU is measured per core, so a tree busy on every core of a large machine
+/// reads in the thousands. Anything past this is a typing mistake.
+const MAX_CPU_PERCENT: f32 = 10_000.0;
+const MIN_CPU_SUSTAIN_MS: u64 = 1_000;
+const MAX_CPU_SUSTAIN_MS: u64 = 3_600_000;
+
+#[derive(Debug, Clone, Copy, Default, PartialEq, Eq, Serialize, Deserialize, TS)]
+#[serde(rename_all = "snake_case")]
+#[ts(export, export_to = "../../src/generated/")]
+pub enum GuardrailAction {
+    /// Report the breach and leave the service running.
+    #[default]
+    Warn,
+    Restart,
+    Stop,
+}
+
+#[derive(Debug, Clone, PartialEq, Serialize, Deserialize, TS)]
+#[ts(export, export_to = "../../src/generated/")]
+pub struct ResourceGuardrail {
+    /// Resident memory of the whole process tree, in megabytes.
+    #[serde(default)]
+    // Tauri serializes through serde_json, so this arrives as a JSON number.
+    #[ts(type = "number | null")]
+    pub max_memory_mb: Option<u64>,
+    /// Summed across the tree, where 100 is one core fully busy.
+    #[serde(default)]
+    pub max_cpu_percent: Option<f32>,
+    /// How long CPU must stay over its ceiling before it counts.
+    #[serde(default = "default_cpu_sustain_ms")]
+    // Tauri serializes through serde_json, so this arrives as a JSON number.
+    #[ts(type = "number")]
+    pub cpu_sustain_ms: u64,
+    #[serde(default)]
+    pub action: GuardrailAction,
+}
+
+pub(crate) fn default_cpu_sustain_ms() -> u64 {
+    30_000
+}
+
+#[derive(Debug, Clone, Copy, PartialEq, Eq)]
+pub(crate) enum GuardrailResource {
+    Memory,
+    Cpu,
+}
+
+/// A ceiling that has just been crossed.
+#[derive(Debug, Clone, PartialEq)]
+pub(crate) struct GuardrailBreach {
+    pub resource: GuardrailResource,
+    pub observed: f64,
+    pub limit: f64,
+    /// How long CPU had been over; zero for memory.
+    pub sustained_ms: u64,
+}
+
+impl GuardrailBreach {
+    pub(crate) fn describe(&self) -> String {
+        match self.resource {
+            GuardrailResource::Memory => format!(
+                "memory at {:.0} MB, over its {:.0} MB ceiling",
+                self.observed, self.limit
+            ),
+            GuardrailResource::Cpu => format!(
+                "CPU at {:.0}% for {} s, over its {:.0}% ceiling",
+                self.observed,
+                self.sustained_ms / 1_000,
+                self.limit
+            ),
+        }
+    }
+}
+
+impl ResourceGuardrail {
+    pub(crate) fn validate(&self) -> Result<(), String> {
+        if self.max_memory_mb.is_none() && self.max_cpu_percent.is_none() {
+            return Err("resource guardrail needs a memory or CPU ceiling".to_string());
+        }
+        if self.max_memory_mb == Some(0) {
+            return Err("memory ceiling must be at least 1 MB".to_string());
+        }
+        if let Some(cpu) = self.max_cpu_percent {
+            if !cpu.is_finite() || cpu <= 0.0 || cpu > MAX_CPU_PERCENT {
+                return Err(format!(
+                    "CPU ceiling must be above 0% and at most {MAX_CPU_PERCENT}%"
+                ));
+            }
+            if !(MIN_CPU_SUSTAIN_MS..=MAX_CPU_SUSTAIN_MS).contains(&self.cpu_sustain_ms) {
+                return Err(format!(
+                    "CPU ceiling must be sustained for between {MIN_CPU_SUSTAIN_MS} and {MAX_CPU_SUSTAIN_MS} ms"
+                ));
+            }
+        }
+        Ok(())
+    }
+}
+
+/// What one run has seen of its guardrail so far.
+///
+/// A breach is reported once per crossing. After a warning the service keeps
+/// running over its ceiling, and reporting that on every sample would bury the
+/// log; it re-arms once the reading drops back under.
+#[derive(Debug, Default)]
+pub(crate) struct GuardrailWatch {
+    memory_tripped: bool,
+    cpu_over_since_ms: Option<u128>,
+    cpu_tripped: bool,
+}
+
+impl GuardrailWatch {
+    /// Takes one sample of the tree and returns a breach if this sample is the
+    /// one that crossed a ceiling. At most one per sample, memory first, since it
+    /// is the one that takes the machine down with it.
+    pub(crate) fn observe(
+        &mut self,
+        guardrail: &ResourceGuardrail,
+        cpu_percent: f32,
+        memory_mb: u64,
+        now_ms: u128,
+    ) -> Option<GuardrailBreach> {
+        let mut breach = None;
+
+        match guardrail.max_memory_mb {
+            Some(limit) if memory_mb > limit => {
+                if !self.memory_tripped {
+                    self.memory_tripped = true;
+                    breach = Some(GuardrailBreach {
+                        resource: GuardrailResource::Memory,
+                        observed: memory_mb as f64,
+                        limit: limit as f64,
+                        sustained_ms: 0,
+                    });
+                }
+            }
+            _ => self.memory_tripped = false,
+        }
+
+        match guardrail.max_cpu_percent {
+            Some(limit) if cpu_percent > limit => {
+                let since = *self.cpu_over_since_ms.get_or_insert(now_ms);
+                let sustained_ms = u64::try_from(now_ms.saturating_sub(since)).unwrap_or(u64::MAX);
+                // Left armed when memory tripped on this same sample, so the CPU
+                // breach is reported on the next one rather than lost.
+                if breach.is_none() && !self.cpu_tripped && sustained_ms >= guardrail.cpu_sustain_ms
+                {
+                    self.cpu_tripped = true;
+                    breach = Some(GuardrailBreach {
+                        resource: GuardrailResource::Cpu,
+                        observed: f64::from(cpu_percent),
+                        limit: f64::from(limit),
+                        sustained_ms,
+                    });
+                }
+            }
+            _ => {
+                self.cpu_over_since_ms = None;
+                self.cpu_tripped = false;
+            }
+        }
+
+        breach
+    }
+}
+
+#[cfg(test)]
+mod tests {
+    use super::*;
+
+    fn guardrail(max_memory_mb: Option<u64>, max_cpu_percent: Option<f32>) -> ResourceGuardrail {
+        ResourceGuardrail {
+            max_memory_mb,
+            max_cpu_percent,
+            cpu_sustain_ms: 10_000,
+            action: GuardrailAction::Warn,
+        }
+    }
+
+    #[test]
+    fn a_guardrail_needs_a_sensible_ceiling() {
+        assert!(guardrail(Some(4_096), None).validate().is_ok());
+        assert!(guardrail(None, Some(200.0)).validate().is_ok());
+        assert!(guardrail(None, None)
+            .validate()
+            .unwrap_err()
+            .contains("memory or CPU"));
+        assert!(guardrail(Some(0), None).validate().is_err());
+        assert!(guardrail(None, Some(0.0)).validate().is_err());
+        assert!(guardrail(None, Some(f32::NAN)).validate().is_err());
+        let mut fleeting = guardrail(None, Some(90.0));
+        fleeting.cpu_sustain_ms = 10;
+        assert!(fleeting.validate().unwrap_err().contains("sustained"));
+    }
+
+    #[test]
+    fn memory_trips_at_once_and_only_once_per_crossing() {
+        let ceiling = guardrail(Some(1_024), None);
+        let mut watch = GuardrailWatch::default();
+
+        assert_eq!(watch.observe(&ceiling, 0.0, 1_024, 0), None);
+        let breach = watch.observe(&ceiling, 0.0, 1_500, 1_000).unwrap();
+        assert_eq!(breach.resource, GuardrailResource::Memory);
+        assert_eq!(
+            breach.describe(),
+            "memory at 1500 MB, over its 1024 MB ceiling"
+        );
+        assert_eq!(watch.observe(&ceiling, 0.0, 1_600, 2_000), None);
+
+        assert_eq!(watch.observe(&ceiling, 0.0, 900, 3_000), None);
+        assert!(watch.observe(&ceiling, 0.0, 1_100, 4_000).is_some());
+    }
+
+    #[test]
+    fn cpu_must_stay_over_for_the_whole_sustain_period() {
+        let ceiling = guardrail(None, Some(150.0));
+        let mut watch = GuardrailWatch::default();
+
+        assert_eq!(watch.observe(&ceiling, 190.0, 0, 0), None);
+        assert_eq!(watch.observe(&ceiling, 190.0, 0, 6_000), None);
+        // Dipping under starts the clock again.
+        assert_eq!(watch.observe(&ceiling, 40.0, 0, 8_000), None);
+        assert_eq!(watch.observe(&ceiling, 190.0, 0, 9_000), None);
+        assert_eq!(watch.observe(&ceiling, 190.0, 0, 18_000), None);
+
+        let breach = watch.observe(&ceiling, 210.0, 0, 19_000).unwrap();
+        assert_eq!(breach.resource, GuardrailResource::Cpu);
+        assert_eq!(breach.sustained_ms, 10_000);
+        assert_eq!(
+            breach.describe(),
+            "CPU at 210% for 10 s, over its 150% ceiling"
+        );
+        assert_eq!(watch.observe(&ceiling, 210.0, 0, 40_000), None);
+    }
+
+    #[test]
+    fn older_configs_default_to_warning_after_thirty_seconds() {
+        let parsed: ResourceGuardrail = serde_json::from_str(r#"{"max_memory_mb":2048}"#).unwrap();
+        assert_eq!(parsed.action, GuardrailAction::Warn);
+        assert_eq!(parsed.cpu_sustain_ms, 30_000);
+        assert_eq!(parsed.max_cpu_percent, None);
+    }
+}
@@ -19,10 +19,11 @@
 //! than propagated into the process lifecycle.
 
 use serde::{Deserialize, Serialize};
+use std::collections::HashMap;
 use std::fs::{File, OpenOptions};
 use std::io::{BufWriter, Write};
 use std::path::{Path, PathBuf};
-use std::sync::{Arc, Mutex};
+use std::sync::{Arc, Mutex, OnceLock};
 use ts_rs::TS;
 
 /// Runs kept in the index. Older runs are dropped and their logs deleted.
@@ -32,10 +33,73 @@ const MAX_RUNS: usize = 200;
 /// stops growing rather than filling the disk over a long session.
 const MAX_LOG_BYTES: u64 = 2 * 1024 * 1024;
 
+/// Events kept per run. A warning re-arms whenever usage drops back under its
+/// ceiling, so a service hovering at the line could otherwise grow its record
+/// without bound.
+const MAX_EVENTS_PER_RUN: usize = 50;
+
 /// Note appended once when a log hits its cap, so truncation is visible rather
 /// than looking like the process fell silent.
 const TRUNCATION_NOTICE: &str = "\n[localhost-hub] log truncated: this run reached its size limit\n";
 
+const DAY_MS: u128 = 24 * 60 * 60 * 1000;
+
+/// When this launch of Hub began; see `app_session_ms`.
+static APP_SESSION_MS: OnceLock<u128> = OnceLock::new();
+
+pub(crate) fn now_ms() -> u128 {
+    std::time::SystemTime::now()
+        .duration_since(std::time::UNIX_EPOCH)
+        .map(|value| value.as_millis())
+        .unwrap_or(0)
+}
+
+/// When this launch of Hub began. Every run started during it is tagged with
+/// this, which is how restored output is grouped by the launch that wrote it.
+pub fn app_session_ms() -> u128 {
+    *APP_SESSION_MS.get_or_init(now_ms)
+}
+
+/// How much log output Hub holds on to, while running and across restarts.
+/// Stored in the app config.
+#[derive(Debug, Clone, Copy, PartialEq, Eq, Serialize, Deserialize, TS)]
+#[ts(export, export_to = "../../src/generated/")]
+pub struct LogRetention {
+    /// Lines of each service's output restored into the Logs view at launch,
+    /// newest first, across as many of its runs as it takes to fill.
+    #[serde(default = "default_retained_lines")]
+    pub lines_per_service: u32,
+    /// Runs that ended longer ago than this are dropped, logs and all.
+    #[serde(default = "default_retained_days")]
+    pub days: u32,
+    /// Lines the Logs view holds for each service while Hub runs. Only the
+    /// frontend reads this; it is kept here so the log settings stay together.
+    #[serde(default = "default_live_lines")]
+    pub live_lines_per_service: u32,
+}
+
+impl Default for LogRetention {
+    fn default() -> Self {
+        Self {
+            lines_per_service: default_retained_lines(),
+            days: default_retained_days(),
+            live_lines_per_service: default_live_lines(),
+        }
+    }
+}
+
+fn default_retained_lines() -> u32 {
+    1000
+}
+
+fn default_retained_days() -> u32 {
+    7
+}
+
+fn default_live_lines() -> u32 {
+    10_000
+}
+
 #[derive(Debug, Clone, Copy, PartialEq, Eq, Serialize, Deserialize, TS)]
 #[serde(rename_all = "snake_case")]
 #[ts(export, export_to = "../../src/generated/")]
@@ -53,6 +117,29 @@ pub enum RunOutcome {
     Interrupted,
 }
 
+/// Something Hub did to a run while it was live, as opposed to how it ended.
+#[derive(Debug, Clone, Copy, PartialEq, Eq, Serialize, Deserialize, TS)]
+#[serde(rename_all = "snake_case")]
+#[ts(export, export_to = "../../src/generated/")]
+pub enum RunEventKind {
+    /// A resource guardrail was crossed and the service left running.
+    GuardrailWarned,
+    /// A resource guardrail was crossed and the service restarted. The run this
+    /// is recorded on is the one that was replaced.
+    GuardrailRestarted,
+    /// A resource guardrail was crossed and the service stopped.
+    GuardrailStopped,
+}
+
+#[derive(Debug, Clone, Serialize, Deserialize, TS)]
+#[ts(export, export_to = "../../src/generated/")]
+pub struct RunEvent {
+    #[ts(type = "number")]
+    pub at_ms: u128,
+    pub kind: RunEventKind,
+    pub message: String,
+}
+
 #[derive(Debug, Clone, Serialize, Deserialize, TS)]
 #[ts(export, export_to = "../../src/generated/")]
 pub struct RunRecord {
@@ -71,6 +158,14 @@ pub struct RunRecord {
     pub outcome: RunOutcome,
     /// True once the log file hit its cap.
     pub log_truncated: bool,
+    /// Oldest first. Absent from runs recorded before events existed.
+    #[serde(default)]
+    pub events: Vec<RunEvent>,
+    /// The launch of Hub that started the run; see `app_session_ms`. Absent
+    /// from runs recorded before launches were.
+    #[serde(default)]
+    #[ts(type = "number | null")]
+    pub app_session_ms: Option<u128>,
 }
 
 impl RunRecord {
@@ -89,6 +184,26 @@ pub struct RunLog {
     pub truncated: bool,
 }
 
+/// The tail of one past run, as restored into the Logs view.
+#[derive(Debug, Clone, Serialize, TS)]
+#[ts(export, export_to = "../../src/generated/")]
+pub struct RestoredLog {
+    pub run: RunRecord,
+    pub lines: Vec<String>,
+    /// True when earlier lines of the run were left out.
+    pub truncated: bool,
+}
+
+#[derive(Debug, Clone, Serialize, TS)]
+#[ts(export, export_to = "../../src/generated/")]
+pub struct RestoredLogs {
+    /// This launch, so its own runs can be told from earlier ones.
+    #[ts(type = "number")]
+    pub app_session_ms: u128,
+    /// Oldest run first.
+    pub runs: Vec<RestoredLog>,
+}
+
 /// Appends one run's output. Held by the reader threads for the run's lifetime.
 pub struct RunLogWriter {
     writer: Mutex<Option<BufWriter<File>>>,
@@ -237,6 +352,8 @@ impl History {
             exit_code: None,
             outcome: RunOutcome::Running,
             log_truncated: false,
+            events: Vec::new(),
+            app_session_ms: Some(app_session_ms()),
         };
 
         let mut records = self.load();
@@ -291,6 +408,23 @@ impl History {
         }
     }
 
+    /// Adds an event to a run, live or finished. Past `MAX_EVENTS_PER_RUN` the
+    /// oldest is dropped, since the latest is the one worth seeing.
+    pub fn record_event(&self, run_id: &str, event: RunEvent) {
+        let mut records = self.load();
+        let Some(record) = records.iter_mut().find(|record| record.run_id == run_id) else {
+            return;
+        };
+        record.events.push(event);
+        if record.events.len() > MAX_EVENTS_PER_RUN {
+            let excess = record.events.len() - MAX_EVENTS_PER_RUN;
+            record.events.drain(..excess);
+        }
+        if let Err(error) = self.store(&records) {
+            log::warn!("could not record a run event: {error}");
+        }
+    }
+
     /// Resolves runs left marked running by a previous session.
     ///
     /// The service manager's process table lives in memory, so nothing started
@@ -357,6 +491,59 @@ impl History {
         })
     }
 
+    /// Drops runs that ended more than `retention.days` ago, and their logs. A
+    /// run that has not ended is kept however long ago it started. Returns how
+    /// many were dropped.
+    pub fn expire(&self, retention: &LogRetention, now_ms: u128) -> usize {
+        let cutoff = now_ms.saturating_sub(u128::from(retention.days.max(1)) * DAY_MS);
+        let (kept, expired): (Vec<RunRecord>, Vec<RunRecord>) = self
+            .load()
+            .into_iter()
+            .partition(|record| record.ended_at_ms.map_or(true, |ended| ended >= cutoff));
+        if expired.is_empty() {
+            return 0;
+        }
+        // The index first: a log without an entry is only wasted space, while an
+        // entry without its log would show a run with its output missing.
+        if let Err(error) = self.store(&kept) {
+            log::warn!("could not expire old runs: {error}");
+            return 0;
+        }
+        for record in &expired {
+            let _ = std::fs::remove_file(self.log_path(&record.run_id));
+        }
+        expired.len()
+    }
+
+    /// Each service's newest output, up to `retention.lines_per_service` lines
+    /// gathered from its latest runs backwards, returned oldest run first.
+    pub fn restore(&self, retention: &LogRetention) -> Vec<RestoredLog> {
+        let mut remaining = HashMap::<String, usize>::new();
+        let mut restored = Vec::new();
+        for record in self.list() {
+            let budget = remaining
+                .entry(record.service_id.clone())
+                .or_insert(retention.lines_per_service as usize);
+            if *budget == 0 {
+                continue;
+            }
+            let Ok(log) = self.read_log(&record.run_id, *budget) else {
+                continue;
+            };
+            if log.lines.is_empty() {
+                continue;
+            }
+            *budget -= log.lines.len();
+            restored.push(RestoredLog {
+                run: record,
+                lines: log.lines,
+                truncated: log.truncated,
+            });
+        }
+        restored.reverse();
+        restored
+    }
+
     /// Empties the history and deletes every stored log.
     pub fn clear(&self) -> Result<(), String> {
         if self.logs_dir().exists() {
@@ -575,6 +762,57 @@ mod tests {
         std::fs::remove_dir_all(dir).unwrap();
     }
 
+    #[test]
+    fn events_are_kept_on_the_run_and_bounded() {
+        let dir = temporary_dir("events");
+        let history = History::new(&dir);
+        let run_id = begin(&history, "web", 1_000);
+
+        for index in 0..MAX_EVENTS_PER_RUN + 3 {
+            history.record_event(
+                &run_id,
+                RunEvent {
+                    at_ms: 2_000 + index as u128,
+                    kind: RunEventKind::GuardrailWarned,
+                    message: format!("warning {index}"),
+                },
+            );
+        }
+        history.end_run(&run_id, RunOutcome::Stopped, None, 9_000, false);
+        history.record_event(
+            &run_id,
+            RunEvent {
+                at_ms: 9_000,
+                kind: RunEventKind::GuardrailStopped,
+                message: "stopped".to_string(),
+            },
+        );
+
+        let events = &History::new(&dir).list()[0].events;
+        assert_eq!(events.len(), MAX_EVENTS_PER_RUN);
+        assert_eq!(events[0].message, "warning 4");
+        assert_eq!(events.last().unwrap().kind, RunEventKind::GuardrailStopped);
+
+        std::fs::remove_dir_all(dir).unwrap();
+    }
+
+    #[test]
+    fn runs_recorded_before_events_existed_still_load() {
+        let dir = temporary_dir("eventless");
+        std::fs::create_dir_all(dir.join("history")).unwrap();
+        std::fs::write(
+            dir.join("history").join("runs.json"),
+            r#"[{"run_id":"a-1","service_id":"web","cwd":"/tmp","cmd":"npm run dev","pid":1,"started_at_ms":1,"ended_at_ms":2,"exit_code":0,"outcome":"exited","log_truncated":false}]"#,
+        )
+        .unwrap();
+
+        let records = History::new(&dir).list();
+        assert_eq!(records.len(), 1);
+        assert!(records[0].events.is_empty());
+
+        std::fs::remove_dir_all(dir).unwrap();
+    }
+
     #[test]
     fn reconciliation_leaves_finished_runs_alone() {
         let dir = temporary_dir("finished");
@@ -619,6 +857,85 @@ mod tests {
         std::fs::remove_dir_all(dir).unwrap();
     }
 
+    #[test]
+    fn expiry_drops_runs_that_ended_too_long_ago() {
+        let dir = temporary_dir("expire");
+        let history = History::new(&dir);
+        let retention = LogRetention {
+            lines_per_service: 100,
+            days: 2,
+            ..LogRetention::default()
+        };
+
+        let old = begin(&history, "web", 5 * DAY_MS);
+        history.end_run(&old, RunOutcome::Exited, Some(0), 5 * DAY_MS + 1, false);
+        let recent = begin(&history, "web", 9 * DAY_MS);
+        history.end_run(&recent, RunOutcome::Exited, Some(0), 9 * DAY_MS + 1, false);
+        // Started long ago but never ended, so it is not the retention's to drop.
+        let running = begin(&history, "api", DAY_MS);
+
+        assert_eq!(history.expire(&retention, 10 * DAY_MS), 1);
+        let kept: Vec<String> = history
+            .list()
+            .into_iter()
+            .map(|record| record.run_id)
+            .collect();
+        assert_eq!(kept, vec![recent.clone(), running]);
+        assert!(!history.log_path(&old).exists());
+        assert!(history.log_path(&recent).exists());
+        assert_eq!(history.expire(&retention, 10 * DAY_MS), 0);
+
+        std::fs::remove_dir_all(dir).unwrap();
+    }
+
+    #[test]
+    fn restoring_fills_each_service_from_its_newest_runs() {
+        let dir = temporary_dir("restore");
+        let history = History::new(&dir);
+        let write = |service: &str, at: u128, lines: &[&str]| {
+            let writer = history
+                .begin_run(
+                    new_run_id(at),
+                    service.into(),
+                    "/tmp".into(),
+                    "x".into(),
+                    1,
+                    at,
+                )
+                .expect("writer");
+            for line in lines {
+                writer.append(line);
+            }
+            writer.finish();
+        };
+        write("web", 1_000, &["web one", "web two"]);
+        write("api", 2_000, &["api one"]);
+        write("web", 3_000, &["web three", "web four"]);
+
+        let restored = history.restore(&LogRetention {
+            lines_per_service: 3,
+            ..LogRetention::default()
+        });
+        let summary: Vec<(&str, Vec<&str>, bool)> = restored
+            .iter()
+            .map(|log| {
+                let lines = log.lines.iter().map(String::as_str).collect();
+                (log.run.service_id.as_str(), lines, log.truncated)
+            })
+            .collect();
+        assert_eq!(
+            summary,
+            vec![
+                ("web", vec!["web two"], true),
+                ("api", vec!["api one"], false),
+                ("web", vec!["web three", "web four"], false),
+            ]
+        );
+        assert_eq!(restored[0].run.app_session_ms, Some(app_session_ms()));
+
+        std::fs::remove_dir_all(dir).unwrap();
+    }
+
     #[test]
     fn newest_runs_come_first() {
         let dir = temporary_dir("order");
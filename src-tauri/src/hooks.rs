@@ -0,0 +1,483 @@
+//! Commands run around a workspace service's lifetime.
+//!
+//! Most services need something done first: `docker compose up -d db` before the
+//! API, `pnpm prisma migrate deploy` before it serves a request. Others leave
+//! something behind to clean up once they stop. Hooks are those commands, kept in
+//! order on a service or on a whole workspace, and run to completion as part of
+//! starting or stopping it.
+//!
+//! A pre-start hook that fails blocks its service, because the failure usually
+//! means the service cannot work: no database, or a schema it does not expect.
+//! Later pre-start hooks are skipped. Post-stop hooks are cleanup, so each runs
+//! whatever happened to the one before it.
+//!
+//! Each hook has a timeout. A `docker compose up` without `-d` never exits, and
+//! without one it would hold the whole workspace run open.
+
+use crate::events::EventSink;
+use crate::services::{
+    service_command, terminate_child, ServiceEnvironment, ServiceEvent, ServiceEventKind,
+};
+use serde::{Deserialize, Serialize};
+use std::io::{BufRead, BufReader, Read};
+use std::path::{Path, PathBuf};
+use std::process::Stdio;
+use std::sync::mpsc::channel;
+use std::sync::Arc;
+use std::time::{Duration, Instant};
+use ts_rs::TS;
+
+const MAX_HOOKS_PER_STAGE: usize = 16;
+const MIN_HOOK_TIMEOUT_MS: u64 = 1_000;
+const MAX_HOOK_TIMEOUT_MS: u64 = 1_800_000;
+const HOOK_POLL_INTERVAL: Duration = Duration::from_millis(50);
+const OUTPUT_DRAIN_TIMEOUT: Duration = Duration::from_secs(1);
+
+#[derive(Debug, Clone, PartialEq, Eq, Serialize, Deserialize, TS)]
+#[ts(export, export_to = "../../src/generated/")]
+pub struct LifecycleHook {
+    pub cmd: String,
+    /// Killed, along with everything it started, once this has passed.
+    #[serde(default = "default_hook_timeout_ms")]
+    // Tauri serializes through serde_json, so this arrives as a JSON number.
+    #[ts(type = "number")]
+    pub timeout_ms: u64,
+}
+
+fn default_hook_timeout_ms() -> u64 {
+    300_000
+}
+
+#[derive(Debug, Clone, Default, PartialEq, Eq, Serialize, Deserialize, TS)]
+#[ts(export, export_to = "../../src/generated/")]
+pub struct LifecycleHooks {
+    /// Where the hooks run. A service's hooks resolve this against the service's
+    /// directory and a workspace's against the home directory; unset means that
+    /// directory itself.
+    #[serde(default)]
+    pub cwd: Option<String>,
+    #[serde(default)]
+    pub pre_start: Vec<LifecycleHook>,
+    #[serde(default)]
+    pub post_stop: Vec<LifecycleHook>,
+}
+
+#[derive(Debug, Clone, Copy, PartialEq, Eq, Serialize, Deserialize, TS)]
+#[serde(rename_all = "snake_case")]
+#[ts(export, export_to = "../../src/generated/")]
+pub enum HookStage {
+    PreStart,
+    PostStop,
+}
+
+impl HookStage {
+    fn label(self) -> &'static str {
+        match self {
+            HookStage::PreStart => "pre-start",
+            HookStage::PostStop => "post-stop",
+        }
+    }
+}
+
+/// One hook that ran, for the workspace run's result.
+#[derive(Debug, Clone, PartialEq, Serialize, TS)]
+#[ts(export, export_to = "../../src/generated/")]
+pub struct HookRun {
+    /// The service the hook belongs to, or the workspace for its own hooks.
+    pub scope_id: String,
+    pub stage: HookStage,
+    pub cmd: String,
+    /// `None` when there was no exit code to report: the hook could not be
+    /// started, hit its timeout, or was ended by a signal.
+    pub exit_code: Option<i32>,
+    // Tauri serializes through serde_json, so this arrives as a JSON number.
+    #[ts(type = "number")]
+    pub duration_ms: u64,
+    /// Why the hook counts as failed. `None` means it exited with code 0.
+    pub error: Option<String>,
+}
+
+impl HookRun {
+    pub(crate) fn succeeded(&self) -> bool {
+        self.error.is_none()
+    }
+
+    pub(crate) fn describe(&self) -> String {
+        let outcome = match &self.error {
+            Some(error) => error.clone(),
+            None => format!("finished in {:.1} s", self.duration_ms as f64 / 1_000.0),
+        };
+        format!("{} hook `{}` {outcome}", self.stage.label(), self.cmd)
+    }
+}
+
+impl LifecycleHooks {
+    pub(crate) fn validate(&self) -> Result<(), String> {
+        if self
+            .cwd
+            .as_deref()
+            .is_some_and(|cwd| cwd.trim().is_empty() || cwd.contains('\0'))
+        {
+            return Err("hook directory cannot be blank".to_string());
+        }
+        for (stage, hooks) in [
+            (HookStage::PreStart, &self.pre_start),
+            (HookStage::PostStop, &self.post_stop),
+        ] {
+            if hooks.len() > MAX_HOOKS_PER_STAGE {
+                return Err(format!(
+                    "at most {MAX_HOOKS_PER_STAGE} {} hooks are allowed",
+                    stage.label()
+                ));
+            }
+            for hook in hooks {
+                if hook.cmd.trim().is_empty() {
+                    return Err(format!("{} hook command cannot be empty", stage.label()));
+                }
+                if !(MIN_HOOK_TIMEOUT_MS..=MAX_HOOK_TIMEOUT_MS).contains(&hook.timeout_ms) {
+                    return Err(format!(
+                        "{} hook `{}` needs a timeout between {MIN_HOOK_TIMEOUT_MS} and {MAX_HOOK_TIMEOUT_MS} ms",
+                        stage.label(),
+                        hook.cmd
+                    ));
+                }
+            }
+        }
+        Ok(())
+    }
+
+    /// The directory these hooks run in, given the one they are relative to.
+    pub(crate) fn directory(&self, base: &Path) -> PathBuf {
+        match self.cwd.as_deref() {
+            Some(cwd) => base.join(cwd.trim()),
+            None => base.to_path_buf(),
+        }
+    }
+}
+
+/// Where a workspace's own hooks run when they name no directory.
+pub(crate) fn home_directory() -> PathBuf {
+    std::env::var_os("HOME")
+        .or_else(|| std::env::var_os("USERPROFILE"))
+        .map(PathBuf::from)
+        .unwrap_or_else(std::env::temp_dir)
+}
+
+/// Runs one stage's hooks in order and returns what each did.
+///
+/// Output goes to `sink` under `scope_id` as it arrives, so a slow migration is
+/// visible while it runs rather than only once it has finished. A failing
+/// pre-start hook ends the stage there; the caller can tell from the last entry.
+pub(crate) fn run_stage(
+    sink: &Arc<dyn EventSink>,
+    scope_id: &str,
+    stage: HookStage,
+    hooks: &LifecycleHooks,
+    base: &Path,
+    environment: &ServiceEnvironment,
+) -> Vec<HookRun> {
+    let list = match stage {
+        HookStage::PreStart => &hooks.pre_start,
+        HookStage::PostStop => &hooks.post_stop,
+    };
+    let directory = hooks.directory(base);
+    let mut runs = Vec::new();
+    for hook in list {
+        let run = run_hook(sink, scope_id, stage, hook, &directory, environment);
+        let failed = !run.succeeded();
+        sink.service(ServiceEvent {
+            service_id: scope_id.to_string(),
+            kind: if failed {
+                ServiceEventKind::HookFailed
+            } else {
+                ServiceEventKind::Hook
+            },
+            message: run.describe(),
+            pid: None,
+            code: run.exit_code,
+            attempt: None,
+        });
+        runs.push(run);
+        if failed && stage == HookStage::PreStart {
+            break;
+        }
+    }
+    runs
+}
+
+fn run_hook(
+    sink: &Arc<dyn EventSink>,
+    scope_id: &str,
+    stage: HookStage,
+    hook: &LifecycleHook,
+    directory: &Path,
+    environment: &ServiceEnvironment,
+) -> HookRun {
+    let started = Instant::now();
+    let finish = |exit_code: Option<i32>, error: Option<String>| HookRun {
+        scope_id: scope_id.to_string(),
+        stage,
+        cmd: hook.cmd.clone(),
+        exit_code,
+        duration_ms: u64::try_from(started.elapsed().as_millis()).unwrap_or(u64::MAX),
+        error,
+    };
+
+    if !directory.is_dir() {
+        return finish(
+            None,
+            Some(format!(
+                "could not run: {} does not exist",
+                directory.display()
+            )),
+        );
+    }
+    let mut command = service_command(&hook.cmd, &directory.to_string_lossy(), environment);
+    command
+        .stdin(Stdio::null())
+        .stdout(Stdio::piped())
+        .stderr(Stdio::piped());
+    let mut child = match command.spawn() {
+        Ok(child) => child,
+        Err(error) => return finish(None, Some(format!("could not start: {error}"))),
+    };
+
+    // The readers are not joined outright: a hook that leaves something running
+    // in the background hands it the pipes, and they would never close.
+    let (done, finished_readers) = channel();
+    let mut readers = 0;
+    for stream in [
+        child.stdout.take().map(box_reader),
+        child.stderr.take().map(box_reader),
+    ]
+    .into_iter()
+    .flatten()
+    {
+        readers += 1;
+        let sink = sink.clone();
+        let scope_id = scope_id.to_string();
+        let done = done.clone();
+        std::thread::spawn(move || {
+            forward_output(sink.as_ref(), &scope_id, stage, stream);
+            let _ = done.send(());
+        });
+    }
+
+    let timeout = Duration::from_millis(hook.timeout_ms);
+    let status = loop {
+        match child.try_wait() {
+            Ok(Some(status)) => break Ok(status),
+            Ok(None) if started.elapsed() >= timeout => {
+                let _ = terminate_child(&mut child);
+                break Err(format!("timed out after {} s", timeout.as_secs()));
+            }
+            Ok(None) => std::thread::sleep(HOOK_POLL_INTERVAL),
+            Err(error) => {
+                let _ = terminate_child(&mut child);
+                break Err(format!("could not be waited on: {error}"));
+            }
+        }
+    };
+    // Lets the last lines land before the line saying how the hook ended.
+    for _ in 0..readers {
+        if finished_readers.recv_timeout(OUTPUT_DRAIN_TIMEOUT).is_err() {
+            break;
+        }
+    }
+
+    match status {
+        Ok(status) => match status.code() {
+            Some(0) => finish(Some(0), None),
+            Some(code) => finish(Some(code), Some(format!("exited with code {code}"))),
+            None => finish(None, Some("was ended by a signal".to_string())),
+        },
+        Err(error) => finish(None, Some(error)),
+    }
+}
+
+fn box_reader(reader: impl Read + Send + 'static) -> Box<dyn Read + Send> {
+    Box::new(reader)
+}
+
+fn forward_output(
+    sink: &dyn EventSink,
+    scope_id: &str,
+    stage: HookStage,
+    stream: Box<dyn Read + Send>,
+) {
+    let mut reader = BufReader::new(stream);
+    let mut line = Vec::new();
+    loop {
+        line.clear();
+        match reader.read_until(b'\n', &mut line) {
+            Ok(0) | Err(_) => break,
+            Ok(_) => {
+                let text = String::from_utf8_lossy(&line);
+                sink.service(ServiceEvent {
+                    service_id: scope_id.to_string(),
+                    kind: ServiceEventKind::Hook,
+                    message: format!("[{}] {}", stage.label(), text.trim_end()),
+                    pid: None,
+                    code: None,
+                    attempt: None,
+                });
+            }
+        }
+    }
+}
+
+#[cfg(test)]
+mod tests {
+    use super::*;
+    use std::sync::Mutex;
+
+    #[derive(Default)]
+    struct Lines(Mutex<Vec<ServiceEvent>>);
+
+    impl EventSink for Lines {
+        fn service(&self, event: ServiceEvent) {
+            self.0.lock().unwrap().push(event);
+        }
+
+        fn workspace(&self, _event: crate::workspace::WorkspaceEvent) {}
+    }
+
+    impl Lines {
+        fn messages(&self) -> Vec<String> {
+            self.0
+                .lock()
+                .unwrap()
+                .iter()
+                .map(|event| event.message.clone())
+                .collect()
+        }
+    }
+
+    fn hooks(pre_start: &[&str], post_stop: &[&str]) -> LifecycleHooks {
+        let list = |commands: &[&str]| {
+            commands
+                .iter()
+                .map(|cmd| LifecycleHook {
+                    cmd: cmd.to_string(),
+                    timeout_ms: 5_000,
+                })
+                .collect()
+        };
+        LifecycleHooks {
+            cwd: None,
+            pre_start: list(pre_start),
+            post_stop: list(post_stop),
+        }
+    }
+
+    #[test]
+    fn hooks_need_a_command_and_a_sane_timeout() {
+        assert!(hooks(&["docker compose up -d db"], &["rm -rf tmp"])
+            .validate()
+            .is_ok());
+        assert!(hooks(&["  "], &[])
+            .validate()
+            .unwrap_err()
+            .contains("empty"));
+        let mut hasty = hooks(&[], &["true"]);
+        hasty.post_stop[0].timeout_ms = 10;
+        assert!(hasty.validate().unwrap_err().contains("timeout"));
+        let mut blank = hooks(&["true"], &[]);
+        blank.cwd = Some(" ".to_string());
+        assert!(blank.validate().is_err());
+    }
+
+    #[test]
+    fn a_failing_pre_start_hook_stops_the_rest() {
+        let lines = Arc::new(Lines::default());
+        let sink: Arc<dyn EventSink> = lines.clone();
+        let runs = run_stage(
+            &sink,
+            "api",
+            HookStage::PreStart,
+            &hooks(&["printf 'migrating\\n'", "exit 4", "touch never"], &[]),
+            Path::new("/tmp"),
+            &ServiceEnvironment::default(),
+        );
+
+        assert_eq!(runs.len(), 2);
+        assert!(runs[0].succeeded());
+        assert_eq!(runs[1].exit_code, Some(4));
+        assert_eq!(
+            runs[1].describe(),
+            "pre-start hook `exit 4` exited with code 4"
+        );
+        let messages = lines.messages();
+        assert!(messages.contains(&"[pre-start] migrating".to_string()));
+        assert_eq!(
+            messages.last().map(String::as_str),
+            Some("pre-start hook `exit 4` exited with code 4")
+        );
+    }
+
+    #[test]
+    fn every_post_stop_hook_runs_and_sees_the_service_environment() {
+        let lines = Arc::new(Lines::default());
+        let sink: Arc<dyn EventSink> = lines.clone();
+        let environment = ServiceEnvironment {
+            inherit_system: true,
+            vars: vec![crate::services::ServiceEnvironmentVariable {
+                key: "HOOK_TEST_VALUE".to_string(),
+                value: "from-the-profile".to_string(),
+            }],
+        };
+        let runs = run_stage(
+            &sink,
+            "api",
+            HookStage::PostStop,
+            &hooks(&[], &["false", "printf '%s\\n' \"$HOOK_TEST_VALUE\""]),
+            Path::new("/tmp"),
+            &environment,
+        );
+
+        assert_eq!(runs.len(), 2);
+        assert!(!runs[0].succeeded());
+        assert!(runs[1].succeeded());
+        assert!(lines
+            .messages()
+            .contains(&"[post-stop] from-the-profile".to_string()));
+    }
+
+    #[test]
+    fn a_hook_that_never_exits_is_killed_at_its_timeout() {
+        let lines = Arc::new(Lines::default());
+        let sink: Arc<dyn EventSink> = lines.clone();
+        let mut stuck = hooks(&["sleep 30"], &[]);
+        stuck.pre_start[0].timeout_ms = 1_000;
+        let started = Instant::now();
+        let runs = run_stage(
+            &sink,
+            "db",
+            HookStage::PreStart,
+            &stuck,
+            Path::new("/tmp"),
+            &ServiceEnvironment::default(),
+        );
+
+        assert!(started.elapsed() < Duration::from_secs(10));
+        assert_eq!(runs[0].exit_code, None);
+        assert_eq!(runs[0].error.as_deref(), Some("timed out after 1 s"));
+    }
+
+    #[test]
+    fn a_missing_directory_fails_without_running_anything() {
+        let lines = Arc::new(Lines::default());
+        let sink: Arc<dyn EventSink> = lines.clone();
+        let mut elsewhere = hooks(&["true"], &[]);
+        elsewhere.cwd = Some("no-such-directory-for-hooks".to_string());
+        let runs = run_stage(
+            &sink,
+            "api",
+            HookStage::PreStart,
+            &elsewhere,
+            Path::new("/tmp"),
+            &ServiceEnvironment::default(),
+        );
+        assert!(runs[0].error.as_deref().unwrap().contains("does not exist"));
+    }
+}
@@ -0,0 +1,174 @@
+//! Turns a local URL into one a phone on the same network can open.
+//!
+//! A dev server's own URL says `localhost`, which on a phone means the phone.
+//! Whether the server can be reached from elsewhere depends on the address it
+//! bound, not on the URL it printed, so the answer comes from the listening
+//! socket: a wildcard bind is reachable at this machine's LAN address, a
+//! loopback bind is not reachable at all until the server is told to listen
+//! more widely.
+
+use serde::Serialize;
+use std::net::{IpAddr, UdpSocket};
+use ts_rs::TS;
+
+use crate::ports::{normalize_local_url, port_from_local_url, scan_all_live_ports};
+
+#[derive(Debug, Clone, Copy, PartialEq, Eq, Serialize, TS)]
+#[serde(rename_all = "snake_case")]
+#[ts(export, export_to = "../../src/generated/")]
+pub enum LanReachability {
+    Reachable,
+    /// Bound to the loopback address, so only this machine can connect.
+    LoopbackOnly,
+    NotListening,
+    /// This machine has no address on a network, such as when it is offline.
+    NoNetwork,
+}
+
+#[derive(Debug, Clone, PartialEq, Eq, Serialize, TS)]
+#[ts(export, export_to = "../../src/generated/")]
+pub struct LanAccess {
+    pub port: u16,
+    pub reachability: LanReachability,
+    /// The address the listening socket is bound to, when something listens.
+    pub bind_address: Option<String>,
+    /// The URL to open from another device, set only when it is reachable.
+    pub lan_url: Option<String>,
+}
+
+/// Checks how the port in `url` is bound right now and, when it is reachable
+/// from the network, the URL that reaches it.
+pub fn lan_access(url: &str) -> Result<LanAccess, String> {
+    let normalized = normalize_local_url(url).ok_or_else(|| format!("{url} is not a local URL"))?;
+    let port = port_from_local_url(&normalized).ok_or_else(|| format!("{url} names no port"))?;
+    let bind_address = scan_all_live_ports()
+        .into_iter()
+        .find(|live| live.port == port)
+        .map(|live| live.bind_address);
+    Ok(resolve(
+        &normalized,
+        port,
+        bind_address,
+        primary_lan_address(),
+    ))
+}
+
+fn resolve(url: &str, port: u16, bind_address: Option<String>, lan: Option<IpAddr>) -> LanAccess {
+    let reachable_at = |host: String| LanAccess {
+        port,
+        reachability: LanReachability::Reachable,
+        bind_address: bind_address.clone(),
+        lan_url: with_host(url, &host, port),
+    };
+    let unreachable = |reachability| LanAccess {
+        port,
+        reachability,
+        bind_address: bind_address.clone(),
+        lan_url: None,
+    };
+    let Some(bind) = bind_address.as_deref() else {
+        return unreachable(LanReachability::NotListening);
+    };
+    let host = bind.trim_matches(|character| character == '[' || character == ']');
+    match host.parse::<IpAddr>() {
+        _ if host.is_empty() || host == "*" => match lan {
+            Some(lan) => reachable_at(url_host(lan)),
+            None => unreachable(LanReachability::NoNetwork),
+        },
+        Ok(address) if address.is_loopback() => unreachable(LanReachability::LoopbackOnly),
+        Ok(address) if address.is_unspecified() => match lan {
+            Some(lan) => reachable_at(url_host(lan)),
+            None => unreachable(LanReachability::NoNetwork),
+        },
+        // Bound to one interface: reachable from that interface's network.
+        Ok(address) => reachable_at(url_host(address)),
+        Err(_) if host.eq_ignore_ascii_case("localhost") => {
+            unreachable(LanReachability::LoopbackOnly)
+        }
+        Err(_) => unreachable(LanReachability::NotListening),
+    }
+}
+
+fn url_host(address: IpAddr) -> String {
+    match address {
+        IpAddr::V4(address) => address.to_string(),
+        IpAddr::V6(address) => format!("[{address}]"),
+    }
+}
+
+/// `url` with its host replaced, keeping the scheme, path and query.
+fn with_host(url: &str, host: &str, port: u16) -> Option<String> {
+    let (scheme, remainder) = url.split_once("://")?;
+    let authority_end = remainder.find(['/', '?', '#']).unwrap_or(remainder.len());
+    let suffix = &remainder[authority_end..];
+    Some(format!("{scheme}://{host}:{port}{suffix}"))
+}
+
+/// The address other devices reach this machine at: the one the system would
+/// send from toward the internet. Connecting a UDP socket only picks a route
+/// and sends nothing; with no network at all there is no route to pick.
+fn primary_lan_address() -> Option<IpAddr> {
+    let socket = UdpSocket::bind("0.0.0.0:0").ok()?;
+    // A documentation address (RFC 5737), so the route is the default one.
+    socket.connect("192.0.2.1:9").ok()?;
+    let address = socket.local_addr().ok()?.ip();
+    (!address.is_loopback() && !address.is_unspecified()).then_some(address)
+}
+
+#[cfg(test)]
+mod tests {
+    use super::*;
+    use std::net::Ipv4Addr;
+
+    const LAN: Option<IpAddr> = Some(IpAddr::V4(Ipv4Addr::new(192, 168, 1, 34)));
+
+    #[test]
+    fn a_wildcard_bind_is_reachable_at_the_lan_address() {
+        let access = resolve(
+            "http://localhost:5173/app?x=1",
+            5173,
+            Some("0.0.0.0".to_string()),
+            LAN,
+        );
+        assert_eq!(access.reachability, LanReachability::Reachable);
+        assert_eq!(
+            access.lan_url.as_deref(),
+            Some("http://192.168.1.34:5173/app?x=1")
+        );
+        let dual_stack = resolve("http://localhost:5173", 5173, Some("::".to_string()), LAN);
+        assert_eq!(dual_stack.reachability, LanReachability::Reachable);
+    }
+
+    #[test]
+    fn a_loopback_bind_is_not_reachable() {
+        for bind in ["127.0.0.1", "::1", "[::1]", "localhost"] {
+            let access = resolve("http://localhost:5173", 5173, Some(bind.to_string()), LAN);
+            assert_eq!(access.reachability, LanReachability::LoopbackOnly, "{bind}");
+            assert_eq!(access.lan_url, None);
+        }
+    }
+
+    #[test]
+    fn a_specific_bind_is_reachable_at_that_address() {
+        let access = resolve(
+            "http://localhost:8000",
+            8000,
+            Some("10.0.0.7".to_string()),
+            LAN,
+        );
+        assert_eq!(access.lan_url.as_deref(), Some("http://10.0.0.7:8000"));
+    }
+
+    #[test]
+    fn reports_why_there_is_no_lan_url() {
+        let idle = resolve("http://localhost:5173", 5173, None, LAN);
+        assert_eq!(idle.reachability, LanReachability::NotListening);
+        let offline = resolve(
+            "http://localhost:5173",
+            5173,
+            Some("0.0.0.0".to_string()),
+            None,
+        );
+        assert_eq!(offline.reachability, LanReachability::NoNetwork);
+    }
+}
@@ -16,6 +16,18 @@ mod lifetime;
 mod packages;
 mod env_files;
 mod events;
+mod notifications;
+mod readiness;
+mod restart;
+mod guardrails;
+mod watch;
+mod hooks;
+mod terminal;
+mod workspace_file;
+mod manifest_import;
+mod proxy;
+mod connections;
+mod lan;
 
 use tauri::Manager;
 
@@ -29,19 +41,31 @@ macro_rules! command_handler {
     () => {
         tauri::generate_handler![
             $crate::commands::scan_ports,
+            $crate::commands::scan_port_connections,
             $crate::commands::check_port_conflicts,
+            $crate::commands::find_free_port,
+            $crate::commands::proxy_status,
+            $crate::commands::lan_access,
             $crate::commands::get_processes,
             $crate::commands::kill_process,
+            $crate::commands::get_process_tree,
             $crate::commands::start_service,
             $crate::commands::stop_service,
             $crate::commands::restart_service,
+            $crate::commands::write_service_terminal,
+            $crate::commands::resize_service_terminal,
+            $crate::commands::read_service_terminal,
             $crate::commands::list_managed_services,
             $crate::commands::start_workspace,
             $crate::commands::stop_workspace,
             $crate::commands::open_in_editor,
             $crate::commands::open_url,
+            $crate::commands::open_log_link,
             $crate::commands::scan_workspaces,
             $crate::commands::scan_workspace_groups,
+            $crate::commands::read_workspace_definition,
+            $crate::commands::write_workspace_definition,
+            $crate::commands::import_process_manifest,
             $crate::commands::find_default_workspace_roots,
             $crate::commands::create_project,
             $crate::commands::analyze_repository_health,
@@ -69,6 +93,7 @@ macro_rules! command_handler {
             $crate::commands::secret_storage_backend,
             $crate::commands::list_run_history,
             $crate::commands::read_run_log,
+            $crate::commands::restore_logs,
             $crate::commands::clear_run_history,
             $crate::commands::save_config,
             $crate::commands::github_request_device_code,
@@ -86,6 +111,8 @@ macro_rules! command_handler {
 pub fn run() {
     tauri::Builder::default()
         .manage(services::ServiceManager::default())
+        .manage(notifications::Notifier::default())
+        .manage(proxy::Proxy::default())
         .plugin(tauri_plugin_log::Builder::default().level(log::LevelFilter::Info).build())
         .plugin(tauri_plugin_shell::init())
         .plugin(tauri_plugin_fs::init())
@@ -101,6 +128,9 @@ pub fn run() {
             // resolvable once the app is built.
             match app.path().app_data_dir() {
                 Ok(dir) => {
+                    // Fixed now rather than at the first run, so runs started
+                    // by this launch are labelled with when it actually began.
+                    history::app_session_ms();
                     let history = history::History::new(&dir);
                     // Anything still marked running belongs to a previous
                     // session; the process table is in memory and did not
@@ -129,6 +159,16 @@ pub fn run() {
             tray::init(app.handle());
             autostart::reconcile(app.handle());
 
+            // Off its own thread because loading hydrates secrets from the
+            // credential store, which can be slow to answer at login.
+            let handle = app.handle().clone();
+            std::thread::spawn(move || {
+                if let Ok(Some(config)) = config::load(&handle) {
+                    handle.state::<notifications::Notifier>().configure(&config);
+                    handle.state::<proxy::Proxy>().configure(&handle, &config);
+                }
+            });
+
             let win = app.get_webview_window("main").unwrap();
             #[cfg(debug_assertions)]
             win.open_devtools();
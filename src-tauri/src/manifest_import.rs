@@ -0,0 +1,939 @@
+//! Workspaces from the process files a repository already has.
+//!
+//! Many repositories describe their processes for another tool: a `Procfile`
+//! for foreman or Heroku, a Compose file, or a PM2 ecosystem file. Importing
+//! one turns each declared process into a service with its command, directory,
+//! environment and port filled in, so a workspace does not have to be built by
+//! hand from information the repository already holds.
+//!
+//! These formats can say things Hub has no equivalent for, such as a cluster of
+//! PM2 instances or a Compose health check. Rather than guessing or quietly
+//! dropping them, each one becomes a note the interface shows for review before
+//! the workspace is saved.
+//!
+//! Nothing is saved here. The result is a draft for the interface to confirm,
+//! with service ids that are only the names the file used; the interface gives
+//! them real ids when it creates the workspace.
+
+use crate::config::{EnvVariable, StoredService};
+use crate::guardrails::{GuardrailAction, ResourceGuardrail};
+use crate::hooks::LifecycleHooks;
+use crate::restart::{RestartMode, RestartPolicy};
+use crate::watch::FileWatch;
+use crate::workspace::WorkspaceRunMode;
+use serde::Serialize;
+use serde_json::Value as JsonValue;
+use serde_yaml::Value as YamlValue;
+use std::io::Read;
+use std::path::Path;
+use std::process::{Command, Stdio};
+use std::time::{Duration, Instant};
+use ts_rs::TS;
+
+pub const PROCFILE: &str = "Procfile";
+pub const COMPOSE_FILES: [&str; 4] = [
+    "compose.yaml",
+    "compose.yml",
+    "docker-compose.yaml",
+    "docker-compose.yml",
+];
+pub const ECOSYSTEM_FILES: [&str; 3] = [
+    "ecosystem.config.js",
+    "ecosystem.config.cjs",
+    "ecosystem.config.json",
+];
+
+const MAX_MANIFEST_BYTES: u64 = 1024 * 1024;
+
+/// A JavaScript ecosystem file is evaluated with Node, which should take well
+/// under a second. One that does more than export an object is cut off.
+const ECOSYSTEM_EVAL_TIMEOUT: Duration = Duration::from_secs(10);
+
+/// foreman gives the first process port 5000 and each next one 100 more.
+const FOREMAN_BASE_PORT: u16 = 5000;
+const FOREMAN_PORT_STEP: u16 = 100;
+
+#[derive(Debug, Clone, Serialize, TS)]
+#[ts(export, export_to = "../../src/generated/")]
+pub struct ManifestImport {
+    /// The file the services came from, such as `Procfile`.
+    pub source: String,
+    /// The directory holding it, which relative paths in it start from.
+    pub directory: String,
+    pub services: Vec<ImportedService>,
+    /// Settings that were left out or only partly carried over.
+    pub notes: Vec<ImportNote>,
+}
+
+#[derive(Debug, Clone, Serialize, TS)]
+#[ts(export, export_to = "../../src/generated/")]
+pub struct ImportedService {
+    pub service: StoredService,
+    /// Variables the file sets for this process, for an environment profile.
+    pub env: Vec<EnvVariable>,
+}
+
+#[derive(Debug, Clone, PartialEq, Eq, Serialize, TS)]
+#[ts(export, export_to = "../../src/generated/")]
+pub struct ImportNote {
+    /// The process the note is about, or none for the file as a whole.
+    pub service: Option<String>,
+    pub message: String,
+}
+
+impl ImportNote {
+    fn about(service: &str, message: impl Into<String>) -> Self {
+        Self {
+            service: Some(service.to_string()),
+            message: message.into(),
+        }
+    }
+
+    fn general(message: impl Into<String>) -> Self {
+        Self {
+            service: None,
+            message: message.into(),
+        }
+    }
+}
+
+/// Whether `name` is a file this module can import.
+pub fn is_process_manifest(name: &str) -> bool {
+    name == PROCFILE || COMPOSE_FILES.contains(&name) || ECOSYSTEM_FILES.contains(&name)
+}
+
+/// Reads a `Procfile`, Compose file or PM2 ecosystem file as a draft workspace.
+pub fn import(path: &str) -> Result<ManifestImport, String> {
+    let path = Path::new(path);
+    let name = path
+        .file_name()
+        .and_then(|name| name.to_str())
+        .filter(|name| is_process_manifest(name))
+        .ok_or_else(|| format!("{} is not a Procfile, Compose or PM2 file.", path.display()))?
+        .to_string();
+    let directory = path
+        .parent()
+        .ok_or_else(|| format!("{} has no parent directory.", path.display()))?;
+    let metadata = std::fs::metadata(path)
+        .map_err(|error| format!("Could not inspect {}: {error}", path.display()))?;
+    if metadata.len() > MAX_MANIFEST_BYTES {
+        return Err(format!("{name} is larger than 1 MiB."));
+    }
+
+    let (services, notes) = if name == PROCFILE {
+        let text = read_text(path)?;
+        from_procfile(&text, directory)
+    } else if COMPOSE_FILES.contains(&name.as_str()) {
+        let text = read_text(path)?;
+        let document: YamlValue = serde_yaml::from_str(&text)
+            .map_err(|error| format!("{name} is not valid YAML: {error}"))?;
+        from_compose(&document, &name, directory)?
+    } else {
+        let config = if name.ends_with(".json") {
+            serde_json::from_str(&read_text(path)?)
+                .map_err(|error| format!("{name} is not valid JSON: {error}"))?
+        } else {
+            evaluate_ecosystem(path)?
+        };
+        from_ecosystem(&config, directory)?
+    };
+    Ok(ManifestImport {
+        source: name,
+        directory: directory.to_string_lossy().to_string(),
+        services,
+        notes,
+    })
+}
+
+fn read_text(path: &Path) -> Result<String, String> {
+    std::fs::read_to_string(path)
+        .map_err(|error| format!("Could not read {}: {error}", path.display()))
+}
+
+/// A service with everything but the command and directory left at the
+/// defaults a service added by hand gets.
+fn draft_service(name: &str, directory: &Path, cmd: String) -> StoredService {
+    StoredService {
+        id: name.to_string(),
+        name: name.to_string(),
+        repo_path: directory.to_string_lossy().to_string(),
+        script: String::new(),
+        cmd,
+        depends_on: Vec::new(),
+        run_mode: WorkspaceRunMode::Parallel,
+        order: 0,
+        env_profile_id: None,
+        expected_port: None,
+        startup_delay_ms: 0,
+        readiness_timeout_ms: 0,
+        http_probe: None,
+        log_readiness: None,
+        restart_policy: RestartPolicy::default(),
+        guardrail: None,
+        file_watch: None,
+        hooks: LifecycleHooks::default(),
+        interactive: false,
+        port_assignment: None,
+    }
+}
+
+fn variable(key: &str, value: String) -> EnvVariable {
+    EnvVariable {
+        key: key.to_string(),
+        value,
+        is_secret: crate::env_files::looks_secret(key),
+    }
+}
+
+// ── Procfile ──────────────────────────────────────────────────────────────────
+
+fn from_procfile(text: &str, directory: &Path) -> (Vec<ImportedService>, Vec<ImportNote>) {
+    let mut services = Vec::new();
+    let mut notes = Vec::new();
+    for (index, line) in text.lines().enumerate() {
+        let line = line.trim();
+        if line.is_empty() || line.starts_with('#') {
+            continue;
+        }
+        let Some((name, cmd)) = line.split_once(':').filter(|(name, cmd)| {
+            !name.is_empty()
+                && !cmd.trim().is_empty()
+                && name
+                    .chars()
+                    .all(|c| c.is_ascii_alphanumeric() || c == '_' || c == '-')
+        }) else {
+            notes.push(ImportNote::general(format!(
+                "Line {} is not `name: command` and was skipped.",
+                index + 1
+            )));
+            continue;
+        };
+        if name == "release" {
+            notes.push(ImportNote::about(
+                name,
+                "Runs once per deploy rather than staying up, so it was not imported.",
+            ));
+            continue;
+        }
+        let cmd = cmd.trim().to_string();
+        let mut imported = ImportedService {
+            service: draft_service(name, directory, cmd.clone()),
+            env: Vec::new(),
+        };
+        if let Some(port) = literal_port(&cmd) {
+            imported.service.expected_port = Some(port);
+        } else if reads_port_variable(&cmd) {
+            // Numbered by the processes imported so far, as foreman counts them.
+            let port = u16::try_from(services.len())
+                .ok()
+                .and_then(|offset| offset.checked_mul(FOREMAN_PORT_STEP))
+                .and_then(|offset| FOREMAN_BASE_PORT.checked_add(offset));
+            if let Some(port) = port {
+                imported.service.expected_port = Some(port);
+                imported.env.push(variable("PORT", port.to_string()));
+                notes.push(ImportNote::about(
+                    name,
+                    format!("Reads $PORT, which was set to {port} as foreman would."),
+                ));
+            }
+        }
+        services.push(imported);
+    }
+    if services.is_empty() && notes.is_empty() {
+        notes.push(ImportNote::general("The Procfile declares no processes."));
+    }
+    (services, notes)
+}
+
+fn reads_port_variable(cmd: &str) -> bool {
+    cmd.contains("$PORT") || cmd.contains("${PORT}")
+}
+
+/// A port written into the command itself: `-p 3000`, `--port=3000`, or a
+/// `PORT=3000` assignment in front of it.
+fn literal_port(cmd: &str) -> Option<u16> {
+    let words: Vec<&str> = cmd.split_whitespace().collect();
+    words.iter().enumerate().find_map(|(index, word)| {
+        if let Some(value) = word
+            .strip_prefix("--port=")
+            .or_else(|| word.strip_prefix("PORT="))
+        {
+            return value.parse().ok();
+        }
+        if *word == "-p" || *word == "--port" {
+            return words.get(index + 1)?.parse().ok();
+        }
+        None
+    })
+}
+
+// ── Compose ───────────────────────────────────────────────────────────────────
+
+/// Service keys that need nothing from Hub, because `docker compose up` reads
+/// them itself.
+const COMPOSE_HANDLED_BY_DOCKER: [&str; 16] = [
+    "image",
+    "build",
+    "command",
+    "entrypoint",
+    "environment",
+    "env_file",
+    "volumes",
+    "networks",
+    "container_name",
+    "restart",
+    "working_dir",
+    "labels",
+    "expose",
+    "stdin_open",
+    "tty",
+    "platform",
+];
+
+fn from_compose(
+    document: &YamlValue,
+    file_name: &str,
+    directory: &Path,
+) -> Result<(Vec<ImportedService>, Vec<ImportNote>), String> {
+    let definitions = document
+        .get("services")
+        .and_then(YamlValue::as_mapping)
+        .ok_or_else(|| format!("{file_name} has no services."))?;
+    let mut services = Vec::new();
+    let mut notes = Vec::new();
+    for (name, definition) in definitions {
+        let Some(name) = name.as_str() else {
+            continue;
+        };
+        // Running through Compose keeps the container, its image and its
+        // environment exactly as the file defines them.
+        let cmd = format!(
+            "docker compose -f {} up {}",
+            shell_quote(file_name),
+            shell_quote(name)
+        );
+        let mut service = draft_service(name, directory, cmd);
+        service.depends_on = compose_dependencies(definition, name, &mut notes);
+
+        let ports = definition
+            .get("ports")
+            .and_then(YamlValue::as_sequence)
+            .map(|ports| ports.iter().collect::<Vec<_>>())
+            .unwrap_or_default();
+        for (index, port) in ports.iter().enumerate() {
+            match published_port(port) {
+                Some(host) if index == 0 => service.expected_port = Some(host),
+                Some(host) => notes.push(ImportNote::about(
+                    name,
+                    format!("Also publishes port {host}; only the first port is checked."),
+                )),
+                None => notes.push(ImportNote::about(
+                    name,
+                    format!(
+                        "Port `{}` has no fixed host port to check.",
+                        yaml_text(port)
+                    ),
+                )),
+            }
+        }
+
+        if definition.get("healthcheck").is_some() {
+            notes.push(ImportNote::about(
+                name,
+                "Has a health check, which was not carried over. Add a readiness probe or output pattern to wait on it.",
+            ));
+        }
+        if definition.get("profiles").is_some() {
+            notes.push(ImportNote::about(
+                name,
+                "Belongs to Compose profiles, which were not carried over. Use workspace profiles instead.",
+            ));
+        }
+        if let Some(replicas) = definition
+            .get("deploy")
+            .and_then(|deploy| deploy.get("replicas"))
+            .and_then(YamlValue::as_u64)
+            .filter(|replicas| *replicas > 1)
+        {
+            notes.push(ImportNote::about(
+                name,
+                format!("Asks for {replicas} replicas; Compose still starts them, but Hub tracks them as one service."),
+            ));
+        }
+        if let Some(mapping) = definition.as_mapping() {
+            let ignored: Vec<&str> = mapping
+                .keys()
+                .filter_map(YamlValue::as_str)
+                .filter(|key| {
+                    !COMPOSE_HANDLED_BY_DOCKER.contains(key)
+                        && !["ports", "depends_on", "healthcheck", "profiles", "deploy"]
+                            .contains(key)
+                })
+                .collect();
+            if !ignored.is_empty() {
+                notes.push(ImportNote::about(
+                    name,
+                    format!("Not carried over: {}.", ignored.join(", ")),
+                ));
+            }
+        }
+        services.push(ImportedService {
+            service,
+            env: Vec::new(),
+        });
+    }
+    Ok((services, notes))
+}
+
+/// `depends_on` as a list of names or as a map with conditions. A condition
+/// becomes Hub's own readiness wait, which is noted when it asked for a health
+/// check Hub does not run.
+fn compose_dependencies(
+    definition: &YamlValue,
+    name: &str,
+    notes: &mut Vec<ImportNote>,
+) -> Vec<String> {
+    match definition.get("depends_on") {
+        Some(YamlValue::Sequence(names)) => names
+            .iter()
+            .filter_map(YamlValue::as_str)
+            .map(str::to_string)
+            .collect(),
+        Some(YamlValue::Mapping(conditions)) => conditions
+            .iter()
+            .filter_map(|(dependency, condition)| {
+                let dependency = dependency.as_str()?;
+                if condition.get("condition").and_then(YamlValue::as_str)
+                    == Some("service_healthy")
+                {
+                    notes.push(ImportNote::about(
+                        name,
+                        format!("Waits for {dependency} to be healthy; Hub waits for it to be ready instead."),
+                    ));
+                }
+                Some(dependency.to_string())
+            })
+            .collect(),
+        _ => Vec::new(),
+    }
+}
+
+/// The host side of a published port, if it is a single fixed one.
+fn published_port(port: &YamlValue) -> Option<u16> {
+    if let Some(published) = port.get("published") {
+        return match published {
+            YamlValue::Number(number) => number.as_u64().and_then(|n| u16::try_from(n).ok()),
+            YamlValue::String(text) => text.parse().ok(),
+            _ => None,
+        };
+    }
+    let text = yaml_text(port);
+    let spec = text.split('/').next().unwrap_or_default();
+    let parts: Vec<&str> = spec.rsplitn(3, ':').collect();
+    // `3000` alone publishes to a random host port.
+    if parts.len() < 2 {
+        return None;
+    }
+    parts[1].parse().ok()
+}
+
+fn yaml_text(value: &YamlValue) -> String {
+    match value {
+        YamlValue::String(text) => text.clone(),
+        YamlValue::Number(number) => number.to_string(),
+        other => serde_yaml::to_string(other)
+            .unwrap_or_default()
+            .trim()
+            .to_string(),
+    }
+}
+
+// ── PM2 ───────────────────────────────────────────────────────────────────────
+
+/// App keys this module carries over, or reports on by name.
+const PM2_HANDLED: [&str; 14] = [
+    "name",
+    "script",
+    "args",
+    "cwd",
+    "interpreter",
+    "interpreter_args",
+    "node_args",
+    "env",
+    "autorestart",
+    "max_restarts",
+    "max_memory_restart",
+    "watch",
+    "ignore_watch",
+    "watch_delay",
+];
+
+/// PM2 settings about where logs and pid files go, which Hub keeps itself.
+const PM2_IRRELEVANT: [&str; 9] = [
+    "error_file",
+    "out_file",
+    "log_file",
+    "pid_file",
+    "merge_logs",
+    "log_date_format",
+    "combine_logs",
+    "time",
+    "namespace",
+];
+
+/// Loads a JavaScript ecosystem file the way PM2 does, by requiring it.
+fn evaluate_ecosystem(path: &Path) -> Result<JsonValue, String> {
+    const SCRIPT: &str = "const config = require(process.argv[1]); \
+        process.stdout.write(JSON.stringify(config && config.default ? config.default : config));";
+    let name = path
+        .file_name()
+        .map(|name| name.to_string_lossy().to_string())
+        .unwrap_or_default();
+    let mut child = Command::new("node")
+        .arg("-e")
+        .arg(SCRIPT)
+        .arg(path)
+        .current_dir(path.parent().unwrap_or(Path::new(".")))
+        .stdin(Stdio::null())
+        .stdout(Stdio::piped())
+        .stderr(Stdio::piped())
+        .spawn()
+        .map_err(|error| format!("Could not run node to read {name}: {error}"))?;
+    // Read on threads so a large config cannot fill a pipe and stall the child.
+    let stdout = child.stdout.take().map(drain);
+    let stderr = child.stderr.take().map(drain);
+    let started = Instant::now();
+    let status = loop {
+        match child.try_wait() {
+            Ok(Some(status)) => break status,
+            Ok(None) if started.elapsed() >= ECOSYSTEM_EVAL_TIMEOUT => {
+                let _ = child.kill();
+                let _ = child.wait();
+                return Err(format!(
+                    "Reading {name} took longer than {} s.",
+                    ECOSYSTEM_EVAL_TIMEOUT.as_secs()
+                ));
+            }
+            Ok(None) => std::thread::sleep(Duration::from_millis(20)),
+            Err(error) => {
+                let _ = child.kill();
+                return Err(format!("Could not read {name}: {error}"));
+            }
+        }
+    };
+    let output = stdout
+        .and_then(|reader| reader.join().ok())
+        .unwrap_or_default();
+    if !status.success() {
+        let error = stderr
+            .and_then(|reader| reader.join().ok())
+            .unwrap_or_default();
+        let reason = error
+            .lines()
+            .find(|line| line.contains("Error"))
+            .unwrap_or("node exited with an error");
+        return Err(format!("Could not load {name}: {}", reason.trim()));
+    }
+    serde_json::from_str(&output)
+        .map_err(|error| format!("{name} did not export a config: {error}"))
+}
+
+fn drain(mut reader: impl Read + Send + 'static) -> std::thread::JoinHandle<String> {
+    std::thread::spawn(move || {
+        let mut text = String::new();
+        let _ = reader.read_to_string(&mut text);
+        text
+    })
+}
+
+fn from_ecosystem(
+    config: &JsonValue,
+    directory: &Path,
+) -> Result<(Vec<ImportedService>, Vec<ImportNote>), String> {
+    let apps = config
+        .get("apps")
+        .unwrap_or(config)
+        .as_array()
+        .ok_or_else(|| "The ecosystem file has no apps.".to_string())?;
+    let mut services = Vec::new();
+    let mut notes = Vec::new();
+    for (index, app) in apps.iter().enumerate() {
+        let Some(script) = app.get("script").and_then(JsonValue::as_str) else {
+            notes.push(ImportNote::general(format!(
+                "App {} has no script and was skipped.",
+                index + 1
+            )));
+            continue;
+        };
+        let name = app
+            .get("name")
+            .and_then(JsonValue::as_str)
+            .map(str::to_string)
+            .unwrap_or_else(|| format!("app-{}", index + 1));
+        let cwd = app
+            .get("cwd")
+            .and_then(JsonValue::as_str)
+            .map(|cwd| directory.join(cwd.trim_start_matches("./")))
+            .unwrap_or_else(|| directory.to_path_buf());
+        let mut service = draft_service(&name, &cwd, pm2_command(app, script));
+
+        let env: Vec<EnvVariable> = app
+            .get("env")
+            .and_then(JsonValue::as_object)
+            .map(|env| {
+                env.iter()
+                    .map(|(key, value)| {
+                        let value = value
+                            .as_str()
+                            .map(str::to_string)
+                            .unwrap_or_else(|| value.to_string());
+                        variable(key, value)
+                    })
+                    .collect()
+            })
+            .unwrap_or_default();
+        service.expected_port = env
+            .iter()
+            .find(|variable| variable.key == "PORT")
+            .and_then(|variable| variable.value.parse().ok());
+
+        // PM2 restarts a crashed app unless told not to, so the closest policy
+        // is to always restart.
+        let autorestart = app
+            .get("autorestart")
+            .and_then(JsonValue::as_bool)
+            .unwrap_or(true);
+        if autorestart {
+            service.restart_policy.mode = RestartMode::Always;
+            if let Some(retries) = app
+                .get("max_restarts")
+                .and_then(JsonValue::as_u64)
+                .and_then(|retries| u32::try_from(retries).ok())
+            {
+                service.restart_policy.max_retries = retries;
+            }
+        }
+        if let Some(limit) = app.get("max_memory_restart") {
+            match memory_megabytes(limit) {
+                Some(max_memory_mb) => {
+                    service.guardrail = Some(ResourceGuardrail {
+                        max_memory_mb: Some(max_memory_mb),
+                        max_cpu_percent: None,
+                        cpu_sustain_ms: crate::guardrails::default_cpu_sustain_ms(),
+                        action: GuardrailAction::Restart,
+                    })
+                }
+                None => notes.push(ImportNote::about(
+                    &name,
+                    format!("Memory limit {limit} could not be read."),
+                )),
+            }
+        }
+        service.file_watch = pm2_watch(app);
+
+        // 0, -1 and "max" all mean one instance per core.
+        let instances = match app.get("instances") {
+            Some(JsonValue::Number(count)) if count.as_i64() != Some(1) => Some(count.to_string()),
+            Some(JsonValue::String(count)) => Some(count.clone()),
+            _ => None,
+        };
+        if let Some(instances) = instances {
+            notes.push(ImportNote::about(
+                &name,
+                format!("Runs {instances} instances in PM2; Hub runs one."),
+            ));
+        }
+        if let Some(app) = app.as_object() {
+            let other_envs: Vec<&str> = app
+                .keys()
+                .map(String::as_str)
+                .filter(|key| key.starts_with("env_"))
+                .collect();
+            if !other_envs.is_empty() {
+                notes.push(ImportNote::about(
+                    &name,
+                    format!(
+                        "Only `env` was imported; {} can be added as environment profiles.",
+                        other_envs.join(", ")
+                    ),
+                ));
+            }
+            let ignored: Vec<&str> = app
+                .keys()
+                .map(String::as_str)
+                .filter(|key| {
+                    !key.starts_with("env_")
+                        && *key != "instances"
+                        && *key != "exec_mode"
+                        && !PM2_HANDLED.contains(key)
+                        && !PM2_IRRELEVANT.contains(key)
+                })
+                .collect();
+            if !ignored.is_empty() {
+                notes.push(ImportNote::about(
+                    &name,
+                    format!("Not carried over: {}.", ignored.join(", ")),
+                ));
+            }
+        }
+        services.push(ImportedService { service, env });
+    }
+    Ok((services, notes))
+}
+
+/// The command PM2 would run: the interpreter it picks for the script's
+/// extension, any interpreter arguments, the script, then its arguments.
+fn pm2_command(app: &JsonValue, script: &str) -> String {
+    let interpreter = app
+        .get("interpreter")
+        .and_then(JsonValue::as_str)
+        .map(str::to_string)
+        .or_else(|| {
+            let extension = Path::new(script).extension()?.to_str()?;
+            let interpreter = match extension {
+                "js" | "cjs" | "mjs" => "node",
+                "ts" => "ts-node",
+                "py" => "python3",
+                "rb" => "ruby",
+                "sh" => "bash",
+                "php" => "php",
+                _ => return None,
+            };
+            Some(interpreter.to_string())
+        })
+        .filter(|interpreter| interpreter != "none");
+    let mut words: Vec<String> = Vec::new();
+    if let Some(interpreter) = interpreter {
+        words.push(interpreter);
+        words.extend(
+            ["interpreter_args", "node_args"]
+                .iter()
+                .flat_map(|key| arguments(app.get(*key))),
+        );
+    }
+    words.push(shell_quote(script));
+    words.extend(arguments(app.get("args")));
+    words.join(" ")
+}
+
+/// PM2 takes arguments as one string or as a list of separate ones.
+fn arguments(value: Option<&JsonValue>) -> Vec<String> {
+    match value {
+        Some(JsonValue::String(text)) if !text.trim().is_empty() => vec![text.trim().to_string()],
+        Some(JsonValue::Array(items)) => items
+            .iter()
+            .filter_map(JsonValue::as_str)
+            .map(shell_quote)
+            .collect(),
+        _ => Vec::new(),
+    }
+}
+
+/// PM2 writes sizes like `300M` or `1G`, or plain bytes.
+fn memory_megabytes(value: &JsonValue) -> Option<u64> {
+    if let Some(bytes) = value.as_u64() {
+        return Some((bytes / (1024 * 1024)).max(1));
+    }
+    let text = value.as_str()?.trim();
+    if let Ok(bytes) = text.parse::<u64>() {
+        return Some((bytes / (1024 * 1024)).max(1));
+    }
+    let unit = text.chars().last()?;
+    let number: u64 = text[..text.len() - unit.len_utf8()].parse().ok()?;
+    match unit.to_ascii_uppercase() {
+        'K' => Some((number / 1024).max(1)),
+        'M' => Some(number),
+        'G' => number.checked_mul(1024),
+        _ => None,
+    }
+}
+
+/// `watch: true` watches the whole directory; a list watches those paths.
+fn pm2_watch(app: &JsonValue) -> Option<FileWatch> {
+    let globs: Vec<String> = match app.get("watch")? {
+        JsonValue::Bool(true) => vec!["**/*".to_string()],
+        JsonValue::String(path) => vec![watch_glob(path)],
+        JsonValue::Array(paths) => paths
+            .iter()
+            .filter_map(JsonValue::as_str)
+            .map(watch_glob)
+            .collect(),
+        _ => return None,
+    };
+    if globs.is_empty() {
+        return None;
+    }
+    let mut ignore: Vec<String> = match app.get("ignore_watch") {
+        Some(JsonValue::String(path)) => vec![watch_glob(path)],
+        Some(JsonValue::Array(paths)) => paths
+            .iter()
+            .filter_map(JsonValue::as_str)
+            .map(watch_glob)
+            .collect(),
+        _ => Vec::new(),
+    };
+    // PM2 never watches its dependencies, whatever the config says.
+    if !ignore.iter().any(|glob| glob.starts_with("node_modules")) {
+        ignore.push("node_modules/**".to_string());
+    }
+    Some(FileWatch {
+        globs,
+        ignore,
+        debounce_ms: app
+            .get("watch_delay")
+            .and_then(JsonValue::as_u64)
+            .unwrap_or(300),
+    })
+}
+
+/// A plain directory name means everything under it.
+fn watch_glob(path: &str) -> String {
+    let path = path.trim_start_matches("./").trim_end_matches('/');
+    if path.contains('*') || Path::new(path).extension().is_some() {
+        path.to_string()
+    } else {
+        format!("{path}/**")
+    }
+}
+
+fn shell_quote(word: &str) -> String {
+    if !word.is_empty()
+        && word
+            .chars()
+            .all(|c| c.is_ascii_alphanumeric() || "-_./:=@%+,".contains(c))
+    {
+        word.to_string()
+    } else {
+        format!("'{}'", word.replace('\'', "'\\''"))
+    }
+}
+
+#[cfg(test)]
+mod tests {
+    use super::*;
+
+    #[test]
+    fn a_procfile_becomes_one_service_per_process() {
+        let (services, notes) = from_procfile(
+            "# processes\nweb: bundle exec rails server -p $PORT\nworker: bundle exec sidekiq\nrelease: rails db:migrate\nvite: PORT=3036 bin/vite dev\n",
+            Path::new("/code/shop"),
+        );
+
+        let names: Vec<&str> = services.iter().map(|s| s.service.name.as_str()).collect();
+        assert_eq!(names, vec!["web", "worker", "vite"]);
+        assert_eq!(services[0].service.repo_path, "/code/shop");
+        assert_eq!(services[0].service.expected_port, Some(5000));
+        assert_eq!(services[0].env[0].value, "5000");
+        assert_eq!(services[1].service.expected_port, None);
+        assert_eq!(services[2].service.expected_port, Some(3036));
+        assert!(notes
+            .iter()
+            .any(|note| note.service.as_deref() == Some("release")));
+    }
+
+    #[test]
+    fn compose_services_run_through_compose_with_their_ports_and_dependencies() {
+        let document: YamlValue = serde_yaml::from_str(
+            r#"
+services:
+  db:
+    image: postgres:16
+    ports: ["5432:5432"]
+    healthcheck:
+      test: ["CMD", "pg_isready"]
+  api:
+    build: .
+    ports:
+      - "127.0.0.1:8080:80/tcp"
+      - "9229"
+    depends_on:
+      db:
+        condition: service_healthy
+    extra_hosts: ["host.docker.internal:host-gateway"]
+"#,
+        )
+        .unwrap();
+        let (services, notes) =
+            from_compose(&document, "compose.yaml", Path::new("/code/shop")).unwrap();
+
+        assert_eq!(
+            services[0].service.cmd,
+            "docker compose -f compose.yaml up db"
+        );
+        assert_eq!(services[0].service.expected_port, Some(5432));
+        assert_eq!(services[1].service.expected_port, Some(8080));
+        assert_eq!(services[1].service.depends_on, vec!["db".to_string()]);
+        let about = |name: &str| {
+            notes
+                .iter()
+                .filter(|note| note.service.as_deref() == Some(name))
+                .map(|note| note.message.clone())
+                .collect::<Vec<_>>()
+        };
+        assert!(about("db").iter().any(|m| m.contains("health check")));
+        assert!(about("api").iter().any(|m| m.contains("9229")));
+        assert!(about("api").iter().any(|m| m.contains("healthy")));
+        assert!(about("api").iter().any(|m| m.contains("extra_hosts")));
+    }
+
+    #[test]
+    fn pm2_apps_keep_their_command_environment_and_restart_settings() {
+        let config: JsonValue = serde_json::from_str(
+            r#"{
+                "apps": [{
+                    "name": "api",
+                    "script": "dist/server.js",
+                    "args": ["--verbose"],
+                    "cwd": "services/api",
+                    "env": { "PORT": 4000, "API_TOKEN": "abc" },
+                    "env_production": { "NODE_ENV": "production" },
+                    "instances": 4,
+                    "exec_mode": "cluster",
+                    "max_memory_restart": "300M",
+                    "watch": ["src"]
+                }, {
+                    "name": "worker",
+                    "script": "npm",
+                    "args": "run worker",
+                    "autorestart": false
+                }]
+            }"#,
+        )
+        .unwrap();
+        let (services, notes) = from_ecosystem(&config, Path::new("/code/shop")).unwrap();
+
+        let api = &services[0];
+        assert_eq!(api.service.cmd, "node dist/server.js --verbose");
+        assert_eq!(api.service.repo_path, "/code/shop/services/api");
+        assert_eq!(api.service.expected_port, Some(4000));
+        assert!(api.env.iter().any(|v| v.key == "API_TOKEN" && v.is_secret));
+        assert_eq!(api.service.restart_policy.mode, RestartMode::Always);
+        assert_eq!(
+            api.service.guardrail.as_ref().and_then(|g| g.max_memory_mb),
+            Some(300)
+        );
+        assert_eq!(
+            api.service.file_watch.as_ref().map(|w| w.globs.clone()),
+            Some(vec!["src/**".to_string()])
+        );
+        assert!(notes
+            .iter()
+            .any(|note| note.message.contains("4 instances")));
+        assert!(notes
+            .iter()
+            .any(|note| note.message.contains("env_production")));
+
+        let worker = &services[1];
+        assert_eq!(worker.service.cmd, "npm run worker");
+        assert_eq!(worker.service.restart_policy.mode, RestartMode::Never);
+    }
+
+    #[test]
+    fn only_known_process_files_are_imported() {
+        assert!(is_process_manifest("Procfile"));
+        assert!(is_process_manifest("docker-compose.yml"));
+        assert!(is_process_manifest("ecosystem.config.cjs"));
+        assert!(!is_process_manifest("package.json"));
+        assert!(import("/code/shop/package.json").is_err());
+    }
+}
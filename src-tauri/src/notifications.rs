@@ -0,0 +1,535 @@
+//! Desktop notifications for services that fail while nobody is watching.
+//!
+//! Closing to the tray keeps services running, which also means a crash happens
+//! with no window to show it in. A notification is the only way to hear about it
+//! before wondering why the API stopped answering.
+//!
+//! Everything here is opt-in and deliberately quiet: a service crash-looping
+//! under a restart policy exits over and over, and a notification per exit would
+//! be worse than none. Each service gets one notification per cooldown, and the
+//! whole application is capped per minute on top of that.
+//!
+//! Notifications are sent from the backend rather than the interface because the
+//! interface cannot be relied on while hidden: the platform webview suspends its
+//! timers, and the case this exists for is precisely the hidden one.
+
+use serde::{Deserialize, Serialize};
+use std::collections::{HashMap, VecDeque};
+use std::sync::Mutex;
+use std::time::{Duration, Instant};
+use tauri::{AppHandle, Manager};
+use ts_rs::TS;
+
+use crate::config::AppConfig;
+use crate::services::{ServiceEvent, ServiceEventKind};
+use crate::workspace::WorkspaceRunResult;
+
+/// Quiet period after notifying about a service (or a workspace run) before the
+/// same one may notify again.
+const REPEAT_COOLDOWN: Duration = Duration::from_secs(30);
+const RATE_WINDOW: Duration = Duration::from_secs(60);
+const MAX_PER_MINUTE_LIMIT: u32 = 60;
+/// Error messages can carry a whole stack of context; a notification shows a line.
+const MAX_BODY_CHARS: usize = 180;
+
+#[derive(Debug, Clone, PartialEq, Eq, Serialize, Deserialize, TS)]
+#[ts(export, export_to = "../../src/generated/")]
+pub struct NotificationPreferences {
+    /// Off until turned on: an application that starts sending notifications
+    /// after an update has not been asked to.
+    #[serde(default)]
+    pub enabled: bool,
+    /// Workspace ids whose services never notify.
+    #[serde(default)]
+    pub muted_workspaces: Vec<String>,
+    /// Ceiling across every service, so a bad morning produces a handful of
+    /// notifications rather than a wall of them.
+    #[serde(default = "default_max_per_minute")]
+    pub max_per_minute: u32,
+}
+
+impl Default for NotificationPreferences {
+    fn default() -> Self {
+        Self {
+            enabled: false,
+            muted_workspaces: Vec::new(),
+            max_per_minute: default_max_per_minute(),
+        }
+    }
+}
+
+fn default_max_per_minute() -> u32 {
+    6
+}
+
+/// What the notification says about a service, resolved from the saved
+/// workspaces because events only carry ids.
+#[derive(Debug, Clone)]
+struct ServiceLabel {
+    name: String,
+    workspace_id: String,
+    workspace_name: String,
+}
+
+#[derive(Debug, Clone, PartialEq, Eq)]
+struct Alert {
+    /// Rate-limiting identity: a service id, or a workspace id for a run summary.
+    key: String,
+    workspace_id: Option<String>,
+    title: String,
+    body: String,
+    /// Where a click takes the Logs view.
+    service_ids: Vec<String>,
+}
+
+#[derive(Default)]
+struct NotifierState {
+    preferences: NotificationPreferences,
+    labels: HashMap<String, ServiceLabel>,
+    workspace_names: HashMap<String, String>,
+    sent: VecDeque<Instant>,
+    last_by_key: HashMap<String, Instant>,
+}
+
+/// Managed state. Holds the preferences and service names from the last saved
+/// configuration, so deciding whether to notify never has to read the config
+/// file — or the credential store it hydrates from — on the supervision path.
+#[derive(Default)]
+pub struct Notifier {
+    state: Mutex<NotifierState>,
+}
+
+impl Notifier {
+    /// Refreshes preferences and names. Called at startup and on every save.
+    pub fn configure(&self, config: &AppConfig) {
+        let Ok(mut state) = self.state.lock() else {
+            return;
+        };
+        state.configure(config);
+    }
+}
+
+impl NotifierState {
+    fn configure(&mut self, config: &AppConfig) {
+        self.preferences = config.notifications.clone();
+        self.labels.clear();
+        self.workspace_names.clear();
+        for workspace in &config.user_workspaces {
+            self.workspace_names
+                .insert(workspace.id.clone(), workspace.name.clone());
+            for service in &workspace.services {
+                self.labels.insert(
+                    service.id.clone(),
+                    ServiceLabel {
+                        name: service.name.clone(),
+                        workspace_id: workspace.id.clone(),
+                        workspace_name: workspace.name.clone(),
+                    },
+                );
+            }
+        }
+    }
+
+    fn service_name(&self, service_id: &str) -> String {
+        self.labels
+            .get(service_id)
+            .map(|label| label.name.clone())
+            .unwrap_or_else(|| service_id.to_string())
+    }
+
+    /// A clean exit is not news, and neither is one with no code: that is a
+    /// signal, which is what a stop from outside Hub looks like. A guardrail
+    /// breach is, whatever it did about it.
+    fn service_alert(&self, event: &ServiceEvent) -> Option<Alert> {
+        let label = self.labels.get(&event.service_id);
+        let name = self.service_name(&event.service_id);
+        let title = match (&event.kind, event.code) {
+            (ServiceEventKind::Exited, Some(code)) if code != 0 => format!("{name} crashed"),
+            (ServiceEventKind::Error, _) => format!("{name} failed"),
+            (ServiceEventKind::Guardrail, _) => format!("{name} crossed a resource ceiling"),
+            _ => return None,
+        };
+        let body = match label {
+            Some(label) => format!("{} · {}", label.workspace_name, event.message),
+            None => event.message.clone(),
+        };
+        Some(Alert {
+            key: event.service_id.clone(),
+            workspace_id: label.map(|label| label.workspace_id.clone()),
+            title,
+            body: truncate(&body),
+            service_ids: vec![event.service_id.clone()],
+        })
+    }
+
+    /// One notification per run rather than one per service: a prerequisite that
+    /// fails takes its dependents down with it, and they are one problem.
+    fn workspace_alert(&self, result: &WorkspaceRunResult) -> Option<Alert> {
+        if result.failed.is_empty() && result.blocked.is_empty() {
+            return None;
+        }
+        let workspace_name = self
+            .workspace_names
+            .get(&result.workspace_id)
+            .cloned()
+            .unwrap_or_else(|| result.workspace_id.clone());
+        let mut parts = Vec::new();
+        if !result.failed.is_empty() {
+            parts.push(format!(
+                "{} failed to start",
+                self.name_list(result.failed.iter().map(|failure| &failure.service_id))
+            ));
+        }
+        if !result.blocked.is_empty() {
+            parts.push(format!(
+                "{} blocked",
+                self.name_list(result.blocked.iter().map(|blocked| &blocked.service_id))
+            ));
+        }
+        Some(Alert {
+            key: result.workspace_id.clone(),
+            workspace_id: Some(result.workspace_id.clone()),
+            title: format!("{workspace_name} did not fully start"),
+            body: truncate(&parts.join("; ")),
+            service_ids: result
+                .failed
+                .iter()
+                .map(|failure| failure.service_id.clone())
+                .chain(
+                    result
+                        .blocked
+                        .iter()
+                        .map(|blocked| blocked.service_id.clone()),
+                )
+                .collect(),
+        })
+    }
+
+    fn name_list<'a>(&self, ids: impl Iterator<Item = &'a String>) -> String {
+        ids.map(|id| self.service_name(id))
+            .collect::<Vec<_>>()
+            .join(", ")
+    }
+
+    /// Applies the preferences and both limits, recording the alert if it passes.
+    fn admit(&mut self, alert: &Alert, now: Instant) -> bool {
+        if !self.preferences.enabled {
+            return false;
+        }
+        if alert
+            .workspace_id
+            .as_ref()
+            .is_some_and(|id| self.preferences.muted_workspaces.contains(id))
+        {
+            return false;
+        }
+        if self
+            .last_by_key
+            .get(&alert.key)
+            .is_some_and(|last| now.duration_since(*last) < REPEAT_COOLDOWN)
+        {
+            return false;
+        }
+        while self
+            .sent
+            .front()
+            .is_some_and(|sent| now.duration_since(*sent) >= RATE_WINDOW)
+        {
+            self.sent.pop_front();
+        }
+        // Clamped rather than rejected: a hand-edited zero should mean "rarely",
+        // not a config that fails to load.
+        let limit = self
+            .preferences
+            .max_per_minute
+            .clamp(1, MAX_PER_MINUTE_LIMIT) as usize;
+        if self.sent.len() >= limit {
+            return false;
+        }
+        self.sent.push_back(now);
+        self.last_by_key.insert(alert.key.clone(), now);
+        true
+    }
+}
+
+fn truncate(text: &str) -> String {
+    let line = text.lines().next().unwrap_or_default();
+    if line.chars().count() <= MAX_BODY_CHARS {
+        return line.to_string();
+    }
+    let mut short = line.chars().take(MAX_BODY_CHARS - 1).collect::<String>();
+    short.push('…');
+    short
+}
+
+/// Notifies about a service event if it is a failure the user opted in to.
+/// Cheap when it is not, which is nearly always: it runs for every log line.
+pub fn notify_service_event(app: &AppHandle, event: &ServiceEvent) {
+    if !matches!(
+        event.kind,
+        ServiceEventKind::Exited | ServiceEventKind::Error | ServiceEventKind::Guardrail
+    ) {
+        return;
+    }
+    deliver(app, |state| state.service_alert(event));
+}
+
+/// Notifies about the services a workspace run could not start.
+pub fn notify_workspace_run(app: &AppHandle, result: &WorkspaceRunResult) {
+    deliver(app, |state| state.workspace_alert(result));
+}
+
+fn deliver(app: &AppHandle, build: impl FnOnce(&NotifierState) -> Option<Alert>) {
+    let Some(notifier) = app.try_state::<Notifier>() else {
+        return;
+    };
+    let alert = {
+        let Ok(mut state) = notifier.state.lock() else {
+            return;
+        };
+        let Some(alert) = build(&state) else {
+            return;
+        };
+        if !state.admit(&alert, Instant::now()) {
+            return;
+        }
+        alert
+    };
+    // The window in front already shows the failure.
+    if app
+        .get_webview_window("main")
+        .and_then(|window| window.is_focused().ok())
+        .unwrap_or(false)
+    {
+        return;
+    }
+    // Showing can wait on the notification daemon, and on Linux the thread then
+    // waits for the click; neither belongs on the caller's thread.
+    let app = app.clone();
+    std::thread::spawn(move || {
+        if let Err(error) = show(&app, alert) {
+            log::warn!("could not show a notification: {error}");
+        }
+    });
+}
+
+/// Freedesktop notifications report which action was taken, so a click can open
+/// the logs. The Tauri notification plugin does not pass clicks through on the
+/// desktop, which is why this talks to the notification server directly.
+#[cfg(all(unix, not(target_os = "macos")))]
+fn show(app: &AppHandle, alert: Alert) -> Result<(), String> {
+    let handle = notify_rust::Notification::new()
+        .appname("Localhost Hub")
+        .summary(&alert.title)
+        .body(&alert.body)
+        .action("default", "Show logs")
+        .show()
+        .map_err(|error| error.to_string())?;
+    let service_ids = alert.service_ids;
+    handle.wait_for_action(|action| {
+        if action == "default" {
+            open_logs(app, service_ids.clone());
+        }
+    });
+    Ok(())
+}
+
+/// macOS and Windows deliver the notification but give no click callback, so
+/// there the logs are one tray click away rather than one notification click.
+#[cfg(not(all(unix, not(target_os = "macos"))))]
+fn show(_app: &AppHandle, alert: Alert) -> Result<(), String> {
+    notify_rust::Notification::new()
+        .appname("Localhost Hub")
+        .summary(&alert.title)
+        .body(&alert.body)
+        .show()
+        .map(|_| ())
+        .map_err(|error| error.to_string())
+}
+
+/// Brings the window back and asks the interface to open the Logs view filtered
+/// to the services the notification was about.
+#[cfg(all(unix, not(target_os = "macos")))]
+fn open_logs(app: &AppHandle, service_ids: Vec<String>) {
+    use tauri::Emitter;
+
+    crate::tray::show_main_window(app);
+    let _ = app.emit("notification://open-logs", service_ids);
+}
+
+#[cfg(test)]
+mod tests {
+    use super::*;
+    use crate::config::{StoredService, StoredWorkspace};
+    use crate::workspace::{WorkspaceServiceBlocked, WorkspaceServiceFailure};
+
+    fn state(enabled: bool) -> NotifierState {
+        let service = |id: &str, name: &str| -> StoredService {
+            serde_json::from_value(serde_json::json!({
+                "id": id,
+                "name": name,
+                "repo_path": "/code/shop",
+                "script": "dev",
+                "cmd": "npm run dev",
+            }))
+            .expect("service")
+        };
+        let config = AppConfig {
+            user_workspaces: vec![StoredWorkspace {
+                id: "shop".to_string(),
+                name: "Shop".to_string(),
+                color: "#4a78c4".to_string(),
+                services: vec![service("svc-api", "api"), service("svc-web", "web")],
+                hooks: Default::default(),
+                profiles: Vec::new(),
+                definition_path: None,
+            }],
+            notifications: NotificationPreferences {
+                enabled,
+                ..NotificationPreferences::default()
+            },
+            ..AppConfig::default()
+        };
+        let mut state = NotifierState::default();
+        state.configure(&config);
+        state
+    }
+
+    fn event(kind: ServiceEventKind, code: Option<i32>, message: &str) -> ServiceEvent {
+        ServiceEvent {
+            service_id: "svc-api".to_string(),
+            kind,
+            message: message.to_string(),
+            pid: None,
+            code,
+            attempt: None,
+        }
+    }
+
+    #[test]
+    fn only_failures_become_alerts() {
+        let state = state(true);
+        assert!(state
+            .service_alert(&event(
+                ServiceEventKind::Exited,
+                Some(0),
+                "exited with code 0"
+            ))
+            .is_none());
+        assert!(state
+            .service_alert(&event(
+                ServiceEventKind::Exited,
+                None,
+                "exited with code signal"
+            ))
+            .is_none());
+        assert!(state
+            .service_alert(&event(ServiceEventKind::Stderr, None, "warning"))
+            .is_none());
+
+        let crash = state
+            .service_alert(&event(
+                ServiceEventKind::Exited,
+                Some(1),
+                "exited with code 1",
+            ))
+            .expect("crash alert");
+        assert_eq!(crash.title, "api crashed");
+        assert_eq!(crash.body, "Shop · exited with code 1");
+        assert_eq!(crash.workspace_id.as_deref(), Some("shop"));
+        assert_eq!(crash.service_ids, vec!["svc-api".to_string()]);
+
+        let ceiling = state
+            .service_alert(&event(
+                ServiceEventKind::Guardrail,
+                None,
+                "memory at 8214 MB, over its 4096 MB ceiling; restarting",
+            ))
+            .expect("guardrail alert");
+        assert_eq!(ceiling.title, "api crossed a resource ceiling");
+    }
+
+    #[test]
+    fn a_workspace_run_is_summarised_in_one_alert() {
+        let state = state(true);
+        let mut result = WorkspaceRunResult::new("shop".to_string());
+        assert!(state.workspace_alert(&result).is_none());
+
+        result.failed.push(WorkspaceServiceFailure {
+            service_id: "svc-api".to_string(),
+            error: "port 8080 is in use".to_string(),
+        });
+        result.blocked.push(WorkspaceServiceBlocked {
+            service_id: "svc-web".to_string(),
+            reason: "dependency svc-api failed".to_string(),
+        });
+        let alert = state.workspace_alert(&result).expect("alert");
+        assert_eq!(alert.title, "Shop did not fully start");
+        assert_eq!(alert.body, "api failed to start; web blocked");
+        assert_eq!(
+            alert.service_ids,
+            vec!["svc-api".to_string(), "svc-web".to_string()]
+        );
+    }
+
+    #[test]
+    fn nothing_is_admitted_until_enabled_or_while_muted() {
+        let crash = event(ServiceEventKind::Exited, Some(1), "exited with code 1");
+        let mut disabled = state(false);
+        let alert = disabled.service_alert(&crash).expect("alert");
+        assert!(!disabled.admit(&alert, Instant::now()));
+
+        let mut muted = state(true);
+        muted.preferences.muted_workspaces = vec!["shop".to_string()];
+        assert!(!muted.admit(&alert, Instant::now()));
+
+        // A service outside any workspace has nothing to be muted by.
+        let mut unassigned = state(true);
+        unassigned.preferences.muted_workspaces = vec!["shop".to_string()];
+        let direct = Alert {
+            workspace_id: None,
+            ..alert
+        };
+        assert!(unassigned.admit(&direct, Instant::now()));
+    }
+
+    #[test]
+    fn repeats_wait_out_the_cooldown_and_the_minute_is_capped() {
+        let mut state = state(true);
+        state.preferences.max_per_minute = 2;
+        let alert = |key: &str| Alert {
+            key: key.to_string(),
+            workspace_id: None,
+            title: key.to_string(),
+            body: String::new(),
+            service_ids: vec![key.to_string()],
+        };
+        let start = Instant::now();
+
+        assert!(state.admit(&alert("api"), start));
+        assert!(!state.admit(&alert("api"), start + Duration::from_secs(5)));
+        assert!(state.admit(&alert("web"), start + Duration::from_secs(6)));
+        // Third distinct service inside the same minute: over the cap.
+        assert!(!state.admit(&alert("worker"), start + Duration::from_secs(7)));
+
+        let later = start + RATE_WINDOW + Duration::from_secs(1);
+        assert!(state.admit(&alert("worker"), later));
+        assert!(state.admit(&alert("api"), later));
+    }
+
+    #[test]
+    fn long_messages_are_cut_to_one_short_line() {
+        assert_eq!(truncate("first line\nsecond line"), "first line");
+        let long = "x".repeat(MAX_BODY_CHARS + 20);
+        let short = truncate(&long);
+        assert_eq!(short.chars().count(), MAX_BODY_CHARS);
+        assert!(short.ends_with('…'));
+    }
+
+    #[test]
+    fn older_configs_leave_notifications_off() {
+        let preferences: NotificationPreferences = serde_json::from_str("{}").expect("deserialize");
+        assert_eq!(preferences, NotificationPreferences::default());
+        assert!(!preferences.enabled);
+    }
+}
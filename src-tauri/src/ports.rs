@@ -18,15 +18,100 @@ pub struct LivePort {
 /// desktop platform. Output parsing stays separate because ss, lsof, and
 /// Windows netstat do not share a format.
 pub fn scan_live_ports() -> Vec<LivePort> {
+    scan_live_ports_with(&[])
+}
+
+/// The same scan, keeping any of `watched` even below 1024: a port someone
+/// asked to watch is shown wherever it sits, whether that is 5432 or 443.
+pub fn scan_live_ports_with(watched: &[u16]) -> Vec<LivePort> {
     let mut ports = scan_all_live_ports();
-    ports.retain(|port| port.port >= 1024);
+    ports.retain(|port| port.port >= 1024 || watched.contains(&port.port));
     ports
 }
 
+/// Which tier of the Ports map a watched port is drawn in.
+#[derive(Debug, Clone, Copy, Default, Serialize, Deserialize, PartialEq, Eq, TS)]
+#[serde(rename_all = "snake_case")]
+#[ts(export, export_to = "../../src/generated/")]
+pub enum PortGroup {
+    Web,
+    #[default]
+    Api,
+    Db,
+    Edge,
+}
+
+/// A port run outside Hub, such as Postgres from a package manager or Redis in
+/// Docker. It appears on the Ports map like a service's port, and workspace
+/// services can list its id in `depends_on` to wait for it at boot.
+#[derive(Debug, Clone, Serialize, Deserialize, PartialEq, Eq, TS)]
+#[ts(export, export_to = "../../src/generated/")]
+pub struct WatchedPort {
+    pub id: String,
+    pub port: u16,
+    pub label: String,
+    #[serde(default)]
+    pub group: PortGroup,
+    /// Draws the port in this workspace's column and offers it only to that
+    /// workspace's services. Without one, every workspace can depend on it.
+    #[serde(default)]
+    pub workspace_id: Option<String>,
+}
+
+impl WatchedPort {
+    pub fn describe(&self) -> String {
+        format!("{} on :{}", self.label, self.port)
+    }
+}
+
+/// The ones among `ports` that something is listening on.
+pub fn listening_ports(ports: &[u16]) -> std::collections::HashSet<u16> {
+    scan_all_live_ports()
+        .into_iter()
+        .map(|port| port.port)
+        .filter(|port| ports.contains(port))
+        .collect()
+}
+
 pub fn find_port_conflicts(expected_ports: &[u16]) -> Vec<LivePort> {
     find_conflicts_in(expected_ports, scan_all_live_ports())
 }
 
+/// How far past a taken port to look before giving up.
+const FREE_PORT_SEARCH_LIMIT: usize = 200;
+
+/// The first port above `taken` that nothing listens on, that is not in
+/// `reserved`, and that a test bind confirms is actually free. Ports other
+/// services in the same workspace expect go in `reserved`, so moving one
+/// service does not walk it into the next one's port.
+pub fn find_free_port(taken: u16, reserved: &[u16]) -> Option<u16> {
+    next_free_port(taken, reserved, &scan_all_live_ports(), can_bind)
+}
+
+fn next_free_port(
+    taken: u16,
+    reserved: &[u16],
+    live_ports: &[LivePort],
+    can_bind: impl Fn(u16) -> bool,
+) -> Option<u16> {
+    let unavailable = live_ports
+        .iter()
+        .map(|port| port.port)
+        .chain(reserved.iter().copied())
+        .collect::<std::collections::HashSet<_>>();
+    (taken.saturating_add(1)..=u16::MAX)
+        .take(FREE_PORT_SEARCH_LIMIT)
+        .find(|port| !unavailable.contains(port) && can_bind(*port))
+}
+
+/// The scan can miss a listener it has no permission to see, so a port is only
+/// offered once both loopback and the wildcard address accept a bind.
+fn can_bind(port: u16) -> bool {
+    ["127.0.0.1", "0.0.0.0"]
+        .iter()
+        .all(|host| std::net::TcpListener::bind((*host, port)).is_ok())
+}
+
 pub(crate) fn scan_all_live_ports() -> Vec<LivePort> {
     let mut ports = scan_platform_ports();
     enrich_process_names(&mut ports);
@@ -94,7 +179,7 @@ fn scan_platform_ports() -> Vec<LivePort> {
         .unwrap_or_default()
 }
 
-fn successful_output(command: &mut Command) -> Option<Output> {
+pub(crate) fn successful_output(command: &mut Command) -> Option<Output> {
     command.output().ok().filter(|output| output.status.success())
 }
 
@@ -165,7 +250,7 @@ fn live_port(
     }
 }
 
-fn parse_bind_endpoint(value: &str) -> Option<(String, u16)> {
+pub(crate) fn parse_bind_endpoint(value: &str) -> Option<(String, u16)> {
     let cleaned = value
         .trim()
         .trim_end_matches("(LISTEN)")
@@ -178,7 +263,7 @@ fn parse_bind_endpoint(value: &str) -> Option<(String, u16)> {
     Some((host, port))
 }
 
-fn extract_ss_pid_name(line: &str) -> (Option<u32>, Option<String>) {
+pub(crate) fn extract_ss_pid_name(line: &str) -> (Option<u32>, Option<String>) {
     let Some(start) = line.find("users:((\"") else {
         return (None, None);
     };
@@ -292,7 +377,7 @@ fn split_host_port(authority: &str) -> Option<(&str, Option<u16>)> {
     }
 }
 
-fn strip_ansi(value: &str) -> String {
+pub(crate) fn strip_ansi(value: &str) -> String {
     let mut result = String::with_capacity(value.len());
     let mut characters = value.chars().peekable();
     while let Some(character) = characters.next() {
@@ -327,6 +412,16 @@ mod tests {
         assert_eq!(ports[1].bind_address, "::");
     }
 
+    #[test]
+    fn free_port_skips_listeners_reserved_ports_and_failed_binds() {
+        let live = parse_ss_output(
+            "LISTEN 0 511 127.0.0.1:3001 0.0.0.0:* users:((\"node\",pid=21842,fd=23))",
+        );
+        let port = next_free_port(3000, &[3002], &live, |port| port != 3003);
+        assert_eq!(port, Some(3004));
+        assert_eq!(next_free_port(u16::MAX, &[], &[], |_| true), None);
+    }
+
     #[test]
     fn parses_lsof_and_windows_netstat_listeners() {
         let lsof = parse_lsof_output(
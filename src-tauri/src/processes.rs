@@ -1,5 +1,6 @@
 use serde::{Deserialize, Serialize};
 use ts_rs::TS;
+use std::collections::{HashMap, HashSet};
 use std::sync::{Mutex, OnceLock};
 use sysinfo::{MemoryRefreshKind, ProcessRefreshKind, ProcessesToUpdate, RefreshKind, System};
 
@@ -71,19 +72,128 @@ pub fn get_dev_processes() -> Vec<ProcessInfo> {
             let name = p.name().to_string_lossy().to_lowercase();
             dev_names.iter().any(|dn| name.contains(dn))
         })
-        .map(|p| ProcessInfo {
-            pid: p.pid().as_u32(),
-            name: p.name().to_string_lossy().to_string(),
-            cmd: p.cmd().iter().map(|s| s.to_string_lossy().to_string()).collect(),
-            cwd: p.cwd().map(|c| c.to_string_lossy().to_string()),
-            cpu_usage: p.cpu_usage(),
-            memory_kb: p.memory() / 1024,
-            status: format!("{:?}", p.status()),
-        })
+        .map(process_info)
         .collect()
     })
 }
 
+/// Every process on the machine, for the Processes view. Threads are left out,
+/// as in the tree, since each would repeat its process's command and memory.
+pub fn get_all_processes() -> Vec<ProcessInfo> {
+    with_processes(|system| {
+        system
+            .processes()
+            .values()
+            .filter(|process| process.thread_kind().is_none())
+            .map(process_info)
+            .collect()
+    })
+}
+
+fn process_info(process: &sysinfo::Process) -> ProcessInfo {
+    ProcessInfo {
+        pid: process.pid().as_u32(),
+        name: process.name().to_string_lossy().to_string(),
+        cmd: process
+            .cmd()
+            .iter()
+            .map(|part| part.to_string_lossy().to_string())
+            .collect(),
+        cwd: process.cwd().map(|cwd| cwd.to_string_lossy().to_string()),
+        cpu_usage: process.cpu_usage(),
+        memory_kb: process.memory() / 1024,
+        status: format!("{:?}", process.status()),
+    }
+}
+
+/// One process in the tree under a service, as the process inspector draws it.
+#[derive(Debug, Clone, PartialEq, Serialize, TS)]
+#[ts(export, export_to = "../../src/generated/")]
+pub struct ProcessNode {
+    pub pid: u32,
+    pub name: String,
+    pub cmd: Vec<String>,
+    pub cpu_usage: f32,
+    // Tauri serializes through serde_json, so this arrives as a JSON number.
+    #[ts(type = "number")]
+    pub memory_kb: u64,
+    /// Ports this process listens on itself. A port held by a child is listed on
+    /// the child, which is the point: it says which one to kill.
+    pub ports: Vec<u16>,
+    pub children: Vec<ProcessNode>,
+}
+
+/// The tree rooted at `pid`, or `None` once it has exited.
+pub fn get_process_tree(pid: u32) -> Option<ProcessNode> {
+    let mut ports = HashMap::<u32, Vec<u16>>::new();
+    for live in crate::ports::scan_all_live_ports() {
+        if let Some(owner) = live.pid {
+            ports.entry(owner).or_default().push(live.port);
+        }
+    }
+    with_processes(|system| {
+        let flat = system
+            .processes()
+            .values()
+            // On Linux the table also lists threads, which share their process's
+            // ports and memory and would only repeat it.
+            .filter(|process| process.thread_kind().is_none())
+            .map(|process| {
+                let pid = process.pid().as_u32();
+                let node = ProcessNode {
+                    pid,
+                    name: process.name().to_string_lossy().to_string(),
+                    cmd: process
+                        .cmd()
+                        .iter()
+                        .map(|part| part.to_string_lossy().to_string())
+                        .collect(),
+                    cpu_usage: process.cpu_usage(),
+                    memory_kb: process.memory() / 1024,
+                    ports: ports.remove(&pid).unwrap_or_default(),
+                    children: Vec::new(),
+                };
+                (process.parent().map(|parent| parent.as_u32()), node)
+            })
+            .collect::<Vec<_>>();
+        assemble_tree(pid, flat)
+    })
+}
+
+/// Builds the tree under `root` from `(parent, node)` pairs. Children are in
+/// pid order, which for a service is close enough to start order.
+fn assemble_tree(root: u32, flat: Vec<(Option<u32>, ProcessNode)>) -> Option<ProcessNode> {
+    let mut by_parent = HashMap::<u32, Vec<ProcessNode>>::new();
+    let mut root_node = None;
+    for (parent, node) in flat {
+        if node.pid == root {
+            root_node = Some(node);
+        } else if let Some(parent) = parent {
+            by_parent.entry(parent).or_default().push(node);
+        }
+    }
+    let mut root_node = root_node?;
+    // A reused pid can in principle make the parent links loop; each pid is
+    // placed once so that cannot recurse forever.
+    let mut placed = HashSet::from([root]);
+    attach_children(&mut root_node, &mut by_parent, &mut placed);
+    Some(root_node)
+}
+
+fn attach_children(
+    node: &mut ProcessNode,
+    by_parent: &mut HashMap<u32, Vec<ProcessNode>>,
+    placed: &mut HashSet<u32>,
+) {
+    let mut children = by_parent.remove(&node.pid).unwrap_or_default();
+    children.retain(|child| placed.insert(child.pid));
+    children.sort_by_key(|child| child.pid);
+    for child in &mut children {
+        attach_children(child, by_parent, placed);
+    }
+    node.children = children;
+}
+
 #[derive(Debug, Clone, Serialize, Deserialize, TS)]
 #[ts(export, export_to = "../../src/generated/")]
 pub struct SystemStats {
@@ -95,6 +205,9 @@ pub struct SystemStats {
     #[ts(type = "number")]
     pub memory_total_mb: u64,
     pub load_avg: [f64; 3],
+    /// Logical cores. A process's CPU is a percentage of one core, so this is what
+    /// turns a sum of those into a share of `cpu_usage`.
+    pub cpu_count: u32,
 }
 
 pub fn get_system_stats() -> SystemStats {
@@ -120,6 +233,7 @@ pub fn get_system_stats() -> SystemStats {
         memory_used_mb: sys.used_memory() / 1024 / 1024,
         memory_total_mb: sys.total_memory() / 1024 / 1024,
         load_avg: [load.one, load.five, load.fifteen],
+        cpu_count: sys.cpus().len() as u32,
     }
 }
 
@@ -165,6 +279,48 @@ mod tests {
         );
     }
 
+    fn node(pid: u32) -> ProcessNode {
+        ProcessNode {
+            pid,
+            name: format!("p{pid}"),
+            cmd: Vec::new(),
+            cpu_usage: 0.0,
+            memory_kb: 0,
+            ports: Vec::new(),
+            children: Vec::new(),
+        }
+    }
+
+    #[test]
+    fn assembles_only_the_tree_under_the_root() {
+        // pnpm (10) → node (12) → esbuild (30), next to an unrelated shell (11).
+        let flat = vec![
+            (Some(1), node(11)),
+            (Some(12), node(30)),
+            (Some(1), node(10)),
+            (Some(10), node(12)),
+            (Some(10), node(13)),
+        ];
+        let tree = assemble_tree(10, flat).expect("root is listed");
+        let pids = |node: &ProcessNode| {
+            node.children
+                .iter()
+                .map(|child| child.pid)
+                .collect::<Vec<_>>()
+        };
+        assert_eq!(pids(&tree), vec![12, 13]);
+        assert_eq!(pids(&tree.children[0]), vec![30]);
+        assert!(assemble_tree(99, Vec::new()).is_none());
+    }
+
+    #[test]
+    fn a_looping_parent_link_does_not_recurse_forever() {
+        let flat = vec![(Some(21), node(20)), (Some(20), node(21))];
+        let tree = assemble_tree(20, flat).expect("root is listed");
+        assert_eq!(tree.children.len(), 1);
+        assert!(tree.children[0].children.is_empty());
+    }
+
     fn count_busy(system: &System) -> usize {
         system
             .processes()
@@ -0,0 +1,510 @@
+//! An optional local reverse proxy that gives managed services stable names.
+//!
+//! A dev server takes whichever port is free when it starts, so `web` is on 5173
+//! one day and 5174 the next. With the proxy on, it is always
+//! `web.shop.localhost:<proxy port>`: browsers resolve any `*.localhost` name to
+//! the loopback address, and the proxy forwards by `Host` header to whatever
+//! port the service bound this time.
+//!
+//! Routing is resolved per connection rather than fixed at start, from the
+//! ports and URLs the supervisor already reports for each service, so a service
+//! that restarts on a new port is followed without anything being reconfigured.
+//! After the request head, bytes are copied both ways untouched, which is what
+//! lets websocket upgrades such as hot reload through.
+
+use serde::{Deserialize, Serialize};
+use std::collections::HashMap;
+use std::sync::{Arc, Mutex, RwLock};
+use std::time::{Duration, Instant};
+use tauri::{AppHandle, Manager};
+use tokio::io::{AsyncReadExt, AsyncWriteExt};
+use tokio::net::{TcpListener, TcpStream};
+use ts_rs::TS;
+
+use crate::config::AppConfig;
+use crate::ports::port_from_local_url;
+use crate::services::{ManagedServiceInfo, ServiceManager};
+
+pub const DEFAULT_PROXY_PORT: u16 = 1355;
+/// Longest request head accepted before the `Host` header has to have arrived.
+const MAX_HEAD_BYTES: usize = 64 * 1024;
+/// How long the service ports read from the supervisor are trusted. Listing
+/// them walks the process table, which is too slow to do per connection.
+const PORT_CACHE_TTL: Duration = Duration::from_secs(2);
+/// The floor on re-reading ports after a failed connect, so a burst of requests
+/// to a stopped service does not walk the process table once each.
+const MIN_PORT_REFRESH: Duration = Duration::from_millis(250);
+const CONNECT_TIMEOUT: Duration = Duration::from_secs(2);
+
+#[derive(Debug, Clone, PartialEq, Eq, Serialize, Deserialize, TS)]
+#[ts(export, export_to = "../../src/generated/")]
+pub struct ProxySettings {
+    /// Off until turned on, since it listens on a port of its own.
+    #[serde(default)]
+    pub enabled: bool,
+    /// Above 1024 by default, so no elevated privileges are needed to bind it.
+    #[serde(default = "default_proxy_port")]
+    pub port: u16,
+}
+
+impl Default for ProxySettings {
+    fn default() -> Self {
+        Self {
+            enabled: false,
+            port: DEFAULT_PROXY_PORT,
+        }
+    }
+}
+
+fn default_proxy_port() -> u16 {
+    DEFAULT_PROXY_PORT
+}
+
+#[derive(Debug, Clone, PartialEq, Eq, Serialize, TS)]
+#[ts(export, export_to = "../../src/generated/")]
+pub struct ProxyStatus {
+    pub enabled: bool,
+    pub port: u16,
+    /// Whether the listener is actually up, which `enabled` alone does not say.
+    pub running: bool,
+    /// Why the listener could not start, such as the port being taken.
+    pub error: Option<String>,
+}
+
+#[derive(Debug, Clone, PartialEq, Eq)]
+struct ProxyRoute {
+    hostname: String,
+    service_id: String,
+}
+
+#[derive(Default)]
+struct PortCache {
+    refreshed: Option<Instant>,
+    ports: HashMap<String, u16>,
+}
+
+struct Server {
+    port: u16,
+    task: tauri::async_runtime::JoinHandle<()>,
+}
+
+#[derive(Default)]
+struct ServerState {
+    settings: ProxySettings,
+    running: Option<Server>,
+    error: Option<String>,
+}
+
+#[derive(Default)]
+pub struct Proxy {
+    routes: Arc<RwLock<Vec<ProxyRoute>>>,
+    ports: Arc<Mutex<PortCache>>,
+    server: Mutex<ServerState>,
+}
+
+impl Proxy {
+    /// Refreshes the hostnames and starts, moves or stops the listener to match
+    /// the settings. Called at startup and on every save.
+    pub fn configure(&self, app: &AppHandle, config: &AppConfig) {
+        if let Ok(mut routes) = self.routes.write() {
+            *routes = routes_for(config);
+        }
+        let Ok(mut server) = self.server.lock() else {
+            return;
+        };
+        server.settings = config.proxy.clone();
+        let wanted = config.proxy.enabled.then_some(config.proxy.port);
+        if wanted.is_some() && server.running.as_ref().map(|running| running.port) == wanted {
+            return;
+        }
+        if let Some(running) = server.running.take() {
+            running.task.abort();
+        }
+        server.error = None;
+        let Some(port) = wanted else {
+            return;
+        };
+        match bind(port) {
+            Ok(listener) => {
+                let task = tauri::async_runtime::spawn(serve(
+                    listener,
+                    app.clone(),
+                    Arc::clone(&self.routes),
+                    Arc::clone(&self.ports),
+                ));
+                server.running = Some(Server { port, task });
+            }
+            Err(error) => {
+                log::warn!("the local proxy could not listen on port {port}: {error}");
+                server.error = Some(format!("Could not listen on port {port}: {error}"));
+            }
+        }
+    }
+
+    pub fn status(&self) -> ProxyStatus {
+        let Ok(server) = self.server.lock() else {
+            return ProxyStatus {
+                enabled: false,
+                port: DEFAULT_PROXY_PORT,
+                running: false,
+                error: Some("The proxy state is unavailable".to_string()),
+            };
+        };
+        ProxyStatus {
+            enabled: server.settings.enabled,
+            port: server.settings.port,
+            running: server.running.is_some(),
+            error: server.error.clone(),
+        }
+    }
+}
+
+/// One DNS label from a service or workspace name: lowercase ASCII letters and
+/// digits, with every other run of characters turned into a single hyphen.
+/// `proxy.ts` mirrors this, so the interface shows the names routed here.
+fn hostname_label(name: &str) -> String {
+    let mut label = String::new();
+    for character in name.chars() {
+        if character.is_ascii_alphanumeric() {
+            label.push(character.to_ascii_lowercase());
+        } else if !label.ends_with('-') {
+            label.push('-');
+        }
+    }
+    let label = label.trim_matches('-');
+    let label = label[..label.len().min(63)].trim_end_matches('-');
+    if label.is_empty() {
+        "unnamed".to_string()
+    } else {
+        label.to_string()
+    }
+}
+
+fn hostname(workspace_name: &str, service_name: &str) -> String {
+    format!(
+        "{}.{}.localhost",
+        hostname_label(service_name),
+        hostname_label(workspace_name)
+    )
+}
+
+/// Every saved service's hostname. When two names reduce to the same one, the
+/// first in workspace order keeps it.
+fn routes_for(config: &AppConfig) -> Vec<ProxyRoute> {
+    let mut routes: Vec<ProxyRoute> = Vec::new();
+    for workspace in &config.user_workspaces {
+        for service in &workspace.services {
+            let hostname = hostname(&workspace.name, &service.name);
+            if routes.iter().any(|route| route.hostname == hostname) {
+                log::info!(
+                    "{hostname} is already routed; {} is left without one",
+                    service.id
+                );
+                continue;
+            }
+            routes.push(ProxyRoute {
+                hostname,
+                service_id: service.id.clone(),
+            });
+        }
+    }
+    routes
+}
+
+/// The port a service's name should reach: the one in the first URL it printed,
+/// which is the one it announced, and otherwise the lowest it listens on.
+fn served_port(service: &ManagedServiceInfo) -> Option<u16> {
+    service
+        .urls
+        .iter()
+        .find_map(|url| port_from_local_url(url))
+        .or_else(|| service.ports.first().copied())
+}
+
+/// The `Host` header of a request head, lowercased and without its port.
+fn request_host(head: &[u8]) -> Option<String> {
+    let text = String::from_utf8_lossy(head);
+    let value = text
+        .split("\r\n")
+        .skip(1)
+        .take_while(|line| !line.is_empty())
+        .find_map(|line| {
+            let (name, value) = line.split_once(':')?;
+            name.trim()
+                .eq_ignore_ascii_case("host")
+                .then(|| value.trim().to_string())
+        })?;
+    let host = match value.rsplit_once(':') {
+        Some((host, port)) if port.chars().all(|c| c.is_ascii_digit()) => host,
+        _ => value.as_str(),
+    };
+    let host = host.trim_end_matches('.').to_ascii_lowercase();
+    (!host.is_empty()).then_some(host)
+}
+
+fn bind(port: u16) -> std::io::Result<std::net::TcpListener> {
+    let listener = std::net::TcpListener::bind(("127.0.0.1", port))?;
+    listener.set_nonblocking(true)?;
+    Ok(listener)
+}
+
+async fn serve(
+    listener: std::net::TcpListener,
+    app: AppHandle,
+    routes: Arc<RwLock<Vec<ProxyRoute>>>,
+    ports: Arc<Mutex<PortCache>>,
+) {
+    let listener = match TcpListener::from_std(listener) {
+        Ok(listener) => listener,
+        Err(error) => {
+            log::warn!("the local proxy could not start listening: {error}");
+            return;
+        }
+    };
+    loop {
+        let client = match listener.accept().await {
+            Ok((client, _)) => client,
+            Err(error) => {
+                // Usually out of file descriptors; pausing lets some close.
+                log::debug!("the local proxy could not accept a connection: {error}");
+                tokio::time::sleep(Duration::from_millis(100)).await;
+                continue;
+            }
+        };
+        let app = app.clone();
+        let routes = Arc::clone(&routes);
+        let ports = Arc::clone(&ports);
+        tauri::async_runtime::spawn(async move {
+            if let Err(error) = forward(client, &app, &routes, &ports).await {
+                log::debug!("proxied connection ended: {error}");
+            }
+        });
+    }
+}
+
+async fn forward(
+    mut client: TcpStream,
+    app: &AppHandle,
+    routes: &RwLock<Vec<ProxyRoute>>,
+    ports: &Mutex<PortCache>,
+) -> Result<(), String> {
+    let Some(head) = read_head(&mut client).await? else {
+        return Ok(());
+    };
+    let Some(host) = request_host(&head) else {
+        return respond(
+            &mut client,
+            "400 Bad Request",
+            "The request has no Host header.",
+        )
+        .await;
+    };
+    let service_id = routes.read().ok().and_then(|routes| {
+        routes
+            .iter()
+            .find(|route| route.hostname == host)
+            .map(|route| route.service_id.clone())
+    });
+    let Some(service_id) = service_id else {
+        let body = format!(
+            "No service is named {host}. Names take the form <service>.<workspace>.localhost."
+        );
+        return respond(&mut client, "404 Not Found", &body).await;
+    };
+
+    // A failed connect may mean the service moved since the ports were last
+    // read, so it gets one more try against a fresh reading.
+    let mut upstream = None;
+    for refresh in [false, true] {
+        let Some(port) = port_for(app, ports, &service_id, refresh).await else {
+            continue;
+        };
+        upstream = connect_local(port).await;
+        if upstream.is_some() {
+            break;
+        }
+    }
+    let Some(mut upstream) = upstream else {
+        let body = format!("{host} is not running, or has not opened a port yet.");
+        return respond(&mut client, "502 Bad Gateway", &body).await;
+    };
+    upstream
+        .write_all(&head)
+        .await
+        .map_err(|error| error.to_string())?;
+    tokio::io::copy_bidirectional(&mut client, &mut upstream)
+        .await
+        .map_err(|error| error.to_string())?;
+    Ok(())
+}
+
+async fn read_head(client: &mut TcpStream) -> Result<Option<Vec<u8>>, String> {
+    let mut head = Vec::new();
+    let mut chunk = [0u8; 4096];
+    loop {
+        let read = client
+            .read(&mut chunk)
+            .await
+            .map_err(|error| error.to_string())?;
+        if read == 0 {
+            return Ok(None);
+        }
+        head.extend_from_slice(&chunk[..read]);
+        if head.windows(4).any(|window| window == b"\r\n\r\n") {
+            return Ok(Some(head));
+        }
+        if head.len() > MAX_HEAD_BYTES {
+            return Err("the request head is too large".to_string());
+        }
+    }
+}
+
+async fn port_for(
+    app: &AppHandle,
+    cache: &Mutex<PortCache>,
+    service_id: &str,
+    refresh: bool,
+) -> Option<u16> {
+    let max_age = if refresh {
+        MIN_PORT_REFRESH
+    } else {
+        PORT_CACHE_TTL
+    };
+    {
+        let cache = cache.lock().ok()?;
+        let fresh = cache
+            .refreshed
+            .is_some_and(|refreshed| refreshed.elapsed() < max_age);
+        if fresh {
+            return cache.ports.get(service_id).copied();
+        }
+    }
+    let handle = app.clone();
+    let services =
+        tauri::async_runtime::spawn_blocking(move || handle.state::<ServiceManager>().list())
+            .await
+            .ok()?
+            .ok()?;
+    let mut cache = cache.lock().ok()?;
+    cache.ports = services
+        .iter()
+        .filter_map(|service| Some((service.service_id.clone(), served_port(service)?)))
+        .collect();
+    cache.refreshed = Some(Instant::now());
+    cache.ports.get(service_id).copied()
+}
+
+/// Dev servers bind `localhost`, which some resolve to `::1` alone, so both
+/// loopback addresses are tried.
+async fn connect_local(port: u16) -> Option<TcpStream> {
+    for host in ["127.0.0.1", "::1"] {
+        if let Ok(Ok(stream)) =
+            tokio::time::timeout(CONNECT_TIMEOUT, TcpStream::connect((host, port))).await
+        {
+            return Some(stream);
+        }
+    }
+    None
+}
+
+async fn respond(client: &mut TcpStream, status: &str, body: &str) -> Result<(), String> {
+    let response = format!(
+        "HTTP/1.1 {status}\r\nContent-Type: text/plain; charset=utf-8\r\nContent-Length: {}\r\nConnection: close\r\n\r\n{body}",
+        body.len()
+    );
+    client
+        .write_all(response.as_bytes())
+        .await
+        .map_err(|error| error.to_string())
+}
+
+#[cfg(test)]
+mod tests {
+    use super::*;
+    use crate::config::{StoredService, StoredWorkspace};
+
+    fn workspace(name: &str, services: &[(&str, &str)]) -> StoredWorkspace {
+        StoredWorkspace {
+            id: format!("ws-{name}"),
+            name: name.to_string(),
+            color: "#4a78c4".to_string(),
+            services: services
+                .iter()
+                .map(|(id, name)| {
+                    serde_json::from_value::<StoredService>(serde_json::json!({
+                        "id": id,
+                        "name": name,
+                        "repo_path": "/code/shop",
+                        "script": "dev",
+                        "cmd": "npm run dev",
+                    }))
+                    .expect("service")
+                })
+                .collect(),
+            hooks: Default::default(),
+            profiles: Vec::new(),
+            definition_path: None,
+        }
+    }
+
+    #[test]
+    fn names_become_dns_labels() {
+        assert_eq!(hostname("My Shop", "web"), "web.my-shop.localhost");
+        assert_eq!(hostname("shop", "API (v2)"), "api-v2.shop.localhost");
+        assert_eq!(hostname("shop", "——"), "unnamed.shop.localhost");
+        assert_eq!(hostname_label(&"a".repeat(80)).len(), 63);
+    }
+
+    #[test]
+    fn the_first_service_keeps_a_shared_hostname() {
+        let config = AppConfig {
+            user_workspaces: vec![
+                workspace("Shop", &[("svc-1", "web"), ("svc-2", "Web")]),
+                workspace("Blog", &[("svc-3", "web")]),
+            ],
+            ..AppConfig::default()
+        };
+        let routes = routes_for(&config);
+        assert_eq!(
+            routes
+                .iter()
+                .map(|route| (route.hostname.as_str(), route.service_id.as_str()))
+                .collect::<Vec<_>>(),
+            vec![
+                ("web.shop.localhost", "svc-1"),
+                ("web.blog.localhost", "svc-3"),
+            ]
+        );
+    }
+
+    #[test]
+    fn reads_the_host_without_its_port() {
+        let head = b"GET / HTTP/1.1\r\nhost: Web.Shop.localhost:1355\r\nAccept: */*\r\n\r\n";
+        assert_eq!(request_host(head).as_deref(), Some("web.shop.localhost"));
+        assert_eq!(request_host(b"GET / HTTP/1.0\r\n\r\n"), None);
+    }
+
+    #[test]
+    fn routes_to_the_announced_port_first() {
+        let service = ManagedServiceInfo {
+            service_id: "svc-1".to_string(),
+            cwd: "/code/shop".to_string(),
+            cmd: "npm run dev".to_string(),
+            pid: 1,
+            started_at_ms: 0,
+            uptime_ms: 0,
+            cpu_usage: 0.0,
+            memory_mb: 0,
+            ports: vec![5174, 24678],
+            urls: vec!["http://localhost:5174/".to_string()],
+            interactive: false,
+        };
+        assert_eq!(served_port(&service), Some(5174));
+        let unannounced = ManagedServiceInfo {
+            ports: vec![24678, 30000],
+            urls: Vec::new(),
+            ..service
+        };
+        assert_eq!(served_port(&unannounced), Some(24678));
+    }
+}
@@ -0,0 +1,558 @@
+//! HTTP readiness probes for workspace services.
+//!
+//! A listening socket only proves that a server has bound its port. Plenty of
+//! APIs bind first and then spend seconds running migrations or warming caches,
+//! answering 503 the whole time, and a dependent service started at that point
+//! fails on its first request. A probe asks the question the dependent actually
+//! cares about: does a real request to this path come back with an acceptable
+//! status, and optionally with a body that says so.
+//!
+//! The request is a hand-written HTTP/1.1 GET over a plain `TcpStream`. Probes
+//! only ever target a local port the service itself listens on, so there is no
+//! TLS, no proxy and no redirect following to support, and a blocking socket
+//! fits the workspace runner, which already waits on its own thread.
+//!
+//! Not everything worth waiting for listens on a port. A `tsc --watch`, a queue
+//! worker or a code generator is ready when it says so, so a service can instead
+//! name a line of output to wait for. That check rides on the service's event
+//! sink rather than polling a log, because the line it waits for is often the
+//! first thing the process prints and must not be missed by a late reader.
+
+use regex::Regex;
+use serde::{Deserialize, Serialize};
+use std::io::{Read, Write};
+use std::net::{IpAddr, Ipv4Addr, Ipv6Addr, SocketAddr, TcpStream};
+use std::sync::{Arc, Mutex};
+use std::time::Duration;
+use ts_rs::TS;
+
+use crate::events::EventSink;
+use crate::ports::strip_ansi;
+use crate::services::{ServiceEvent, ServiceEventKind};
+use crate::terminal::TerminalOutput;
+use crate::workspace::WorkspaceEvent;
+
+/// How long a single attempt may take, connect and response together. An
+/// attempt that hangs longer is reported as a failure and retried at the next
+/// interval rather than eating the whole readiness budget.
+const PROBE_ATTEMPT_TIMEOUT: Duration = Duration::from_secs(5);
+
+/// Bytes read from a response before giving up on it. Health endpoints answer in
+/// a few hundred bytes; this only guards against probing something that streams.
+const MAX_PROBE_RESPONSE_BYTES: usize = 64 * 1024;
+
+const MIN_PROBE_INTERVAL_MS: u64 = 100;
+const MAX_PROBE_INTERVAL_MS: u64 = 60_000;
+const MAX_PROBE_PATH_LEN: usize = 2048;
+
+/// Patterns are typed by hand into a one-line field; anything longer is far more
+/// likely a pasted log line than an expression somebody means.
+const MAX_LOG_PATTERN_LEN: usize = 512;
+
+#[derive(Debug, Clone, PartialEq, Eq, Serialize, Deserialize, TS)]
+#[ts(export, export_to = "../../src/generated/")]
+pub struct HttpProbe {
+    /// Request path, including any query string. Must start with `/`.
+    #[serde(default = "default_probe_path")]
+    pub path: String,
+    /// Lowest response status that counts as ready, inclusive.
+    #[serde(default = "default_status_min")]
+    pub status_min: u16,
+    /// Highest response status that counts as ready, inclusive. The default range
+    /// accepts redirects, since a dev server that redirects `/` to a login page
+    /// is up.
+    #[serde(default = "default_status_max")]
+    pub status_max: u16,
+    /// Text the response body must contain, for endpoints that answer 200 while
+    /// reporting themselves unhealthy in the payload.
+    #[serde(default)]
+    pub body_contains: Option<String>,
+    /// Pause between attempts.
+    #[serde(default = "default_interval_ms")]
+    // Tauri serializes through serde_json, so this arrives as a JSON number.
+    #[ts(type = "number")]
+    pub interval_ms: u64,
+}
+
+impl Default for HttpProbe {
+    fn default() -> Self {
+        Self {
+            path: default_probe_path(),
+            status_min: default_status_min(),
+            status_max: default_status_max(),
+            body_contains: None,
+            interval_ms: default_interval_ms(),
+        }
+    }
+}
+
+fn default_probe_path() -> String {
+    "/".to_string()
+}
+
+fn default_status_min() -> u16 {
+    200
+}
+
+fn default_status_max() -> u16 {
+    399
+}
+
+fn default_interval_ms() -> u64 {
+    1_000
+}
+
+impl HttpProbe {
+    /// Rejects a probe that could never pass or could not be sent as written.
+    ///
+    /// The path ends up verbatim in a request line, so whitespace and control
+    /// characters are refused here rather than producing a malformed request.
+    pub(crate) fn validate(&self) -> Result<(), String> {
+        if !self.path.starts_with('/') {
+            return Err("HTTP probe path must start with /".to_string());
+        }
+        if self.path.len() > MAX_PROBE_PATH_LEN {
+            return Err(format!(
+                "HTTP probe path exceeds {MAX_PROBE_PATH_LEN} characters"
+            ));
+        }
+        if self
+            .path
+            .chars()
+            .any(|character| character.is_whitespace() || character.is_control())
+        {
+            return Err("HTTP probe path cannot contain spaces or control characters".to_string());
+        }
+        if !(100..=599).contains(&self.status_min) || !(100..=599).contains(&self.status_max) {
+            return Err("HTTP probe status range must be between 100 and 599".to_string());
+        }
+        if self.status_min > self.status_max {
+            return Err(format!(
+                "HTTP probe status range {}-{} is empty",
+                self.status_min, self.status_max
+            ));
+        }
+        if !(MIN_PROBE_INTERVAL_MS..=MAX_PROBE_INTERVAL_MS).contains(&self.interval_ms) {
+            return Err(format!(
+                "HTTP probe interval must be between {MIN_PROBE_INTERVAL_MS} and {MAX_PROBE_INTERVAL_MS} ms"
+            ));
+        }
+        Ok(())
+    }
+
+    pub(crate) fn interval(&self) -> Duration {
+        Duration::from_millis(self.interval_ms)
+    }
+
+    /// Short human form used in warnings and events, such as `GET /health`.
+    pub(crate) fn describe(&self) -> String {
+        format!("GET {}", self.path)
+    }
+
+    /// Makes one attempt against `port` on the loopback interface.
+    ///
+    /// Returns the response status when it passes, or the reason it did not. The
+    /// reason is what the workspace view shows as the last failure, so it names
+    /// the observed status or the missing body text rather than a generic
+    /// "not ready".
+    pub(crate) fn check(&self, port: u16) -> Result<u16, String> {
+        let response = self.request(port)?;
+        let status = parse_status(&response)?;
+        if status < self.status_min || status > self.status_max {
+            return Err(format!(
+                "status {status}, expected {}-{}",
+                self.status_min, self.status_max
+            ));
+        }
+        if let Some(needle) = self
+            .body_contains
+            .as_deref()
+            .filter(|needle| !needle.is_empty())
+        {
+            let body = response_body(&response);
+            if !String::from_utf8_lossy(body).contains(needle) {
+                return Err(format!(
+                    "status {status}, but the body did not contain {needle:?}"
+                ));
+            }
+        }
+        Ok(status)
+    }
+
+    fn request(&self, port: u16) -> Result<Vec<u8>, String> {
+        let mut stream = connect_loopback(port)?;
+        stream
+            .set_read_timeout(Some(PROBE_ATTEMPT_TIMEOUT))
+            .and_then(|_| stream.set_write_timeout(Some(PROBE_ATTEMPT_TIMEOUT)))
+            .map_err(|error| format!("could not configure probe connection: {error}"))?;
+        let request = format!(
+            "GET {} HTTP/1.1\r\nHost: localhost:{port}\r\nUser-Agent: localhost-hub\r\nAccept: */*\r\nConnection: close\r\n\r\n",
+            self.path
+        );
+        stream
+            .write_all(request.as_bytes())
+            .map_err(|error| format!("could not send probe request: {error}"))?;
+
+        let mut response = Vec::new();
+        let mut buffer = [0_u8; 4096];
+        while response.len() < MAX_PROBE_RESPONSE_BYTES {
+            match stream.read(&mut buffer) {
+                Ok(0) => break,
+                Ok(read) => response.extend_from_slice(&buffer[..read]),
+                // A server that keeps the connection open after a complete
+                // response still answered; judge what arrived.
+                Err(error)
+                    if !response.is_empty()
+                        && matches!(
+                            error.kind(),
+                            std::io::ErrorKind::WouldBlock | std::io::ErrorKind::TimedOut
+                        ) =>
+                {
+                    break
+                }
+                Err(error) => return Err(format!("no response: {error}")),
+            }
+        }
+        if response.is_empty() {
+            return Err("connection closed without a response".to_string());
+        }
+        Ok(response)
+    }
+}
+
+#[derive(Debug, Clone, PartialEq, Eq, Serialize, Deserialize, TS)]
+#[ts(export, export_to = "../../src/generated/")]
+pub struct LogReadiness {
+    /// Regular expression tested against each line of stdout and stderr, with
+    /// terminal colour codes removed first, such as `Found 0 errors`.
+    pub pattern: String,
+    /// How long after launch the line may take to appear. Kept apart from the
+    /// readiness timeout, which bounds the port and HTTP checks, because a
+    /// compiler's first pass and a server binding its port take very different
+    /// amounts of time.
+    #[serde(default = "default_log_timeout_ms")]
+    // Tauri serializes through serde_json, so this arrives as a JSON number.
+    #[ts(type = "number")]
+    pub timeout_ms: u64,
+}
+
+fn default_log_timeout_ms() -> u64 {
+    60_000
+}
+
+impl LogReadiness {
+    /// Compiles the pattern, refusing one that would pass on any line at all:
+    /// an empty pattern or a stray `|` is a mistake, not a request to treat the
+    /// first byte of output as readiness.
+    pub(crate) fn compile(&self) -> Result<Regex, String> {
+        if self.pattern.trim().is_empty() {
+            return Err("readiness pattern cannot be empty".to_string());
+        }
+        if self.pattern.len() > MAX_LOG_PATTERN_LEN {
+            return Err(format!(
+                "readiness pattern exceeds {MAX_LOG_PATTERN_LEN} characters"
+            ));
+        }
+        let regex = Regex::new(&self.pattern).map_err(|error| {
+            format!("readiness pattern is not a valid regular expression: {error}")
+        })?;
+        if regex.is_match("") {
+            return Err(format!(
+                "readiness pattern /{}/ matches an empty line, so it would pass on any output",
+                self.pattern
+            ));
+        }
+        Ok(regex)
+    }
+
+    pub(crate) fn timeout(&self) -> Duration {
+        Duration::from_millis(self.timeout_ms)
+    }
+}
+
+/// Passes a service's events on to the real sink, noting the first output line
+/// that matches its readiness pattern on the way.
+///
+/// The workspace runner launches the service with this in place of its own sink,
+/// so the match is recorded by the thread reading the output as the line arrives;
+/// the runner only has to look at the result. Once a line has matched, later
+/// output, including that of automatic restarts, is passed through untested.
+pub(crate) struct OutputMatcher {
+    inner: Arc<dyn EventSink>,
+    pattern: Regex,
+    matched: Mutex<Option<String>>,
+}
+
+impl OutputMatcher {
+    pub(crate) fn new(inner: Arc<dyn EventSink>, pattern: Regex) -> Self {
+        Self {
+            inner,
+            pattern,
+            matched: Mutex::new(None),
+        }
+    }
+
+    /// The line that matched, with colour codes removed, once one has.
+    pub(crate) fn matched_line(&self) -> Option<String> {
+        self.matched
+            .lock()
+            .map(|matched| matched.clone())
+            .unwrap_or(None)
+    }
+}
+
+impl EventSink for OutputMatcher {
+    fn service(&self, event: ServiceEvent) {
+        if matches!(
+            event.kind,
+            ServiceEventKind::Stdout | ServiceEventKind::Stderr
+        ) {
+            if let Ok(mut matched) = self.matched.lock() {
+                if matched.is_none() {
+                    let line = strip_ansi(&event.message);
+                    if self.pattern.is_match(&line) {
+                        *matched = Some(line);
+                    }
+                }
+            }
+        }
+        self.inner.service(event);
+    }
+
+    fn workspace(&self, event: WorkspaceEvent) {
+        self.inner.workspace(event);
+    }
+
+    fn terminal(&self, output: TerminalOutput) {
+        self.inner.terminal(output);
+    }
+}
+
+/// Dev servers disagree about which loopback address `localhost` means — Vite
+/// binds `::1` on some systems, most others `127.0.0.1` — so both are tried.
+fn connect_loopback(port: u16) -> Result<TcpStream, String> {
+    let mut last_error = None;
+    for address in [
+        IpAddr::V4(Ipv4Addr::LOCALHOST),
+        IpAddr::V6(Ipv6Addr::LOCALHOST),
+    ] {
+        match TcpStream::connect_timeout(&SocketAddr::new(address, port), PROBE_ATTEMPT_TIMEOUT) {
+            Ok(stream) => return Ok(stream),
+            Err(error) => last_error = Some(error),
+        }
+    }
+    Err(format!(
+        "could not connect to port {port}: {}",
+        last_error
+            .map(|error| error.to_string())
+            .unwrap_or_default()
+    ))
+}
+
+fn parse_status(response: &[u8]) -> Result<u16, String> {
+    let line_end = response
+        .windows(2)
+        .position(|window| window == b"\r\n")
+        .unwrap_or(response.len());
+    let status_line = String::from_utf8_lossy(&response[..line_end]);
+    let mut parts = status_line.split_whitespace();
+    match (
+        parts.next(),
+        parts.next().and_then(|code| code.parse::<u16>().ok()),
+    ) {
+        (Some(version), Some(status)) if version.starts_with("HTTP/") => Ok(status),
+        _ => Err(format!("not an HTTP response: {:?}", status_line.trim())),
+    }
+}
+
+/// The bytes after the header block. Chunked bodies are searched as sent, chunk
+/// sizes included; a substring split across a chunk boundary is not found, which
+/// is acceptable for the short health payloads probes are meant for.
+fn response_body(response: &[u8]) -> &[u8] {
+    response
+        .windows(4)
+        .position(|window| window == b"\r\n\r\n")
+        .map(|end| &response[end + 4..])
+        .unwrap_or(&[])
+}
+
+#[cfg(test)]
+mod tests {
+    use super::*;
+    use std::net::TcpListener;
+    use std::thread;
+
+    /// Serves one canned response on an ephemeral loopback port.
+    fn serve_once(response: &'static str) -> u16 {
+        let listener = TcpListener::bind("127.0.0.1:0").expect("bind");
+        let port = listener.local_addr().expect("address").port();
+        thread::spawn(move || {
+            if let Ok((mut stream, _)) = listener.accept() {
+                let mut request = [0_u8; 1024];
+                let _ = stream.read(&mut request);
+                let _ = stream.write_all(response.as_bytes());
+            }
+        });
+        port
+    }
+
+    #[test]
+    fn passes_on_a_status_inside_the_range() {
+        let port = serve_once("HTTP/1.1 204 No Content\r\nContent-Length: 0\r\n\r\n");
+        assert_eq!(HttpProbe::default().check(port), Ok(204));
+    }
+
+    #[test]
+    fn reports_the_status_that_failed_the_probe() {
+        let port = serve_once("HTTP/1.1 503 Service Unavailable\r\nContent-Length: 0\r\n\r\n");
+        let error = HttpProbe::default().check(port).unwrap_err();
+        assert_eq!(error, "status 503, expected 200-399");
+    }
+
+    #[test]
+    fn requires_the_expected_body_text() {
+        let probe = HttpProbe {
+            body_contains: Some("\"status\":\"ok\"".to_string()),
+            ..HttpProbe::default()
+        };
+
+        let port = serve_once("HTTP/1.1 200 OK\r\n\r\n{\"status\":\"migrating\"}");
+        assert!(probe.check(port).unwrap_err().contains("did not contain"));
+
+        let port = serve_once("HTTP/1.1 200 OK\r\n\r\n{\"status\":\"ok\"}");
+        assert_eq!(probe.check(port), Ok(200));
+    }
+
+    #[test]
+    fn reports_a_port_nothing_listens_on() {
+        let listener = TcpListener::bind("127.0.0.1:0").expect("bind");
+        let port = listener.local_addr().expect("address").port();
+        drop(listener);
+        assert!(HttpProbe::default()
+            .check(port)
+            .unwrap_err()
+            .starts_with("could not connect"));
+    }
+
+    #[test]
+    fn validates_probe_configuration() {
+        assert!(HttpProbe::default().validate().is_ok());
+
+        let relative = HttpProbe {
+            path: "health".to_string(),
+            ..HttpProbe::default()
+        };
+        assert!(relative.validate().unwrap_err().contains("start with /"));
+
+        let injected = HttpProbe {
+            path: "/health HTTP/1.1\r\nHost: elsewhere".to_string(),
+            ..HttpProbe::default()
+        };
+        assert!(injected
+            .validate()
+            .unwrap_err()
+            .contains("control characters"));
+
+        let empty_range = HttpProbe {
+            status_min: 400,
+            status_max: 200,
+            ..HttpProbe::default()
+        };
+        assert!(empty_range.validate().unwrap_err().contains("is empty"));
+
+        let busy = HttpProbe {
+            interval_ms: 10,
+            ..HttpProbe::default()
+        };
+        assert!(busy.validate().unwrap_err().contains("interval"));
+    }
+
+    fn log_readiness(pattern: &str) -> LogReadiness {
+        LogReadiness {
+            pattern: pattern.to_string(),
+            timeout_ms: default_log_timeout_ms(),
+        }
+    }
+
+    fn output(kind: ServiceEventKind, message: &str) -> ServiceEvent {
+        ServiceEvent {
+            service_id: "worker".to_string(),
+            kind,
+            message: message.to_string(),
+            pid: None,
+            code: None,
+            attempt: None,
+        }
+    }
+
+    #[test]
+    fn refuses_patterns_that_cannot_mean_readiness() {
+        assert!(log_readiness("Found 0 errors").compile().is_ok());
+        assert!(log_readiness("  ").compile().unwrap_err().contains("empty"));
+        assert!(log_readiness("ready(")
+            .compile()
+            .unwrap_err()
+            .contains("not a valid regular expression"));
+        assert!(log_readiness("ready|")
+            .compile()
+            .unwrap_err()
+            .contains("matches an empty line"));
+        assert!(log_readiness(&"a".repeat(MAX_LOG_PATTERN_LEN + 1))
+            .compile()
+            .unwrap_err()
+            .contains("exceeds"));
+    }
+
+    #[test]
+    fn the_first_matching_output_line_is_kept_and_every_event_is_passed_on() {
+        struct Counting(Mutex<usize>);
+        impl EventSink for Counting {
+            fn service(&self, _event: ServiceEvent) {
+                *self.0.lock().unwrap() += 1;
+            }
+            fn workspace(&self, _event: WorkspaceEvent) {}
+        }
+
+        let inner = Arc::new(Counting(Mutex::new(0)));
+        let matcher = OutputMatcher::new(
+            inner.clone(),
+            log_readiness(r"Found 0 errors|Worker ready")
+                .compile()
+                .unwrap(),
+        );
+
+        matcher.service(output(
+            ServiceEventKind::Stdout,
+            "Starting compilation in watch mode...",
+        ));
+        matcher.service(output(ServiceEventKind::Started, "Found 0 errors"));
+        assert_eq!(matcher.matched_line(), None);
+
+        matcher.service(output(
+            ServiceEventKind::Stderr,
+            "\u{1b}[90m12:00:01\u{1b}[0m - Found 0 errors. Watching for file changes.",
+        ));
+        matcher.service(output(ServiceEventKind::Stdout, "Worker ready"));
+        assert_eq!(
+            matcher.matched_line().as_deref(),
+            Some("12:00:01 - Found 0 errors. Watching for file changes.")
+        );
+        assert_eq!(*inner.0.lock().unwrap(), 4);
+    }
+
+    #[test]
+    fn older_probe_configs_fill_in_defaults() {
+        let probe: HttpProbe = serde_json::from_str(r#"{"path":"/health"}"#).expect("deserialize");
+        assert_eq!(probe.status_min, 200);
+        assert_eq!(probe.status_max, 399);
+        assert_eq!(probe.interval_ms, 1_000);
+        assert_eq!(probe.body_contains, None);
+    }
+
+    #[test]
+    fn log_readiness_defaults_to_a_minute() {
+        let readiness: LogReadiness =
+            serde_json::from_str(r#"{"pattern":"Worker ready"}"#).expect("deserialize");
+        assert_eq!(readiness.timeout_ms, 60_000);
+    }
+}
@@ -0,0 +1,296 @@
+//! Automatic restart policies for supervised services.
+//!
+//! A dev server that dies on a syntax error, or a worker that falls over when its
+//! database restarts, used to stay down until someone noticed — and with the
+//! window hidden to the tray, nobody was looking. The policy lives here, in the
+//! backend, for exactly that reason: the interface may not exist when the process
+//! exits, and the exit watcher always does.
+//!
+//! This module only decides. Whether to restart, how long to wait first, and when
+//! the attempt counter starts over are pure functions of the policy and the run
+//! that just ended; `services.rs` owns the processes and acts on the answer.
+
+use serde::{Deserialize, Serialize};
+use std::time::Duration;
+use ts_rs::TS;
+
+/// Longest backoff a policy may ask for. Beyond a few minutes an automatic
+/// restart stops being a recovery and becomes a surprise.
+const MAX_BACKOFF_MS: u64 = 300_000;
+const MAX_RETRIES: u32 = 100;
+
+#[derive(Debug, Clone, Copy, Default, PartialEq, Eq, Serialize, Deserialize, TS)]
+#[serde(rename_all = "snake_case")]
+#[ts(export, export_to = "../../src/generated/")]
+pub enum RestartMode {
+    #[default]
+    Never,
+    /// Restart only after a non-zero exit status.
+    OnFailure,
+    /// Restart after any exit that was not a deliberate stop, including a clean
+    /// one, for services that are expected to run until told otherwise.
+    Always,
+}
+
+#[derive(Debug, Clone, PartialEq, Eq, Serialize, Deserialize, TS)]
+#[ts(export, export_to = "../../src/generated/")]
+pub struct RestartPolicy {
+    #[serde(default)]
+    pub mode: RestartMode,
+    /// Consecutive automatic restarts allowed before giving up.
+    #[serde(default = "default_max_retries")]
+    pub max_retries: u32,
+    /// Wait before the first restart; each further attempt doubles it.
+    #[serde(default = "default_initial_backoff_ms")]
+    // Tauri serializes through serde_json, so this arrives as a JSON number.
+    #[ts(type = "number")]
+    pub initial_backoff_ms: u64,
+    /// Ceiling for the doubled wait.
+    #[serde(default = "default_max_backoff_ms")]
+    // Tauri serializes through serde_json, so this arrives as a JSON number.
+    #[ts(type = "number")]
+    pub max_backoff_ms: u64,
+    /// A run that stays up at least this long counts as healthy, and the next
+    /// crash starts again from the first attempt. Without it a service that
+    /// crashes once a day would run out of retries within a week.
+    #[serde(default = "default_reset_after_ms")]
+    // Tauri serializes through serde_json, so this arrives as a JSON number.
+    #[ts(type = "number")]
+    pub reset_after_ms: u64,
+}
+
+impl Default for RestartPolicy {
+    fn default() -> Self {
+        Self {
+            mode: RestartMode::Never,
+            max_retries: default_max_retries(),
+            initial_backoff_ms: default_initial_backoff_ms(),
+            max_backoff_ms: default_max_backoff_ms(),
+            reset_after_ms: default_reset_after_ms(),
+        }
+    }
+}
+
+fn default_max_retries() -> u32 {
+    5
+}
+
+fn default_initial_backoff_ms() -> u64 {
+    1_000
+}
+
+fn default_max_backoff_ms() -> u64 {
+    30_000
+}
+
+fn default_reset_after_ms() -> u64 {
+    60_000
+}
+
+/// What the exit watcher should do about a run that just ended.
+#[derive(Debug, Clone, PartialEq, Eq)]
+pub(crate) enum RestartDecision {
+    /// The policy does not cover this exit.
+    None,
+    /// Restart after `delay`. `attempt` counts from one.
+    Restart { attempt: u32, delay: Duration },
+    /// The policy covers this exit but its retries are spent.
+    GiveUp { attempts: u32 },
+}
+
+impl RestartPolicy {
+    pub(crate) fn validate(&self) -> Result<(), String> {
+        if self.mode == RestartMode::Never {
+            return Ok(());
+        }
+        if self.max_retries > MAX_RETRIES {
+            return Err(format!(
+                "restart policy allows at most {MAX_RETRIES} retries"
+            ));
+        }
+        if self.initial_backoff_ms > MAX_BACKOFF_MS || self.max_backoff_ms > MAX_BACKOFF_MS {
+            return Err(format!("restart backoff cannot exceed {MAX_BACKOFF_MS} ms"));
+        }
+        if self.initial_backoff_ms > self.max_backoff_ms {
+            return Err("restart backoff starts above its own ceiling".to_string());
+        }
+        Ok(())
+    }
+
+    /// Decides what follows an exit.
+    ///
+    /// `previous_attempts` is how many automatic restarts led to the run that just
+    /// ended, and `ran_for` how long it lasted. A deliberate stop never restarts:
+    /// the user asked for the service to be down.
+    pub(crate) fn decide(
+        &self,
+        exit_code: Option<i32>,
+        stopped_deliberately: bool,
+        previous_attempts: u32,
+        ran_for: Duration,
+    ) -> RestartDecision {
+        if stopped_deliberately {
+            return RestartDecision::None;
+        }
+        // No code means a signal ended the process. Something outside killed it,
+        // which for a service meant to stay up is a failure like any other.
+        let failed = exit_code != Some(0);
+        let covered = match self.mode {
+            RestartMode::Never => false,
+            RestartMode::OnFailure => failed,
+            RestartMode::Always => true,
+        };
+        if !covered {
+            return RestartDecision::None;
+        }
+
+        let previous_attempts = if ran_for >= Duration::from_millis(self.reset_after_ms) {
+            0
+        } else {
+            previous_attempts
+        };
+        if previous_attempts >= self.max_retries {
+            return RestartDecision::GiveUp {
+                attempts: previous_attempts,
+            };
+        }
+        let attempt = previous_attempts + 1;
+        RestartDecision::Restart {
+            attempt,
+            delay: self.backoff(attempt),
+        }
+    }
+
+    /// `initial_backoff_ms` doubled for each attempt after the first, capped.
+    pub(crate) fn backoff(&self, attempt: u32) -> Duration {
+        let doublings = attempt.saturating_sub(1).min(32);
+        let delay = self
+            .initial_backoff_ms
+            .saturating_mul(1_u64 << doublings)
+            .min(self.max_backoff_ms);
+        Duration::from_millis(delay)
+    }
+}
+
+#[cfg(test)]
+mod tests {
+    use super::*;
+
+    fn policy(mode: RestartMode) -> RestartPolicy {
+        RestartPolicy {
+            mode,
+            ..RestartPolicy::default()
+        }
+    }
+
+    const BRIEF: Duration = Duration::from_millis(500);
+
+    #[test]
+    fn never_leaves_every_exit_alone() {
+        let never = policy(RestartMode::Never);
+        assert_eq!(
+            never.decide(Some(1), false, 0, BRIEF),
+            RestartDecision::None
+        );
+        assert_eq!(never.decide(None, false, 0, BRIEF), RestartDecision::None);
+    }
+
+    #[test]
+    fn on_failure_ignores_a_clean_exit_but_not_a_signal() {
+        let on_failure = policy(RestartMode::OnFailure);
+        assert_eq!(
+            on_failure.decide(Some(0), false, 0, BRIEF),
+            RestartDecision::None
+        );
+        assert!(matches!(
+            on_failure.decide(Some(2), false, 0, BRIEF),
+            RestartDecision::Restart { attempt: 1, .. }
+        ));
+        assert!(matches!(
+            on_failure.decide(None, false, 0, BRIEF),
+            RestartDecision::Restart { attempt: 1, .. }
+        ));
+    }
+
+    #[test]
+    fn a_deliberate_stop_is_never_restarted() {
+        let always = policy(RestartMode::Always);
+        assert_eq!(always.decide(None, true, 0, BRIEF), RestartDecision::None);
+        assert!(matches!(
+            always.decide(Some(0), false, 0, BRIEF),
+            RestartDecision::Restart { .. }
+        ));
+    }
+
+    #[test]
+    fn backoff_doubles_up_to_its_ceiling() {
+        let policy = RestartPolicy {
+            mode: RestartMode::OnFailure,
+            initial_backoff_ms: 1_000,
+            max_backoff_ms: 5_000,
+            ..RestartPolicy::default()
+        };
+        let delays = (1..=5)
+            .map(|attempt| policy.backoff(attempt).as_millis())
+            .collect::<Vec<_>>();
+        assert_eq!(delays, vec![1_000, 2_000, 4_000, 5_000, 5_000]);
+        // Large attempt numbers saturate rather than overflow.
+        assert_eq!(policy.backoff(u32::MAX).as_millis(), 5_000);
+    }
+
+    #[test]
+    fn gives_up_once_retries_are_spent() {
+        let policy = RestartPolicy {
+            mode: RestartMode::OnFailure,
+            max_retries: 2,
+            ..RestartPolicy::default()
+        };
+        assert!(matches!(
+            policy.decide(Some(1), false, 1, BRIEF),
+            RestartDecision::Restart { attempt: 2, .. }
+        ));
+        assert_eq!(
+            policy.decide(Some(1), false, 2, BRIEF),
+            RestartDecision::GiveUp { attempts: 2 }
+        );
+    }
+
+    #[test]
+    fn a_long_enough_run_resets_the_attempt_count() {
+        let policy = RestartPolicy {
+            mode: RestartMode::OnFailure,
+            max_retries: 2,
+            reset_after_ms: 10_000,
+            ..RestartPolicy::default()
+        };
+        assert!(matches!(
+            policy.decide(Some(1), false, 2, Duration::from_secs(11)),
+            RestartDecision::Restart { attempt: 1, .. }
+        ));
+    }
+
+    #[test]
+    fn validates_backoff_bounds() {
+        assert!(RestartPolicy::default().validate().is_ok());
+        let inverted = RestartPolicy {
+            mode: RestartMode::Always,
+            initial_backoff_ms: 10_000,
+            max_backoff_ms: 1_000,
+            ..RestartPolicy::default()
+        };
+        assert!(inverted.validate().unwrap_err().contains("ceiling"));
+        let huge = RestartPolicy {
+            mode: RestartMode::Always,
+            max_backoff_ms: MAX_BACKOFF_MS + 1,
+            ..RestartPolicy::default()
+        };
+        assert!(huge.validate().unwrap_err().contains("cannot exceed"));
+    }
+
+    #[test]
+    fn older_configs_default_to_never() {
+        let policy: RestartPolicy = serde_json::from_str("{}").expect("deserialize");
+        assert_eq!(policy, RestartPolicy::default());
+        assert_eq!(policy.mode, RestartMode::Never);
+    }
+}
@@ -1,9 +1,13 @@
 use crate::events::{EventSink, NoopEventSink, TauriEventSink};
-use crate::history::{History, RunLogWriter, RunOutcome};
+use crate::guardrails::{GuardrailAction, GuardrailWatch, ResourceGuardrail};
+use crate::history::{History, RunEvent, RunEventKind, RunLogWriter, RunOutcome};
 use crate::ports::{
     extract_local_urls, find_port_conflicts, port_from_local_url, scan_all_live_ports,
     scan_live_ports, LivePort,
 };
+use crate::restart::{RestartDecision, RestartPolicy};
+use crate::terminal::{Terminal, TerminalOutput, TerminalSize};
+use crate::watch::{FileWatch, FileWatcher};
 use serde::{Deserialize, Serialize};
 use std::{
     collections::{HashMap, HashSet},
@@ -25,12 +29,23 @@ const MAX_LOG_LINE_BYTES: usize = 8 * 1024;
 const STOP_POLL_INTERVAL: Duration = Duration::from_millis(50);
 const GRACEFUL_STOP_ATTEMPTS: usize = 30;
 const FORCE_STOP_ATTEMPTS: usize = 20;
-
-#[derive(Default)]
+const RESTART_WAIT_STEP: Duration = Duration::from_millis(100);
+/// How often a guardrail samples its service. CPU is averaged over the interval,
+/// so a shorter one would mostly measure noise.
+const GUARDRAIL_POLL_INTERVAL: Duration = Duration::from_secs(2);
+
+/// Cloning shares the same state rather than copying it. Each exit watcher holds
+/// a clone, because relaunching a crashed service under its restart policy needs
+/// the whole manager and the watcher outlives any borrow of it.
+#[derive(Default, Clone)]
 pub struct ServiceManager {
     children: Arc<Mutex<HashMap<String, ManagedProcess>>>,
     /// Set once at startup. `None` leaves runs unrecorded but otherwise working.
-    history: Mutex<Option<History>>,
+    history: Arc<Mutex<Option<History>>>,
+    /// Services whose process has exited and whose restart is waiting out its
+    /// backoff. They are in neither `children` nor stopped, so stopping or
+    /// starting one by hand has to find it here and cancel the wait.
+    pending_restarts: Arc<Mutex<HashMap<String, Arc<AtomicBool>>>>,
 }
 
 impl ServiceManager {
@@ -45,6 +60,22 @@ impl ServiceManager {
     fn history(&self) -> Option<History> {
         self.history.lock().ok().and_then(|slot| slot.clone())
     }
+
+    /// Cancels a restart waiting out its backoff. Returns whether there was one.
+    fn cancel_pending_restart(&self, service_id: &str) -> bool {
+        let pending = self
+            .pending_restarts
+            .lock()
+            .ok()
+            .and_then(|mut pending| pending.remove(service_id));
+        match pending {
+            Some(cancelled) => {
+                cancelled.store(true, Ordering::SeqCst);
+                true
+            }
+            None => false,
+        }
+    }
 }
 
 #[derive(Clone)]
@@ -60,6 +91,17 @@ struct ManagedProcess {
     detected_urls: Arc<Mutex<Vec<String>>>,
     /// Present when this run is being recorded.
     run: Option<RunHandle>,
+    restart_policy: RestartPolicy,
+    /// Automatic restarts that led to this run; zero for a run started by hand.
+    restart_attempt: u32,
+    guardrail: Option<ResourceGuardrail>,
+    file_watch: Option<FileWatch>,
+    /// Lives exactly as long as this entry does, so replacing or removing the run
+    /// stops its watch.
+    watcher: Option<Arc<FileWatcher>>,
+    interactive: bool,
+    /// The parent's side of the service's pseudo-terminal, in interactive mode.
+    terminal: Option<Arc<Terminal>>,
 }
 
 /// Ties a live process to its history record.
@@ -123,6 +165,8 @@ pub struct ManagedServiceInfo {
     pub memory_mb: u64,
     pub ports: Vec<u16>,
     pub urls: Vec<String>,
+    /// Runs on a pseudo-terminal that the interface can type into.
+    pub interactive: bool,
 }
 
 #[derive(Clone, Debug, PartialEq, Eq, Serialize, TS)]
@@ -138,6 +182,29 @@ pub enum ServiceEventKind {
     Exited,
     Error,
     Stopped,
+    /// A readiness probe attempt failed; the message is the reason. Sent when the
+    /// reason changes rather than on every attempt, so a slow boot does not flood
+    /// the log with the same 503.
+    Probe,
+    /// The readiness probe passed and dependents may start.
+    Ready,
+    /// The service printed the line its output readiness pattern waits for. Kept
+    /// apart from `Ready` so the probe's own status is not reported as passed.
+    Matched,
+    /// The restart policy ran out of retries and the service was left down.
+    GaveUp,
+    /// A resource guardrail was crossed. The message says which ceiling and what
+    /// was done about it; a restart or stop follows as its own events.
+    Guardrail,
+    /// A line from a pre-start or post-stop hook, or the line saying it finished,
+    /// with exit code 0 in `code`.
+    Hook,
+    /// A hook exited non-zero, timed out or could not be started. Kept apart
+    /// from `Error` because the service itself may be fine, or already stopped.
+    HookFailed,
+    /// A workspace boot is holding the service back until a watched port it
+    /// depends on is listening.
+    Waiting,
 }
 
 #[derive(Clone, Debug, Serialize, TS)]
@@ -148,6 +215,9 @@ pub struct ServiceEvent {
     pub message: String,
     pub pid: Option<u32>,
     pub code: Option<i32>,
+    /// Which automatic restart this is, on `restarting` and `gave_up` events sent
+    /// by a restart policy. `None` everywhere else, including a manual restart.
+    pub attempt: Option<u32>,
 }
 
 impl ServiceManager {
@@ -163,6 +233,10 @@ impl ServiceManager {
         environment: ServiceEnvironment,
         expected_ports: Vec<u16>,
         allow_port_conflicts: bool,
+        restart_policy: RestartPolicy,
+        guardrail: Option<ResourceGuardrail>,
+        file_watch: Option<FileWatch>,
+        interactive: bool,
     ) -> Result<u32, String> {
         self.start_with_sink(
             Arc::new(TauriEventSink(app)),
@@ -172,42 +246,63 @@ impl ServiceManager {
             environment,
             expected_ports,
             allow_port_conflicts,
+            restart_policy,
+            guardrail,
+            file_watch,
+            interactive,
         )
     }
 
     pub fn restart(&self, app: AppHandle, service_id: String) -> Result<u32, String> {
-        let sink: Arc<dyn EventSink> = Arc::new(TauriEventSink(app));
-        let (cwd, cmd, environment, expected_ports, allow_port_conflicts, pid) = {
-            let children = self.children.lock().map_err(|e| e.to_string())?;
-            let managed = children
-                .get(&service_id)
-                .ok_or_else(|| "service is not managed by Localhost Hub".to_string())?;
-            (
-                managed.cwd.clone(),
-                managed.cmd.clone(),
-                managed.environment.clone(),
-                managed.expected_ports.clone(),
-                managed.allow_port_conflicts,
-                managed.pid,
-            )
-        };
+        self.restart_with_sink(Arc::new(TauriEventSink(app)), service_id)
+    }
+
+    /// Replaces the process with a fresh one started from the same settings.
+    pub(crate) fn restart_with_sink(
+        &self,
+        sink: Arc<dyn EventSink>,
+        service_id: String,
+    ) -> Result<u32, String> {
+        self.restart_because(sink, service_id, "restarting".to_string())
+    }
+
+    /// A restart whose `restarting` event carries `message`, for restarts that
+    /// have a cause worth showing.
+    fn restart_because(
+        &self,
+        sink: Arc<dyn EventSink>,
+        service_id: String,
+        message: String,
+    ) -> Result<u32, String> {
+        let managed = self
+            .children
+            .lock()
+            .map_err(|e| e.to_string())?
+            .get(&service_id)
+            .cloned()
+            .ok_or_else(|| "service is not managed by Localhost Hub".to_string())?;
 
         sink.service(ServiceEvent {
             service_id: service_id.clone(),
             kind: ServiceEventKind::Restarting,
-            message: "restarting".to_string(),
-            pid: Some(pid),
+            message,
+            pid: Some(managed.pid),
             code: None,
+            attempt: None,
         });
         self.stop_with_sink(sink.clone(), service_id.clone(), false)?;
         self.start_with_sink(
             sink,
             service_id,
-            cwd,
-            cmd,
-            environment,
-            expected_ports,
-            allow_port_conflicts,
+            managed.cwd,
+            managed.cmd,
+            managed.environment,
+            managed.expected_ports,
+            managed.allow_port_conflicts,
+            managed.restart_policy,
+            managed.guardrail,
+            managed.file_watch,
+            managed.interactive,
         )
     }
 
@@ -241,6 +336,15 @@ impl ServiceManager {
                 return Vec::new();
             }
         };
+        // Nothing may come back up behind the exit.
+        let pending = self
+            .pending_restarts
+            .lock()
+            .map(|pending| pending.keys().cloned().collect::<Vec<_>>())
+            .unwrap_or_default();
+        for service_id in pending {
+            self.cancel_pending_restart(&service_id);
+        }
         let sink: Arc<dyn EventSink> = Arc::new(NoopEventSink);
         let mut stopped = Vec::new();
         for service_id in ids {
@@ -252,6 +356,14 @@ impl ServiceManager {
         stopped
     }
 
+    /// The pid each managed service was started as, the root of its process tree.
+    pub(crate) fn root_pids(&self) -> Vec<u32> {
+        self.children
+            .lock()
+            .map(|children| children.values().map(|managed| managed.pid).collect())
+            .unwrap_or_default()
+    }
+
     pub fn list(&self) -> Result<Vec<ManagedServiceInfo>, String> {
         let snapshots = {
             let children = self.children.lock().map_err(|e| e.to_string())?;
@@ -269,6 +381,7 @@ impl ServiceManager {
                             .lock()
                             .map(|urls| urls.clone())
                             .unwrap_or_default(),
+                        managed.interactive,
                     )
                 })
                 .collect::<Vec<_>>()
@@ -283,7 +396,7 @@ impl ServiceManager {
 
         Ok(snapshots
             .into_iter()
-            .map(|(service_id, cwd, cmd, pid, started_at_ms, detected_urls)| {
+            .map(|(service_id, cwd, cmd, pid, started_at_ms, detected_urls, interactive)| {
                 let process_ids = process_tree_ids(&system, pid);
                 let mut ports = live_ports
                     .iter()
@@ -311,18 +424,7 @@ impl ServiceManager {
                         urls.push(fallback);
                     }
                 }
-                let cpu_usage = process_ids
-                    .iter()
-                    .filter_map(|pid| system.process(*pid))
-                    .map(|process| process.cpu_usage())
-                    .sum();
-                let memory_mb = process_ids
-                    .iter()
-                    .filter_map(|pid| system.process(*pid))
-                    .map(|process| process.memory())
-                    .sum::<u64>()
-                    / 1024
-                    / 1024;
+                let (cpu_usage, memory_mb) = tree_usage(&system, &process_ids);
 
                 ManagedServiceInfo {
                     service_id,
@@ -335,6 +437,7 @@ impl ServiceManager {
                     memory_mb,
                     ports,
                     urls,
+                    interactive,
                 }
             })
             .collect())
@@ -349,14 +452,50 @@ impl ServiceManager {
         Ok(matches!(child.try_wait(), Ok(None)))
     }
 
+    /// Whether Hub supervises this service, including one that is between a
+    /// crash and its automatic restart.
     pub fn is_managed(&self, service_id: &str) -> Result<bool, String> {
-        Ok(self
+        if self
             .children
             .lock()
             .map_err(|e| e.to_string())?
+            .contains_key(service_id)
+        {
+            return Ok(true);
+        }
+        Ok(self
+            .pending_restarts
+            .lock()
+            .map_err(|e| e.to_string())?
             .contains_key(service_id))
     }
 
+    /// Types into an interactive service's terminal.
+    pub fn write_terminal(&self, service_id: &str, data: &str) -> Result<(), String> {
+        self.terminal(service_id)?.write(data)
+    }
+
+    pub fn resize_terminal(&self, service_id: &str, size: TerminalSize) -> Result<(), String> {
+        self.terminal(service_id)?.resize(size)
+    }
+
+    /// The recent raw output, so a pane opened mid-run starts from the same
+    /// screen the service has been drawing.
+    pub fn terminal_backlog(&self, service_id: &str) -> Result<String, String> {
+        Ok(self.terminal(service_id)?.backlog())
+    }
+
+    fn terminal(&self, service_id: &str) -> Result<Arc<Terminal>, String> {
+        let children = self.children.lock().map_err(|e| e.to_string())?;
+        let managed = children
+            .get(service_id)
+            .ok_or_else(|| "service is not managed by Localhost Hub".to_string())?;
+        managed
+            .terminal
+            .clone()
+            .ok_or_else(|| "service was not started in interactive mode".to_string())
+    }
+
     pub fn owns_listening_ports(
         &self,
         service_id: &str,
@@ -395,6 +534,49 @@ impl ServiceManager {
     // a struct would only move the same fields behind another name.
     #[allow(clippy::too_many_arguments)]
     pub(crate) fn start_with_sink(
+        &self,
+        sink: Arc<dyn EventSink>,
+        service_id: String,
+        cwd: String,
+        cmd: String,
+        environment: ServiceEnvironment,
+        expected_ports: Vec<u16>,
+        allow_port_conflicts: bool,
+        restart_policy: RestartPolicy,
+        guardrail: Option<ResourceGuardrail>,
+        file_watch: Option<FileWatch>,
+        interactive: bool,
+    ) -> Result<u32, String> {
+        restart_policy.validate()?;
+        if let Some(guardrail) = &guardrail {
+            guardrail.validate()?;
+        }
+        if let Some(file_watch) = &file_watch {
+            file_watch.validate()?;
+        }
+        // Starting by hand supersedes a restart still waiting out its backoff, and
+        // the attempt count starts over with it.
+        self.cancel_pending_restart(&service_id);
+        self.launch(
+            sink,
+            service_id,
+            cwd,
+            cmd,
+            environment,
+            expected_ports,
+            allow_port_conflicts,
+            restart_policy,
+            0,
+            guardrail,
+            file_watch,
+            interactive,
+        )
+    }
+
+    /// Spawns and supervises the process. Shared by a start from the interface
+    /// and an automatic restart, which differ only in the attempt they record.
+    #[allow(clippy::too_many_arguments)]
+    fn launch(
         &self,
         sink: Arc<dyn EventSink>,
         service_id: String,
@@ -403,6 +585,11 @@ impl ServiceManager {
         environment: ServiceEnvironment,
         mut expected_ports: Vec<u16>,
         allow_port_conflicts: bool,
+        restart_policy: RestartPolicy,
+        restart_attempt: u32,
+        guardrail: Option<ResourceGuardrail>,
+        file_watch: Option<FileWatch>,
+        interactive: bool,
     ) -> Result<u32, String> {
         if service_id.trim().is_empty() {
             return Err("service id cannot be empty".to_string());
@@ -444,27 +631,25 @@ impl ServiceManager {
             message: format!("starting `{cmd}`"),
             pid: None,
             code: None,
+            attempt: None,
         });
 
-        let mut command = shell_command(&cmd, environment.inherit_system);
-        if !environment.inherit_system {
-            command.env_clear();
-            for (key, value) in baseline_environment() {
-                command.env(key, value);
-            }
-        }
-        for variable in &environment.vars {
-            command.env(&variable.key, &variable.value);
-        }
-        command
-            .current_dir(&cwd)
-            .stdout(Stdio::piped())
-            .stderr(Stdio::piped());
-        configure_process_group(&mut command);
+        let (mut command, terminal) = if interactive {
+            let mut command = environment_command(&cmd, &cwd, &environment);
+            let terminal = crate::terminal::attach(&mut command, TerminalSize::default())?;
+            (command, Some(Arc::new(terminal)))
+        } else {
+            let mut command = service_command(&cmd, &cwd, &environment);
+            command.stdout(Stdio::piped()).stderr(Stdio::piped());
+            (command, None)
+        };
 
-        let mut child = command
-            .spawn()
-            .map_err(|error| format!("failed to start `{cmd}` in {cwd}: {error}"))?;
+        let spawned = command.spawn();
+        // The command holds the child's end of the terminal. Keeping it open here
+        // would mean the terminal never reports the child going away.
+        drop(command);
+        let mut child =
+            spawned.map_err(|error| format!("failed to start `{cmd}` in {cwd}: {error}"))?;
 
         let pid = child.id();
         let stdout = child.stdout.take();
@@ -495,6 +680,25 @@ impl ServiceManager {
                 })
         });
 
+        // A watch that cannot start leaves the service running without one; the
+        // process is already up, and refusing it now would orphan it.
+        let watcher = file_watch.as_ref().and_then(|file_watch| {
+            match self.watch_files(sink.clone(), &service_id, &cwd, file_watch, pid) {
+                Ok(watcher) => Some(Arc::new(watcher)),
+                Err(error) => {
+                    sink.service(ServiceEvent {
+                        service_id: service_id.clone(),
+                        kind: ServiceEventKind::Error,
+                        message: format!("not watching files: {error}"),
+                        pid: Some(pid),
+                        code: None,
+                        attempt: None,
+                    });
+                    None
+                }
+            }
+        });
+
         self.children
             .lock()
             .map_err(|e| e.to_string())?
@@ -511,6 +715,13 @@ impl ServiceManager {
                     started_at_ms,
                     detected_urls: detected_urls.clone(),
                     run: run.clone(),
+                    restart_policy,
+                    restart_attempt,
+                    guardrail: guardrail.clone(),
+                    file_watch,
+                    watcher,
+                    interactive,
+                    terminal: terminal.clone(),
                 },
             );
 
@@ -520,6 +731,7 @@ impl ServiceManager {
             message: format!("started `{cmd}`"),
             pid: Some(pid),
             code: None,
+            attempt: None,
         });
 
         if let Some(stdout) = stdout {
@@ -538,15 +750,96 @@ impl ServiceManager {
                 service_id.clone(),
                 stderr,
                 ServiceEventKind::Stderr,
-                detected_urls,
+                detected_urls.clone(),
                 run.as_ref().map(|run| run.log.clone()),
             );
         }
+        // A terminal has one stream for both, so its lines are all stdout.
+        if let Some(terminal) = &terminal {
+            match terminal.reader() {
+                Ok(reader) => spawn_terminal_reader(
+                    sink.clone(),
+                    service_id.clone(),
+                    terminal.clone(),
+                    reader,
+                    detected_urls,
+                    run.as_ref().map(|run| run.log.clone()),
+                ),
+                Err(error) => sink.service(ServiceEvent {
+                    service_id: service_id.clone(),
+                    kind: ServiceEventKind::Error,
+                    message: error,
+                    pid: Some(pid),
+                    code: None,
+                    attempt: None,
+                }),
+            }
+        }
 
-        spawn_exit_watcher(sink, self.children.clone(), service_id, child, pid, history, run);
+        if let Some(guardrail) = guardrail {
+            spawn_guardrail_monitor(
+                sink.clone(),
+                self.clone(),
+                service_id.clone(),
+                pid,
+                guardrail,
+                history.clone(),
+                run.clone(),
+            );
+        }
+        spawn_exit_watcher(sink, self.clone(), service_id, child, pid, history, run);
         Ok(pid)
     }
 
+    /// Restarts run `pid` when one of its watched files changes. A change that
+    /// arrives after the run was stopped or replaced does nothing.
+    fn watch_files(
+        &self,
+        sink: Arc<dyn EventSink>,
+        service_id: &str,
+        cwd: &str,
+        file_watch: &FileWatch,
+        pid: u32,
+    ) -> Result<FileWatcher, String> {
+        let manager = self.clone();
+        let service_id = service_id.to_string();
+        crate::watch::watch(
+            std::path::Path::new(cwd),
+            file_watch,
+            move |path, others| {
+                let current = manager
+                    .children
+                    .lock()
+                    .map(|children| {
+                        children
+                            .get(&service_id)
+                            .is_some_and(|managed| managed.pid == pid)
+                    })
+                    .unwrap_or(false);
+                if !current {
+                    return;
+                }
+                let message = match others {
+                    0 => format!("restarting: {path} changed"),
+                    1 => format!("restarting: {path} and 1 other file changed"),
+                    others => format!("restarting: {path} and {others} other files changed"),
+                };
+                if let Err(error) =
+                    manager.restart_because(sink.clone(), service_id.clone(), message)
+                {
+                    sink.service(ServiceEvent {
+                        service_id: service_id.clone(),
+                        kind: ServiceEventKind::Error,
+                        message: format!("restart after a file change failed: {error}"),
+                        pid: Some(pid),
+                        code: None,
+                        attempt: None,
+                    });
+                }
+            },
+        )
+    }
+
     pub(crate) fn stop_with_sink(
         &self,
         sink: Arc<dyn EventSink>,
@@ -557,8 +850,24 @@ impl ServiceManager {
             .children
             .lock()
             .map_err(|e| e.to_string())?
-            .remove(&service_id)
-            .ok_or_else(|| "service is not managed by Localhost Hub".to_string())?;
+            .remove(&service_id);
+        let Some(managed) = managed else {
+            // Already down and waiting to come back: stopping means it stays down.
+            if self.cancel_pending_restart(&service_id) {
+                if emit_stopped {
+                    sink.service(ServiceEvent {
+                        service_id,
+                        kind: ServiceEventKind::Stopped,
+                        message: "stopped; automatic restart cancelled".to_string(),
+                        pid: None,
+                        code: None,
+                        attempt: None,
+                    });
+                }
+                return Ok(());
+            }
+            return Err("service is not managed by Localhost Hub".to_string());
+        };
 
         // Announced before terminating, so the exit watcher knows the exit it is
         // about to observe was deliberate.
@@ -590,6 +899,7 @@ impl ServiceManager {
                 message: "stopped".to_string(),
                 pid: Some(managed.pid),
                 code: None,
+                attempt: None,
             });
         }
         Ok(())
@@ -611,6 +921,10 @@ impl ServiceManager {
             ServiceEnvironment::default(),
             Vec::new(),
             false,
+            RestartPolicy::default(),
+            None,
+            None,
+            false,
         )
     }
 
@@ -620,37 +934,7 @@ impl ServiceManager {
         sink: Arc<dyn EventSink>,
         service_id: &str,
     ) -> Result<u32, String> {
-        let (cwd, cmd, environment, expected_ports, allow_port_conflicts, pid) = {
-            let children = self.children.lock().map_err(|e| e.to_string())?;
-            let managed = children
-                .get(service_id)
-                .ok_or_else(|| "service is not managed by Localhost Hub".to_string())?;
-            (
-                managed.cwd.clone(),
-                managed.cmd.clone(),
-                managed.environment.clone(),
-                managed.expected_ports.clone(),
-                managed.allow_port_conflicts,
-                managed.pid,
-            )
-        };
-        sink.service(ServiceEvent {
-            service_id: service_id.to_string(),
-            kind: ServiceEventKind::Restarting,
-            message: "restarting".to_string(),
-            pid: Some(pid),
-            code: None,
-        });
-        self.stop_with_sink(sink.clone(), service_id.to_string(), false)?;
-        self.start_with_sink(
-            sink,
-            service_id.to_string(),
-            cwd,
-            cmd,
-            environment,
-            expected_ports,
-            allow_port_conflicts,
-        )
+        self.restart_with_sink(sink, service_id.to_string())
     }
 
     #[cfg(test)]
@@ -691,7 +975,7 @@ fn format_port_conflicts(conflicts: &[LivePort]) -> String {
     format!("Port conflict: {details}. Stop the owning process or explicitly start anyway.")
 }
 
-fn validate_environment(environment: &ServiceEnvironment) -> Result<(), String> {
+pub(crate) fn validate_environment(environment: &ServiceEnvironment) -> Result<(), String> {
     let mut seen = HashSet::new();
     for variable in &environment.vars {
         if variable.key.is_empty() {
@@ -769,6 +1053,33 @@ fn baseline_environment() -> Vec<(String, String)> {
     baseline
 }
 
+/// A service command ready to spawn: its shell, its environment and its directory,
+/// in a process group of its own so stopping it reaches everything it started.
+/// Lifecycle hooks are built the same way, so a migration sees exactly the
+/// environment of the service it migrates for.
+pub(crate) fn service_command(cmd: &str, cwd: &str, environment: &ServiceEnvironment) -> Command {
+    let mut command = environment_command(cmd, cwd, environment);
+    configure_process_group(&mut command);
+    command
+}
+
+/// `service_command` without the process group, for a service on a terminal,
+/// which starts a whole session of its own instead.
+fn environment_command(cmd: &str, cwd: &str, environment: &ServiceEnvironment) -> Command {
+    let mut command = shell_command(cmd, environment.inherit_system);
+    if !environment.inherit_system {
+        command.env_clear();
+        for (key, value) in baseline_environment() {
+            command.env(key, value);
+        }
+    }
+    for variable in &environment.vars {
+        command.env(&variable.key, &variable.value);
+    }
+    command.current_dir(cwd);
+    command
+}
+
 /// Builds the shell invocation for a service command.
 ///
 /// `inherit_system` decides whether this is a *login* shell. That matters more
@@ -808,7 +1119,7 @@ fn configure_process_group(command: &mut Command) {
     command.creation_flags(CREATE_NEW_PROCESS_GROUP);
 }
 
-fn terminate_child(child: &mut Child) -> Result<(), String> {
+pub(crate) fn terminate_child(child: &mut Child) -> Result<(), String> {
     if child.try_wait().map_err(|error| error.to_string())?.is_some() {
         return Ok(());
     }
@@ -922,6 +1233,51 @@ pub fn terminate_process_tree(pid: u32) -> Result<(), String> {
     }
 }
 
+/// Terminates `pid` and every process descended from it, whichever process
+/// group each is in.
+///
+/// `terminate_process_tree` reaches a tree only when `pid` leads its own group.
+/// A process Hub did not start rarely does, and tools such as `pnpm` put
+/// children in groups of their own, so a child holding a port would outlive a
+/// kill of its parent. The descendants are read before anything is signalled,
+/// which still finds them after the parent's death has reparented them.
+pub fn terminate_process_subtree(pid: u32) -> Result<(), String> {
+    validate_pid(pid)?;
+
+    #[cfg(unix)]
+    {
+        let own = std::process::id();
+        let descendants = crate::processes::with_processes(|system| {
+            process_tree_ids(system, pid)
+                .into_iter()
+                .filter(|candidate| {
+                    system
+                        .process(*candidate)
+                        .is_some_and(|process| process.thread_kind().is_none())
+                })
+                .map(|candidate| candidate.as_u32())
+                .filter(|candidate| *candidate != pid && *candidate != own)
+                .collect::<Vec<_>>()
+        });
+        // The root first, so a supervisor among them cannot respawn the rest.
+        terminate_process_tree(pid)?;
+        for descendant in descendants {
+            // Many exit with their parent before their turn comes; a failed
+            // signal to one of those is expected.
+            let _ = Command::new("kill")
+                .args(["-TERM", "--", &descendant.to_string()])
+                .status();
+        }
+        Ok(())
+    }
+
+    // `taskkill /T` already walks the tree by parent process.
+    #[cfg(windows)]
+    {
+        terminate_process_tree(pid)
+    }
+}
+
 fn spawn_reader<R>(
     sink: Arc<dyn EventSink>,
     service_id: String,
@@ -934,12 +1290,8 @@ fn spawn_reader<R>(
 {
     std::thread::spawn(move || {
         let mut reader = BufReader::new(reader);
-        let mut line: Vec<u8> = Vec::new();
+        let mut lines = LineSplitter::default();
         let mut chunk = [0u8; 4096];
-        // A carriage return only terminates a line once we know what follows it:
-        // in `\r\n` the pair is one terminator, while a bare `\r` is a progress
-        // bar redrawing. Deferring the decision keeps blank CRLF lines intact.
-        let mut saw_carriage_return = false;
 
         loop {
             let read = match reader.read(&mut chunk) {
@@ -954,42 +1306,108 @@ fn spawn_reader<R>(
                         message: format!("failed to read process output: {error}"),
                         pid: None,
                         code: None,
+                        attempt: None,
                     });
                     break;
                 }
             };
+            lines.feed(&chunk[..read], |line| {
+                emit_log_line(&sink, &service_id, &kind, &detected_urls, &log, line)
+            });
+        }
 
-            for &byte in &chunk[..read] {
-                if saw_carriage_return {
-                    saw_carriage_return = false;
-                    emit_log_line(&sink, &service_id, &kind, &detected_urls, &log, &mut line);
-                    if byte == b'\n' {
-                        continue;
-                    }
+        lines.finish(|line| emit_log_line(&sink, &service_id, &kind, &detected_urls, &log, line));
+    });
+}
+
+/// Reads an interactive service's terminal. Every chunk goes to the terminal
+/// pane as it arrives, and is also split into lines for the log exactly as
+/// piped output is.
+fn spawn_terminal_reader(
+    sink: Arc<dyn EventSink>,
+    service_id: String,
+    terminal: Arc<Terminal>,
+    mut reader: std::fs::File,
+    detected_urls: Arc<Mutex<Vec<String>>>,
+    log: Option<Arc<RunLogWriter>>,
+) {
+    std::thread::spawn(move || {
+        let kind = ServiceEventKind::Stdout;
+        let mut lines = LineSplitter::default();
+        let mut pending = Vec::new();
+        let mut chunk = [0u8; 4096];
+
+        loop {
+            let read = match reader.read(&mut chunk) {
+                Ok(0) => break,
+                Ok(read) => read,
+                Err(error) if error.kind() == std::io::ErrorKind::Interrupted => continue,
+                // Linux reports the last process closing the terminal as EIO
+                // rather than end of file, so any error here is the end.
+                Err(_) => break,
+            };
+            pending.extend_from_slice(&chunk[..read]);
+            let data = crate::terminal::take_utf8(&mut pending);
+            if !data.is_empty() {
+                terminal.record(&data);
+                sink.terminal(TerminalOutput {
+                    service_id: service_id.clone(),
+                    data,
+                });
+            }
+            lines.feed(&chunk[..read], |line| {
+                emit_log_line(&sink, &service_id, &kind, &detected_urls, &log, line)
+            });
+        }
+
+        lines.finish(|line| emit_log_line(&sink, &service_id, &kind, &detected_urls, &log, line));
+    });
+}
+
+/// Splits a byte stream into log lines, tolerating everything tools do to
+/// their output: CRLF, bare carriage returns, and lines that never end.
+#[derive(Default)]
+struct LineSplitter {
+    line: Vec<u8>,
+    // A carriage return only terminates a line once we know what follows it:
+    // in `\r\n` the pair is one terminator, while a bare `\r` is a progress
+    // bar redrawing. Deferring the decision keeps blank CRLF lines intact.
+    saw_carriage_return: bool,
+}
+
+impl LineSplitter {
+    /// Calls `emit` with each completed line, which it is expected to drain.
+    fn feed(&mut self, bytes: &[u8], mut emit: impl FnMut(&mut Vec<u8>)) {
+        for &byte in bytes {
+            if self.saw_carriage_return {
+                self.saw_carriage_return = false;
+                emit(&mut self.line);
+                if byte == b'\n' {
+                    continue;
                 }
-                match byte {
-                    b'\r' => saw_carriage_return = true,
-                    b'\n' => {
-                        emit_log_line(&sink, &service_id, &kind, &detected_urls, &log, &mut line)
-                    }
-                    _ => {
-                        line.push(byte);
-                        // Flush rather than buffer without bound: some tools emit
-                        // very long single lines, and progress output may never
-                        // send a terminator at all.
-                        if line.len() >= MAX_LOG_LINE_BYTES {
-                            emit_log_line(&sink, &service_id, &kind, &detected_urls, &log, &mut line);
-                        }
+            }
+            match byte {
+                b'\r' => self.saw_carriage_return = true,
+                b'\n' => emit(&mut self.line),
+                _ => {
+                    self.line.push(byte);
+                    // Flush rather than buffer without bound: some tools emit
+                    // very long single lines, and progress output may never
+                    // send a terminator at all.
+                    if self.line.len() >= MAX_LOG_LINE_BYTES {
+                        emit(&mut self.line);
                     }
                 }
             }
         }
+    }
 
-        // Surface whatever the process wrote without a trailing terminator.
-        if !line.is_empty() {
-            emit_log_line(&sink, &service_id, &kind, &detected_urls, &log, &mut line);
+    /// Surfaces whatever the process wrote without a trailing terminator.
+    fn finish(&mut self, mut emit: impl FnMut(&mut Vec<u8>)) {
+        if !self.line.is_empty() {
+            emit(&mut self.line);
         }
-    });
+    }
 }
 
 /// Emits one log line and drains the buffer.
@@ -1034,6 +1452,7 @@ fn emit_log_line(
                 message: url,
                 pid: None,
                 code: None,
+                attempt: None,
             });
         }
     }
@@ -1044,6 +1463,7 @@ fn emit_log_line(
         message,
         pid: None,
         code: None,
+        attempt: None,
     });
 }
 
@@ -1057,7 +1477,7 @@ fn process_tree_ids(system: &System, root_pid: u32) -> HashSet<Pid> {
         .collect()
 }
 
-fn is_descendant_or_self(system: &System, candidate: Pid, root: Pid) -> bool {
+pub(crate) fn is_descendant_or_self(system: &System, candidate: Pid, root: Pid) -> bool {
     let mut current = Some(candidate);
     let mut visited = HashSet::new();
     while let Some(pid) = current {
@@ -1072,10 +1492,118 @@ fn is_descendant_or_self(system: &System, candidate: Pid, root: Pid) -> bool {
     false
 }
 
+/// CPU percent and resident megabytes summed over a process tree.
+fn tree_usage(system: &System, process_ids: &HashSet<Pid>) -> (f32, u64) {
+    let processes = process_ids
+        .iter()
+        .filter_map(|pid| system.process(*pid))
+        .collect::<Vec<_>>();
+    let cpu_usage = processes.iter().map(|process| process.cpu_usage()).sum();
+    let memory_mb = processes
+        .iter()
+        .map(|process| process.memory())
+        .sum::<u64>()
+        / 1024
+        / 1024;
+    (cpu_usage, memory_mb)
+}
+
+/// Samples a run's process tree against its guardrail until the run is no
+/// longer the service's current one.
+///
+/// Reads the process table shared with the Processes view, which keeps the CPU
+/// figures honest: they are deltas since the previous refresh, and a table
+/// created fresh for each sample would report an average since boot.
+///
+/// A restart or stop ends this monitor. The replacement run, if any, starts its
+/// own with the same guardrail and a clean slate.
+fn spawn_guardrail_monitor(
+    sink: Arc<dyn EventSink>,
+    manager: ServiceManager,
+    service_id: String,
+    pid: u32,
+    guardrail: ResourceGuardrail,
+    history: Option<History>,
+    run: Option<RunHandle>,
+) {
+    std::thread::spawn(move || {
+        let mut watch = GuardrailWatch::default();
+        loop {
+            std::thread::sleep(GUARDRAIL_POLL_INTERVAL);
+            let current = manager
+                .children
+                .lock()
+                .map(|children| {
+                    children
+                        .get(&service_id)
+                        .is_some_and(|managed| managed.pid == pid)
+                })
+                .unwrap_or(false);
+            if !current {
+                break;
+            }
+            let (cpu_usage, memory_mb) = crate::processes::with_processes(|system| {
+                tree_usage(system, &process_tree_ids(system, pid))
+            });
+            let Some(breach) = watch.observe(&guardrail, cpu_usage, memory_mb, now_ms()) else {
+                continue;
+            };
+
+            let (kind, verdict) = match guardrail.action {
+                GuardrailAction::Warn => (RunEventKind::GuardrailWarned, "left running"),
+                GuardrailAction::Restart => (RunEventKind::GuardrailRestarted, "restarting"),
+                GuardrailAction::Stop => (RunEventKind::GuardrailStopped, "stopping"),
+            };
+            let message = format!("{}; {verdict}", breach.describe());
+            // Recorded before acting, so the event lands on the run it describes
+            // rather than racing the exit watcher closing it.
+            if let (Some(history), Some(run)) = (&history, &run) {
+                history.record_event(
+                    &run.run_id,
+                    RunEvent {
+                        at_ms: now_ms(),
+                        kind,
+                        message: message.clone(),
+                    },
+                );
+            }
+            sink.service(ServiceEvent {
+                service_id: service_id.clone(),
+                kind: ServiceEventKind::Guardrail,
+                message,
+                pid: Some(pid),
+                code: None,
+                attempt: None,
+            });
+
+            let acted = match guardrail.action {
+                GuardrailAction::Warn => continue,
+                GuardrailAction::Restart => manager
+                    .restart_with_sink(sink.clone(), service_id.clone())
+                    .map(|_| ()),
+                GuardrailAction::Stop => {
+                    manager.stop_with_sink(sink.clone(), service_id.clone(), true)
+                }
+            };
+            if let Err(error) = acted {
+                sink.service(ServiceEvent {
+                    service_id: service_id.clone(),
+                    kind: ServiceEventKind::Error,
+                    message: format!("guardrail could not {verdict}: {error}"),
+                    pid: Some(pid),
+                    code: None,
+                    attempt: None,
+                });
+            }
+            break;
+        }
+    });
+}
+
 #[allow(clippy::too_many_arguments)]
 fn spawn_exit_watcher(
     sink: Arc<dyn EventSink>,
-    children: Arc<Mutex<HashMap<String, ManagedProcess>>>,
+    manager: ServiceManager,
     service_id: String,
     child: Arc<Mutex<Child>>,
     pid: u32,
@@ -1093,6 +1621,7 @@ fn spawn_exit_watcher(
                         message: error.to_string(),
                         pid: Some(pid),
                         code: None,
+                        attempt: None,
                     });
                     break;
                 }
@@ -1106,10 +1635,13 @@ fn spawn_exit_watcher(
 
         match status {
             Some(Ok(code)) => {
-                let should_emit = children
-                    .lock()
-                    .map(|mut children| remove_if_current(&mut children, &service_id, pid))
-                    .unwrap_or(true);
+                let (should_emit, managed) = match manager.children.lock() {
+                    Ok(mut children) => {
+                        let managed = take_if_current(&mut children, &service_id, pid);
+                        (managed.is_some(), managed)
+                    }
+                    Err(_) => (true, None),
+                };
                 // Closed regardless of `should_emit`: a restart supersedes the
                 // event but the finished run still needs its outcome recorded.
                 let stopped_deliberately = run
@@ -1130,7 +1662,7 @@ fn spawn_exit_watcher(
                 finish_run(&history, &run, outcome, recorded_code);
                 if should_emit {
                     sink.service(ServiceEvent {
-                        service_id,
+                        service_id: service_id.clone(),
                         kind: ServiceEventKind::Exited,
                         message: format!(
                             "exited with code {}",
@@ -1138,14 +1670,28 @@ fn spawn_exit_watcher(
                         ),
                         pid: Some(pid),
                         code,
+                        attempt: None,
                     });
                 }
+                // Only the run still registered as current may restart: one that
+                // was stopped or replaced was dealt with by whoever removed it.
+                if let Some(managed) = managed {
+                    restart_after_exit(
+                        sink,
+                        &manager,
+                        service_id,
+                        managed,
+                        code,
+                        stopped_deliberately,
+                    );
+                }
                 break;
             }
             Some(Err(message)) => {
-                let should_emit = children
+                let should_emit = manager
+                    .children
                     .lock()
-                    .map(|mut children| remove_if_current(&mut children, &service_id, pid))
+                    .map(|mut children| take_if_current(&mut children, &service_id, pid).is_some())
                     .unwrap_or(true);
                 finish_run(&history, &run, RunOutcome::Failed, None);
                 if should_emit {
@@ -1155,6 +1701,7 @@ fn spawn_exit_watcher(
                         message,
                         pid: Some(pid),
                         code: None,
+                        attempt: None,
                     });
                 }
                 break;
@@ -1179,19 +1726,143 @@ fn finish_run(
     history.end_run(&run.run_id, outcome, exit_code, now_ms(), run.log.is_truncated());
 }
 
-fn remove_if_current(
+/// Applies the run's restart policy after its process has exited and been
+/// removed from the manager.
+///
+/// Runs on the exit watcher's thread, so the backoff sleeps there too. The wait
+/// is registered in `pending_restarts` for its whole length; a manual stop or
+/// start removes the entry and raises the flag, and the relaunch is skipped.
+fn restart_after_exit(
+    sink: Arc<dyn EventSink>,
+    manager: &ServiceManager,
+    service_id: String,
+    managed: ManagedProcess,
+    code: Option<i32>,
+    stopped_deliberately: bool,
+) {
+    let ran_for = Duration::from_millis(
+        now_ms()
+            .saturating_sub(managed.started_at_ms)
+            .try_into()
+            .unwrap_or(u64::MAX),
+    );
+    let policy = managed.restart_policy.clone();
+    let (attempt, delay) =
+        match policy.decide(code, stopped_deliberately, managed.restart_attempt, ran_for) {
+            RestartDecision::None => return,
+            RestartDecision::GiveUp { attempts } => {
+                sink.service(ServiceEvent {
+                    service_id,
+                    kind: ServiceEventKind::GaveUp,
+                    message: format!(
+                        "gave up after {attempts} automatic restart{}",
+                        if attempts == 1 { "" } else { "s" }
+                    ),
+                    pid: None,
+                    code,
+                    attempt: Some(attempts),
+                });
+                return;
+            }
+            RestartDecision::Restart { attempt, delay } => (attempt, delay),
+        };
+
+    let cancelled = Arc::new(AtomicBool::new(false));
+    match manager.pending_restarts.lock() {
+        Ok(mut pending) => {
+            pending.insert(service_id.clone(), cancelled.clone());
+        }
+        Err(error) => {
+            sink.service(ServiceEvent {
+                service_id,
+                kind: ServiceEventKind::Error,
+                message: format!("automatic restart failed: {error}"),
+                pid: None,
+                code,
+                attempt: Some(attempt),
+            });
+            return;
+        }
+    }
+    sink.service(ServiceEvent {
+        service_id: service_id.clone(),
+        kind: ServiceEventKind::Restarting,
+        message: format!(
+            "restarting in {} ms (attempt {attempt} of {}, exit code {})",
+            delay.as_millis(),
+            policy.max_retries,
+            code.map_or_else(|| "signal".to_string(), |code| code.to_string())
+        ),
+        pid: None,
+        code,
+        attempt: Some(attempt),
+    });
+
+    // Slept in short steps so a cancelled restart lets the thread go promptly.
+    let mut waited = Duration::ZERO;
+    while waited < delay && !cancelled.load(Ordering::SeqCst) {
+        let step = RESTART_WAIT_STEP.min(delay - waited);
+        std::thread::sleep(step);
+        waited += step;
+    }
+    let still_ours = manager
+        .pending_restarts
+        .lock()
+        .map(|mut pending| {
+            let ours = pending
+                .get(&service_id)
+                .is_some_and(|entry| Arc::ptr_eq(entry, &cancelled));
+            if ours {
+                pending.remove(&service_id);
+            }
+            ours
+        })
+        .unwrap_or(false);
+    if !still_ours || cancelled.load(Ordering::SeqCst) {
+        return;
+    }
+
+    if let Err(error) = manager.launch(
+        sink.clone(),
+        service_id.clone(),
+        managed.cwd,
+        managed.cmd,
+        managed.environment,
+        managed.expected_ports,
+        managed.allow_port_conflicts,
+        policy,
+        attempt,
+        managed.guardrail,
+        managed.file_watch,
+        managed.interactive,
+    ) {
+        sink.service(ServiceEvent {
+            service_id,
+            kind: ServiceEventKind::Error,
+            message: format!("automatic restart failed: {error}"),
+            pid: None,
+            code: None,
+            attempt: Some(attempt),
+        });
+    }
+}
+
+/// Removes the service's entry when it still belongs to `pid`, handing it back.
+/// `None` means the run was already stopped or replaced.
+fn take_if_current(
     children: &mut HashMap<String, ManagedProcess>,
     service_id: &str,
     pid: u32,
-) -> bool {
+) -> Option<ManagedProcess> {
     let matches_current = children
         .get(service_id)
         .map(|managed| managed.pid == pid)
         .unwrap_or(false);
     if matches_current {
-        children.remove(service_id);
+        children.remove(service_id)
+    } else {
+        None
     }
-    matches_current
 }
 
 fn now_ms() -> u128 {
@@ -1567,6 +2238,269 @@ mod tests {
             .expect("cleanup");
     }
 
+    fn start_with_policy(
+        manager: &ServiceManager,
+        sink: Arc<TestSink>,
+        service_id: &str,
+        cmd: &str,
+        policy: RestartPolicy,
+    ) -> Result<u32, String> {
+        manager.start_with_sink(
+            sink,
+            service_id.to_string(),
+            "/tmp".to_string(),
+            cmd.to_string(),
+            ServiceEnvironment::default(),
+            Vec::new(),
+            false,
+            policy,
+            None,
+            None,
+        )
+    }
+
+    #[test]
+    fn a_crashing_service_is_restarted_until_its_retries_run_out() {
+        let manager = ServiceManager::default();
+        let sink = Arc::new(TestSink::default());
+        let policy = RestartPolicy {
+            mode: crate::restart::RestartMode::OnFailure,
+            max_retries: 2,
+            initial_backoff_ms: 50,
+            max_backoff_ms: 100,
+            ..RestartPolicy::default()
+        };
+        start_with_policy(&manager, sink.clone(), "crashy", "exit 3", policy).expect("start");
+
+        wait_until(|| sink.has(ServiceEventKind::GaveUp));
+        let attempts = sink
+            .events
+            .lock()
+            .expect("events")
+            .iter()
+            .filter(|event| event.kind == ServiceEventKind::Restarting)
+            .map(|event| event.attempt)
+            .collect::<Vec<_>>();
+        assert_eq!(attempts, vec![Some(1), Some(2)]);
+        assert_eq!(sink.messages(ServiceEventKind::Exited).len(), 3);
+        assert_eq!(
+            sink.messages(ServiceEventKind::GaveUp),
+            vec!["gave up after 2 automatic restarts".to_string()]
+        );
+        assert!(!manager.is_managed("crashy").expect("managed"));
+    }
+
+    #[test]
+    fn stopping_during_the_backoff_cancels_the_restart() {
+        let manager = ServiceManager::default();
+        let sink = Arc::new(TestSink::default());
+        let policy = RestartPolicy {
+            mode: crate::restart::RestartMode::Always,
+            initial_backoff_ms: 2_000,
+            ..RestartPolicy::default()
+        };
+        start_with_policy(&manager, sink.clone(), "waiting", "exit 1", policy).expect("start");
+
+        wait_until(|| sink.has(ServiceEventKind::Restarting));
+        assert!(manager.is_managed("waiting").expect("managed"));
+        manager.stop_for_test(sink.clone(), "waiting").expect("stop");
+        assert!(!manager.is_managed("waiting").expect("managed"));
+
+        std::thread::sleep(Duration::from_millis(2_300));
+        assert_eq!(sink.messages(ServiceEventKind::Started).len(), 1);
+        assert!(manager.list().expect("list").is_empty());
+    }
+
+    /// A busy loop is over any CPU ceiling; stopping it must land on its run as
+    /// a guardrail event and close the run as a deliberate stop.
+    #[test]
+    fn a_sustained_cpu_breach_stops_the_service_and_is_recorded() {
+        let dir = history_dir("guardrail");
+        let manager = ServiceManager::default();
+        manager.attach_history(History::new(&dir));
+        let sink = Arc::new(TestSink::default());
+        let guardrail = ResourceGuardrail {
+            max_memory_mb: None,
+            max_cpu_percent: Some(5.0),
+            cpu_sustain_ms: 1_000,
+            action: GuardrailAction::Stop,
+        };
+        manager
+            .start_with_sink(
+                sink.clone(),
+                "spinning".to_string(),
+                "/tmp".to_string(),
+                "while :; do :; done".to_string(),
+                ServiceEnvironment::default(),
+                Vec::new(),
+                false,
+                RestartPolicy::default(),
+                Some(guardrail),
+                None,
+            )
+            .expect("start");
+
+        // Several samples two seconds apart, so this outlasts `wait_until`.
+        let started = Instant::now();
+        while !sink.has(ServiceEventKind::Stopped) && started.elapsed() < Duration::from_secs(20) {
+            std::thread::sleep(Duration::from_millis(100));
+        }
+        assert!(
+            sink.has(ServiceEventKind::Stopped),
+            "the guardrail never stopped the service"
+        );
+        assert!(!manager.is_managed("spinning").expect("managed"));
+        let warnings = sink.messages(ServiceEventKind::Guardrail);
+        assert_eq!(warnings.len(), 1, "{warnings:?}");
+        assert!(warnings[0].starts_with("CPU at "), "{warnings:?}");
+        assert!(warnings[0].ends_with("; stopping"), "{warnings:?}");
+
+        let history = History::new(&dir);
+        wait_until(|| {
+            history
+                .list()
+                .first()
+                .map(|record| record.outcome != crate::history::RunOutcome::Running)
+                .unwrap_or(false)
+        });
+        let record = &history.list()[0];
+        assert_eq!(record.outcome, crate::history::RunOutcome::Stopped);
+        assert_eq!(record.events.len(), 1);
+        assert_eq!(record.events[0].kind, RunEventKind::GuardrailStopped);
+        assert_eq!(record.events[0].message, warnings[0]);
+
+        std::fs::remove_dir_all(dir).unwrap();
+    }
+
+    /// Saving a watched file restarts the service once and says which file did it;
+    /// files outside the globs, and anything once the service is stopped, do not.
+    #[test]
+    fn a_watched_file_changing_restarts_the_service() {
+        let dir = history_dir("watch");
+        std::fs::create_dir_all(dir.join("src")).unwrap();
+        let manager = ServiceManager::default();
+        let sink = Arc::new(TestSink::default());
+        let file_watch = FileWatch {
+            globs: vec!["src/**/*.js".to_string()],
+            ignore: Vec::new(),
+            debounce_ms: 100,
+        };
+        let first = manager
+            .start_with_sink(
+                sink.clone(),
+                "watched".to_string(),
+                dir.to_string_lossy().into_owned(),
+                "sleep 30".to_string(),
+                ServiceEnvironment::default(),
+                Vec::new(),
+                false,
+                RestartPolicy::default(),
+                None,
+                Some(file_watch),
+            )
+            .expect("start");
+
+        std::fs::write(dir.join("notes.txt"), "not watched").unwrap();
+        std::thread::sleep(Duration::from_millis(500));
+        assert!(!sink.has(ServiceEventKind::Restarting));
+
+        std::fs::write(dir.join("src/server.js"), "console.log('edited')").unwrap();
+        wait_until(|| sink.has(ServiceEventKind::Restarting));
+        assert_eq!(
+            sink.messages(ServiceEventKind::Restarting),
+            vec!["restarting: src/server.js changed".to_string()]
+        );
+        wait_until(|| sink.messages(ServiceEventKind::Started).len() == 2);
+        let second = manager.list().expect("list")[0].pid;
+        assert_ne!(first, second);
+
+        // The replacement run keeps watching; a stopped service does not.
+        manager
+            .stop_for_test(sink.clone(), "watched")
+            .expect("stop");
+        std::fs::write(dir.join("src/server.js"), "console.log('again')").unwrap();
+        std::thread::sleep(Duration::from_millis(500));
+        assert_eq!(sink.messages(ServiceEventKind::Restarting).len(), 1);
+        assert!(!manager.is_managed("watched").expect("managed"));
+
+        std::fs::remove_dir_all(dir).unwrap();
+    }
+
+    #[test]
+    fn an_interactive_service_can_be_typed_into_and_still_logs_its_run() {
+        let dir = history_dir("interactive");
+        let manager = ServiceManager::default();
+        manager.attach_history(History::new(&dir));
+        let sink = Arc::new(TestSink::default());
+
+        manager
+            .start_with_sink(
+                sink.clone(),
+                "interactive".to_string(),
+                "/tmp".to_string(),
+                "printf 'name? '; read name; echo \"hello $name\"; [ -t 0 ] && echo on-a-tty"
+                    .to_string(),
+                ServiceEnvironment::default(),
+                Vec::new(),
+                false,
+                RestartPolicy::default(),
+                None,
+                None,
+                true,
+            )
+            .expect("start");
+        assert!(manager.list().expect("list")[0].interactive);
+        // The prompt has no newline, so only the raw output can show it.
+        wait_until(|| {
+            manager
+                .terminal_backlog("interactive")
+                .map(|backlog| backlog.contains("name? "))
+                .unwrap_or(false)
+        });
+        assert!(sink.messages(ServiceEventKind::Stdout).is_empty());
+
+        manager
+            .write_terminal("interactive", "world\r")
+            .expect("write");
+        wait_until(|| sink.has(ServiceEventKind::Exited));
+        let lines = sink.messages(ServiceEventKind::Stdout);
+        assert!(lines.iter().any(|line| line == "hello world"), "{lines:?}");
+        assert!(lines.iter().any(|line| line == "on-a-tty"), "{lines:?}");
+
+        let history = History::new(&dir);
+        wait_until(|| {
+            history
+                .list()
+                .first()
+                .map(|record| record.outcome != crate::history::RunOutcome::Running)
+                .unwrap_or(false)
+        });
+        let log = history
+            .read_log(&history.list()[0].run_id, 100)
+            .expect("log");
+        assert!(
+            log.lines.iter().any(|line| line == "hello world"),
+            "{:?}",
+            log.lines
+        );
+
+        std::fs::remove_dir_all(dir).unwrap();
+    }
+
+    #[test]
+    fn a_piped_service_has_no_terminal_to_type_into() {
+        let manager = ServiceManager::default();
+        let sink = Arc::new(TestSink::default());
+        manager
+            .start_for_test(sink.clone(), "piped", "/tmp", "sleep 5")
+            .expect("start");
+
+        let error = manager.write_terminal("piped", "q").unwrap_err();
+        assert!(error.contains("interactive"), "{error}");
+
+        manager.stop_for_test(sink, "piped").expect("stop");
+    }
+
     /// Runs `cmd` under the given inheritance mode and returns its stdout lines.
     fn run_with_inheritance(
         service_id: &str,
@@ -1588,6 +2522,9 @@ mod tests {
                 },
                 Vec::new(),
                 false,
+                RestartPolicy::default(),
+                None,
+                None,
             )
             .expect("start");
         wait_until(|| sink.has(ServiceEventKind::Exited));
@@ -1702,6 +2639,9 @@ mod tests {
                 environment,
                 Vec::new(),
                 false,
+                RestartPolicy::default(),
+                None,
+                None,
             )
             .expect("start");
 
@@ -0,0 +1,283 @@
+//! Interactive terminals for services that ask for one.
+//!
+//! A service normally runs with its output piped and no stdin, which is right
+//! for a server and useless for anything that talks back: Vite's "press h for
+//! help", a Prisma confirmation, a REPL. In interactive mode the service runs on
+//! a pseudo-terminal instead. It sees a real TTY, so it keeps its colours and
+//! prompts, and the interface can type into it and resize it.
+//!
+//! The process is still an ordinary `std::process::Child` with the terminal as
+//! its stdin, stdout and stderr, so supervision, restart policies and stopping
+//! work exactly as they do for a piped service. The one difference is that it
+//! starts a session of its own rather than only a process group, because only a
+//! session leader can take a controlling terminal. A session leader leads its
+//! group too, so stopping the group reaches everything it started all the same.
+//!
+//! Output is read once and goes two ways: raw to the terminal pane, escape
+//! sequences and all, and split into lines for the log and the run history
+//! exactly like piped output.
+//!
+//! Only Unix has this for now. ConPTY would cover Windows, but through a
+//! different process type than the rest of supervision is built on.
+
+use serde::{Deserialize, Serialize};
+use std::{fs::File, io::Write, process::Command, sync::Mutex};
+use ts_rs::TS;
+
+/// How much raw output is kept for a pane opened after the service started.
+/// Enough for a few screens of scrollback; the full log is in the history.
+const BACKLOG_BYTES: usize = 256 * 1024;
+
+#[derive(Debug, Clone, Copy, PartialEq, Eq, Serialize, Deserialize, TS)]
+#[ts(export, export_to = "../../src/generated/")]
+pub struct TerminalSize {
+    pub cols: u16,
+    pub rows: u16,
+}
+
+impl Default for TerminalSize {
+    /// Used until a pane reports its real size. Wide enough that a tool
+    /// formatting for the terminal does not wrap its banner.
+    fn default() -> Self {
+        Self {
+            cols: 120,
+            rows: 32,
+        }
+    }
+}
+
+impl TerminalSize {
+    pub fn validate(&self) -> Result<(), String> {
+        if self.cols == 0 || self.rows == 0 || self.cols > 1_000 || self.rows > 1_000 {
+            return Err(format!(
+                "terminal size {}x{} must be between 1 and 1000 in each direction",
+                self.cols, self.rows
+            ));
+        }
+        Ok(())
+    }
+}
+
+/// Raw output from an interactive service, for the terminal pane rather than
+/// the log. Not split into lines: a prompt waiting for input has no newline.
+#[derive(Clone, Debug, Serialize, TS)]
+#[ts(export, export_to = "../../src/generated/")]
+pub struct TerminalOutput {
+    pub service_id: String,
+    pub data: String,
+}
+
+/// The parent's side of a service's pseudo-terminal.
+pub(crate) struct Terminal {
+    master: Mutex<File>,
+    /// Output so far, trimmed from the front, for a pane that opens late.
+    backlog: Mutex<String>,
+}
+
+impl Terminal {
+    /// A second handle on the terminal for the output reader, which blocks and
+    /// so must not hold the lock writes go through.
+    pub(crate) fn reader(&self) -> Result<File, String> {
+        self.master
+            .lock()
+            .map_err(|error| error.to_string())?
+            .try_clone()
+            .map_err(|error| format!("could not read from the terminal: {error}"))
+    }
+
+    /// Types `data` into the service, exactly as if from a keyboard.
+    pub(crate) fn write(&self, data: &str) -> Result<(), String> {
+        let mut master = self.master.lock().map_err(|error| error.to_string())?;
+        master
+            .write_all(data.as_bytes())
+            .and_then(|()| master.flush())
+            .map_err(|error| format!("could not write to the terminal: {error}"))
+    }
+
+    pub(crate) fn backlog(&self) -> String {
+        self.backlog
+            .lock()
+            .map(|backlog| backlog.clone())
+            .unwrap_or_default()
+    }
+
+    pub(crate) fn record(&self, output: &str) {
+        if let Ok(mut backlog) = self.backlog.lock() {
+            append_bounded(&mut backlog, output, BACKLOG_BYTES);
+        }
+    }
+
+    #[cfg(unix)]
+    pub(crate) fn resize(&self, size: TerminalSize) -> Result<(), String> {
+        use std::os::fd::AsRawFd;
+        size.validate()?;
+        let master = self.master.lock().map_err(|error| error.to_string())?;
+        let winsize = window_size(size);
+        // The kernel sends SIGWINCH to the foreground process group itself.
+        unsafe { set_window_size(master.as_raw_fd(), &winsize) }
+            .map(|_| ())
+            .map_err(|error| format!("could not resize the terminal: {error}"))
+    }
+
+    #[cfg(not(unix))]
+    pub(crate) fn resize(&self, _size: TerminalSize) -> Result<(), String> {
+        Err(UNSUPPORTED.to_string())
+    }
+}
+
+#[cfg(not(unix))]
+const UNSUPPORTED: &str = "interactive terminals are only available on macOS and Linux";
+
+#[cfg(unix)]
+nix::ioctl_write_ptr_bad!(set_window_size, nix::libc::TIOCSWINSZ, nix::libc::winsize);
+
+#[cfg(unix)]
+fn window_size(size: TerminalSize) -> nix::libc::winsize {
+    nix::libc::winsize {
+        ws_row: size.rows,
+        ws_col: size.cols,
+        ws_xpixel: 0,
+        ws_ypixel: 0,
+    }
+}
+
+/// Opens a terminal and makes it `command`'s stdin, stdout, stderr and
+/// controlling terminal.
+///
+/// `command` must not be given a process group: the child calls `setsid`, which
+/// a process that already leads a group is not allowed to do. The command holds
+/// the only copies of the child's side, so the caller must drop it once the
+/// child is spawned, or reading the terminal never sees the service exit.
+#[cfg(unix)]
+pub(crate) fn attach(command: &mut Command, size: TerminalSize) -> Result<Terminal, String> {
+    use std::os::unix::process::CommandExt;
+    use std::process::Stdio;
+
+    size.validate()?;
+    let pty = nix::pty::openpty(Some(&window_size(size)), None)
+        .map_err(|error| format!("could not open a terminal: {error}"))?;
+    let duplicate = |purpose: &str| {
+        pty.slave
+            .try_clone()
+            .map_err(|error| format!("could not set up the terminal's {purpose}: {error}"))
+    };
+    command
+        .stdin(Stdio::from(duplicate("input")?))
+        .stdout(Stdio::from(duplicate("output")?))
+        .stderr(Stdio::from(pty.slave));
+    // A baseline environment carries no TERM, and without one most tools fall
+    // back to plain output, which would defeat the point.
+    if !command
+        .get_envs()
+        .any(|(key, value)| key == "TERM" && value.is_some())
+    {
+        command.env("TERM", "xterm-256color");
+    }
+    // Safety: only async-signal-safe calls, between fork and exec.
+    unsafe {
+        command.pre_exec(|| {
+            nix::unistd::setsid()?;
+            if nix::libc::ioctl(0, nix::libc::TIOCSCTTY as _, 0) == -1 {
+                return Err(std::io::Error::last_os_error());
+            }
+            Ok(())
+        });
+    }
+    Ok(Terminal {
+        master: Mutex::new(File::from(pty.master)),
+        backlog: Mutex::new(String::new()),
+    })
+}
+
+#[cfg(not(unix))]
+pub(crate) fn attach(_command: &mut Command, _size: TerminalSize) -> Result<Terminal, String> {
+    Err(UNSUPPORTED.to_string())
+}
+
+/// Decodes as much of `pending` as forms whole characters and leaves the rest.
+///
+/// A read can end partway through a multi-byte character. Decoding each read on
+/// its own would turn both halves into replacement characters, so an incomplete
+/// sequence at the end waits for the next read instead. Bytes that can never be
+/// valid are replaced, as they are in the log.
+pub(crate) fn take_utf8(pending: &mut Vec<u8>) -> String {
+    let complete = pending.len() - incomplete_tail(pending);
+    let text = String::from_utf8_lossy(&pending[..complete]).into_owned();
+    pending.drain(..complete);
+    text
+}
+
+/// How many bytes at the end start a character that has not finished arriving.
+fn incomplete_tail(bytes: &[u8]) -> usize {
+    for back in 1..=bytes.len().min(3) {
+        let byte = bytes[bytes.len() - back];
+        if byte & 0b1100_0000 == 0b1000_0000 {
+            continue;
+        }
+        let needed = match byte {
+            0xc0..=0xdf => 2,
+            0xe0..=0xef => 3,
+            0xf0..=0xf7 => 4,
+            _ => 1,
+        };
+        return if needed > back { back } else { 0 };
+    }
+    0
+}
+
+/// Appends, then drops whole characters from the front until `limit` holds.
+fn append_bounded(backlog: &mut String, output: &str, limit: usize) {
+    backlog.push_str(output);
+    if backlog.len() <= limit {
+        return;
+    }
+    let mut cut = backlog.len() - limit;
+    while !backlog.is_char_boundary(cut) {
+        cut += 1;
+    }
+    backlog.drain(..cut);
+}
+
+#[cfg(test)]
+mod tests {
+    use super::*;
+
+    #[test]
+    fn a_character_split_across_reads_waits_for_its_other_half() {
+        let mut pending = "héllo".as_bytes()[..2].to_vec();
+        assert_eq!(take_utf8(&mut pending), "h");
+        assert_eq!(pending.len(), 1);
+
+        pending.extend_from_slice(&"héllo".as_bytes()[2..]);
+        assert_eq!(take_utf8(&mut pending), "éllo");
+        assert!(pending.is_empty());
+    }
+
+    #[test]
+    fn bytes_that_can_never_decode_are_replaced_rather_than_held() {
+        let mut pending = vec![b'a', 0xff, b'b'];
+        assert_eq!(take_utf8(&mut pending), "a\u{fffd}b");
+        assert!(pending.is_empty());
+    }
+
+    #[test]
+    fn the_backlog_keeps_the_most_recent_output_on_a_character_boundary() {
+        let mut backlog = String::new();
+        append_bounded(&mut backlog, "ééé", 5);
+        assert_eq!(backlog, "éé");
+        append_bounded(&mut backlog, "ab", 5);
+        assert_eq!(backlog, "éab");
+    }
+
+    #[test]
+    fn sizes_outside_what_a_terminal_can_be_are_refused() {
+        assert!(TerminalSize::default().validate().is_ok());
+        assert!(TerminalSize { cols: 0, rows: 24 }.validate().is_err());
+        assert!(TerminalSize {
+            cols: 80,
+            rows: 5_000
+        }
+        .validate()
+        .is_err());
+    }
+}
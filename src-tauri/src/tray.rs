@@ -54,7 +54,7 @@ pub fn is_available() -> bool {
     true
 }
 
-fn show_main_window(app: &AppHandle) {
+pub(crate) fn show_main_window(app: &AppHandle) {
     if let Some(window) = app.get_webview_window(MAIN_WINDOW) {
         let _ = window.show();
         crate::events::emit_window_visibility(app, true);
@@ -0,0 +1,426 @@
+//! File-watch restarts for services that do not watch their own sources.
+//!
+//! `vite` and `next dev` reload themselves; `node server.js`, `cargo run` and most
+//! Python servers do not, and used to need a manual restart after every edit.
+//! A service can name globs to watch, relative to its directory, and Hub restarts
+//! it when a matching file changes.
+//!
+//! Only the directories the globs can reach are watched. `src/**/*.ts` watches
+//! `src` and below, so a `node_modules` beside it never costs an inotify watch.
+//! Changes are debounced: a save that touches five files, or an editor that writes
+//! a swap file and renames it over the original, is one restart.
+//!
+//! Directories that only ever hold dependencies, build output or repository
+//! metadata are ignored whatever the globs say. Without that, `cargo run` watching
+//! `**/*.rs` would restart on its own build writing into `target`, forever.
+
+use globset::{Glob, GlobBuilder, GlobSet, GlobSetBuilder};
+use notify::{event::ModifyKind, Event, EventKind, RecommendedWatcher, RecursiveMode, Watcher};
+use serde::{Deserialize, Serialize};
+use std::path::{Component, Path, PathBuf};
+use std::sync::mpsc::{channel, Receiver, RecvTimeoutError};
+use std::time::Duration;
+use ts_rs::TS;
+
+const MAX_GLOBS: usize = 64;
+const MAX_GLOB_LEN: usize = 256;
+const MIN_DEBOUNCE_MS: u64 = 50;
+const MAX_DEBOUNCE_MS: u64 = 60_000;
+
+/// Never a source of restarts, whatever the globs match.
+const ALWAYS_IGNORED_DIRS: &[&str] = &[".git", "node_modules", "target", "__pycache__", ".venv"];
+
+#[derive(Debug, Clone, PartialEq, Eq, Serialize, Deserialize, TS)]
+#[ts(export, export_to = "../../src/generated/")]
+pub struct FileWatch {
+    /// Relative to the service's directory, where `*` stays within one folder
+    /// and `**` crosses any number of them.
+    pub globs: Vec<String>,
+    /// Changes matching these are not restarts, even when a watch glob matches.
+    #[serde(default)]
+    pub ignore: Vec<String>,
+    /// Quiet period after the last change before restarting.
+    #[serde(default = "default_debounce_ms")]
+    // Tauri serializes through serde_json, so this arrives as a JSON number.
+    #[ts(type = "number")]
+    pub debounce_ms: u64,
+}
+
+fn default_debounce_ms() -> u64 {
+    300
+}
+
+impl FileWatch {
+    pub(crate) fn validate(&self) -> Result<(), String> {
+        if self.globs.iter().all(|glob| glob.trim().is_empty()) {
+            return Err("file watch needs at least one glob".to_string());
+        }
+        if self.globs.len() + self.ignore.len() > MAX_GLOBS {
+            return Err(format!("file watch allows at most {MAX_GLOBS} globs"));
+        }
+        for glob in self.globs.iter().chain(&self.ignore) {
+            if glob.len() > MAX_GLOB_LEN {
+                return Err(format!(
+                    "watch glob is longer than {MAX_GLOB_LEN} characters"
+                ));
+            }
+            // The watch is confined to the service's own directory.
+            let path = Path::new(glob.trim());
+            if path.is_absolute()
+                || path
+                    .components()
+                    .any(|component| matches!(component, Component::ParentDir))
+            {
+                return Err(format!(
+                    "watch glob `{glob}` must stay inside the service directory"
+                ));
+            }
+            compile_glob(glob)?;
+        }
+        if !(MIN_DEBOUNCE_MS..=MAX_DEBOUNCE_MS).contains(&self.debounce_ms) {
+            return Err(format!(
+                "watch debounce must be between {MIN_DEBOUNCE_MS} and {MAX_DEBOUNCE_MS} ms"
+            ));
+        }
+        Ok(())
+    }
+
+    pub(crate) fn debounce(&self) -> Duration {
+        Duration::from_millis(self.debounce_ms)
+    }
+
+    pub(crate) fn matcher(&self, root: &Path) -> Result<WatchMatcher, String> {
+        self.validate()?;
+        Ok(WatchMatcher {
+            root: root.to_path_buf(),
+            include: glob_set(self.globs.iter().filter(|glob| !glob.trim().is_empty()))?,
+            ignore: glob_set(self.ignore.iter().filter(|glob| !glob.trim().is_empty()))?,
+            bases: watch_bases(&self.globs),
+        })
+    }
+}
+
+fn compile_glob(glob: &str) -> Result<Glob, String> {
+    // `*` stops at a separator, so `*.js` means the top level only and `**`
+    // has to be written to mean any depth, as it does in a .gitignore.
+    GlobBuilder::new(glob.trim())
+        .literal_separator(true)
+        .build()
+        .map_err(|error| format!("watch glob `{glob}` is invalid: {error}"))
+}
+
+fn glob_set<'a>(globs: impl Iterator<Item = &'a String>) -> Result<GlobSet, String> {
+    let mut builder = GlobSetBuilder::new();
+    for glob in globs {
+        builder.add(compile_glob(glob)?);
+    }
+    builder.build().map_err(|error| error.to_string())
+}
+
+/// The directories a set of globs can reach, relative to the service directory,
+/// and whether each needs watching below its top level.
+///
+/// A glob's literal leading components name where it can match at all:
+/// `src/**/*.ts` is `src`, recursively, and `config/*.yaml` is `config` alone.
+/// Directories already covered by a recursive watch are dropped.
+fn watch_bases(globs: &[String]) -> Vec<(PathBuf, bool)> {
+    let mut bases: Vec<(PathBuf, bool)> = Vec::new();
+    for glob in globs
+        .iter()
+        .map(|glob| glob.trim())
+        .filter(|glob| !glob.is_empty())
+    {
+        let parts = glob
+            .split('/')
+            .filter(|part| !part.is_empty() && *part != ".")
+            .collect::<Vec<_>>();
+        let literal = parts
+            .iter()
+            .take_while(|part| !part.contains(['*', '?', '[', '{']))
+            .count();
+        let (base, recursive) = if literal == parts.len() {
+            // A plain file path: watch the directory holding it.
+            (parts[..parts.len().saturating_sub(1)].join("/"), false)
+        } else {
+            (
+                parts[..literal].join("/"),
+                parts.len() - literal > 1 || parts[literal..].contains(&"**"),
+            )
+        };
+        let base = PathBuf::from(base);
+        match bases.iter_mut().find(|(existing, _)| *existing == base) {
+            Some((_, existing_recursive)) => *existing_recursive |= recursive,
+            None => bases.push((base, recursive)),
+        }
+    }
+    let covering = bases
+        .iter()
+        .filter(|(_, recursive)| *recursive)
+        .map(|(base, _)| base.clone())
+        .collect::<Vec<_>>();
+    bases.retain(|(base, _)| {
+        !covering
+            .iter()
+            .any(|outer| outer != base && base.starts_with(outer))
+    });
+    bases
+}
+
+/// Decides whether a changed path should restart the service.
+pub(crate) struct WatchMatcher {
+    root: PathBuf,
+    include: GlobSet,
+    ignore: GlobSet,
+    bases: Vec<(PathBuf, bool)>,
+}
+
+impl WatchMatcher {
+    /// The path relative to the service directory when it should trigger a
+    /// restart, for saying which file did.
+    pub(crate) fn relevant(&self, path: &Path) -> Option<String> {
+        let relative = path.strip_prefix(&self.root).ok()?;
+        if relative.components().any(|component| {
+            component
+                .as_os_str()
+                .to_str()
+                .is_some_and(|name| ALWAYS_IGNORED_DIRS.contains(&name))
+        }) {
+            return None;
+        }
+        if !self.include.is_match(relative) || self.ignore.is_match(relative) {
+            return None;
+        }
+        Some(relative.to_string_lossy().replace('\\', "/"))
+    }
+}
+
+/// A live watch. Dropping it stops the watch and lets its debounce thread end.
+pub(crate) struct FileWatcher {
+    _watcher: RecommendedWatcher,
+}
+
+/// Watches a service's directory and calls `on_change` once per burst of
+/// relevant changes, with the first path that changed and how many others did.
+///
+/// `on_change` runs on a thread of its own, never on the notification thread,
+/// so it may drop the watcher that called it.
+pub(crate) fn watch(
+    root: &Path,
+    spec: &FileWatch,
+    on_change: impl Fn(String, usize) + Send + 'static,
+) -> Result<FileWatcher, String> {
+    // Events carry resolved paths on some platforms (`/private/tmp` on macOS for
+    // `/tmp`), which would never strip against an unresolved root.
+    let root = root.canonicalize().unwrap_or_else(|_| root.to_path_buf());
+    let matcher = spec.matcher(&root)?;
+    let bases = matcher.bases.clone();
+    let (sender, receiver) = channel::<String>();
+    let mut watcher = notify::recommended_watcher(move |event: notify::Result<Event>| {
+        let Ok(event) = event else {
+            return;
+        };
+        if !is_content_change(&event.kind) {
+            return;
+        }
+        for path in &event.paths {
+            if let Some(relative) = matcher.relevant(path) {
+                let _ = sender.send(relative);
+            }
+        }
+    })
+    .map_err(|error| format!("could not start watching files: {error}"))?;
+
+    let mut watched = 0;
+    for (base, recursive) in bases {
+        let directory = root.join(&base);
+        // A glob for a directory that does not exist yet matches nothing; the
+        // others still work.
+        if !directory.is_dir() {
+            continue;
+        }
+        let mode = if recursive {
+            RecursiveMode::Recursive
+        } else {
+            RecursiveMode::NonRecursive
+        };
+        match watcher.watch(&directory, mode) {
+            Ok(()) => watched += 1,
+            Err(error) => log::warn!("could not watch {}: {error}", directory.display()),
+        }
+    }
+    if watched == 0 {
+        return Err("none of the watch globs reach an existing directory".to_string());
+    }
+
+    let quiet = spec.debounce();
+    std::thread::spawn(move || debounce(receiver, quiet, on_change));
+    Ok(FileWatcher { _watcher: watcher })
+}
+
+/// Metadata and access events are left out: an `ls` or a `chmod` is not an edit.
+fn is_content_change(kind: &EventKind) -> bool {
+    match kind {
+        EventKind::Create(_) | EventKind::Remove(_) => true,
+        EventKind::Modify(ModifyKind::Metadata(_)) => false,
+        EventKind::Modify(_) => true,
+        _ => false,
+    }
+}
+
+/// Collapses bursts of changes into one call each. A burst ends once nothing has
+/// arrived for `quiet`. Returns when every sender is gone, which happens when the
+/// watcher is dropped.
+fn debounce(receiver: Receiver<String>, quiet: Duration, on_change: impl Fn(String, usize)) {
+    while let Ok(first) = receiver.recv() {
+        let mut others = Vec::<String>::new();
+        loop {
+            match receiver.recv_timeout(quiet) {
+                Ok(path) => {
+                    if path != first && !others.contains(&path) {
+                        others.push(path);
+                    }
+                }
+                Err(RecvTimeoutError::Timeout) => break,
+                Err(RecvTimeoutError::Disconnected) => return,
+            }
+        }
+        on_change(first, others.len());
+    }
+}
+
+#[cfg(test)]
+mod tests {
+    use super::*;
+    use std::sync::{Arc, Mutex};
+
+    fn spec(globs: &[&str], ignore: &[&str]) -> FileWatch {
+        FileWatch {
+            globs: globs.iter().map(|glob| glob.to_string()).collect(),
+            ignore: ignore.iter().map(|glob| glob.to_string()).collect(),
+            debounce_ms: default_debounce_ms(),
+        }
+    }
+
+    #[test]
+    fn globs_must_be_valid_and_stay_inside_the_service() {
+        assert!(spec(&["src/**/*.ts"], &[]).validate().is_ok());
+        assert!(spec(&[], &[])
+            .validate()
+            .unwrap_err()
+            .contains("at least one"));
+        assert!(spec(&["  "], &[]).validate().is_err());
+        assert!(spec(&["src/[a"], &[])
+            .validate()
+            .unwrap_err()
+            .contains("invalid"));
+        assert!(spec(&["../shared/**"], &[])
+            .validate()
+            .unwrap_err()
+            .contains("inside"));
+        assert!(spec(&["/etc/*"], &[])
+            .validate()
+            .unwrap_err()
+            .contains("inside"));
+        let mut hasty = spec(&["*.js"], &[]);
+        hasty.debounce_ms = 0;
+        assert!(hasty.validate().unwrap_err().contains("debounce"));
+    }
+
+    #[test]
+    fn only_the_directories_a_glob_can_reach_are_watched() {
+        let globs = |globs: &[&str]| {
+            watch_bases(
+                &globs
+                    .iter()
+                    .map(|glob| glob.to_string())
+                    .collect::<Vec<_>>(),
+            )
+        };
+        assert_eq!(globs(&["src/**/*.ts"]), vec![(PathBuf::from("src"), true)]);
+        assert_eq!(
+            globs(&["config/*.yaml"]),
+            vec![(PathBuf::from("config"), false)]
+        );
+        assert_eq!(globs(&["server.js"]), vec![(PathBuf::from(""), false)]);
+        assert_eq!(globs(&["*.py", "**/*.py"]), vec![(PathBuf::from(""), true)]);
+        assert_eq!(
+            globs(&["src/**/*.rs", "src/bin/*.rs", "Cargo.toml"]),
+            vec![(PathBuf::from("src"), true), (PathBuf::from(""), false)]
+        );
+    }
+
+    #[test]
+    fn dependency_and_build_directories_never_trigger_a_restart() {
+        let root = Path::new("/code/api");
+        let matcher = spec(&["**/*.js", "**/*.rs"], &["**/*.test.js"])
+            .matcher(root)
+            .unwrap();
+
+        assert_eq!(
+            matcher
+                .relevant(&root.join("src/routes/users.js"))
+                .as_deref(),
+            Some("src/routes/users.js")
+        );
+        assert_eq!(
+            matcher.relevant(&root.join("server.js")).as_deref(),
+            Some("server.js")
+        );
+        assert_eq!(matcher.relevant(&root.join("src/users.test.js")), None);
+        assert_eq!(
+            matcher.relevant(&root.join("node_modules/express/index.js")),
+            None
+        );
+        assert_eq!(
+            matcher.relevant(&root.join("target/debug/build/out.rs")),
+            None
+        );
+        assert_eq!(matcher.relevant(&root.join("README.md")), None);
+        assert_eq!(matcher.relevant(Path::new("/elsewhere/server.js")), None);
+    }
+
+    #[test]
+    fn a_single_star_does_not_cross_directories() {
+        let root = Path::new("/code/api");
+        let matcher = spec(&["*.py"], &[]).matcher(root).unwrap();
+        assert!(matcher.relevant(&root.join("app.py")).is_some());
+        assert!(matcher.relevant(&root.join("app/models.py")).is_none());
+    }
+
+    #[test]
+    fn a_burst_of_changes_is_one_call_naming_the_first() {
+        let (sender, receiver) = channel();
+        let calls = Arc::new(Mutex::new(Vec::new()));
+        let recorded = calls.clone();
+        let worker = std::thread::spawn(move || {
+            debounce(
+                receiver,
+                Duration::from_millis(100),
+                move |first, others| {
+                    recorded.lock().unwrap().push((first, others));
+                },
+            )
+        });
+
+        for path in ["src/a.js", "src/b.js", "src/a.js", "src/c.js"] {
+            sender.send(path.to_string()).unwrap();
+        }
+        std::thread::sleep(Duration::from_millis(300));
+        sender.send("src/d.js".to_string()).unwrap();
+        std::thread::sleep(Duration::from_millis(300));
+        drop(sender);
+        worker.join().unwrap();
+
+        assert_eq!(
+            *calls.lock().unwrap(),
+            vec![("src/a.js".to_string(), 2), ("src/d.js".to_string(), 0)]
+        );
+    }
+
+    #[test]
+    fn older_configs_get_the_default_debounce() {
+        let parsed: FileWatch = serde_json::from_str(r#"{"globs":["*.js"]}"#).unwrap();
+        assert_eq!(parsed.debounce_ms, 300);
+        assert!(parsed.ignore.is_empty());
+    }
+}
@@ -1,5 +1,16 @@
 use crate::events::{EventSink, TauriEventSink};
-use crate::services::{terminate_process_tree, ServiceEnvironment, ServiceManager};
+use crate::guardrails::ResourceGuardrail;
+use crate::hooks::{self, HookRun, HookStage, LifecycleHooks};
+use crate::manifest_import::{COMPOSE_FILES, ECOSYSTEM_FILES, PROCFILE};
+use crate::ports::{listening_ports, WatchedPort};
+use crate::readiness::{HttpProbe, LogReadiness, OutputMatcher};
+use crate::restart::RestartPolicy;
+use crate::services::{
+    terminate_process_tree, ServiceEnvironment, ServiceEvent, ServiceEventKind, ServiceManager,
+};
+use crate::watch::FileWatch;
+use crate::workspace_file::DEFINITION_FILE;
+use regex::Regex;
 use serde::{Deserialize, Serialize};
 use serde_json::Value as JsonValue;
 use std::collections::{HashMap, HashSet};
@@ -15,6 +26,10 @@ const DEFAULT_MAX_DEPTH: usize = 4;
 const READINESS_POLL_INTERVAL: Duration = Duration::from_millis(250);
 const MAX_STARTUP_DELAY_MS: u64 = 120_000;
 const MAX_READINESS_TIMEOUT_MS: u64 = 300_000;
+/// How long a boot waits for a watched port before blocking what depends on it.
+const WATCHED_PORT_TIMEOUT: Duration = Duration::from_secs(60);
+/// Slower than the readiness poll, since each check is a full socket scan.
+const WATCHED_PORT_POLL_INTERVAL: Duration = Duration::from_secs(1);
 const DEFAULT_IGNORED_DIRS: &[&str] = &[
     ".git",
     ".next",
@@ -53,6 +68,8 @@ pub struct DetectedProject {
     pub has_env: bool,
     pub env_files: Vec<String>,
     pub manifests: Vec<String>,
+    /// A checked-in workspace definition at the project's root, if it has one.
+    pub workspace_definition: Option<String>,
 }
 
 #[derive(Debug, Clone, Serialize, Deserialize, TS)]
@@ -104,6 +121,36 @@ pub struct WorkspaceServiceSpec {
     // Tauri serializes through serde_json, so this arrives as a JSON number.
     #[ts(type = "number")]
     pub readiness_timeout_ms: u64,
+    /// Probed against the first expected port once it is listening; dependents
+    /// wait for it to pass within the same readiness timeout.
+    #[serde(default)]
+    pub http_probe: Option<HttpProbe>,
+    /// A line of output to wait for, for services that never listen on a port.
+    /// Has its own timeout and needs no expected port; a service that never
+    /// prints the line is reported as failed and its dependents are blocked.
+    #[serde(default)]
+    pub log_readiness: Option<LogReadiness>,
+    /// Applies once the service is up; the workspace run itself never waits on
+    /// a restart.
+    #[serde(default)]
+    pub restart_policy: RestartPolicy,
+    /// Checked for as long as the service runs, not just during the boot.
+    #[serde(default)]
+    pub guardrail: Option<ResourceGuardrail>,
+    /// Like a restart policy, this outlives the workspace run that started it.
+    #[serde(default)]
+    pub file_watch: Option<FileWatch>,
+    /// Pre-start hooks run in this service's directory and environment before it
+    /// is launched, and not at all when it is already running.
+    #[serde(default)]
+    pub hooks: LifecycleHooks,
+    /// Run on a pseudo-terminal, for tools that prompt or take keystrokes.
+    #[serde(default)]
+    pub interactive: bool,
+    /// The watched ports whose ids appear in `depends_on`. They travel with the
+    /// spec because the runner has no copy of the settings they are kept in.
+    #[serde(default)]
+    pub watched_ports: Vec<WatchedPort>,
 }
 
 #[derive(Debug, Clone, Serialize, TS)]
@@ -132,6 +179,15 @@ pub struct WorkspaceServiceBlocked {
 pub struct WorkspaceStopSpec {
     pub service_id: String,
     pub pid: Option<u32>,
+    /// Where the service runs, which its post-stop hooks are relative to. Only
+    /// needed when it has some.
+    #[serde(default)]
+    pub cwd: Option<String>,
+    #[serde(default)]
+    pub environment: ServiceEnvironment,
+    /// Only the post-stop hooks are used here.
+    #[serde(default)]
+    pub hooks: LifecycleHooks,
 }
 
 #[derive(Debug, Clone, Serialize, TS)]
@@ -145,10 +201,12 @@ pub struct WorkspaceRunResult {
     pub failed: Vec<WorkspaceServiceFailure>,
     pub warnings: Vec<WorkspaceServiceWarning>,
     pub blocked: Vec<WorkspaceServiceBlocked>,
+    /// Every hook the run executed, in order, whether or not it succeeded.
+    pub hooks: Vec<HookRun>,
 }
 
 impl WorkspaceRunResult {
-    fn new(workspace_id: String) -> Self {
+    pub(crate) fn new(workspace_id: String) -> Self {
         Self {
             workspace_id,
             started: Vec::new(),
@@ -158,6 +216,7 @@ impl WorkspaceRunResult {
             failed: Vec::new(),
             warnings: Vec::new(),
             blocked: Vec::new(),
+            hooks: Vec::new(),
         }
     }
 }
@@ -166,6 +225,9 @@ impl WorkspaceRunResult {
 struct PlannedWorkspaceService {
     service: WorkspaceServiceSpec,
     dependencies: Vec<String>,
+    /// The service's output readiness pattern, compiled while planning so a bad
+    /// expression is refused before anything has been started.
+    output_pattern: Option<Regex>,
 }
 
 #[derive(Debug, Clone, Serialize)]
@@ -192,13 +254,17 @@ pub fn start_workspace(
     manager: &ServiceManager,
     workspace_id: String,
     services: Vec<WorkspaceServiceSpec>,
+    hooks: LifecycleHooks,
 ) -> Result<WorkspaceRunResult, String> {
-    start_workspace_with_sink(
-        Arc::new(TauriEventSink(app)),
+    let result = start_workspace_with_sink(
+        Arc::new(TauriEventSink(app.clone())),
         manager,
         workspace_id,
         services,
-    )
+        hooks,
+    )?;
+    crate::notifications::notify_workspace_run(&app, &result);
+    Ok(result)
 }
 
 /// The workspace runner, with its event destination injected.
@@ -211,8 +277,12 @@ pub(crate) fn start_workspace_with_sink(
     manager: &ServiceManager,
     workspace_id: String,
     services: Vec<WorkspaceServiceSpec>,
+    hooks: LifecycleHooks,
 ) -> Result<WorkspaceRunResult, String> {
     let layers = plan_workspace_services(services)?;
+    hooks
+        .validate()
+        .map_err(|error| format!("workspace hooks: {error}"))?;
     let service_ids = layers
         .iter()
         .flatten()
@@ -227,9 +297,50 @@ pub(crate) fn start_workspace_with_sink(
     );
 
     let mut result = WorkspaceRunResult::new(workspace_id.clone());
+
+    // The workspace's own pre-start hooks prepare for everything, so when one
+    // fails nothing starts. They are skipped when every service is already up.
+    let needs_starting = layers.iter().flatten().any(|planned| {
+        !manager
+            .is_running(&planned.service.service_id)
+            .unwrap_or(false)
+    });
+    if needs_starting && !hooks.pre_start.is_empty() {
+        let runs = hooks::run_stage(
+            &sink,
+            &workspace_id,
+            HookStage::PreStart,
+            &hooks,
+            &hooks::home_directory(),
+            &ServiceEnvironment::default(),
+        );
+        let failure = runs.iter().find(|run| !run.succeeded()).cloned();
+        result.hooks.extend(runs);
+        if let Some(failure) = failure {
+            result.blocked = layers
+                .iter()
+                .flatten()
+                .map(|planned| WorkspaceServiceBlocked {
+                    service_id: planned.service.service_id.clone(),
+                    reason: format!("blocked because the workspace's {}", failure.describe()),
+                })
+                .collect();
+            emit_workspace(
+                sink.as_ref(),
+                &workspace_id,
+                WorkspaceEventKind::Error,
+                format!("failed to start workspace: {}", failure.describe()),
+                Vec::new(),
+            );
+            return Ok(result);
+        }
+    }
+
     let mut unavailable = HashSet::new();
+    let mut watched = HashMap::new();
     for layer in layers {
         let mut readiness_checks = Vec::new();
+        let mut output_checks = Vec::new();
         for planned in layer {
             let blocked_by = planned
                 .dependencies
@@ -251,26 +362,94 @@ pub(crate) fn start_workspace_with_sink(
                 continue;
             }
 
+            let already_running = manager
+                .is_running(&planned.service.service_id)
+                .unwrap_or(false);
+            if !already_running {
+                if let Err(port) =
+                    wait_for_watched_ports(sink.as_ref(), &planned.service, &mut watched)
+                {
+                    let reason = format!("blocked because {} is not listening", port.describe());
+                    let service_id = planned.service.service_id;
+                    result.blocked.push(WorkspaceServiceBlocked {
+                        service_id: service_id.clone(),
+                        reason,
+                    });
+                    unavailable.insert(service_id);
+                    continue;
+                }
+            }
+
+            if !planned.service.hooks.pre_start.is_empty()
+                && !manager
+                    .is_running(&planned.service.service_id)
+                    .unwrap_or(false)
+            {
+                let runs = hooks::run_stage(
+                    &sink,
+                    &planned.service.service_id,
+                    HookStage::PreStart,
+                    &planned.service.hooks,
+                    Path::new(&planned.service.cwd),
+                    &planned.service.environment,
+                );
+                let failure = runs.iter().find(|run| !run.succeeded()).cloned();
+                result.hooks.extend(runs);
+                if let Some(failure) = failure {
+                    let service_id = planned.service.service_id;
+                    result.blocked.push(WorkspaceServiceBlocked {
+                        service_id: service_id.clone(),
+                        reason: format!("blocked because its {}", failure.describe()),
+                    });
+                    unavailable.insert(service_id);
+                    continue;
+                }
+            }
+
             if planned.service.startup_delay_ms > 0 {
                 thread::sleep(Duration::from_millis(planned.service.startup_delay_ms));
             }
             let service_id = planned.service.service_id.clone();
             let expected_ports = planned.service.expected_ports.clone();
             let readiness_timeout_ms = planned.service.readiness_timeout_ms;
-            if start_workspace_service(&sink, manager, planned.service, &mut result) {
+            let http_probe = planned.service.http_probe.clone();
+            let log_readiness = planned.service.log_readiness.clone();
+            let matcher = planned
+                .output_pattern
+                .map(|pattern| Arc::new(OutputMatcher::new(sink.clone(), pattern)));
+            let service_sink: Arc<dyn EventSink> = match &matcher {
+                Some(matcher) => matcher.clone(),
+                None => sink.clone(),
+            };
+            let launched = Instant::now();
+            if start_workspace_service(&service_sink, manager, planned.service, &mut result) {
+                // A service that was already running printed its line long before
+                // this run, to a sink this run never saw.
+                if let (Some(readiness), Some(matcher)) = (log_readiness, matcher) {
+                    if !result.already_running.contains(&service_id) {
+                        output_checks.push((service_id.clone(), readiness, matcher, launched));
+                    }
+                }
                 if readiness_timeout_ms > 0 {
-                    readiness_checks.push((service_id, expected_ports, readiness_timeout_ms));
+                    readiness_checks.push((
+                        service_id,
+                        expected_ports,
+                        readiness_timeout_ms,
+                        http_probe,
+                    ));
                 }
             } else {
                 unavailable.insert(service_id);
             }
         }
 
-        for (service_id, expected_ports, readiness_timeout_ms) in readiness_checks {
+        for (service_id, expected_ports, readiness_timeout_ms, http_probe) in readiness_checks {
             if let Err(warning) = wait_for_service_readiness(
+                sink.as_ref(),
                 manager,
                 &service_id,
                 &expected_ports,
+                http_probe.as_ref(),
                 Duration::from_millis(readiness_timeout_ms),
             ) {
                 unavailable.insert(service_id.clone());
@@ -280,6 +459,22 @@ pub(crate) fn start_workspace_with_sink(
                 });
             }
         }
+
+        for (service_id, readiness, matcher, launched) in output_checks {
+            if let Err(error) = wait_for_output_match(
+                sink.as_ref(),
+                manager,
+                &service_id,
+                &readiness,
+                &matcher,
+                launched,
+            ) {
+                unavailable.insert(service_id.clone());
+                result
+                    .failed
+                    .push(WorkspaceServiceFailure { service_id, error });
+            }
+        }
     }
 
     let (kind, message) =
@@ -326,12 +521,14 @@ pub fn stop_workspace(
     manager: &ServiceManager,
     workspace_id: String,
     services: Vec<WorkspaceStopSpec>,
+    hooks: LifecycleHooks,
 ) -> Result<WorkspaceRunResult, String> {
     stop_workspace_with_sink(
         Arc::new(TauriEventSink(app)),
         manager,
         workspace_id,
         services,
+        hooks,
     )
 }
 
@@ -340,8 +537,12 @@ pub(crate) fn stop_workspace_with_sink(
     manager: &ServiceManager,
     workspace_id: String,
     services: Vec<WorkspaceStopSpec>,
+    hooks: LifecycleHooks,
 ) -> Result<WorkspaceRunResult, String> {
     let services = validate_stop_services(services)?;
+    hooks
+        .validate()
+        .map_err(|error| format!("workspace hooks: {error}"))?;
     let service_ids = services
         .iter()
         .map(|service| service.service_id.clone())
@@ -356,6 +557,15 @@ pub(crate) fn stop_workspace_with_sink(
 
     let mut result = WorkspaceRunResult::new(workspace_id.clone());
     for service in services {
+        let post_stop = (!service.hooks.post_stop.is_empty()).then(|| {
+            (
+                service.service_id.clone(),
+                service.cwd.clone().unwrap_or_default(),
+                service.environment.clone(),
+                service.hooks.clone(),
+            )
+        });
+        let stopped_before = result.stopped.len();
         match manager.is_managed(&service.service_id) {
             Ok(false) => match service.pid {
                 Some(pid) => match terminate_process_tree(pid) {
@@ -383,9 +593,51 @@ pub(crate) fn stop_workspace_with_sink(
                     error,
                 }),
         }
+
+        // Cleanup is for a service that was actually stopped, not one that was
+        // never running or refused to die.
+        if let Some((service_id, cwd, environment, hooks)) = post_stop {
+            if result.stopped.len() > stopped_before {
+                let runs = hooks::run_stage(
+                    &sink,
+                    &service_id,
+                    HookStage::PostStop,
+                    &hooks,
+                    Path::new(&cwd),
+                    &environment,
+                );
+                for failure in runs.iter().filter(|run| !run.succeeded()) {
+                    result.warnings.push(WorkspaceServiceWarning {
+                        service_id: service_id.clone(),
+                        warning: failure.describe(),
+                    });
+                }
+                result.hooks.extend(runs);
+            }
+        }
+    }
+
+    if !hooks.post_stop.is_empty() && !result.stopped.is_empty() {
+        result.hooks.extend(hooks::run_stage(
+            &sink,
+            &workspace_id,
+            HookStage::PostStop,
+            &hooks,
+            &hooks::home_directory(),
+            &ServiceEnvironment::default(),
+        ));
     }
+    let failed_hooks = result.hooks.iter().filter(|run| !run.succeeded()).count();
 
-    let (kind, message) = if result.failed.is_empty() {
+    let (kind, message) = if result.failed.is_empty() && failed_hooks > 0 {
+        (
+            WorkspaceEventKind::Partial,
+            format!(
+                "stopped {} services; {failed_hooks} post-stop hooks failed",
+                result.stopped.len()
+            ),
+        )
+    } else if result.failed.is_empty() {
         (
             WorkspaceEventKind::Stopped,
             format!("stopped {} workspace services", result.stopped.len()),
@@ -428,6 +680,10 @@ fn start_workspace_service(
             service.environment,
             service.expected_ports,
             service.allow_port_conflicts,
+            service.restart_policy,
+            service.guardrail,
+            service.file_watch,
+            service.interactive,
         ) {
             Ok(_) => {
                 result.started.push(service.service_id);
@@ -451,13 +707,102 @@ fn start_workspace_service(
     }
 }
 
+/// Holds a service back until the watched ports it depends on are listening,
+/// and returns the first that never came up.
+///
+/// `seen` carries what earlier services in the run found, so each port is
+/// waited for once: one already up is not scanned for again, and one that timed
+/// out blocks every later dependent straight away instead of costing each of
+/// them the full wait.
+fn wait_for_watched_ports<'a>(
+    sink: &dyn EventSink,
+    service: &'a WorkspaceServiceSpec,
+    seen: &mut HashMap<String, bool>,
+) -> Result<(), &'a WatchedPort> {
+    let needed = service
+        .watched_ports
+        .iter()
+        .filter(|port| service.depends_on.contains(&port.id))
+        .collect::<Vec<_>>();
+    if let Some(down) = needed
+        .iter()
+        .find(|port| seen.get(&port.id) == Some(&false))
+    {
+        return Err(*down);
+    }
+    let mut waiting = needed
+        .into_iter()
+        .filter(|port| !seen.contains_key(&port.id))
+        .collect::<Vec<_>>();
+    let started = Instant::now();
+    let mut announced = false;
+    while !waiting.is_empty() {
+        let numbers = waiting.iter().map(|port| port.port).collect::<Vec<_>>();
+        let up = listening_ports(&numbers);
+        waiting.retain(|port| {
+            let listening = up.contains(&port.port);
+            if listening {
+                seen.insert(port.id.clone(), true);
+            }
+            !listening
+        });
+        if waiting.is_empty() {
+            break;
+        }
+        if started.elapsed() >= WATCHED_PORT_TIMEOUT {
+            for port in &waiting {
+                seen.insert(port.id.clone(), false);
+            }
+            return Err(waiting[0]);
+        }
+        if !announced {
+            let names = waiting
+                .iter()
+                .map(|port| port.describe())
+                .collect::<Vec<_>>()
+                .join(", ");
+            emit_probe_event(
+                sink,
+                &service.service_id,
+                ServiceEventKind::Waiting,
+                format!("waiting for {names}"),
+            );
+            announced = true;
+        }
+        thread::sleep(WATCHED_PORT_POLL_INTERVAL);
+    }
+    Ok(())
+}
+
+/// Waits until every expected port is listening and then, when the service has
+/// one, until its HTTP probe passes. Both stages share the one timeout: it is the
+/// user's budget for "how long may this service take to be usable", not a
+/// per-stage allowance.
 fn wait_for_service_readiness(
+    sink: &dyn EventSink,
     manager: &ServiceManager,
     service_id: &str,
     expected_ports: &[u16],
+    http_probe: Option<&HttpProbe>,
     timeout: Duration,
 ) -> Result<(), String> {
     let started = Instant::now();
+    wait_for_expected_ports(manager, service_id, expected_ports, started, timeout)?;
+    match (http_probe, expected_ports.first()) {
+        (Some(probe), Some(port)) => {
+            wait_for_http_probe(sink, manager, service_id, *port, probe, started, timeout)
+        }
+        _ => Ok(()),
+    }
+}
+
+fn wait_for_expected_ports(
+    manager: &ServiceManager,
+    service_id: &str,
+    expected_ports: &[u16],
+    started: Instant,
+    timeout: Duration,
+) -> Result<(), String> {
     loop {
         if !manager.is_running(service_id)? {
             return Err(format!(
@@ -481,6 +826,120 @@ fn wait_for_service_readiness(
     }
 }
 
+/// Polls the probe until it passes, the service exits, or the shared timeout
+/// runs out. The last failure reason travels with the warning, so a timed-out
+/// boot says "status 503" rather than only that it gave up.
+fn wait_for_http_probe(
+    sink: &dyn EventSink,
+    manager: &ServiceManager,
+    service_id: &str,
+    port: u16,
+    probe: &HttpProbe,
+    started: Instant,
+    timeout: Duration,
+) -> Result<(), String> {
+    let target = format!("{} on :{port}", probe.describe());
+    let mut last_failure: Option<String> = None;
+    loop {
+        if !manager.is_running(service_id)? {
+            return Err(match last_failure {
+                Some(reason) => format!("service exited before {target} passed; last failure: {reason}"),
+                None => format!("service exited before {target} passed"),
+            });
+        }
+        match probe.check(port) {
+            Ok(status) => {
+                emit_probe_event(
+                    sink,
+                    service_id,
+                    ServiceEventKind::Ready,
+                    format!("{target} passed with status {status}"),
+                );
+                return Ok(());
+            }
+            Err(reason) => {
+                if last_failure.as_deref() != Some(reason.as_str()) {
+                    emit_probe_event(
+                        sink,
+                        service_id,
+                        ServiceEventKind::Probe,
+                        format!("{target}: {reason}"),
+                    );
+                    last_failure = Some(reason);
+                }
+            }
+        }
+        let remaining = timeout.saturating_sub(started.elapsed());
+        if remaining.is_zero() {
+            return Err(format!(
+                "timed out after {} ms waiting for {target}; last failure: {}",
+                timeout.as_millis(),
+                last_failure.unwrap_or_default()
+            ));
+        }
+        thread::sleep(probe.interval().min(remaining));
+    }
+}
+
+/// Waits for the service to print the line its readiness pattern describes.
+///
+/// The timeout runs from launch rather than from here. The runner gets to this
+/// only once the rest of the layer has started and its port checks are done, and
+/// a line printed in the meantime has already been recorded by the matcher. A
+/// service that never matches is left running: a compiler stuck on a type error
+/// is still watching, and its output is what explains the failure.
+fn wait_for_output_match(
+    sink: &dyn EventSink,
+    manager: &ServiceManager,
+    service_id: &str,
+    readiness: &LogReadiness,
+    matcher: &OutputMatcher,
+    launched: Instant,
+) -> Result<(), String> {
+    let pattern = &readiness.pattern;
+    loop {
+        if let Some(line) = matcher.matched_line() {
+            emit_probe_event(
+                sink,
+                service_id,
+                ServiceEventKind::Matched,
+                format!("output matched /{pattern}/: {line}"),
+            );
+            return Ok(());
+        }
+        if !manager.is_running(service_id)? {
+            // Output is read on threads of its own, so a line printed just before
+            // exiting can arrive after the exit has been noticed.
+            thread::sleep(READINESS_POLL_INTERVAL);
+            if matcher.matched_line().is_some() {
+                continue;
+            }
+            return Err(format!(
+                "service exited before its output matched /{pattern}/"
+            ));
+        }
+        let remaining = readiness.timeout().saturating_sub(launched.elapsed());
+        if remaining.is_zero() {
+            return Err(format!(
+                "timed out after {} ms waiting for output matching /{pattern}/",
+                readiness.timeout_ms
+            ));
+        }
+        thread::sleep(READINESS_POLL_INTERVAL.min(remaining));
+    }
+}
+
+fn emit_probe_event(sink: &dyn EventSink, service_id: &str, kind: ServiceEventKind, message: String) {
+    sink.service(ServiceEvent {
+        service_id: service_id.to_string(),
+        kind,
+        message,
+        pid: None,
+        code: None,
+        attempt: None,
+    });
+}
+
 fn format_ports(ports: &[u16]) -> String {
     ports
         .iter()
@@ -489,6 +948,11 @@ fn format_ports(ports: &[u16]) -> String {
         .join(", ")
 }
 
+/// Validates the services and groups them into waves that start together.
+///
+/// The interface previews these waves while dependencies are edited, using a
+/// copy of the ordering in `src/startup-plan.ts`. A change to how waves are
+/// formed here needs the same change there.
 fn plan_workspace_services(
     services: Vec<WorkspaceServiceSpec>,
 ) -> Result<Vec<Vec<PlannedWorkspaceService>>, String> {
@@ -497,6 +961,7 @@ fn plan_workspace_services(
     }
 
     let mut seen = HashSet::new();
+    let mut output_patterns = HashMap::new();
     for service in &services {
         if service.service_id.trim().is_empty() {
             return Err("workspace service id cannot be empty".to_string());
@@ -525,6 +990,47 @@ fn plan_workspace_services(
                 service.service_id
             ));
         }
+        if let Some(probe) = &service.http_probe {
+            if service.readiness_timeout_ms == 0 {
+                return Err(format!(
+                    "workspace service {} cannot run an HTTP probe without a readiness timeout",
+                    service.service_id
+                ));
+            }
+            probe
+                .validate()
+                .map_err(|error| format!("workspace service {}: {error}", service.service_id))?;
+        }
+        if let Some(readiness) = &service.log_readiness {
+            if readiness.timeout_ms == 0 || readiness.timeout_ms > MAX_READINESS_TIMEOUT_MS {
+                return Err(format!(
+                    "workspace service {} output readiness timeout must be between 1 and {} ms",
+                    service.service_id, MAX_READINESS_TIMEOUT_MS
+                ));
+            }
+            let pattern = readiness
+                .compile()
+                .map_err(|error| format!("workspace service {}: {error}", service.service_id))?;
+            output_patterns.insert(service.service_id.clone(), pattern);
+        }
+        service
+            .restart_policy
+            .validate()
+            .map_err(|error| format!("workspace service {}: {error}", service.service_id))?;
+        if let Some(guardrail) = &service.guardrail {
+            guardrail
+                .validate()
+                .map_err(|error| format!("workspace service {}: {error}", service.service_id))?;
+        }
+        if let Some(file_watch) = &service.file_watch {
+            file_watch
+                .validate()
+                .map_err(|error| format!("workspace service {}: {error}", service.service_id))?;
+        }
+        service
+            .hooks
+            .validate()
+            .map_err(|error| format!("workspace service {}: {error}", service.service_id))?;
     }
 
     let positions = services
@@ -532,12 +1038,19 @@ fn plan_workspace_services(
         .enumerate()
         .map(|(index, service)| (service.service_id.clone(), index))
         .collect::<HashMap<_, _>>();
+    // Watched ports are waited for as each service comes up rather than ordered
+    // here, so only other services become edges.
     let mut dependencies = services
         .iter()
         .map(|service| {
             (
                 service.service_id.clone(),
-                service.depends_on.iter().cloned().collect::<HashSet<_>>(),
+                service
+                    .depends_on
+                    .iter()
+                    .filter(|dependency| seen.contains(*dependency))
+                    .cloned()
+                    .collect::<HashSet<_>>(),
             )
         })
         .collect::<HashMap<_, _>>();
@@ -550,7 +1063,11 @@ fn plan_workspace_services(
                     service.service_id
                 ));
             }
-            if !seen.contains(dependency) {
+            let watched = service
+                .watched_ports
+                .iter()
+                .any(|port| &port.id == dependency);
+            if !seen.contains(dependency) && !watched {
                 return Err(format!(
                     "workspace service {} depends on missing service {}",
                     service.service_id, dependency
@@ -608,6 +1125,7 @@ fn plan_workspace_services(
             layer.push(PlannedWorkspaceService {
                 service,
                 dependencies: effective_dependencies,
+                output_pattern: output_patterns.remove(&service_id),
             });
             for dependent in dependents.get(&service_id).into_iter().flatten() {
                 let count = indegree.get_mut(dependent).expect("validated dependent");
@@ -647,6 +1165,21 @@ fn validate_stop_services(
         if service.service_id.trim().is_empty() {
             return Err("workspace service id cannot be empty".to_string());
         }
+        service
+            .hooks
+            .validate()
+            .map_err(|error| format!("workspace service {}: {error}", service.service_id))?;
+        if !service.hooks.post_stop.is_empty()
+            && service
+                .cwd
+                .as_deref()
+                .map_or(true, |cwd| cwd.trim().is_empty())
+        {
+            return Err(format!(
+                "workspace service {} has post-stop hooks but no directory to run them in",
+                service.service_id
+            ));
+        }
         if seen.insert(service.service_id.clone()) {
             validated.push(service);
         }
@@ -814,8 +1347,16 @@ fn walk_projects(
 
     let manifests = detected_manifests(&file_names);
     let has_local_git = file_names.contains(".git") || canonical.join(".git").exists();
-    if (!manifests.is_empty() || has_local_git) && seen_projects.insert(canonical.clone()) {
-        projects.push(detect_project(&canonical, manifests));
+    let workspace_definition = file_names.contains(DEFINITION_FILE).then(|| {
+        canonical
+            .join(DEFINITION_FILE)
+            .to_string_lossy()
+            .to_string()
+    });
+    if (!manifests.is_empty() || has_local_git || workspace_definition.is_some())
+        && seen_projects.insert(canonical.clone())
+    {
+        projects.push(detect_project(&canonical, manifests, workspace_definition));
     }
 
     children.sort();
@@ -848,14 +1389,23 @@ fn detected_manifests(file_names: &HashSet<String>) -> Vec<String> {
         "Gemfile",
         "composer.json",
     ];
+    let process_files = [PROCFILE]
+        .into_iter()
+        .chain(COMPOSE_FILES)
+        .chain(ECOSYSTEM_FILES);
     candidates
-        .iter()
-        .filter(|candidate| file_names.contains(**candidate))
+        .into_iter()
+        .chain(process_files)
+        .filter(|candidate| file_names.contains(*candidate))
         .map(|candidate| candidate.to_string())
         .collect()
 }
 
-fn detect_project(path: &Path, manifests: Vec<String>) -> DetectedProject {
+fn detect_project(
+    path: &Path,
+    manifests: Vec<String>,
+    workspace_definition: Option<String>,
+) -> DetectedProject {
     let stack = detect_stack(path);
     let fallback_name = path
         .file_name()
@@ -877,6 +1427,7 @@ fn detect_project(path: &Path, manifests: Vec<String>) -> DetectedProject {
         has_env: env_files.iter().any(|name| !is_env_template(name)),
         env_files,
         manifests,
+        workspace_definition,
     }
 }
 
@@ -1353,7 +1904,7 @@ fn slugify(value: &str) -> String {
     }
 }
 
-fn stable_path_id(path: &Path) -> String {
+pub(crate) fn stable_path_id(path: &Path) -> String {
     let mut hash = 0xcbf29ce484222325_u64;
     for byte in path.to_string_lossy().as_bytes() {
         hash ^= u64::from(*byte);
@@ -1397,6 +1948,14 @@ mod tests {
             allow_port_conflicts: false,
             startup_delay_ms: 0,
             readiness_timeout_ms: 0,
+            http_probe: None,
+            log_readiness: None,
+            restart_policy: RestartPolicy::default(),
+            guardrail: None,
+            file_watch: None,
+            hooks: LifecycleHooks::default(),
+            interactive: false,
+            watched_ports: Vec::new(),
         }
     }
 
@@ -1444,6 +2003,7 @@ mod tests {
         assert!(!service.allow_port_conflicts);
         assert_eq!(service.startup_delay_ms, 0);
         assert_eq!(service.readiness_timeout_ms, 0);
+        assert!(service.http_probe.is_none());
     }
 
     #[test]
@@ -1460,10 +2020,67 @@ mod tests {
             .unwrap_err()
             .contains("startup delay exceeds"));
 
+        let mut probe_without_timeout = workspace_service("health", WorkspaceRunMode::Parallel, 0);
+        probe_without_timeout.expected_ports = vec![8080];
+        probe_without_timeout.http_probe = Some(HttpProbe::default());
+        assert!(plan_workspace_services(vec![probe_without_timeout])
+            .unwrap_err()
+            .contains("without a readiness timeout"));
+
+        let mut invalid_probe = workspace_service("probe", WorkspaceRunMode::Parallel, 0);
+        invalid_probe.expected_ports = vec![8080];
+        invalid_probe.readiness_timeout_ms = 30_000;
+        invalid_probe.http_probe = Some(HttpProbe {
+            path: "health".to_string(),
+            ..HttpProbe::default()
+        });
+        assert!(plan_workspace_services(vec![invalid_probe])
+            .unwrap_err()
+            .contains("workspace service probe: HTTP probe path"));
+
+        let mut runaway_restarts = workspace_service("worker", WorkspaceRunMode::Parallel, 0);
+        runaway_restarts.restart_policy = RestartPolicy {
+            mode: crate::restart::RestartMode::Always,
+            initial_backoff_ms: 10_000,
+            max_backoff_ms: 1_000,
+            ..RestartPolicy::default()
+        };
+        assert!(plan_workspace_services(vec![runaway_restarts])
+            .unwrap_err()
+            .starts_with("workspace service worker: restart backoff"));
+
+        let mut unbounded_output = workspace_service("tsc", WorkspaceRunMode::Parallel, 0);
+        unbounded_output.log_readiness = Some(LogReadiness {
+            pattern: "Found 0 errors".to_string(),
+            timeout_ms: 0,
+        });
+        assert!(plan_workspace_services(vec![unbounded_output])
+            .unwrap_err()
+            .contains("output readiness timeout"));
+
+        let mut invalid_pattern = workspace_service("tsc", WorkspaceRunMode::Parallel, 0);
+        invalid_pattern.log_readiness = Some(LogReadiness {
+            pattern: "Found [0-9 errors".to_string(),
+            timeout_ms: 60_000,
+        });
+        assert!(plan_workspace_services(vec![invalid_pattern])
+            .unwrap_err()
+            .starts_with("workspace service tsc: readiness pattern"));
+
         let mut valid = workspace_service("ready", WorkspaceRunMode::Sequential, 0);
         valid.expected_ports = vec![8080];
         valid.readiness_timeout_ms = 30_000;
+        valid.http_probe = Some(HttpProbe::default());
         assert!(plan_workspace_services(vec![valid]).is_ok());
+
+        // An output pattern stands on its own: no port and no readiness timeout.
+        let mut portless = workspace_service("worker", WorkspaceRunMode::Parallel, 0);
+        portless.log_readiness = Some(LogReadiness {
+            pattern: "Worker ready".to_string(),
+            timeout_ms: 60_000,
+        });
+        let layers = plan_workspace_services(vec![portless]).expect("plan");
+        assert!(layers[0][0].output_pattern.is_some());
     }
 
     #[test]
@@ -1481,6 +2098,27 @@ mod tests {
         assert_eq!(layers[2][0].service.service_id, "web");
     }
 
+    #[test]
+    fn a_watched_port_dependency_is_not_a_service_edge() {
+        let mut api = workspace_service("api", WorkspaceRunMode::Parallel, 0);
+        api.depends_on = vec!["watch-postgres".to_string()];
+        api.watched_ports = vec![WatchedPort {
+            id: "watch-postgres".to_string(),
+            port: 5432,
+            label: "Postgres".to_string(),
+            group: crate::ports::PortGroup::Db,
+            workspace_id: None,
+        }];
+        let layers = plan_workspace_services(vec![api.clone()]).expect("plan");
+        assert_eq!(layers.len(), 1);
+        assert!(layers[0][0].dependencies.is_empty());
+
+        api.watched_ports.clear();
+        assert!(plan_workspace_services(vec![api])
+            .unwrap_err()
+            .contains("missing service watch-postgres"));
+    }
+
     #[test]
     fn rejects_invalid_workspace_dependencies() {
         let mut missing = workspace_service("api", WorkspaceRunMode::Parallel, 0);
@@ -1573,6 +2211,34 @@ mod tests {
         fs::remove_dir_all(root).expect("remove fixture");
     }
 
+    #[test]
+    fn a_checked_in_workspace_definition_is_offered_with_its_project() {
+        let root = fixture("definition");
+        fs::create_dir_all(root.join("tools")).expect("tools dir");
+        fs::write(
+            root.join("tools").join(DEFINITION_FILE),
+            r#"{"name":"Tools","services":[]}"#,
+        )
+        .expect("definition");
+
+        let projects = scan_for_projects(root.to_str().unwrap(), 4, None);
+        let tools = projects
+            .iter()
+            .find(|project| project.name == "tools")
+            .expect("a definition alone marks a project");
+        let expected = root
+            .canonicalize()
+            .unwrap()
+            .join("tools")
+            .join(DEFINITION_FILE);
+        assert_eq!(
+            tools.workspace_definition.as_deref(),
+            Some(expected.to_string_lossy().as_ref())
+        );
+
+        fs::remove_dir_all(root).expect("remove fixture");
+    }
+
     #[test]
     fn nested_project_inherits_git_detection() {
         let root = fixture("git");
@@ -1660,6 +2326,14 @@ mod event_routing_tests {
             allow_port_conflicts: false,
             startup_delay_ms: 0,
             readiness_timeout_ms: 0,
+            http_probe: None,
+            log_readiness: None,
+            restart_policy: RestartPolicy::default(),
+            guardrail: None,
+            file_watch: None,
+            hooks: LifecycleHooks::default(),
+            interactive: false,
+            watched_ports: Vec::new(),
         }
     }
 
@@ -1681,6 +2355,7 @@ mod event_routing_tests {
             &manager,
             "ws-events".to_string(),
             vec![spec("svc-events", "printf 'ready\\n'")],
+            LifecycleHooks::default(),
         )
         .expect("workspace starts");
         assert_eq!(result.started, vec!["svc-events".to_string()]);
@@ -1701,6 +2376,204 @@ mod event_routing_tests {
         assert!(kinds.len() >= 2, "expected a terminal event too, got {kinds:?}");
     }
 
+    /// A dependent waits for its prerequisite's ready line, and is blocked when the
+    /// line never comes; the prerequisite that stayed silent is reported failed.
+    #[test]
+    fn output_readiness_gates_dependents_and_reports_a_line_that_never_came() {
+        let manager = ServiceManager::default();
+        let sink = Arc::new(RecordingSink::default());
+        let worker_ready = |service_id: &str, cmd: &str| {
+            let mut worker = spec(service_id, cmd);
+            worker.log_readiness = Some(LogReadiness {
+                pattern: r"Worker (ready|listening)".to_string(),
+                timeout_ms: 2_000,
+            });
+            worker
+        };
+        let dependent = |service_id: &str, prerequisite: &str| {
+            let mut service = spec(service_id, "sleep 5");
+            service.depends_on = vec![prerequisite.to_string()];
+            service
+        };
+
+        let result = start_workspace_with_sink(
+            sink.clone(),
+            &manager,
+            "ws-output".to_string(),
+            vec![
+                worker_ready(
+                    "worker-talks",
+                    "sleep 0.2; printf 'Worker ready\\n'; sleep 5",
+                ),
+                dependent("consumer", "worker-talks"),
+            ],
+            LifecycleHooks::default(),
+        )
+        .expect("workspace starts");
+        assert!(result.failed.is_empty(), "{:?}", result.failed);
+        assert_eq!(
+            result.started,
+            vec!["worker-talks".to_string(), "consumer".to_string()]
+        );
+        assert!(sink.saw_service(&ServiceEventKind::Matched));
+
+        let result = start_workspace_with_sink(
+            sink.clone(),
+            &manager,
+            "ws-silent".to_string(),
+            vec![
+                worker_ready("worker-silent", "printf 'Compiling...\\n'; sleep 5"),
+                dependent("stranded", "worker-silent"),
+            ],
+            LifecycleHooks::default(),
+        )
+        .expect("workspace starts");
+        assert_eq!(result.failed.len(), 1);
+        assert_eq!(result.failed[0].service_id, "worker-silent");
+        assert!(result.failed[0]
+            .error
+            .contains("waiting for output matching /Worker (ready|listening)/"));
+        assert_eq!(result.blocked[0].service_id, "stranded");
+
+        manager.stop_all();
+    }
+
+    fn hook(cmd: &str) -> crate::hooks::LifecycleHook {
+        crate::hooks::LifecycleHook {
+            cmd: cmd.to_string(),
+            timeout_ms: 5_000,
+        }
+    }
+
+    /// A failing pre-start hook blocks its service and everything that needs it,
+    /// and the hooks that did run are reported with their exit codes.
+    #[test]
+    fn a_failing_pre_start_hook_blocks_the_service_and_its_dependents() {
+        let manager = ServiceManager::default();
+        let sink = Arc::new(RecordingSink::default());
+        let mut db = spec("hook-db", "sleep 5");
+        db.hooks.pre_start = vec![hook("printf 'db up\\n'")];
+        let mut api = spec("hook-api", "sleep 5");
+        api.depends_on = vec!["hook-db".to_string()];
+        api.hooks.pre_start = vec![hook("exit 3"), hook("printf 'never\\n'")];
+        let mut web = spec("hook-web", "sleep 5");
+        web.depends_on = vec!["hook-api".to_string()];
+
+        let result = start_workspace_with_sink(
+            sink.clone(),
+            &manager,
+            "ws-hooks".to_string(),
+            vec![db, api, web],
+            LifecycleHooks::default(),
+        )
+        .expect("workspace starts");
+
+        assert_eq!(result.started, vec!["hook-db".to_string()]);
+        assert_eq!(
+            result
+                .blocked
+                .iter()
+                .map(|blocked| blocked.service_id.as_str())
+                .collect::<Vec<_>>(),
+            vec!["hook-api", "hook-web"]
+        );
+        assert_eq!(
+            result.blocked[0].reason,
+            "blocked because its pre-start hook `exit 3` exited with code 3"
+        );
+        assert_eq!(
+            result
+                .hooks
+                .iter()
+                .map(|run| (run.scope_id.as_str(), run.exit_code))
+                .collect::<Vec<_>>(),
+            vec![("hook-db", Some(0)), ("hook-api", Some(3))]
+        );
+        assert!(sink.saw_service(&ServiceEventKind::Hook));
+
+        manager.stop_all();
+    }
+
+    /// A workspace's own pre-start hook failing starts nothing at all, and its
+    /// post-stop hooks run once the services are down.
+    #[test]
+    fn workspace_hooks_wrap_the_whole_run() {
+        let manager = ServiceManager::default();
+        let sink = Arc::new(RecordingSink::default());
+        let failing = LifecycleHooks {
+            cwd: Some("/tmp".to_string()),
+            pre_start: vec![hook("false")],
+            post_stop: Vec::new(),
+        };
+
+        let result = start_workspace_with_sink(
+            sink.clone(),
+            &manager,
+            "ws-hooked".to_string(),
+            vec![spec("hooked-a", "sleep 5"), spec("hooked-b", "sleep 5")],
+            failing,
+        )
+        .expect("workspace run completes");
+        assert!(result.started.is_empty());
+        assert_eq!(result.blocked.len(), 2);
+        assert!(result.blocked[0]
+            .reason
+            .contains("workspace's pre-start hook `false` exited with code 1"));
+        assert!(!manager.is_managed("hooked-a").expect("managed"));
+
+        let cleanup = LifecycleHooks {
+            cwd: Some("/tmp".to_string()),
+            pre_start: Vec::new(),
+            post_stop: vec![hook("printf 'cleaned\\n'")],
+        };
+        start_workspace_with_sink(
+            sink.clone(),
+            &manager,
+            "ws-hooked".to_string(),
+            vec![spec("hooked-a", "sleep 5")],
+            cleanup.clone(),
+        )
+        .expect("workspace starts");
+        let result = stop_workspace_with_sink(
+            sink.clone(),
+            &manager,
+            "ws-hooked".to_string(),
+            vec![WorkspaceStopSpec {
+                service_id: "hooked-a".to_string(),
+                pid: None,
+                cwd: Some("/tmp".to_string()),
+                environment: ServiceEnvironment::default(),
+                hooks: LifecycleHooks {
+                    post_stop: vec![hook("exit 2")],
+                    ..LifecycleHooks::default()
+                },
+            }],
+            cleanup,
+        )
+        .expect("workspace stops");
+
+        assert_eq!(result.stopped, vec!["hooked-a".to_string()]);
+        assert_eq!(
+            result
+                .hooks
+                .iter()
+                .map(|run| (run.scope_id.as_str(), run.stage, run.exit_code))
+                .collect::<Vec<_>>(),
+            vec![
+                ("hooked-a", HookStage::PostStop, Some(2)),
+                ("ws-hooked", HookStage::PostStop, Some(0)),
+            ]
+        );
+        assert_eq!(
+            result.warnings[0].warning,
+            "post-stop hook `exit 2` exited with code 2"
+        );
+        assert!(matches!(
+            sink.workspace_kinds().last(),
+            Some(WorkspaceEventKind::Partial)
+        ));
+    }
+
     /// Stopping publishes to the sink as well, and reports a service it was never
     /// supervising as not running rather than as an error.
     #[test]
@@ -1715,7 +2588,11 @@ mod event_routing_tests {
             vec![WorkspaceStopSpec {
                 service_id: "never-started".to_string(),
                 pid: None,
+                cwd: None,
+                environment: ServiceEnvironment::default(),
+                hooks: LifecycleHooks::default(),
             }],
+            LifecycleHooks::default(),
         )
         .expect("workspace stops");
 
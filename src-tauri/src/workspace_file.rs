@@ -0,0 +1,531 @@
+//! Workspace definitions checked into a repository.
+//!
+//! A workspace normally lives only in the app's own config, so a team that
+//! wants the same services, dependencies and readiness checks has to click
+//! them together on every machine. A `localhost-hub.json` at a repository's
+//! root describes the workspace instead, in a form that can be committed: every
+//! path is relative to the file, and environment profiles are named rather
+//! than referenced by the local ids each machine generates for them.
+//!
+//! The config keeps a copy of an imported workspace with `definition_path` set.
+//! While that is set the file is the source of truth: it is read again when the
+//! app loads, and edits made in the interface are written back to it.
+
+use crate::config::{EnvProfile, StoredService, StoredWorkspace, WorkspaceProfile};
+use crate::guardrails::ResourceGuardrail;
+use crate::hooks::LifecycleHooks;
+use crate::readiness::{HttpProbe, LogReadiness};
+use crate::restart::RestartPolicy;
+use crate::watch::FileWatch;
+use crate::workspace::WorkspaceRunMode;
+use serde::{Deserialize, Serialize};
+use std::path::{Component, Path, PathBuf};
+
+pub const DEFINITION_FILE: &str = "localhost-hub.json";
+
+/// Bumped if the format ever changes in a way older versions would misread.
+const FORMAT_VERSION: u32 = 1;
+
+/// Large enough for any real workspace, small enough that a stray file with
+/// the same name cannot stall a scan.
+const MAX_DEFINITION_BYTES: u64 = 1024 * 1024;
+
+/// Used when a definition does not pick a colour of its own.
+const DEFAULT_COLOR: &str = "#6b8afd";
+
+#[derive(Debug, Clone, Serialize, Deserialize)]
+pub struct WorkspaceDefinition {
+    #[serde(default = "format_version")]
+    pub version: u32,
+    pub name: String,
+    #[serde(default, skip_serializing_if = "Option::is_none")]
+    pub color: Option<String>,
+    /// A relative `cwd` is taken from the repository root.
+    #[serde(default, skip_serializing_if = "is_default")]
+    pub hooks: LifecycleHooks,
+    #[serde(default, skip_serializing_if = "Vec::is_empty")]
+    pub profiles: Vec<WorkspaceProfile>,
+    #[serde(default)]
+    pub services: Vec<DefinitionService>,
+}
+
+/// A [`StoredService`] as written to the file. Settings left at their defaults
+/// are omitted, which keeps the file short enough to review in a diff.
+#[derive(Debug, Clone, Serialize, Deserialize)]
+pub struct DefinitionService {
+    pub id: String,
+    pub name: String,
+    /// The service's directory, relative to the repository root.
+    #[serde(
+        default = "repository_root",
+        skip_serializing_if = "is_repository_root"
+    )]
+    pub path: String,
+    #[serde(default, skip_serializing_if = "String::is_empty")]
+    pub script: String,
+    pub cmd: String,
+    #[serde(default, skip_serializing_if = "Vec::is_empty")]
+    pub depends_on: Vec<String>,
+    #[serde(default, skip_serializing_if = "is_default")]
+    pub run_mode: WorkspaceRunMode,
+    #[serde(default, skip_serializing_if = "is_default")]
+    pub order: usize,
+    /// The name of an environment profile for the service's directory. Each
+    /// machine keeps its own values under that name.
+    #[serde(default, skip_serializing_if = "Option::is_none")]
+    pub env_profile: Option<String>,
+    #[serde(default, skip_serializing_if = "Option::is_none")]
+    pub expected_port: Option<u16>,
+    #[serde(default, skip_serializing_if = "is_default")]
+    pub startup_delay_ms: u64,
+    #[serde(default, skip_serializing_if = "is_default")]
+    pub readiness_timeout_ms: u64,
+    #[serde(default, skip_serializing_if = "Option::is_none")]
+    pub http_probe: Option<HttpProbe>,
+    #[serde(default, skip_serializing_if = "Option::is_none")]
+    pub log_readiness: Option<LogReadiness>,
+    #[serde(default, skip_serializing_if = "is_default")]
+    pub restart_policy: RestartPolicy,
+    #[serde(default, skip_serializing_if = "Option::is_none")]
+    pub guardrail: Option<ResourceGuardrail>,
+    #[serde(default, skip_serializing_if = "Option::is_none")]
+    pub file_watch: Option<FileWatch>,
+    #[serde(default, skip_serializing_if = "is_default")]
+    pub hooks: LifecycleHooks,
+    #[serde(default, skip_serializing_if = "is_default")]
+    pub interactive: bool,
+}
+
+fn format_version() -> u32 {
+    FORMAT_VERSION
+}
+
+fn repository_root() -> String {
+    ".".to_string()
+}
+
+fn is_repository_root(path: &String) -> bool {
+    path == "."
+}
+
+fn is_default<T: Default + PartialEq>(value: &T) -> bool {
+    *value == T::default()
+}
+
+/// Reads the definition at `path` as a workspace, with paths made absolute and
+/// profile names matched to this machine's environment profiles.
+pub fn read(path: &str, env_profiles: &[EnvProfile]) -> Result<StoredWorkspace, String> {
+    let path = definition_file(path)?;
+    let definition = read_definition(&path)?;
+    let root = path
+        .parent()
+        .ok_or_else(|| "The workspace definition has no parent directory.".to_string())?;
+    Ok(to_stored(
+        definition,
+        root,
+        &path.to_string_lossy(),
+        env_profiles,
+    ))
+}
+
+/// Writes `workspace` back to the file it was read from, or the one it is
+/// being saved to for the first time. Nothing is written when the content
+/// would not change, so an unrelated edit does not touch a tracked file.
+pub fn write(workspace: &StoredWorkspace, env_profiles: &[EnvProfile]) -> Result<(), String> {
+    let path = workspace
+        .definition_path
+        .as_deref()
+        .map(PathBuf::from)
+        .ok_or_else(|| format!("{} is not saved to a repository.", workspace.name))?;
+    if path.file_name().and_then(|name| name.to_str()) != Some(DEFINITION_FILE) {
+        return Err(format!(
+            "Workspace definitions must be named {DEFINITION_FILE}."
+        ));
+    }
+    let root = path
+        .parent()
+        .filter(|parent| parent.is_dir())
+        .ok_or_else(|| "The workspace definition's directory does not exist.".to_string())?;
+    let previous = path.is_file().then(|| read_definition(&path)).transpose()?;
+    let definition = from_stored(workspace, root, env_profiles, previous.as_ref());
+    let mut text = serde_json::to_string_pretty(&definition).map_err(|e| e.to_string())?;
+    text.push('\n');
+    if std::fs::read_to_string(&path).ok().as_deref() == Some(text.as_str()) {
+        return Ok(());
+    }
+    std::fs::write(&path, text)
+        .map_err(|error| format!("Could not write {}: {error}", path.display()))
+}
+
+/// Accepts either the file or the directory holding it.
+fn definition_file(path: &str) -> Result<PathBuf, String> {
+    let path = PathBuf::from(path);
+    let path = if path.is_dir() {
+        path.join(DEFINITION_FILE)
+    } else {
+        path
+    };
+    if !path.is_file() {
+        return Err(format!("No {DEFINITION_FILE} found at {}.", path.display()));
+    }
+    Ok(path)
+}
+
+fn read_definition(path: &Path) -> Result<WorkspaceDefinition, String> {
+    let metadata = std::fs::metadata(path)
+        .map_err(|error| format!("Could not inspect {}: {error}", path.display()))?;
+    if metadata.len() > MAX_DEFINITION_BYTES {
+        return Err(format!("{} is larger than 1 MiB.", path.display()));
+    }
+    let text = std::fs::read_to_string(path)
+        .map_err(|error| format!("Could not read {}: {error}", path.display()))?;
+    let definition: WorkspaceDefinition = serde_json::from_str(&text).map_err(|error| {
+        format!(
+            "{} is not a valid workspace definition: {error}",
+            path.display()
+        )
+    })?;
+    if definition.version > FORMAT_VERSION {
+        return Err(format!(
+            "{} uses format version {}, which needs a newer Localhost Hub.",
+            path.display(),
+            definition.version
+        ));
+    }
+    Ok(definition)
+}
+
+pub(crate) fn to_stored(
+    definition: WorkspaceDefinition,
+    root: &Path,
+    definition_path: &str,
+    env_profiles: &[EnvProfile],
+) -> StoredWorkspace {
+    let services = definition
+        .services
+        .into_iter()
+        .map(|service| {
+            let repo_path = lexical_join(root, &service.path);
+            let env_profile_id = service.env_profile.as_deref().and_then(|name| {
+                env_profiles
+                    .iter()
+                    .find(|profile| {
+                        profile.name == name && same_path(&profile.project_path, &repo_path)
+                    })
+                    .map(|profile| profile.id.clone())
+            });
+            StoredService {
+                id: service.id,
+                name: service.name,
+                repo_path: repo_path.to_string_lossy().to_string(),
+                script: service.script,
+                cmd: service.cmd,
+                depends_on: service.depends_on,
+                run_mode: service.run_mode,
+                order: service.order,
+                env_profile_id,
+                expected_port: service.expected_port,
+                startup_delay_ms: service.startup_delay_ms,
+                readiness_timeout_ms: service.readiness_timeout_ms,
+                http_probe: service.http_probe,
+                log_readiness: service.log_readiness,
+                restart_policy: service.restart_policy,
+                guardrail: service.guardrail,
+                file_watch: service.file_watch,
+                hooks: service.hooks,
+                interactive: service.interactive,
+                port_assignment: None,
+            }
+        })
+        .collect();
+    let mut hooks = definition.hooks;
+    // Workspace hooks otherwise run from the home directory, which means
+    // nothing on a teammate's machine.
+    hooks.cwd = Some(
+        lexical_join(root, hooks.cwd.as_deref().unwrap_or("."))
+            .to_string_lossy()
+            .to_string(),
+    );
+    StoredWorkspace {
+        id: format!("repo-{}", crate::workspace::stable_path_id(root)),
+        name: definition.name,
+        color: definition
+            .color
+            .unwrap_or_else(|| DEFAULT_COLOR.to_string()),
+        services,
+        hooks,
+        profiles: definition.profiles,
+        definition_path: Some(definition_path.to_string()),
+    }
+}
+
+/// The inverse of [`to_stored`]. A service whose environment profile does not
+/// exist on this machine keeps the name the file already had, so saving from
+/// a machine without it does not erase it for everyone else.
+pub(crate) fn from_stored(
+    workspace: &StoredWorkspace,
+    root: &Path,
+    env_profiles: &[EnvProfile],
+    previous: Option<&WorkspaceDefinition>,
+) -> WorkspaceDefinition {
+    let services = workspace
+        .services
+        .iter()
+        .map(|service| {
+            let repo_path = Path::new(&service.repo_path);
+            let exists_here = |name: &str| {
+                env_profiles.iter().any(|profile| {
+                    profile.name == name && same_path(&profile.project_path, repo_path)
+                })
+            };
+            let env_profile = service
+                .env_profile_id
+                .as_deref()
+                .and_then(|id| env_profiles.iter().find(|profile| profile.id == id))
+                .map(|profile| profile.name.clone())
+                .or_else(|| {
+                    // A profile that exists here could have been cleared on
+                    // purpose; only one this machine lacks is carried over.
+                    previous?
+                        .services
+                        .iter()
+                        .find(|earlier| earlier.id == service.id)?
+                        .env_profile
+                        .clone()
+                        .filter(|name| !exists_here(name))
+                });
+            DefinitionService {
+                id: service.id.clone(),
+                name: service.name.clone(),
+                path: relative_path(root, repo_path),
+                script: service.script.clone(),
+                cmd: service.cmd.clone(),
+                depends_on: service.depends_on.clone(),
+                run_mode: service.run_mode,
+                order: service.order,
+                env_profile,
+                expected_port: service.expected_port,
+                startup_delay_ms: service.startup_delay_ms,
+                readiness_timeout_ms: service.readiness_timeout_ms,
+                http_probe: service.http_probe.clone(),
+                log_readiness: service.log_readiness.clone(),
+                restart_policy: service.restart_policy.clone(),
+                guardrail: service.guardrail.clone(),
+                file_watch: service.file_watch.clone(),
+                hooks: service.hooks.clone(),
+                interactive: service.interactive,
+            }
+        })
+        .collect();
+    let mut hooks = workspace.hooks.clone();
+    hooks.cwd = hooks
+        .cwd
+        .as_deref()
+        .map(|cwd| relative_path(root, Path::new(cwd)))
+        .filter(|cwd| cwd != ".");
+    WorkspaceDefinition {
+        version: FORMAT_VERSION,
+        name: workspace.name.clone(),
+        color: Some(workspace.color.clone()),
+        hooks,
+        profiles: workspace.profiles.clone(),
+        services,
+    }
+}
+
+/// `root` joined with `relative`, with `.` and `..` resolved without touching
+/// the disk, so a path that does not exist yet still comes out clean.
+fn lexical_join(root: &Path, relative: &str) -> PathBuf {
+    let mut joined = PathBuf::new();
+    for component in root.join(relative).components() {
+        match component {
+            Component::CurDir => {}
+            Component::ParentDir => {
+                joined.pop();
+            }
+            other => joined.push(other),
+        }
+    }
+    joined
+}
+
+/// `path` relative to `root` with forward slashes, so the file reads the same
+/// on every platform. A path on another drive cannot be made relative and is
+/// kept as it is.
+fn relative_path(root: &Path, path: &Path) -> String {
+    let root = lexical_join(root, ".");
+    let path = lexical_join(path, ".");
+    let root_parts: Vec<_> = root.components().collect();
+    let path_parts: Vec<_> = path.components().collect();
+    let shared = root_parts
+        .iter()
+        .zip(&path_parts)
+        .take_while(|(a, b)| a == b)
+        .count();
+    if shared == 0 {
+        return path.to_string_lossy().to_string();
+    }
+    let parts: Vec<String> = std::iter::repeat("..".to_string())
+        .take(root_parts.len() - shared)
+        .chain(
+            path_parts[shared..]
+                .iter()
+                .map(|part| part.as_os_str().to_string_lossy().to_string()),
+        )
+        .collect();
+    if parts.is_empty() {
+        ".".to_string()
+    } else {
+        parts.join("/")
+    }
+}
+
+fn same_path(a: &str, b: &Path) -> bool {
+    lexical_join(Path::new(a), ".") == lexical_join(b, ".")
+}
+
+#[cfg(test)]
+mod tests {
+    use super::*;
+
+    fn profile(id: &str, project_path: &str, name: &str) -> EnvProfile {
+        EnvProfile {
+            id: id.to_string(),
+            project_path: project_path.to_string(),
+            name: name.to_string(),
+            description: String::new(),
+            is_default: false,
+            vars: Vec::new(),
+        }
+    }
+
+    fn definition(json: &str) -> WorkspaceDefinition {
+        serde_json::from_str(json).expect("definition parses")
+    }
+
+    #[test]
+    fn relative_paths_and_profile_names_resolve_on_this_machine() {
+        let definition = definition(
+            r#"{
+                "name": "Shop",
+                "services": [
+                    { "id": "api", "name": "api", "path": "services/api", "cmd": "cargo run", "env_profile": "staging" },
+                    { "id": "web", "name": "web", "cmd": "npm run dev", "depends_on": ["api"], "expected_port": 5173 }
+                ]
+            }"#,
+        );
+        let profiles = [profile("p-1", "/code/shop/services/api", "staging")];
+        let workspace = to_stored(
+            definition,
+            Path::new("/code/shop"),
+            "/code/shop/localhost-hub.json",
+            &profiles,
+        );
+
+        assert_eq!(workspace.services[0].repo_path, "/code/shop/services/api");
+        assert_eq!(workspace.services[0].env_profile_id.as_deref(), Some("p-1"));
+        assert_eq!(workspace.services[1].repo_path, "/code/shop");
+        assert_eq!(workspace.services[1].depends_on, vec!["api".to_string()]);
+        assert_eq!(workspace.services[1].expected_port, Some(5173));
+        assert_eq!(
+            workspace.definition_path.as_deref(),
+            Some("/code/shop/localhost-hub.json")
+        );
+        assert_eq!(workspace.hooks.cwd.as_deref(), Some("/code/shop"));
+    }
+
+    #[test]
+    fn writing_back_keeps_paths_relative_and_leaves_defaults_out() {
+        let definition = definition(
+            r#"{
+                "name": "Shop",
+                "services": [
+                    { "id": "api", "name": "api", "path": "../shared/api", "cmd": "cargo run" },
+                    { "id": "web", "name": "web", "cmd": "npm run dev" }
+                ]
+            }"#,
+        );
+        let root = Path::new("/code/shop");
+        let workspace = to_stored(definition, root, "/code/shop/localhost-hub.json", &[]);
+        assert_eq!(workspace.services[0].repo_path, "/code/shared/api");
+
+        let written = from_stored(&workspace, root, &[], None);
+        let json = serde_json::to_value(&written).unwrap();
+        assert_eq!(json["services"][0]["path"], "../shared/api");
+        assert!(json["services"][1].get("path").is_none());
+        assert!(json["services"][1].get("restart_policy").is_none());
+        assert!(json.get("hooks").is_none());
+    }
+
+    #[test]
+    fn a_profile_missing_here_keeps_the_name_the_file_already_had() {
+        let previous = definition(
+            r#"{
+                "name": "Shop",
+                "services": [{ "id": "api", "name": "api", "cmd": "cargo run", "env_profile": "staging" }]
+            }"#,
+        );
+        let root = Path::new("/code/shop");
+        let workspace = to_stored(previous.clone(), root, "/code/shop/localhost-hub.json", &[]);
+        assert!(workspace.services[0].env_profile_id.is_none());
+
+        let written = from_stored(&workspace, root, &[], Some(&previous));
+        assert_eq!(written.services[0].env_profile.as_deref(), Some("staging"));
+
+        let profiles = [profile("p-2", "/code/shop", "local")];
+        let mut chosen = workspace.clone();
+        chosen.services[0].env_profile_id = Some("p-2".to_string());
+        let written = from_stored(&chosen, root, &profiles, Some(&previous));
+        assert_eq!(written.services[0].env_profile.as_deref(), Some("local"));
+
+        let here = [profile("p-3", "/code/shop", "staging")];
+        let written = from_stored(&workspace, root, &here, Some(&previous));
+        assert!(written.services[0].env_profile.is_none());
+    }
+
+    #[test]
+    fn a_definition_from_a_newer_version_is_refused() {
+        let dir =
+            std::env::temp_dir().join(format!("localhost-hub-definition-{}", std::process::id()));
+        std::fs::create_dir_all(&dir).unwrap();
+        let path = dir.join(DEFINITION_FILE);
+        std::fs::write(
+            &path,
+            r#"{ "version": 99, "name": "Later", "services": [] }"#,
+        )
+        .unwrap();
+
+        let error = read(&dir.to_string_lossy(), &[]).unwrap_err();
+        assert!(error.contains("newer"), "{error}");
+        std::fs::remove_dir_all(&dir).ok();
+    }
+
+    #[test]
+    fn saving_an_unchanged_workspace_leaves_the_file_alone() {
+        let dir = std::env::temp_dir().join(format!(
+            "localhost-hub-definition-unchanged-{}",
+            std::process::id()
+        ));
+        std::fs::create_dir_all(&dir).unwrap();
+        let path = dir.join(DEFINITION_FILE);
+        std::fs::write(
+            &path,
+            r#"{ "name": "Shop", "services": [{ "id": "web", "name": "web", "cmd": "npm run dev" }] }"#,
+        )
+        .unwrap();
+
+        let workspace = read(&path.to_string_lossy(), &[]).unwrap();
+        write(&workspace, &[]).unwrap();
+        let first = std::fs::read_to_string(&path).unwrap();
+        assert!(first.contains("\"version\": 1"));
+        let modified = std::fs::metadata(&path).unwrap().modified().unwrap();
+
+        write(&workspace, &[]).unwrap();
+        assert_eq!(std::fs::read_to_string(&path).unwrap(), first);
+        assert_eq!(
+            std::fs::metadata(&path).unwrap().modified().unwrap(),
+            modified
+        );
+        std::fs::remove_dir_all(&dir).ok();
+    }
+}
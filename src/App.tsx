@@ -1,5 +1,5 @@
 import React from 'react';
-import type { EnvProfile, EnvVariable, HubDataShape, Service, LogLine, Workspace, Port, ServiceStatus, Repo, Script, StoredWorkspace, StoredService, GitStatus } from './types';
+import type { EnvProfile, EnvVariable, HubDataShape, Service, LogLine, Workspace, Port, ProbeStatus, RestartStatus, ServiceStatus, Repo, Script, StoredWorkspace, StoredService, GitStatus, PortAssignment, PortEdge, WatchedPort } from './types';
 import { useTweaks, TweaksPanel, TweakSection, TweakRadio, TweakColor, TweakButton } from './tweaks-panel';
 import { TitleBar } from './chrome';
 import { Sidebar } from './sidebar';
@@ -9,6 +9,7 @@ import { ReposView } from './view-repos';
 import { GitHubReposView } from './view-github-repos';
 import { HealthView } from './view-health';
 import { PortsView } from './view-ports';
+import { ProcessesView } from './view-processes';
 import { LogsView } from './view-logs';
 import { SessionsView } from './view-sessions';
 import { HistoryView } from './view-history';
@@ -17,7 +18,7 @@ import { CommandPalette } from './view-palette';
 import { OnboardingView } from './view-onboarding';
 import { SettingsView } from './view-settings';
 import { githubAuth, type GitHubUser } from './github-auth';
-import { listenToServiceEvents, listenToWindowVisibility, tauriApi, type WorkspaceGroup, type ProcessInfo, type LivePort, type ManagedServiceInfo } from './tauri-api';
+import { listenToNotificationClicks, listenToServiceEvents, listenToWindowVisibility, tauriApi, type WorkspaceGroup, type ProcessInfo, type LivePort, type ManagedServiceInfo, type WorkspaceRunResult, type WorkspaceStopSpec, type ManifestImport, type ProxyStatus, type PortConnection } from './tauri-api';
 import { Ic } from './icons';
 import { CreateProjectDialog } from './create-project-dialog';
 import { ViewErrorBoundary } from './error-boundary';
@@ -28,7 +29,21 @@ import {
   EXTERNAL_PROCESS_WORKSPACE,
 } from './project-runtime';
 import { normalizeProjectProfiles, resolveEnvProfile, toServiceEnvironment } from './env-profiles';
-import { deriveExpectedPorts } from './port-preflight';
+import { restartPolicyOf } from './restart-policy';
+import { EMPTY_HOOKS, hooksOf } from './hooks';
+import { profileServiceIds, profilesOf, withoutService } from './profiles';
+import { changedDefinitions, DEFINITION_FILE, withDefinition } from './workspace-definition';
+import { draftWorkspace } from './manifest-import';
+import { proxyRoutes, proxyUrl, servedPort } from './proxy';
+import { watchedDependencies } from './watched-ports';
+import { recordConnections } from './port-edges';
+import { ManifestImportDialog } from './manifest-import-dialog';
+import { recordResourceSamples, type ResourceHistory } from './resource-history';
+import { recordSystemSample, type SystemSample } from './system-history';
+import { DEFAULT_LOG_RETENTION, logTimestamp, restoredLogLines } from './log-restore';
+import { withJsonLog } from './json-logs';
+import { appendLog, DEFAULT_LIVE_LOG_LINES, logActivity, logErrorCount, logLine, prependLogs, resizeLogBuffers, type LogBuffers, type LogRing } from './log-buffers';
+import { deriveExpectedPorts, followMovedPorts, withPortAssignment } from './port-preflight';
 import {
   PortConflictDialog,
   type PortConflictDecision,
@@ -62,11 +77,28 @@ interface ManagedRuntime {
 interface PortConflictPrompt {
   conflicts: LivePort[];
   resolve: (decision: PortConflictDecision) => void;
+  canReassign: boolean;
 }
+type LaunchedService = Pick<Service, 'id' | 'cmd' | 'repo_path' | 'env_profile_id' | 'expected_port' | 'port_assignment'>;
 type AppearanceKey = "theme" | "accent" | "density" | "sidebar";
 
 const EMPTY_HUB: HubDataShape = { workspaces: [], projects: {}, logSeeds: {}, ports: [], portEdges: [] };
 
+/**
+ * How long output may gather before the Logs view hears of it. A build can
+ * print thousands of lines a second; rendering once per line is what made the
+ * stream stutter.
+ */
+const LOG_PUBLISH_MS = 100;
+
+function publishSoon(timer: React.MutableRefObject<number | null>, publish: () => void) {
+  if (timer.current != null) return;
+  timer.current = window.setTimeout(() => {
+    timer.current = null;
+    publish();
+  }, LOG_PUBLISH_MS);
+}
+
 const WS_COLORS = [
   'oklch(0.66 0.115 252)', 'oklch(0.80 0.07 75)', 'oklch(0.73 0.13 148)',
   'oklch(0.66 0.19 25)',   'oklch(0.66 0.16 290)', 'oklch(0.65 0.13 165)',
@@ -107,6 +139,7 @@ function buildRepos(
       has_git: proj.has_git,
       git_root: proj.git_root,
       manifests: proj.manifests,
+      workspace_definition: proj.workspace_definition,
       git_status: gitStatuses[proj.git_root ?? proj.path] ?? null,
       is_running: !!proc,
       running_port: port,
@@ -122,6 +155,9 @@ function buildHubData(
   processes: ProcessInfo[],
   ports: LivePort[],
   managedRuntimes: Record<string, ManagedRuntime> = {},
+  proxy: ProxyStatus | null = null,
+  watched: WatchedPort[] = [],
+  portEdges: PortEdge[] = [],
 ): HubDataShape {
   const pidToPort: Record<number, number> = {};
   for (const p of ports) {
@@ -159,6 +195,14 @@ function buildHubData(
         expected_port: ss.expected_port ?? null,
         startup_delay_ms: ss.startup_delay_ms ?? 0,
         readiness_timeout_ms: ss.readiness_timeout_ms ?? 0,
+        http_probe: ss.http_probe ?? null,
+        log_readiness: ss.log_readiness ?? null,
+        restart_policy: restartPolicyOf(ss),
+        guardrail: ss.guardrail ?? null,
+        file_watch: ss.file_watch ?? null,
+        hooks: hooksOf(ss),
+        interactive: ss.interactive ?? false,
+        port_assignment: ss.port_assignment ?? null,
       };
     });
     return {
@@ -169,6 +213,9 @@ function buildHubData(
       path: '',
       projects: sw.services.map(s => s.id),
       services,
+      hooks: hooksOf(sw),
+      profiles: profilesOf(sw),
+      definition_path: sw.definition_path ?? null,
       lastOpened: 'recently',
     };
   });
@@ -190,18 +237,40 @@ function buildHubData(
       group: guessPortGroup(p.port),
     });
   });
+  // A watched port keeps its label and tier while nothing listens on it, so a
+  // database that is down still has its place on the map.
+  watched.forEach(item => {
+    const live = portsByNumber.get(item.port);
+    portsByNumber.set(item.port, {
+      id: `p-${item.port}`,
+      port: item.port,
+      svc: item.id,
+      label: item.label,
+      host: live?.host ?? 'localhost',
+      url: live?.url ?? `http://localhost:${item.port}`,
+      status: live ? 'running' : 'stopped',
+      ws: item.workspace_id ?? 'system',
+      group: item.group,
+    });
+  });
+  // With the proxy up, a service's main port is offered by its stable name.
+  const routes = proxy?.running ? proxyRoutes(stored) : new Map<string, string>();
   stored.forEach(workspace => {
     workspace.services.forEach(service => {
       const runtime = managedRuntimes[service.id];
+      const hostname = routes.get(service.id);
+      const served = runtime && hostname ? servedPort(runtime) : null;
       runtime?.ports.forEach(port => {
         const url = runtime.urls.find(candidate => candidate.includes(`:${port}`))
           ?? `http://localhost:${port}`;
+        const proxied = port === served && proxy && hostname ? proxyUrl(proxy, hostname) : null;
         portsByNumber.set(port, {
           id: `p-${port}`,
           port,
           svc: service.id,
           host: 'localhost',
-          url,
+          url: proxied ?? url,
+          directUrl: proxied ? url : undefined,
           status: runtime.status,
           ws: workspace.id,
           group: guessPortGroup(port),
@@ -211,7 +280,7 @@ function buildHubData(
   });
   const portsList = [...portsByNumber.values()].sort((a, b) => a.port - b.port);
 
-  return { workspaces, projects: {}, logSeeds: {}, ports: portsList, portEdges: [] };
+  return { workspaces, projects: {}, logSeeds: {}, ports: portsList, portEdges };
 }
 
 export default function App() {
@@ -279,8 +348,25 @@ export default function App() {
   const [liveProcesses, setLiveProcesses] = React.useState<ProcessInfo[]>([]);
   const [livePorts, setLivePorts] = React.useState<LivePort[]>([]);
   const [portConflictPrompt, setPortConflictPrompt] = React.useState<PortConflictPrompt | null>(null);
-
-  const [logs, setLogs] = React.useState<LogLine[]>([]);
+  const [manifestImport, setManifestImport] = React.useState<{ result: ManifestImport; defaultName: string } | null>(null);
+  const [probeStatuses, setProbeStatuses] = React.useState<Record<string, ProbeStatus>>({});
+  const [restartStatuses, setRestartStatuses] = React.useState<Record<string, RestartStatus>>({});
+  const [resourceHistory, setResourceHistory] = React.useState<ResourceHistory>({});
+  const [systemHistory, setSystemHistory] = React.useState<SystemSample[]>([]);
+  // Services between a crash and their automatic restart. The backend lists
+  // them as unmanaged while they wait, so the live sync must leave them alone.
+  const autoRestartingRef = React.useRef<Set<string>>(new Set());
+  const proxyStatusRef = React.useRef<ProxyStatus | null>(null);
+  const [watchedPorts, setWatchedPorts] = React.useState<WatchedPort[]>([]);
+  const watchedPortsRef = React.useRef<WatchedPort[]>([]);
+  const portEdgesRef = React.useRef<PortEdge[]>([]);
+
+  // The rings fill in place as output arrives; `logs` is what was last handed
+  // to React, republished at most every LOG_PUBLISH_MS.
+  const logBuffersRef = React.useRef<Record<string, LogRing>>({});
+  const logCapacityRef = React.useRef(DEFAULT_LIVE_LOG_LINES);
+  const logPublishRef = React.useRef<number | null>(null);
+  const [logs, setLogs] = React.useState<LogBuffers>({});
   const [sources, setSources] = React.useState<Record<string, boolean>>({});
   const [logSearch, setLogSearch] = React.useState("");
   const [autoscroll, setAutoscroll] = React.useState(true);
@@ -298,16 +384,36 @@ export default function App() {
       }
 
       // Load user workspaces from config
-      const userWs = cfg?.user_workspaces ?? [];
+      let userWs = cfg?.user_workspaces ?? [];
+      const profiles = cfg?.env_profiles ?? [];
+      // A workspace kept in a repo is read from its file again, so a change
+      // that came in with a pull applies without importing it a second time.
+      // If the file cannot be read, the copy in the config stands in.
+      for (const workspace of userWs.filter(item => item.definition_path)) {
+        const read = await tauriApi.readWorkspaceDefinition(workspace.definition_path!, profiles).catch((error) => {
+          toast(`Using the saved copy of ${workspace.name}: ${String(error)}`, "error");
+          return null;
+        });
+        if (read) userWs = withDefinition(userWs, read);
+      }
       if (!cancelled) {
         storedWsRef.current = userWs;
         setStoredWorkspaces(userWs);
-        const profiles = cfg?.env_profiles ?? [];
         envProfilesRef.current = profiles;
         setEnvProfiles(profiles);
+        watchedPortsRef.current = cfg?.watched_ports ?? [];
+        setWatchedPorts(watchedPortsRef.current);
+        const capacity = cfg?.log_retention.live_lines_per_service ?? DEFAULT_LIVE_LOG_LINES;
+        if (capacity !== logCapacityRef.current) {
+          logCapacityRef.current = capacity;
+          resizeLogBuffers(logBuffersRef.current, capacity);
+          publishSoon(logPublishRef, () => setLogs({ ...logBuffersRef.current }));
+        }
         if (userWs.length > 0 && !ws) setWs(userWs[0].id);
       }
 
+      proxyStatusRef.current = await tauriApi.proxyStatus().catch(() => null);
+
       if (roots.length === 0) return;
       const groups = await tauriApi.scanWorkspaceGroups(roots).catch(() => [] as WorkspaceGroup[]);
       if (cancelled) return;
@@ -339,20 +445,25 @@ export default function App() {
     }
 
     async function refreshLive() {
-      const [processes, ports, managed] = await Promise.all([
+      const [processes, ports, managed, connections, stats] = await Promise.all([
         tauriApi.getProcesses().catch(() => [] as ProcessInfo[]),
-        tauriApi.scanPorts().catch(() => [] as LivePort[]),
+        tauriApi.scanPorts(watchedPortsRef.current.map(port => port.port)).catch(() => [] as LivePort[]),
         tauriApi.listManagedServices().catch(() => [] as ManagedServiceInfo[]),
+        tauriApi.scanPortConnections().catch(() => [] as PortConnection[]),
+        tauriApi.getSystemStats().catch(() => null),
       ]);
       if (cancelled) return;
+      portEdgesRef.current = recordConnections(portEdgesRef.current, connections, Date.now());
       liveProcessesRef.current = processes;
       livePortsRef.current = ports;
       setLiveProcesses(processes);
       setLivePorts(ports);
       setManagedServices(managed);
       syncManagedServiceRuntimes(managed);
+      setResourceHistory(current => recordResourceSamples(current, managed, Date.now()));
+      if (stats) setSystemHistory(current => recordSystemSample(current, stats, managed, Date.now()));
       setRepos(buildRepos(liveGroupsRef.current, processes, ports, gitStatusesRef.current));
-      setData(buildHubData(storedWsRef.current, processes, ports, managedRuntimesRef.current));
+      setData(buildHubData(storedWsRef.current, processes, ports, managedRuntimesRef.current, proxyStatusRef.current, watchedPortsRef.current, portEdgesRef.current));
     }
 
     // Nothing to do without a window, and nothing to save either: the platform
@@ -401,9 +512,14 @@ export default function App() {
     () => [...workspaceServices, ...projectRuntimeServices],
     [workspaceServices, projectRuntimeServices],
   );
+  const hubRunServices = React.useMemo(
+    () => allServices.filter((s) => s._ws !== EXTERNAL_PROCESS_WORKSPACE && ["running", "starting", "restarting"].includes(s.status)),
+    [allServices],
+  );
   const runningCount = allServices.filter((s) => s.status === "running").length;
   const portsLive = data.ports.filter((p) => p.status === "running").length;
-  const errorsToday = logs.filter((l) => l.kind === "error").length;
+  const errorsToday = logErrorCount(logs);
+  const logCount = logActivity(logs);
   const runningByWs = React.useMemo(() => {
     const out: Record<string, number> = {};
     data.workspaces.forEach((w) => { out[w.id] = w.services.filter((s) => s.status === "running").length; });
@@ -417,7 +533,7 @@ export default function App() {
       next[next.length - 1] = Math.min(1, (next[next.length - 1] || 0) + 0.18);
       return next;
     });
-  }, [logs.length]);
+  }, [logCount]);
   React.useEffect(() => {
     const id = setInterval(() => {
       setPulse((p) => { const next = p.slice(1); next.push(0); return next; });
@@ -505,22 +621,98 @@ export default function App() {
       .catch(() => {});
   }
 
-  function pushLog(srcId: string, text: string, kind: string) {
+  /**
+   * `output` marks what the process itself printed. A logger's JSON line then
+   * takes its kind from its level rather than from the stream it came on.
+   */
+  function pushLog(srcId: string, text: string, kind: string, output = false) {
     const now = new Date();
-    const ts = now.toLocaleTimeString("en-GB", { hour12: false }).slice(0, 8) + "." + String(now.getMilliseconds()).padStart(3, "0");
     const safeKind = (kind || "info") as LogLine["kind"];
-    setLogs((l) => {
-      const next = l.concat({ ts, src: srcId, msg: text, kind: safeKind });
-      return next.length > 5000 ? next.slice(-5000) : next;
-    });
+    const line = logLine(srcId, text, safeKind, now.getTime(), logTimestamp(now));
+    appendLog(logBuffersRef.current, output ? withJsonLog(line) : line, logCapacityRef.current);
+    publishSoon(logPublishRef, () => setLogs({ ...logBuffersRef.current }));
+  }
+
+  function clearLogs() {
+    logBuffersRef.current = {};
+    setLogs({});
   }
 
+  // Once per launch, ahead of anything live: the restored lines go in front so
+  // output that arrived while they were being read stays last.
+  const logsRestoredRef = React.useRef(false);
+  React.useEffect(() => {
+    if (onboarding !== false || logsRestoredRef.current) return;
+    logsRestoredRef.current = true;
+    githubAuth.loadConfig()
+      .catch(() => null)
+      .then(async (cfg) => {
+        const retention = cfg?.log_retention ?? DEFAULT_LOG_RETENTION;
+        const lines = restoredLogLines(await tauriApi.restoreLogs(retention));
+        if (lines.length === 0) return;
+        prependLogs(logBuffersRef.current, lines, retention.live_lines_per_service);
+        publishSoon(logPublishRef, () => setLogs({ ...logBuffersRef.current }));
+      })
+      .catch(() => {});
+  }, [onboarding]);
+
   React.useEffect(() => {
     let unlisten: (() => void) | null = null;
     let cancelled = false;
     listenToServiceEvents((event) => {
-      const kind = event.kind === "stderr" || event.kind === "error" ? "error" : event.kind === "started" ? "ok" : "info";
-      if (event.kind !== "url") pushLog(event.service_id, event.message, kind);
+      const kind = event.kind === "stderr" || event.kind === "error"
+        ? "error"
+        : event.kind === "started" || event.kind === "ready" || event.kind === "matched"
+          ? "ok"
+          : event.kind === "probe" || event.kind === "guardrail" ? "warn"
+            : event.kind === "hook_failed" ? "error" : "info";
+      if (event.kind !== "url") pushLog(event.service_id, event.message, kind, event.kind === "stdout" || event.kind === "stderr");
+      if (event.kind === "guardrail") {
+        const svc = storedWsRef.current.flatMap((w) => w.services).find((s) => s.id === event.service_id);
+        toast(`${svc?.name ?? event.service_id}: ${event.message}`, "warn");
+      }
+      if (event.kind === "probe") {
+        setProbeStatuses(current => ({
+          ...current,
+          [event.service_id]: { state: "failing", lastFailure: event.message },
+        }));
+      }
+      if (event.kind === "ready") {
+        setProbeStatuses(current => ({
+          ...current,
+          [event.service_id]: { state: "passing", lastFailure: current[event.service_id]?.lastFailure ?? null },
+        }));
+      }
+      if (event.kind === "restarting" && event.attempt != null) {
+        autoRestartingRef.current.add(event.service_id);
+        setRestartStatuses(current => ({
+          ...current,
+          [event.service_id]: { state: "backing_off", attempt: event.attempt!, detail: event.message },
+        }));
+      }
+      if (event.kind === "starting" && !autoRestartingRef.current.has(event.service_id)) {
+        clearRestartStatus(event.service_id);
+      }
+      if (event.kind === "started" && autoRestartingRef.current.delete(event.service_id)) {
+        setRestartStatuses(current => current[event.service_id]
+          ? { ...current, [event.service_id]: { ...current[event.service_id], state: "recovered" } }
+          : current);
+      }
+      if (event.kind === "gave_up" || (event.kind === "error" && event.attempt != null)) {
+        autoRestartingRef.current.delete(event.service_id);
+        setRestartStatuses(current => ({
+          ...current,
+          [event.service_id]: { state: "gave_up", attempt: event.attempt ?? 0, detail: event.message },
+        }));
+        if (event.kind === "gave_up") {
+          const svc = storedWsRef.current.flatMap((w) => w.services.map((s) => ({ ...s, wsId: w.id }))).find((s) => s.id === event.service_id);
+          setManagedServiceStatus(svc?.wsId ?? DIRECT_PROJECT_WORKSPACE, event.service_id, "crashed");
+        }
+      }
+      if (event.kind === "stopped") {
+        autoRestartingRef.current.delete(event.service_id);
+        clearRestartStatus(event.service_id);
+      }
       if (event.kind === "starting" || event.kind === "restarting") {
         const svc = storedWsRef.current.flatMap((w) => w.services.map((s) => ({ ...s, wsId: w.id }))).find((s) => s.id === event.service_id);
         setManagedServiceStatus(svc?.wsId ?? DIRECT_PROJECT_WORKSPACE, event.service_id, event.kind, event.pid ?? null);
@@ -541,6 +733,13 @@ export default function App() {
             ? event.code && event.code !== 0 ? "crashed" : "exited"
             : "stopped";
         setManagedServiceStatus(svc?.wsId ?? DIRECT_PROJECT_WORKSPACE, event.service_id, status, event.pid ?? null);
+        // A probe still waiting on a service that has gone will never report;
+        // a failure it did report is worth keeping until the next boot.
+        setProbeStatuses(current => {
+          if (current[event.service_id]?.state !== "waiting") return current;
+          const { [event.service_id]: _waiting, ...rest } = current;
+          return rest;
+        });
         if (!svc) {
           setManagedServices(current => current.filter(service => service.service_id !== event.service_id));
         }
@@ -555,11 +754,43 @@ export default function App() {
     };
   }, []);
 
-  async function saveWorkspaces(next: StoredWorkspace[]) {
+  function clearRestartStatus(serviceId: string) {
+    setRestartStatuses(current => {
+      if (!current[serviceId]) return current;
+      const { [serviceId]: _cleared, ...rest } = current;
+      return rest;
+    });
+  }
+
+  /**
+   * Stores `next` and writes any workspace kept in a repo back to its file.
+   * Pass `writeDefinitions = false` when `next` came from those files, so
+   * reading one does not rewrite it in this app's formatting.
+   */
+  async function saveWorkspaces(next: StoredWorkspace[], writeDefinitions = true) {
+    const changed = writeDefinitions ? changedDefinitions(storedWsRef.current, next) : [];
     storedWsRef.current = next;
     setStoredWorkspaces(next);
     const cfg = await githubAuth.loadConfig().catch(() => null);
     if (cfg) await githubAuth.saveConfig({ ...cfg, user_workspaces: next }).catch(() => {});
+    await Promise.all(changed.map(workspace =>
+      tauriApi.writeWorkspaceDefinition(workspace, envProfilesRef.current).catch((error) => {
+        toast(`Could not update ${DEFINITION_FILE} for ${workspace.name}: ${String(error)}`, "error");
+      })
+    ));
+  }
+
+  async function importWorkspaceDefinition(path: string) {
+    try {
+      const read = await tauriApi.readWorkspaceDefinition(path, envProfilesRef.current);
+      const existing = storedWsRef.current.find(w => w.definition_path === read.definition_path);
+      await saveWorkspaces(withDefinition(storedWsRef.current, read), false);
+      setWs(existing?.id ?? read.id);
+      setView('workspace');
+      toast(existing ? `Read ${read.name} from ${DEFINITION_FILE} again` : `Imported ${read.name}`, "ok");
+    } catch (error) {
+      toast(`Could not import ${DEFINITION_FILE}: ${String(error)}`, "error");
+    }
   }
 
   async function saveProjectEnvProfiles(projectPath: string, profiles: EnvProfile[]) {
@@ -573,6 +804,36 @@ export default function App() {
     toast(`Saved environment profiles`, "ok");
   }
 
+  async function reviewManifestImport(repo: Repo, file: string) {
+    try {
+      const result = await tauriApi.importProcessManifest(`${repo.path}/${file}`);
+      setManifestImport({ result, defaultName: repo.name });
+    } catch (error) {
+      toast(`Could not read ${file}: ${String(error)}`, "error");
+    }
+  }
+
+  async function createImportedWorkspace(choice: { name: string; included: string[] }) {
+    if (!manifestImport) return;
+    const { workspace, envProfiles: imported } = draftWorkspace(manifestImport.result, {
+      ...choice,
+      color: WS_COLORS[storedWsRef.current.length % WS_COLORS.length],
+      stamp: Date.now(),
+    });
+    setManifestImport(null);
+    if (imported.length > 0) {
+      const next = [...envProfilesRef.current, ...imported];
+      const cfg = await githubAuth.loadConfig().catch(() => null);
+      if (cfg) await githubAuth.saveConfig({ ...cfg, env_profiles: next }).catch(() => {});
+      envProfilesRef.current = next;
+      setEnvProfiles(next);
+    }
+    await saveWorkspaces([...storedWsRef.current, workspace]);
+    setWs(workspace.id);
+    setView('workspace');
+    toast(`Imported ${workspace.name} from ${manifestImport.result.source}`, "ok");
+  }
+
   function createWorkspace() {
     const idx = storedWsRef.current.length;
     const newWs: StoredWorkspace = {
@@ -580,13 +841,16 @@ export default function App() {
       name: 'New workspace',
       color: WS_COLORS[idx % WS_COLORS.length],
       services: [],
+      hooks: EMPTY_HOOKS,
+      profiles: [],
+      definition_path: null,
     };
     saveWorkspaces([...storedWsRef.current, newWs]);
     setWs(newWs.id);
     setView('workspace');
   }
 
-  function updateWorkspace(id: string, patch: Partial<Pick<StoredWorkspace, 'name' | 'color'>>) {
+  function updateWorkspace(id: string, patch: Partial<Pick<StoredWorkspace, 'name' | 'color' | 'hooks' | 'profiles' | 'definition_path'>>) {
     saveWorkspaces(storedWsRef.current.map(w => w.id === id ? { ...w, ...patch } : w));
   }
 
@@ -596,10 +860,8 @@ export default function App() {
       try {
         const result = await tauriApi.stopWorkspace(
           id,
-          liveWorkspace.services.map((service) => ({
-            service_id: service.id,
-            pid: service.pid ?? null,
-          })),
+          liveWorkspace.services.map(stopSpecFor),
+          hooksOf(liveWorkspace),
         );
         if (result.failed.length > 0) {
           result.failed.forEach(({ service_id, error }) => pushLog(service_id, error, "error"));
@@ -628,6 +890,14 @@ export default function App() {
         expected_port: svc.expected_port ?? null,
         startup_delay_ms: svc.startup_delay_ms ?? 0,
         readiness_timeout_ms: svc.readiness_timeout_ms ?? 0,
+        http_probe: svc.http_probe ?? null,
+        log_readiness: svc.log_readiness ?? null,
+        restart_policy: restartPolicyOf(svc),
+        guardrail: svc.guardrail ?? null,
+        file_watch: svc.file_watch ?? null,
+        hooks: hooksOf(svc),
+        interactive: svc.interactive ?? false,
+        port_assignment: svc.port_assignment ?? null,
       }],
     } : w));
   }
@@ -638,10 +908,7 @@ export default function App() {
       ?.services.find((item) => item.id === svcId);
     if (service && service.status !== "stopped") {
       try {
-        const result = await tauriApi.stopWorkspace(wsId, [{
-          service_id: service.id,
-          pid: service.pid ?? null,
-        }]);
+        const result = await tauriApi.stopWorkspace(wsId, [stopSpecFor(service)]);
         if (result.failed.length > 0) {
           pushLog(svcId, result.failed[0].error, "error");
           toast(`Could not stop ${service.name}`, "error");
@@ -661,6 +928,7 @@ export default function App() {
           ...s,
           depends_on: (s.depends_on ?? []).filter(dependencyId => dependencyId !== svcId),
         })),
+      profiles: withoutService(profilesOf(w), svcId),
     } : w));
   }
 
@@ -669,7 +937,9 @@ export default function App() {
     svcId: string,
     patch: Partial<Pick<
       StoredService,
-      'depends_on' | 'run_mode' | 'order' | 'env_profile_id' | 'expected_port' | 'startup_delay_ms' | 'readiness_timeout_ms'
+      'depends_on' | 'run_mode' | 'order' | 'env_profile_id' | 'expected_port' | 'startup_delay_ms'
+      | 'readiness_timeout_ms' | 'http_probe' | 'log_readiness' | 'restart_policy' | 'guardrail'
+      | 'file_watch' | 'hooks' | 'interactive' | 'port_assignment'
     >>,
   ) {
     saveWorkspaces(storedWsRef.current.map(w => w.id === wsId ? {
@@ -753,7 +1023,9 @@ export default function App() {
     for (const [svcId, runtime] of Object.entries(managedRuntimesRef.current)) {
       const service = managedById.get(svcId);
       if (!service) {
-        if (runtime.status === "starting" || runtime.status === "running" || runtime.status === "restarting") {
+        if (autoRestartingRef.current.has(svcId)) {
+          next[svcId] = runtime;
+        } else if (runtime.status === "starting" || runtime.status === "running" || runtime.status === "restarting") {
           next[svcId] = {
             ...runtime,
             status: "stopped",
@@ -797,7 +1069,15 @@ export default function App() {
     setManagedRuntimes(next);
   }
 
-  async function approveExpectedPorts(expectedPorts: number[]): Promise<boolean | null> {
+  /**
+   * Resolves to whether to start despite a conflict, or null to not start.
+   * 'reassigned' means services were moved to free ports, so the caller has to
+   * build its launch again from the saved workspace.
+   */
+  async function approveExpectedPorts(
+    expectedPorts: number[],
+    reassign?: { wsId: string; serviceIds: string[] },
+  ): Promise<boolean | 'reassigned' | null> {
     if (expectedPorts.length === 0) return false;
     if (portApprovalActiveRef.current) return null;
     portApprovalActiveRef.current = true;
@@ -806,11 +1086,15 @@ export default function App() {
         const conflicts = await tauriApi.checkPortConflicts(expectedPorts) ?? [];
         if (conflicts.length === 0) return false;
         const decision = await new Promise<PortConflictDecision>((resolve) => {
-          setPortConflictPrompt({ conflicts, resolve });
+          setPortConflictPrompt({ conflicts, resolve, canReassign: (reassign?.serviceIds.length ?? 0) > 0 });
         });
         setPortConflictPrompt(null);
         if (decision === 'cancel') return null;
         if (decision === 'force') return true;
+        if (decision === 'reassign') {
+          const taken = conflicts.map(conflict => conflict.port);
+          return reassign && await assignFreePorts(reassign.wsId, reassign.serviceIds, taken) ? 'reassigned' : null;
+        }
 
         const pids = [...new Set(
           conflicts.map(conflict => conflict.pid).filter((pid): pid is number => pid != null),
@@ -831,6 +1115,76 @@ export default function App() {
     }
   }
 
+  /**
+   * What a workspace service is launched with once port assignments are in:
+   * its own, and any sibling's whose old port its variables still mention.
+   */
+  function serviceLaunch(workspace: StoredWorkspace | undefined, service: LaunchedService, overrides: EnvVariable[] = []) {
+    const environment = toServiceEnvironment(
+      resolveEnvProfile(envProfilesRef.current, service.repo_path ?? '', service.env_profile_id),
+      overrides,
+    );
+    const moved = (workspace?.services ?? []).flatMap(other =>
+      other.id !== service.id && other.port_assignment ? [other.port_assignment] : []);
+    const launch = withPortAssignment(
+      service.cmd,
+      followMovedPorts(environment, moved).environment,
+      service.expected_port,
+      service.port_assignment,
+    );
+    return { ...launch, expectedPorts: deriveExpectedPorts(launch.command, launch.environment, launch.expectedPort) };
+  }
+
+  /**
+   * Moves each listed service that expects one of the taken ports to the next
+   * free one and saves where it went. Services elsewhere in the workspace whose
+   * variables mention the old port are told, since they pick up the new one.
+   */
+  async function assignFreePorts(wsId: string, serviceIds: string[], taken: number[]): Promise<boolean> {
+    const workspace = storedWsRef.current.find(w => w.id === wsId);
+    if (!workspace) return false;
+    const launches = new Map(workspace.services.map(service => [service.id, serviceLaunch(workspace, service)]));
+    const reserved = new Set([...launches.values()].flatMap(launch => launch.expectedPorts));
+    const assignments = new Map<string, PortAssignment>();
+    try {
+      for (const service of workspace.services) {
+        if (!serviceIds.includes(service.id)) continue;
+        const clash = launches.get(service.id)!.expectedPorts.find(port => taken.includes(port));
+        if (clash == null) continue;
+        const port = await tauriApi.findFreePort(clash, [...reserved]);
+        reserved.add(port);
+        // A service moved twice still remembers the port it first asked for.
+        assignments.set(service.id, { original: service.port_assignment?.original ?? clash, port });
+        pushLog(service.id, `:${clash} is taken; moving to :${port}`, "info");
+      }
+    } catch (error) {
+      toast(`Could not find a free port: ${String(error)}`, "error");
+      return false;
+    }
+    if (assignments.size === 0) return false;
+
+    const services = workspace.services.map(service =>
+      assignments.has(service.id) ? { ...service, port_assignment: assignments.get(service.id)! } : service);
+    await saveWorkspaces(storedWsRef.current.map(w => w.id === wsId ? { ...w, services } : w));
+    const moved = [...assignments.values()];
+    toast(`Moved ${services.filter(service => assignments.has(service.id))
+      .map(service => `${service.name} to :${assignments.get(service.id)!.port}`).join(', ')}`, "info");
+
+    const told = services.filter(service => {
+      if (assignments.has(service.id)) return false;
+      const environment = toServiceEnvironment(resolveEnvProfile(envProfilesRef.current, service.repo_path, service.env_profile_id));
+      const { changed } = followMovedPorts(environment, moved);
+      if (changed.length === 0) return false;
+      pushLog(service.id, `${changed.join(', ')} now ${changed.length === 1 ? 'follows' : 'follow'} the moved port`, "info");
+      return true;
+    });
+    const running = told.filter(service => managedRuntimesRef.current[service.id]?.status === "running");
+    if (running.length > 0) {
+      toast(`Restart ${running.map(service => service.name).join(', ')} to point ${running.length === 1 ? 'it' : 'them'} at the new port`, "info");
+    }
+    return true;
+  }
+
   async function startService(wsId: string, svcId: string, overrides: EnvVariable[] = []) {
     const svc = data.workspaces.find((w) => w.id === wsId)?.services.find((s) => s.id === svcId);
     if (!svc) return;
@@ -838,22 +1192,28 @@ export default function App() {
       toast(`Failed to start ${svc.name}: missing repo path`, "error");
       return;
     }
-    const profile = resolveEnvProfile(envProfilesRef.current, svc.repo_path, svc.env_profile_id);
-    const environment = toServiceEnvironment(profile, overrides);
-    const expectedPorts = deriveExpectedPorts(svc.cmd, environment, svc.expected_port);
-    const allowPortConflicts = await approveExpectedPorts(expectedPorts);
-    if (allowPortConflicts == null) return;
+    let launch = serviceLaunch(storedWsRef.current.find(w => w.id === wsId), svc, overrides);
+    const approval = await approveExpectedPorts(launch.expectedPorts, { wsId, serviceIds: [svcId] });
+    if (approval == null) return;
+    if (approval === 'reassigned') {
+      const workspace = storedWsRef.current.find(w => w.id === wsId);
+      launch = serviceLaunch(workspace, workspace?.services.find(s => s.id === svcId) ?? svc, overrides);
+    }
     setManagedServiceStatus(wsId, svcId, "starting");
-    pushLog(svcId, `> ${svc.cmd}`, "info");
+    pushLog(svcId, `> ${launch.command}`, "info");
     toast(`Starting ${svc.name}`, "info");
     try {
       await tauriApi.startService(
         svc.id,
         svc.repo_path,
-        svc.cmd,
-        environment,
-        expectedPorts,
-        allowPortConflicts,
+        launch.command,
+        launch.environment,
+        launch.expectedPorts,
+        approval === true,
+        restartPolicyOf(svc),
+        svc.guardrail ?? null,
+        svc.file_watch ?? null,
+        svc.interactive ?? false,
       );
     } catch (err) {
       setManagedServiceStatus(wsId, svcId, "failed");
@@ -888,8 +1248,8 @@ export default function App() {
       environment,
       configuredService?.expected_port,
     );
-    const allowPortConflicts = await approveExpectedPorts(expectedPorts);
-    if (allowPortConflicts == null) return;
+    const approval = await approveExpectedPorts(expectedPorts);
+    if (approval == null) return;
     setManagedServiceStatus(DIRECT_PROJECT_WORKSPACE, serviceId, "starting");
     pushLog(serviceId, `> ${script.cmd}`, "info");
     toast(`Starting ${project.name} · ${script.name}`, "info");
@@ -900,7 +1260,7 @@ export default function App() {
         script.cmd,
         environment,
         expectedPorts,
-        allowPortConflicts,
+        approval === true,
       );
       const startedAt = Date.now();
       setManagedServiceStatus(DIRECT_PROJECT_WORKSPACE, serviceId, "running", pid);
@@ -917,6 +1277,7 @@ export default function App() {
           memory_mb: 0,
           ports: [],
           urls: [],
+          interactive: false,
         },
       ]);
     } catch (error) {
@@ -934,7 +1295,8 @@ export default function App() {
     try {
       if (service._ws === EXTERNAL_PROCESS_WORKSPACE) {
         if (!service.pid) throw new Error("The external process no longer has a PID.");
-        await tauriApi.killProcess(service.pid);
+        // Hub did not start it, so its children need not share its process group.
+        await tauriApi.killProcess(service.pid, true);
         setLiveProcesses(current => current.filter(process => process.pid !== service.pid));
       } else {
         await tauriApi.stopManagedService(service.id);
@@ -980,7 +1342,7 @@ export default function App() {
         await tauriApi.stopManagedService(svc.id);
       } catch (err) {
         if (!svc.pid) throw err;
-        await tauriApi.killProcess(svc.pid);
+        await tauriApi.killProcess(svc.pid, true);
       }
       setManagedServiceStatus(wsId, svcId, "stopped");
       toast(`Stopped ${svc.name}`, "info");
@@ -1004,50 +1366,85 @@ export default function App() {
     }
   }
 
-  async function startAll(wsId: string) {
+  async function startAll(wsId: string, profileId?: string) {
     const stored = storedWsRef.current.find((workspace) => workspace.id === wsId);
     const live = data.workspaces.find((workspace) => workspace.id === wsId);
     if (!stored || !live || stored.services.length === 0) return;
+    const profile = profileId ? profilesOf(stored).find(item => item.id === profileId) : undefined;
+    if (profileId && !profile) return;
+    // Dependencies come along even when the profile does not list them, since
+    // the backend would otherwise block every service waiting on one.
+    const included = profile ? new Set(profileServiceIds(stored.services, profile)) : null;
+    if (included?.size === 0) {
+      toast(`Profile ${profile!.name} has no services to boot`, "info");
+      return;
+    }
 
-    const workspaceServices = stored.services.map((service, index) => {
-      const environment = toServiceEnvironment(resolveEnvProfile(
-        envProfilesRef.current,
-        service.repo_path,
-        service.env_profile_id,
-      ));
+    const specsFor = (workspace: StoredWorkspace) => workspace.services.map((service, index) => {
+      const launch = serviceLaunch(workspace, service);
       return {
         service_id: service.id,
         cwd: service.repo_path,
-        cmd: service.cmd,
+        cmd: launch.command,
         depends_on: service.depends_on ?? [],
         run_mode: service.run_mode ?? "parallel" as const,
         order: service.order ?? index,
-        environment,
-        expected_ports: deriveExpectedPorts(service.cmd, environment, service.expected_port),
+        environment: launch.environment,
+        expected_ports: launch.expectedPorts,
         allow_port_conflicts: false,
         startup_delay_ms: service.startup_delay_ms ?? 0,
         readiness_timeout_ms: service.readiness_timeout_ms ?? 0,
+        http_probe: service.http_probe ?? null,
+        log_readiness: service.log_readiness ?? null,
+        restart_policy: restartPolicyOf(service),
+        guardrail: service.guardrail ?? null,
+        file_watch: service.file_watch ?? null,
+        hooks: hooksOf(service),
+        interactive: service.interactive ?? false,
+        watched_ports: watchedDependencies(watchedPortsRef.current, service.depends_on ?? []),
       };
-    });
-    const allowPortConflicts = await approveExpectedPorts(
+    }).filter(service => !included || included.has(service.service_id));
+    let workspaceServices = specsFor(stored);
+    // A running service holds its own port, so it is never the one to move.
+    const approval = await approveExpectedPorts(
       [...new Set(workspaceServices.flatMap(service => service.expected_ports))],
+      {
+        wsId,
+        serviceIds: workspaceServices
+          .filter(service => live.services.find(item => item.id === service.service_id)?.status !== "running")
+          .map(service => service.service_id),
+      },
     );
-    if (allowPortConflicts == null) return;
+    if (approval == null) return;
+    if (approval === 'reassigned') {
+      workspaceServices = specsFor(storedWsRef.current.find(workspace => workspace.id === wsId) ?? stored);
+    }
     workspaceServices.forEach(service => {
-      service.allow_port_conflicts = allowPortConflicts;
+      service.allow_port_conflicts = approval === true;
     });
 
     live.services.forEach((service) => {
-      if (service.status !== "running") {
+      if (service.status !== "running" && (!included || included.has(service.id))) {
         setManagedServiceStatus(wsId, service.id, "starting");
       }
     });
-    toast(`Booting workspace ${stored.name}`, "info");
+    const probed = workspaceServices.filter(service => service.http_probe && service.readiness_timeout_ms > 0);
+    if (probed.length > 0) {
+      setProbeStatuses(current => ({
+        ...current,
+        ...Object.fromEntries(probed.map(service => [
+          service.service_id,
+          { state: "waiting", lastFailure: null } satisfies ProbeStatus,
+        ])),
+      }));
+    }
+    toast(profile ? `Booting ${stored.name} · ${profile.name}` : `Booting workspace ${stored.name}`, "info");
 
     try {
       const result = await tauriApi.startWorkspace(
         wsId,
         workspaceServices,
+        hooksOf(stored),
       );
       result.started.forEach((serviceId) => {
         setManagedServiceStatus(wsId, serviceId, "running");
@@ -1073,6 +1470,18 @@ export default function App() {
       result.warnings.forEach(({ service_id, warning }) => {
         pushLog(service_id, warning, "warn");
       });
+      reportFailedHooks(result);
+      // A probe that never reached the point of answering (the port did not
+      // open in time) has only the warning to explain it.
+      setProbeStatuses(current => {
+        const next = { ...current };
+        result.warnings.forEach(({ service_id, warning }) => {
+          if (next[service_id] && next[service_id].state !== "passing") {
+            next[service_id] = { state: "failing", lastFailure: warning };
+          }
+        });
+        return next;
+      });
       if (result.warnings.length > 0) {
         toast(
           `${result.warnings.length} service${result.warnings.length === 1 ? '' : 's'} did not become ready before startup continued`,
@@ -1088,6 +1497,30 @@ export default function App() {
     }
   }
 
+  /** Post-stop hooks only run for a service that was stopped, in the folder and environment it ran with. */
+  function stopSpecFor(service: Service): WorkspaceStopSpec {
+    return {
+      service_id: service.id,
+      pid: service.pid ?? null,
+      cwd: service.repo_path ?? null,
+      environment: toServiceEnvironment(resolveEnvProfile(
+        envProfilesRef.current,
+        service.repo_path ?? '',
+        service.env_profile_id,
+      )),
+      hooks: hooksOf(service),
+    };
+  }
+
+  // Each failed hook already logged its own line as it happened; this only
+  // raises it, since a post-stop hook failing leaves nothing else on screen.
+  function reportFailedHooks(result: WorkspaceRunResult) {
+    const failed = result.hooks.filter(hook => hook.error !== null);
+    if (failed.length > 0) {
+      toast(`${failed.length} hook${failed.length === 1 ? '' : 's'} failed`, "error");
+    }
+  }
+
   async function stopAll(wsId: string) {
     const w = data.workspaces.find((x) => x.id === wsId);
     if (!w || w.services.length === 0) return;
@@ -1095,10 +1528,8 @@ export default function App() {
     try {
       const result = await tauriApi.stopWorkspace(
         wsId,
-        w.services.map((service) => ({
-          service_id: service.id,
-          pid: service.pid ?? null,
-        })),
+        w.services.map(stopSpecFor),
+        hooksOf(w),
       );
       [...result.stopped, ...result.not_running].forEach((serviceId) => {
         setManagedServiceStatus(wsId, serviceId, "stopped");
@@ -1109,6 +1540,7 @@ export default function App() {
       if (result.failed.length > 0) {
         toast(`${result.failed.length} service${result.failed.length === 1 ? '' : 's'} failed to stop`, "error");
       }
+      reportFailedHooks(result);
     } catch (error) {
       pushLog(wsId, String(error), "error");
       toast(`Failed to stop ${w.name}`, "error");
@@ -1121,6 +1553,26 @@ export default function App() {
     setView("logs");
   }
 
+  // The notification listener is registered once; this keeps it pointed at the
+  // current service list.
+  const openLogsRef = React.useRef(openLogsForSources);
+  openLogsRef.current = openLogsForSources;
+
+  React.useEffect(() => {
+    let cancelled = false;
+    let unlisten: (() => void) | undefined;
+    listenToNotificationClicks((serviceIds) => openLogsRef.current(serviceIds))
+      .then((dispose) => {
+        if (cancelled) dispose();
+        else unlisten = dispose;
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+      if (unlisten) unlisten();
+    };
+  }, []);
+
   function openWorkspaceLogs(wsId: string) {
     const workspace = data.workspaces.find((item) => item.id === wsId);
     openLogsForSources(workspace?.services.map((service) => service.id) ?? []);
@@ -1173,9 +1625,10 @@ export default function App() {
         projects={repos}
         onOpenWs={onOpenWs}
         onOpenProject={(id) => { setProject(id); setView("project"); }}
-        onResumeSession={(workspaceId: string) => { setWs(workspaceId); setView("workspace"); startAll(workspaceId); }}
+        onResumeSession={(workspaceId: string, profileId?: string) => { setWs(workspaceId); setView("workspace"); startAll(workspaceId, profileId); }}
         startWs={(id) => startAll(id)}
         stopWs={(id) => stopAll(id)}
+        systemHistory={systemHistory}
       />
     );
     if (view === "repos") return (
@@ -1186,6 +1639,8 @@ export default function App() {
         onCreateWorkspace={createWorkspace}
         onCreateProject={() => setCreateProjectOpen(true)}
         onGitChanged={refreshRepoGitStatus}
+        onImportDefinition={(path) => void importWorkspaceDefinition(path)}
+        onImportManifest={(repo, file) => void reviewManifestImport(repo, file)}
         onOpenProject={(id) => { setProject(id); setView("project"); }}
         onRunScript={(repo, script) => void startProjectScript(repo, script)}
       />
@@ -1232,6 +1687,10 @@ export default function App() {
         repos={repos}
         envProfiles={envProfiles}
         onAddToWorkspace={addServiceToWorkspace}
+        probes={probeStatuses}
+        restarts={restartStatuses}
+        resourceHistory={resourceHistory}
+        watchedPorts={watchedPorts}
       />
     );
     if (view === "ports") return (
@@ -1241,6 +1700,17 @@ export default function App() {
         workspaces={data.workspaces}
         services={allServices}
         onOpenUrl={openLocalUrl}
+        onWatchPort={() => setView('settings')}
+      />
+    );
+    if (view === "processes") return (
+      <ProcessesView
+        ports={livePorts}
+        repos={repos}
+        workspaces={storedWorkspaces}
+        running={hubRunServices}
+        onAdopt={addServiceToWorkspace}
+        onCreateWorkspace={createWorkspace}
       />
     );
     if (view === "logs") return (
@@ -1255,7 +1725,8 @@ export default function App() {
         setSearch={setLogSearch}
         autoscroll={autoscroll}
         setAutoscroll={setAutoscroll}
-        clearLogs={() => setLogs([])}
+        clearLogs={clearLogs}
+        terminalServiceIds={managedServices.filter(service => service.interactive).map(service => service.service_id)}
       />
     );
     // Reads run history itself, like the Run history view. It previously took a
@@ -1283,6 +1754,7 @@ export default function App() {
           onManageGit={() => setView("repos")}
           envProfiles={envProfiles.filter(profile => profile.project_path === proj.path)}
           onSaveEnvProfiles={saveProjectEnvProfiles}
+          resourceHistory={resourceHistory}
         />
       );
     }
@@ -1376,6 +1848,7 @@ export default function App() {
         data={data}
         projects={repos}
         onRunScript={(wsId, svcId) => startService(wsId, svcId)}
+        onBootProfile={(wsId, profileId) => { setWs(wsId); setView("workspace"); void startAll(wsId, profileId); }}
         onRunProjectScript={(repo, script) => void startProjectScript(repo, script)}
         onSwitchWs={(id) => { setWs(id); setView("workspace"); }}
         onOpenView={(v) => setView(v)}
@@ -1387,10 +1860,19 @@ export default function App() {
         onClose={() => setCreateProjectOpen(false)}
         onCreated={handleProjectCreated}
       />
+      {manifestImport && (
+        <ManifestImportDialog
+          result={manifestImport.result}
+          defaultName={manifestImport.defaultName}
+          onCancel={() => setManifestImport(null)}
+          onCreate={(choice) => void createImportedWorkspace(choice)}
+        />
+      )}
       {portConflictPrompt && (
         <PortConflictDialog
           conflicts={portConflictPrompt.conflicts}
           onDecide={portConflictPrompt.resolve}
+          canReassign={portConflictPrompt.canReassign}
         />
       )}
 
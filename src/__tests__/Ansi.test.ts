@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { ansiColor, markMatches, parseAnsi, stripAnsi } from '../ansi';
+
+const ESC = '\u001b';
+
+describe('parseAnsi', () => {
+  it('reads the named, 256-colour and truecolor foregrounds and backgrounds', () => {
+    const spans = parseAnsi(`${ESC}[31mred${ESC}[0m ${ESC}[38;5;208;48;5;17morange${ESC}[39;49m ${ESC}[38;2;10;20;30;48;2;200;100;0mrgb${ESC}[m`);
+    expect(spans).toEqual([
+      { text: 'red', style: { fg: 'var(--ansi-1)' } },
+      { text: ' ', style: {} },
+      { text: 'orange', style: { fg: 'rgb(255, 135, 0)', bg: 'rgb(0, 0, 95)' } },
+      { text: ' ', style: { fg: undefined, bg: undefined } },
+      { text: 'rgb', style: { fg: 'rgb(10, 20, 30)', bg: 'rgb(200, 100, 0)' } },
+    ]);
+  });
+
+  it('maps bright colours, bold and underline, and turns each off again', () => {
+    const spans = parseAnsi(`${ESC}[1;4;92mok${ESC}[22;24m plain${ESC}[103m`);
+    expect(spans[0]).toEqual({ text: 'ok', style: { bold: true, underline: true, fg: 'var(--ansi-10)' } });
+    expect(spans[1].style).toMatchObject({ bold: false, underline: false, fg: 'var(--ansi-10)' });
+  });
+
+  it('ignores colours outside the palette or out of range', () => {
+    expect(ansiColor(256)).toBeUndefined();
+    expect(parseAnsi(`${ESC}[38;2;300;0;0mx`)[0].style).toEqual({});
+    expect(ansiColor(244)).toBe('rgb(128, 128, 128)');
+  });
+
+  it('keeps OSC 8 links with an HTTP target and drops the rest', () => {
+    const link = (target: string, terminator = `${ESC}\\`) => `${ESC}]8;;${target}${terminator}docs${ESC}]8;;${terminator}`;
+    expect(parseAnsi(`see ${link('https://vitejs.dev/config/')}`)).toEqual([
+      { text: 'see ', style: {} },
+      { text: 'docs', style: {}, href: 'https://vitejs.dev/config/' },
+    ]);
+    expect(parseAnsi(link('http://localhost:5173', '\u0007'))[0].href).toBe('http://localhost:5173/');
+    expect(parseAnsi(link('javascript:alert(1)'))).toEqual([{ text: 'docs', style: {} }]);
+  });
+
+  it('drops escape sequences it does not render, including unfinished ones', () => {
+    expect(stripAnsi(`${ESC}[2K${ESC}[1Gbuilding${ESC}]0;title${ESC}\\ done${ESC}[3`)).toBe('building done');
+    expect(stripAnsi('no escapes <b>here</b>')).toBe('no escapes <b>here</b>');
+  });
+});
+
+describe('markMatches', () => {
+  it('marks a match that runs across a colour change', () => {
+    const segments = markMatches(parseAnsi(`${ESC}[32mcompiled${ESC}[0m successfully`), 'LED SUC');
+    expect(segments.map(segment => [segment.text, segment.match, segment.style.fg])).toEqual([
+      ['compi', false, 'var(--ansi-2)'],
+      ['led', true, 'var(--ansi-2)'],
+      [' suc', true, undefined],
+      ['cessfully', false, undefined],
+    ]);
+  });
+
+  it('treats the query as text, not a pattern', () => {
+    expect(markMatches(parseAnsi('a.b axb'), '.').filter(segment => segment.match).map(segment => segment.text)).toEqual(['.']);
+  });
+});
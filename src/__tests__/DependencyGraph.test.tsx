@@ -0,0 +1,67 @@
+import { fireEvent, screen } from '@testing-library/react';
+import { describe, expect, it } from 'vitest';
+import { renderWorkspace, workspace } from '../test/workspace-view';
+import type { Workspace } from '../types';
+
+describe('dependency graph', () => {
+  function renderGraph(current: Workspace) {
+    const props = renderWorkspace({ workspace: current });
+    fireEvent.click(screen.getByRole('button', { name: 'Graph' }));
+    return props;
+  }
+
+  const parallel: Workspace = {
+    ...workspace,
+    services: workspace.services.map(service => ({ ...service, run_mode: 'parallel' as const })),
+  };
+
+  it('adds a dependency by dragging and saves it with the new waves shown', () => {
+    const { onUpdateService } = renderGraph(parallel);
+    const waves = screen.getByRole('list', { name: 'Startup waves' });
+    expect(waves).toHaveTextContent('1 api, web');
+
+    fireEvent.mouseDown(screen.getByRole('button', { name: 'Drag from api to a service that needs it' }));
+    fireEvent.mouseUp(screen.getByRole('group', { name: 'web' }));
+    expect(waves).toHaveTextContent('1 api');
+    expect(waves).toHaveTextContent('2 web');
+    expect(onUpdateService).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Save dependencies' }));
+    expect(onUpdateService).toHaveBeenCalledWith('shop', 'web', { depends_on: ['api'] });
+  });
+
+  it('removes an edge by clicking it', () => {
+    const { onUpdateService } = renderGraph({
+      ...parallel,
+      services: [parallel.services[0], { ...parallel.services[1], depends_on: ['api'] }],
+    });
+
+    fireEvent.click(screen.getByRole('button', { name: 'Remove dependency: web on api' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Save dependencies' }));
+    expect(onUpdateService).toHaveBeenCalledWith('shop', 'web', { depends_on: [] });
+  });
+
+  it('flags cycles and unknown ids and will not save until they are fixed', () => {
+    renderGraph({
+      ...parallel,
+      services: [
+        { ...parallel.services[0], depends_on: ['queue'] },
+        { ...parallel.services[1], depends_on: [] },
+      ],
+    });
+
+    fireEvent.mouseDown(screen.getByRole('button', { name: 'Drag from api to a service that needs it' }));
+    fireEvent.mouseUp(screen.getByRole('group', { name: 'web' }));
+    fireEvent.mouseDown(screen.getByRole('button', { name: 'Drag from web to a service that needs it' }));
+    fireEvent.mouseUp(screen.getByRole('group', { name: 'api' }));
+
+    expect(screen.getByText('api depends on queue, which is not in this workspace')).toBeInTheDocument();
+    expect(screen.getByText('Dependency cycle between api, web')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Save dependencies' })).toBeDisabled();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Remove dependency: api on web' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Remove' }));
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Save dependencies' })).toBeEnabled();
+  });
+});
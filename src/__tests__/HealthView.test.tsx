@@ -13,6 +13,7 @@ const repo = {
   package_manager: 'npm',
   scripts: [],
   manifests: ['package.json'],
+  workspace_definition: null,
   has_env: false,
   has_git: true,
   git_status: null,
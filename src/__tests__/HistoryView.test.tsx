@@ -15,6 +15,8 @@ function run(overrides: Partial<RunRecord> = {}): RunRecord {
     exit_code: 0,
     outcome: 'exited',
     log_truncated: false,
+    events: [],
+    app_session_ms: null,
     ...overrides,
   };
 }
@@ -35,6 +37,24 @@ describe('HistoryView', () => {
     expect(list).toHaveBeenCalledTimes(1);
   });
 
+  it('shows what a guardrail did to a run', async () => {
+    vi.spyOn(tauriApi, 'listRunHistory').mockResolvedValue([run({
+      outcome: 'stopped',
+      exit_code: null,
+      events: [{
+        at_ms: Date.now() - 31_000,
+        kind: 'guardrail_restarted',
+        message: 'CPU at 340% for 30 s, over its 200% ceiling; restarting',
+      }],
+    })]);
+
+    render(<HistoryView />);
+
+    expect(
+      await screen.findByText('Restarted by guardrail · CPU at 340% for 30 s, over its 200% ceiling; restarting'),
+    ).toBeInTheDocument();
+  });
+
   it('loads a run’s stored output on demand', async () => {
     vi.spyOn(tauriApi, 'listRunHistory').mockResolvedValue([run()]);
     const readLog = vi.spyOn(tauriApi, 'readRunLog').mockResolvedValue({
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { commonFields, fieldValue, matchesFieldFilters, parseFieldFilters, parseJsonLog, withJsonLog } from '../json-logs';
+import { isJsonSource, LogRing } from '../log-buffers';
+import type { LogLine } from '../types';
+
+function line(msg: string, kind: LogLine['kind'] = 'info', seq = 0): LogLine {
+  return { ts: '10:00:00.000', at: 1_700_000_000_000 + seq, seq, src: 'api', kind, msg };
+}
+
+const pino = '{"level":50,"time":1700000000123,"pid":41,"hostname":"mac","req":{"method":"GET","url":"/api/users"},"res":{"statusCode":502},"msg":"upstream failed"}';
+
+describe('parseJsonLog', () => {
+  it('reads pino numeric levels and epoch milliseconds', () => {
+    expect(parseJsonLog(pino)).toMatchObject({ kind: 'error', level: 'error', time: 1_700_000_000_123, msg: 'upstream failed' });
+  });
+
+  it('reads winston and bunyan shapes', () => {
+    expect(parseJsonLog('{"level":"warn","message":"disk at 91%","timestamp":"2026-10-19T08:30:00.000Z"}'))
+      .toMatchObject({ kind: 'warn', level: 'warn', msg: 'disk at 91%', time: Date.parse('2026-10-19T08:30:00.000Z') });
+    expect(parseJsonLog('{"name":"api","v":0,"level":30,"msg":"listening","time":"2026-10-19T08:30:00.000Z"}'))
+      .toMatchObject({ kind: 'info', level: 'info', msg: 'listening' });
+  });
+
+  it('leaves alone anything that is not a logger object', () => {
+    expect(parseJsonLog('GET /api/users 200')).toBeNull();
+    expect(parseJsonLog('{"name":"web","version":"1.0.0"}')).toBeNull();
+    expect(parseJsonLog('{"level": 30, "msg": "cut off')).toBeNull();
+    expect(parseJsonLog('[1, 2]')).toBeNull();
+  });
+
+  it('sees through colour codes around the object', () => {
+    expect(parseJsonLog('\u001b[2m{"level":"info","msg":"ok"}\u001b[0m')?.msg).toBe('ok');
+  });
+});
+
+describe('withJsonLog', () => {
+  it('lets the logger level decide the kind instead of the stream', () => {
+    expect(withJsonLog(line('{"level":30,"msg":"started"}', 'error')).kind).toBe('info');
+    expect(withJsonLog(line('{"level":"fatal","msg":"boom"}')).kind).toBe('error');
+    expect(withJsonLog(line('{"msg":"no level"}', 'error')).kind).toBe('error');
+    const plain = line('plain text');
+    expect(withJsonLog(plain)).toBe(plain);
+  });
+});
+
+describe('field filters', () => {
+  const parsed = withJsonLog(line(pino));
+
+  it('reads clauses joined with and', () => {
+    expect(parseFieldFilters('req.url contains /api and res.statusCode >= 500 and req.method == "GET"')).toEqual({
+      filters: [
+        { path: 'req.url', operator: 'contains', value: '/api' },
+        { path: 'res.statusCode', operator: '>=', value: '500' },
+        { path: 'req.method', operator: '=', value: 'GET' },
+      ],
+      error: null,
+    });
+    expect(parseFieldFilters('  ')).toEqual({ filters: [], error: null });
+  });
+
+  it('reports a clause it cannot read', () => {
+    const { filters, error } = parseFieldFilters('req.url');
+    expect(filters).toEqual([]);
+    expect(error).toContain('"req.url"');
+  });
+
+  it('matches on nested fields, numerically where asked', () => {
+    const match = (text: string) => matchesFieldFilters(parsed, parseFieldFilters(text).filters);
+    expect(fieldValue(parsed.json!.raw, 'req.url')).toBe('/api/users');
+    expect(match('req.url contains /API')).toBe(true);
+    expect(match('res.statusCode >= 500')).toBe(true);
+    expect(match('res.statusCode < 500')).toBe(false);
+    expect(match('req.method != POST')).toBe(true);
+    expect(match('user.id = 7')).toBe(false);
+    expect(match('user.id != 7')).toBe(true);
+    expect(matchesFieldFilters(line('GET /api 200'), parseFieldFilters('req.url contains /api').filters)).toBe(false);
+  });
+
+  it('compares only numbers and numeric strings', () => {
+    const odd = withJsonLog(line('{"level":30,"msg":"odd","res":{"statusCode":null},"flag":true,"blank":"","retries":"3"}'));
+    const match = (text: string) => matchesFieldFilters(odd, parseFieldFilters(text).filters);
+    expect(match('res.statusCode >= 0')).toBe(false);
+    expect(match('flag > 0')).toBe(false);
+    expect(match('blank <= 0')).toBe(false);
+    expect(match('retries > 2')).toBe(true);
+    expect(match('retries > two')).toBe(false);
+  });
+});
+
+describe('commonFields', () => {
+  it('offers the fields most lines carry and skips bookkeeping', () => {
+    const api = new LogRing(10);
+    api.push(withJsonLog(line(pino, 'info', 1)));
+    api.push(withJsonLog(line('{"level":30,"time":1,"pid":41,"req":{"method":"POST","url":"/login"},"msg":"ok"}', 'info', 2)));
+    api.push(line('plain banner', 'info', 3));
+    expect(commonFields([api])).toEqual(['req.method', 'req.url', 'res.statusCode']);
+  });
+
+  it('reads only the newest lines of each ring', () => {
+    const older = new LogRing(10);
+    older.push(withJsonLog(line('{"level":30,"msg":"a","old":1}', 'info', 1)));
+    older.push(withJsonLog(line('{"level":30,"msg":"b","fresh":1}', 'info', 2)));
+    const other = new LogRing(10);
+    other.push(withJsonLog(line('{"level":30,"msg":"c","other":1}', 'info', 3)));
+    expect(commonFields([older, other], 8, 2)).toEqual(['fresh', 'other']);
+  });
+});
+
+describe('isJsonSource', () => {
+  it('holds while at least half of the held lines are JSON', () => {
+    const ring = new LogRing(4);
+    ring.push(line('booting'));
+    expect(isJsonSource(ring)).toBe(false);
+    ring.push(withJsonLog(line('{"level":30,"msg":"up"}')));
+    expect(isJsonSource(ring)).toBe(true);
+    ring.push(line('plain'));
+    ring.push(line('plain'));
+    expect(isJsonSource(ring)).toBe(false);
+    ring.push(withJsonLog(line('{"level":30,"msg":"again"}')));
+    expect(isJsonSource(ring)).toBe(true);
+  });
+});
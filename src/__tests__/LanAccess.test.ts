@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { directUrlOf, qrCodePath, withHostFlag } from '../lan-access';
+
+describe('withHostFlag', () => {
+  it('adds the flag for a tool named in the command', () => {
+    expect(withHostFlag('npx vite')).toBe('npx vite --host');
+    expect(withHostFlag('next dev ')).toBe('next dev -H 0.0.0.0');
+    expect(withHostFlag('bin/rails server')).toBe('bin/rails server -b 0.0.0.0');
+  });
+
+  it('gives up on a package script that hides the tool', () => {
+    expect(withHostFlag('npm run dev')).toBeNull();
+  });
+});
+
+describe('directUrlOf', () => {
+  it('skips the proxy hostname, which a phone cannot resolve', () => {
+    expect(directUrlOf({ port: 5173, url: 'http://web.shop.localhost:1355', directUrl: 'http://localhost:5173' }))
+      .toBe('http://localhost:5173');
+    expect(directUrlOf({ port: 5173 })).toBe('http://localhost:5173');
+  });
+});
+
+describe('qrCodePath', () => {
+  it('draws a square of whole modules with the finder pattern in the corner', () => {
+    const { size, d } = qrCodePath('http://192.168.1.34:5173');
+    // Versions grow by four modules from 21.
+    expect((size - 21) % 4).toBe(0);
+    expect(d.startsWith('M0 0h1v1h-1z')).toBe(true);
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, expect, it } from 'vitest';
+import {
+  appendLog,
+  logActivity,
+  logErrorCount,
+  logLevelCounts,
+  logLine,
+  LogRing,
+  LogStream,
+  mergeLogBuffers,
+  prependLogs,
+  resizeLogBuffers,
+} from '../log-buffers';
+import type { LogLine } from '../types';
+
+const line = (src: string, msg: string, at: number, kind: LogLine['kind'] = 'info') => logLine(src, msg, kind, at, '');
+
+describe('LogRing', () => {
+  it('drops its oldest line once full and keeps the error count in step', () => {
+    const ring = new LogRing(3);
+    ring.push(line('api', 'boom', 1, 'error'));
+    ring.push(line('api', 'two', 2));
+    ring.push(line('api', 'three', 3));
+    ring.push(line('api', 'four', 4));
+
+    expect(ring.toArray().map(item => item.msg)).toEqual(['two', 'three', 'four']);
+    expect(ring.at(0).msg).toBe('two');
+    expect(ring.size).toBe(3);
+    expect(ring.pushed).toBe(4);
+    expect(ring.errors).toBe(0);
+  });
+});
+
+describe('per-service buffers', () => {
+  it('keeps a quiet service\'s lines however much another one prints', () => {
+    const buffers: Record<string, LogRing> = {};
+    appendLog(buffers, line('api', 'listening', 1), 100);
+    appendLog(buffers, line('api', 'crashed', 2, 'error'), 100);
+    for (let at = 3; at < 1000; at++) appendLog(buffers, line('webpack', `module ${at}`, at), 100);
+
+    expect(buffers.api.toArray().map(item => item.msg)).toEqual(['listening', 'crashed']);
+    expect(buffers.webpack.size).toBe(100);
+    expect(logErrorCount(buffers)).toBe(1);
+    expect(logActivity(buffers)).toBe(999);
+  });
+
+  it('merges only the requested sources, by time and then by arrival', () => {
+    const buffers: Record<string, LogRing> = {};
+    appendLog(buffers, line('web', 'web at 10', 10), 100);
+    appendLog(buffers, line('api', 'api at 5', 5), 100);
+    appendLog(buffers, line('worker', 'worker at 7', 7), 100);
+    appendLog(buffers, line('api', 'api at 10', 10), 100);
+    appendLog(buffers, line('web', 'web at 20', 20), 100);
+
+    expect(mergeLogBuffers(buffers, ['web', 'api']).map(item => item.msg)).toEqual([
+      'api at 5',
+      'web at 10',
+      'api at 10',
+      'web at 20',
+    ]);
+    expect(mergeLogBuffers(buffers, ['missing'])).toEqual([]);
+  });
+
+  it('puts restored lines ahead of live ones, letting them go first when short of room', () => {
+    const buffers: Record<string, LogRing> = {};
+    appendLog(buffers, line('api', 'live', 100), 3);
+    prependLogs(buffers, [line('api', 'old 1', 1), line('api', 'old 2', 2), line('api', 'old 3', 3)], 3);
+
+    expect(buffers.api.toArray().map(item => item.msg)).toEqual(['old 2', 'old 3', 'live']);
+  });
+
+  it('resizes every ring to its newest lines', () => {
+    const buffers: Record<string, LogRing> = {};
+    for (let at = 0; at < 5; at++) appendLog(buffers, line('api', `line ${at}`, at), 10);
+    resizeLogBuffers(buffers, 2);
+
+    expect(buffers.api.capacity).toBe(2);
+    expect(buffers.api.toArray().map(item => item.msg)).toEqual(['line 3', 'line 4']);
+  });
+});
+
+describe('LogStream', () => {
+  const everything = () => true;
+
+  it('adds what arrived since the last sync to the same generation', () => {
+    const buffers: Record<string, LogRing> = {};
+    appendLog(buffers, line('api', 'api at 1', 1), 100);
+    appendLog(buffers, line('web', 'web at 2', 2), 100);
+    const stream = new LogStream(['api', 'web'], everything);
+    const first = stream.sync(buffers);
+
+    appendLog(buffers, line('web', 'web at 4', 4), 100);
+    appendLog(buffers, line('api', 'api at 3', 3), 100);
+    appendLog(buffers, line('other', 'not selected', 5), 100);
+    const second = stream.sync(buffers);
+
+    expect(second.lines.map(item => item.msg)).toEqual(['api at 1', 'web at 2', 'api at 3', 'web at 4']);
+    expect(second.generation).toBe(first.generation);
+    expect(stream.sync(buffers)).toBe(second);
+  });
+
+  it('tests only new lines against its filter', () => {
+    const buffers: Record<string, LogRing> = {};
+    appendLog(buffers, line('api', 'first', 1, 'error'), 100);
+    const seen: string[] = [];
+    const stream = new LogStream(['api'], (item) => {
+      seen.push(item.msg);
+      return item.kind === 'error';
+    });
+    stream.sync(buffers);
+    appendLog(buffers, line('api', 'second', 2), 100);
+    appendLog(buffers, line('api', 'third', 3, 'error'), 100);
+
+    expect(stream.sync(buffers).lines.map(item => item.msg)).toEqual(['first', 'third']);
+    expect(seen).toEqual(['first', 'second', 'third']);
+  });
+
+  it('starts a new generation when a ring is replaced or lines drop out', () => {
+    const buffers: Record<string, LogRing> = {};
+    appendLog(buffers, line('quiet', 'quiet at 0', 0), 4);
+    for (let at = 1; at <= 4; at++) appendLog(buffers, line('chatty', `chatty at ${at}`, at), 4);
+    const stream = new LogStream(['quiet', 'chatty'], everything);
+    const first = stream.sync(buffers);
+
+    for (let at = 5; at <= 8; at++) appendLog(buffers, line('chatty', `chatty at ${at}`, at), 4);
+    const thinned = stream.sync(buffers);
+    expect(thinned.generation).not.toBe(first.generation);
+    expect(thinned.lines.map(item => item.msg)).toEqual(['quiet at 0', 'chatty at 5', 'chatty at 6', 'chatty at 7', 'chatty at 8']);
+
+    resizeLogBuffers(buffers, 2);
+    const resized = stream.sync(buffers);
+    expect(resized.generation).not.toBe(thinned.generation);
+    expect(resized.lines.map(item => item.msg)).toEqual(['quiet at 0', 'chatty at 7', 'chatty at 8']);
+  });
+
+  it('keeps every source\'s lines when thinning with a selected source that has printed nothing', () => {
+    const buffers: Record<string, LogRing> = {};
+    appendLog(buffers, line('a', 'a at 0', 0), 10);
+    for (let at = 1; at <= 10; at++) appendLog(buffers, line('c', `c at ${at}`, at), 10);
+    const stream = new LogStream(['a', 'b', 'c'], everything);
+    stream.sync(buffers);
+
+    for (let at = 11; at <= 30; at++) {
+      appendLog(buffers, line('a', `a at ${at}`, at), 10);
+      stream.sync(buffers);
+    }
+
+    const shown = stream.sync(buffers).lines.map(item => item.msg);
+    expect(shown.filter(msg => msg.startsWith('c'))).toEqual(buffers.c.toArray().map(item => item.msg));
+    expect(shown).toEqual(expect.arrayContaining(buffers.a.toArray().map(item => item.msg)));
+  });
+});
+
+describe('logLevelCounts', () => {
+  it('reads the counts of the selected rings, kept as lines come and go', () => {
+    const buffers: Record<string, LogRing> = {};
+    appendLog(buffers, line('api', 'boom', 1, 'error'), 2);
+    appendLog(buffers, line('api', 'slow', 2, 'warn'), 2);
+    appendLog(buffers, line('api', 'ok', 3, 'ok'), 2);
+    appendLog(buffers, line('web', 'hello', 4), 2);
+
+    expect(logLevelCounts(buffers, ['api'])).toEqual({ error: 0, warn: 1, ok: 1, info: 0 });
+    expect(logLevelCounts(buffers, ['api', 'web', 'missing'])).toEqual({ error: 0, warn: 1, ok: 1, info: 1 });
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { appSessionLabel, logTimestamp, restoredLogLines } from '../log-restore';
+import type { RestoredLogs, RunRecord } from '../tauri-api';
+
+const THIS_LAUNCH = 1_700_000_900_000;
+const EARLIER_LAUNCH = 1_700_000_000_000;
+
+const run = (serviceId: string, appSession: number | null, startedAt: number): RunRecord => ({
+  run_id: `${startedAt}-${serviceId}`,
+  service_id: serviceId,
+  cwd: '/code/shop',
+  cmd: 'npm run dev',
+  pid: 4242,
+  started_at_ms: startedAt,
+  ended_at_ms: startedAt + 60_000,
+  exit_code: 0,
+  outcome: 'stopped',
+  log_truncated: false,
+  events: [],
+  app_session_ms: appSession,
+});
+
+describe('restoredLogLines', () => {
+  it('heads each run with its command and tags it with the launch that wrote it', () => {
+    const restored: RestoredLogs = {
+      app_session_ms: THIS_LAUNCH,
+      runs: [
+        { run: run('api', null, 1_699_000_000_000), lines: ['old'], truncated: false },
+        { run: run('web', EARLIER_LAUNCH, EARLIER_LAUNCH + 1000), lines: ['ready', 'GET /'], truncated: true },
+        { run: run('web', THIS_LAUNCH, THIS_LAUNCH + 1000), lines: ['reloaded'], truncated: false },
+      ],
+    };
+
+    const lines = restoredLogLines(restored);
+    expect(lines.map(line => [line.src, line.msg, line.appSession])).toEqual([
+      ['api', '> npm run dev', 0],
+      ['api', 'old', 0],
+      ['web', '> npm run dev', EARLIER_LAUNCH],
+      ['web', '… earlier lines of this run are not shown', EARLIER_LAUNCH],
+      ['web', 'ready', EARLIER_LAUNCH],
+      ['web', 'GET /', EARLIER_LAUNCH],
+      ['web', '> npm run dev', undefined],
+      ['web', 'reloaded', undefined],
+    ]);
+    expect(lines[2].ts).toBe(logTimestamp(new Date(EARLIER_LAUNCH + 1000)));
+    expect(lines[4].ts).toBe('');
+    expect(lines.every(line => line.kind === 'info')).toBe(true);
+  });
+
+  it('restores nothing when there is nothing on disk', () => {
+    expect(restoredLogLines({ app_session_ms: THIS_LAUNCH, runs: [] })).toEqual([]);
+  });
+});
+
+describe('appSessionLabel', () => {
+  it('names the current launch, unrecorded launches, and dated ones', () => {
+    expect(appSessionLabel(undefined)).toBe('This session');
+    expect(appSessionLabel(0)).toBe('Earlier sessions');
+    expect(appSessionLabel(EARLIER_LAUNCH)).toMatch(/^Session from \S/);
+  });
+});
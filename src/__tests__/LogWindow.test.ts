@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { rowOffsets, visibleRows } from '../log-window';
+
+describe('log windowing', () => {
+  it('adds up row heights into where each row starts', () => {
+    expect([...rowOffsets(3, index => [18, 36, 18][index])]).toEqual([0, 18, 54, 72]);
+  });
+
+  it('renders the rows under the viewport plus the overscan either side', () => {
+    const offsets = rowOffsets(100_000, () => 18);
+    expect(visibleRows(offsets, 18 * 50_000, 180, 36)).toEqual({ start: 49_998, end: 50_013 });
+    expect(visibleRows(offsets, 0, 180, 36)).toEqual({ start: 0, end: 13 });
+    expect(visibleRows(offsets, 18 * 100_000 - 180, 180, 36)).toEqual({ start: 99_988, end: 100_000 });
+  });
+
+  it('sums again only from the first row that changed', () => {
+    const before = rowOffsets(3, index => [18, 36, 18][index]);
+    const asked: number[] = [];
+    const after = rowOffsets(5, (index) => {
+      asked.push(index);
+      return [18, 36, 54, 18, 18][index];
+    }, { offsets: before, from: 2 });
+    expect([...after]).toEqual([0, 18, 54, 108, 126, 144]);
+    expect(asked).toEqual([2, 3, 4]);
+    expect([...rowOffsets(2, () => 18, { offsets: before, from: Infinity })]).toEqual([0, 18, 54]);
+  });
+
+  it('handles an empty log', () => {
+    expect(visibleRows(rowOffsets(0, () => 18), 0, 500, 100)).toEqual({ start: 0, end: 0 });
+  });
+});
@@ -1,6 +1,9 @@
 import { fireEvent, render, screen, waitFor } from '@testing-library/react';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 import { LogsView, serializeLogs } from '../view-logs';
+import { appendLog, type LogBuffers, type LogRing } from '../log-buffers';
+import { tauriApi } from '../tauri-api';
+import { withJsonLog } from '../json-logs';
 import type { LogLine, Service, Workspace } from '../types';
 
 const { saveMock, writeTextFileMock } = vi.hoisted(() => ({
@@ -10,6 +13,10 @@ const { saveMock, writeTextFileMock } = vi.hoisted(() => ({
 
 vi.mock('@tauri-apps/plugin-dialog', () => ({ save: saveMock }));
 vi.mock('@tauri-apps/plugin-fs', () => ({ writeTextFile: writeTextFileMock }));
+// xterm needs a real canvas; what matters here is which service the pane is for.
+vi.mock('../terminal-pane', () => ({
+  TerminalPane: ({ serviceId }: { serviceId: string }) => <div>terminal for {serviceId}</div>,
+}));
 
 const service: Service = {
   id: 'service-dev',
@@ -37,15 +44,21 @@ const workspace: Workspace = {
 };
 
 const logs: LogLine[] = [
-  { ts: '10:42:00.125', src: service.id, kind: 'ok', msg: 'ready at http://localhost:5173' },
-  { ts: '10:42:01.250', src: service.id, kind: 'error', msg: '<img src=x onerror=alert(1)> failed' },
+  { ts: '10:42:00.125', at: 1_700_000_000_125, seq: 1, src: service.id, kind: 'ok', msg: 'ready at http://localhost:5173' },
+  { ts: '10:42:01.250', at: 1_700_000_001_250, seq: 2, src: service.id, kind: 'error', msg: '<img src=x onerror=alert(1)> failed' },
 ];
 
+function buffers(lines: LogLine[]): LogBuffers {
+  const rings: Record<string, LogRing> = {};
+  lines.forEach(line => appendLog(rings, line, 100));
+  return rings;
+}
+
 function renderLogs(overrides: Partial<React.ComponentProps<typeof LogsView>> = {}) {
   const props: React.ComponentProps<typeof LogsView> = {
     workspaces: [workspace],
     services: [service],
-    logs,
+    logs: buffers(logs),
     sources: { [service.id]: true },
     toggleSource: vi.fn(),
     setAllSources: vi.fn(),
@@ -87,7 +100,7 @@ describe('LogsView', () => {
 
   it('copies and exports exactly the visible log representation', async () => {
     saveMock.mockResolvedValue('/tmp/frontend.log');
-    renderLogs({ logs: [logs[0]] });
+    renderLogs({ logs: buffers([logs[0]]) });
     const expected = '[10:42:00.125] [OK] [frontend] ready at http://localhost:5173';
 
     fireEvent.click(screen.getByRole('button', { name: 'Copy visible' }));
@@ -98,9 +111,171 @@ describe('LogsView', () => {
     expect(screen.getByText('Exported 1 visible lines')).toBeInTheDocument();
   });
 
+  it('renders colours and links, and copies plain or raw text', async () => {
+    const coloured = '\u001b[31mfailed\u001b[0m see \u001b]8;;https://example.com/help\u001b\\help\u001b]8;;\u001b\\';
+    const open = vi.spyOn(tauriApi, 'openLogLink').mockResolvedValue();
+    renderLogs({ logs: buffers([{ ...logs[1], msg: coloured }]), search: 'iled see' });
+
+    expect(screen.getByText('fa').style.color).toBe('var(--ansi-1)');
+    expect(document.querySelectorAll('mark')).toHaveLength(2);
+    fireEvent.click(screen.getByRole('link', { name: 'help' }));
+    expect(open).toHaveBeenCalledWith('https://example.com/help');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Copy visible' }));
+    await waitFor(() => expect(navigator.clipboard.writeText).toHaveBeenLastCalledWith('[10:42:01.250] [ERROR] [frontend] failed see help'));
+
+    fireEvent.click(screen.getByRole('button', { name: 'Raw codes' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Copy visible' }));
+    await waitFor(() => expect(navigator.clipboard.writeText).toHaveBeenLastCalledWith(`[10:42:01.250] [ERROR] [frontend] ${coloured}`));
+    open.mockRestore();
+  });
+
+  it('offers a terminal only when the one selected source was started on one', () => {
+    const { rerender, props } = renderLogs({ terminalServiceIds: [service.id] });
+
+    fireEvent.click(screen.getByRole('button', { name: 'Terminal' }));
+    expect(screen.getByText(`terminal for ${service.id}`)).toBeInTheDocument();
+    expect(screen.queryByText('ready at http://localhost:5173')).not.toBeInTheDocument();
+
+    rerender(<LogsView {...props} sources={{ [service.id]: true, other: true }} />);
+    expect(screen.queryByRole('button', { name: 'Terminal' })).not.toBeInTheDocument();
+    expect(screen.getByText('ready at http://localhost:5173')).toBeInTheDocument();
+
+    rerender(<LogsView {...props} terminalServiceIds={[]} />);
+    expect(screen.queryByRole('button', { name: 'Terminal' })).not.toBeInTheDocument();
+  });
+
+  it('renders only the rows near the viewport of a very long log', () => {
+    const rings: Record<string, LogRing> = {};
+    for (let index = 0; index < 200_000; index++) {
+      appendLog(rings, { ts: '', at: index, seq: index, src: service.id, kind: 'info', msg: `line ${index}` }, 200_000);
+    }
+    renderLogs({ logs: rings });
+
+    expect(screen.getByText('line 199999')).toBeInTheDocument();
+    expect(screen.queryByText('line 0')).not.toBeInTheDocument();
+    expect(document.querySelectorAll('.log-line').length).toBeLessThan(200);
+  });
+
+  it('stops tailing when scrolled up, and draws the rows scrolled to', () => {
+    const rings: Record<string, LogRing> = {};
+    for (let index = 0; index < 2_000; index++) {
+      appendLog(rings, { ts: '', at: index, seq: index, src: service.id, kind: 'info', msg: `line ${index}` }, 2_000);
+    }
+    const { rerender, props } = renderLogs({ logs: rings });
+    expect(screen.queryByText('line 0')).not.toBeInTheDocument();
+
+    const body = document.querySelector<HTMLElement>('.logs-body')!;
+    Object.defineProperty(body, 'scrollHeight', { configurable: true, value: 2_000 * 18 });
+    Object.defineProperty(body, 'clientHeight', { configurable: true, value: 800 });
+    body.scrollTop = 0;
+    fireEvent.scroll(body);
+    expect(props.setAutoscroll).toHaveBeenCalledWith(false);
+
+    rerender(<LogsView {...props} autoscroll={false} />);
+    expect(screen.getByText('line 0')).toBeInTheDocument();
+  });
+
+  it('keeps showing new output as it arrives, filtered like the rest', () => {
+    const rings = buffers(logs);
+    const { rerender, props } = renderLogs({ logs: rings, search: 'ready' });
+    appendLog(rings as Record<string, LogRing>, { ts: '10:42:02.000', at: 1_700_000_002_000, seq: 3, src: service.id, kind: 'ok', msg: 'ready again' }, 100);
+    appendLog(rings as Record<string, LogRing>, { ts: '10:42:03.000', at: 1_700_000_003_000, seq: 4, src: service.id, kind: 'info', msg: 'compiled' }, 100);
+    rerender(<LogsView {...props} logs={{ ...rings }} />);
+
+    expect(document.querySelector('.logs-body')).toHaveTextContent('ready again');
+    expect(screen.queryByText('compiled')).not.toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /Info 1/ })).toBeInTheDocument();
+  });
+
+  it('merges only the selected sources', () => {
+    renderLogs({
+      logs: buffers([...logs, { ts: '10:42:00.500', at: 1_700_000_000_500, seq: 3, src: 'service-api', kind: 'info', msg: 'api booted' }]),
+    });
+    expect(screen.queryByText('api booted')).not.toBeInTheDocument();
+    expect(screen.getByText('ready at http://localhost:5173')).toBeInTheDocument();
+  });
+
+  it('marks where restored output from earlier launches gives way to this one', () => {
+    renderLogs({
+      logs: buffers([
+        { ts: '', at: 1_600_000_000_000, seq: -3, src: service.id, kind: 'info', msg: 'from before launches were recorded', appSession: 0 },
+        { ts: '', at: 1_699_000_000_000, seq: -2, src: service.id, kind: 'info', msg: 'from yesterday', appSession: 1_699_000_000_000 },
+        { ts: '', at: 1_699_000_000_000, seq: -1, src: service.id, kind: 'info', msg: 'also from yesterday', appSession: 1_699_000_000_000 },
+        logs[0],
+      ]),
+    });
+
+    const breaks = screen.getAllByRole('separator').map(item => item.textContent);
+    expect(breaks).toHaveLength(3);
+    expect(breaks[0]).toBe('Earlier sessions');
+    expect(breaks[1]).toMatch(/^Session from /);
+    expect(breaks[2]).toBe('This session');
+  });
+
+  it('lays out a JSON logger in columns, filters on its fields and expands the object', () => {
+    const json = (seq: number, body: object) =>
+      withJsonLog({ ts: '10:42:00.000', at: 1_700_000_000_000 + seq, seq, src: service.id, kind: 'error', msg: JSON.stringify(body) });
+    renderLogs({
+      logs: buffers([
+        json(1, { level: 30, time: 1_700_000_000_001, msg: 'request done', req: { url: '/api/users' }, res: { statusCode: 200 } }),
+        json(2, { level: 30, time: 1_700_000_000_002, msg: 'request done', req: { url: '/health' }, res: { statusCode: 200 } }),
+      ]),
+    });
+
+    expect(screen.getAllByText('INFO')).toHaveLength(2);
+    expect(screen.queryByText(/"statusCode"/)).not.toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /Errors 0/ })).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'req.url' }));
+    expect(screen.getByText('/health')).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('Field filter'), { target: { value: 'req.url contains /api' } });
+    expect(screen.queryByText('/health')).not.toBeInTheDocument();
+    expect(screen.getByText('/api/users')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Show the logged object' }));
+    expect(screen.getByText(/"statusCode": 200/)).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('Field filter'), { target: { value: 'req.url' } });
+    expect(screen.getByText(/Cannot read "req.url"/)).toBeInTheDocument();
+  });
+
+  it('says when a JSON row matched the search only in its hidden object', () => {
+    const line = withJsonLog({
+      ts: '10:42:00.000', at: 1_700_000_000_000, seq: 1, src: service.id, kind: 'info',
+      msg: '{"level":30,"msg":"signed in","userId":42}',
+    });
+    renderLogs({ logs: buffers([line]), search: '"userId":42' });
+
+    fireEvent.click(screen.getByRole('button', { name: 'match in object' }));
+    expect(screen.getByRole('button', { name: 'Hide the logged object' })).toBeInTheDocument();
+    expect(screen.getByText(/"userId": 42/)).toBeInTheDocument();
+  });
+
+  it('marks nothing extra when the search matches what a JSON row shows', () => {
+    const line = withJsonLog({
+      ts: '10:42:00.000', at: 1_700_000_000_000, seq: 1, src: service.id, kind: 'info',
+      msg: '{"level":30,"msg":"signed in","userId":42}',
+    });
+    renderLogs({ logs: buffers([line]), search: 'signed' });
+    expect(screen.queryByRole('button', { name: 'match in object' })).not.toBeInTheDocument();
+    expect(document.querySelector('mark')).toHaveTextContent('signed');
+  });
+
+  it('keeps plain output as it was printed', () => {
+    renderLogs();
+    expect(screen.queryByLabelText('Field filter')).not.toBeInTheDocument();
+  });
+
+  it('leaves out the time of restored lines, which was never recorded', () => {
+    expect(serializeLogs([{ ts: '', at: 0, seq: 0, src: service.id, kind: 'info', msg: 'compiled', appSession: 0 }], { [service.id]: service }))
+      .toBe('[INFO] [frontend] compiled');
+  });
+
   it('serializes unknown sources without losing their identity', () => {
     expect(serializeLogs(
-      [{ ts: '12:00:00.000', src: 'external-123', kind: 'warn', msg: 'slow response' }],
+      [{ ts: '12:00:00.000', at: 0, seq: 0, src: 'external-123', kind: 'warn', msg: 'slow response' }],
       {},
     )).toBe('[12:00:00.000] [WARN] [external-123] slow response');
   });
@@ -0,0 +1,95 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+
+import type { ManifestImport } from '../tauri-api';
+import type { StoredService } from '../types';
+import { EMPTY_HOOKS } from '../hooks';
+import { draftWorkspace, processManifestsOf } from '../manifest-import';
+import { ManifestImportDialog } from '../manifest-import-dialog';
+import { DEFAULT_RESTART_POLICY } from '../restart-policy';
+
+function service(id: string, patch: Partial<StoredService> = {}): StoredService {
+  return {
+    id,
+    name: id,
+    repo_path: '/code/shop',
+    script: id,
+    cmd: `docker compose -f compose.yaml up ${id}`,
+    depends_on: [],
+    run_mode: 'parallel',
+    order: 0,
+    env_profile_id: null,
+    expected_port: null,
+    startup_delay_ms: 0,
+    readiness_timeout_ms: 30_000,
+    http_probe: null,
+    log_readiness: null,
+    restart_policy: DEFAULT_RESTART_POLICY,
+    guardrail: null,
+    file_watch: null,
+    hooks: EMPTY_HOOKS,
+    interactive: false,
+    port_assignment: null,
+    ...patch,
+  };
+}
+
+const imported: ManifestImport = {
+  source: 'compose.yaml',
+  directory: '/code/shop',
+  services: [
+    { service: service('db', { expected_port: 5432 }), env: [] },
+    {
+      service: service('api', { depends_on: ['db', 'cache'], expected_port: 3000 }),
+      env: [{ key: 'DATABASE_URL', value: 'postgres://db/shop', is_secret: false }],
+    },
+    { service: service('cache'), env: [] },
+  ],
+  notes: [
+    { service: 'db', message: 'Only host port 5432 is watched; 5433 is left out' },
+    { service: null, message: 'Top-level volumes are left to Compose' },
+  ],
+};
+
+describe('process manifest imports', () => {
+  it('lists only the manifests an import can read', () => {
+    expect(processManifestsOf({ manifests: ['package.json', 'Procfile', 'compose.yaml', 'Cargo.toml'] }))
+      .toEqual(['Procfile', 'compose.yaml']);
+  });
+
+  it('drafts fresh ids, drops dependencies on skipped processes and keeps env in a profile', () => {
+    const { workspace, envProfiles } = draftWorkspace(imported, {
+      name: 'Shop',
+      color: '#4a78c4',
+      included: ['db', 'api'],
+      stamp: 7,
+    });
+
+    expect(workspace.id).toBe('ws-7');
+    expect(workspace.services.map(item => [item.id, item.name, item.depends_on])).toEqual([
+      ['svc-7-0', 'db', []],
+      ['svc-7-1', 'api', ['svc-7-0']],
+    ]);
+    expect(workspace.services[1].env_profile_id).toBe('env-7-1');
+    expect(envProfiles).toEqual([expect.objectContaining({
+      id: 'env-7-1',
+      project_path: '/code/shop',
+      name: 'api (compose.yaml)',
+      vars: [expect.objectContaining({ key: 'DATABASE_URL' })],
+    })]);
+  });
+
+  it('shows what needs review and creates with the processes left ticked', () => {
+    const onCreate = vi.fn();
+    render(<ManifestImportDialog result={imported} defaultName="shop" onCancel={() => {}} onCreate={onCreate} />);
+
+    expect(screen.getByRole('list', { name: 'db needs review' })).toHaveTextContent('5433 is left out');
+    expect(screen.getByRole('list', { name: 'compose.yaml needs review' })).toHaveTextContent('volumes');
+
+    fireEvent.click(screen.getByLabelText('Include cache'));
+    fireEvent.change(screen.getByLabelText('Workspace name'), { target: { value: ' Shop ' } });
+    fireEvent.click(screen.getByRole('button', { name: /Create workspace/ }));
+
+    expect(onCreate).toHaveBeenCalledWith({ name: 'Shop', included: ['db', 'api'] });
+  });
+});
@@ -0,0 +1,79 @@
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { SettingsView } from '../view-settings';
+import { githubAuth, type AppConfig } from '../github-auth';
+import { EMPTY_HOOKS } from '../hooks';
+import { tauriApi } from '../tauri-api';
+import type { StoredWorkspace } from '../types';
+
+const workspaces: StoredWorkspace[] = [
+  { id: 'shop', name: 'Shop', color: '#4a78c4', services: [], hooks: EMPTY_HOOKS, profiles: [], definition_path: null },
+  { id: 'blog', name: 'Blog', color: '#d9854f', services: [], hooks: EMPTY_HOOKS, profiles: [], definition_path: null },
+];
+
+function config(overrides: Partial<AppConfig> = {}): AppConfig {
+  return {
+    onboarding_complete: true,
+    github_token: null,
+    github_user: null,
+    workspace_roots: [],
+    user_workspaces: workspaces,
+    env_profiles: [],
+    close_to_tray: true,
+    start_at_login: false,
+    notifications: { enabled: false, muted_workspaces: [], max_per_minute: 6 },
+    proxy: { enabled: false, port: 1355 },
+    watched_ports: [],
+    log_retention: { lines_per_service: 1000, days: 7, live_lines_per_service: 10_000 },
+    appearance: { theme: 'charcoal', accent: '#4a78c4', density: 'balanced', sidebar: 'labeled' },
+    ...overrides,
+  };
+}
+
+function renderSettings() {
+  render(
+    <SettingsView
+      githubUser={null}
+      setGithubUser={vi.fn()}
+      repos={[]}
+      storedWorkspaces={workspaces}
+      tweaks={{ theme: 'charcoal', accent: '#4a78c4', density: 'balanced', sidebar: 'labeled', showTitleBar: true }}
+      setTweak={vi.fn()}
+      onConfigChanged={vi.fn()}
+      onCreateWorkspace={vi.fn()}
+      onUpdateWorkspace={vi.fn()}
+      onDeleteWorkspace={vi.fn()}
+      onOpenRepos={vi.fn()}
+    />,
+  );
+}
+
+describe('notification settings', () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  it('turns notifications on and then offers a mute per workspace', async () => {
+    let stored = config();
+    vi.spyOn(githubAuth, 'loadConfig').mockImplementation(async () => stored);
+    const save = vi.spyOn(githubAuth, 'saveConfig').mockImplementation(async (next) => {
+      stored = next;
+      return null;
+    });
+    vi.spyOn(tauriApi, 'secretStorageBackend').mockResolvedValue('keyring');
+    vi.spyOn(tauriApi, 'getStartAtLogin').mockResolvedValue(false);
+
+    renderSettings();
+
+    fireEvent.click(await screen.findByRole('button', { name: 'On failures' }));
+    await waitFor(() => expect(save).toHaveBeenCalledTimes(1));
+    expect(save.mock.calls[0][0].notifications.enabled).toBe(true);
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Mute Shop notifications' }));
+    await waitFor(() => expect(save).toHaveBeenCalledTimes(2));
+    expect(save.mock.calls[1][0].notifications).toEqual({
+      enabled: true,
+      muted_workspaces: ['shop'],
+      max_per_minute: 6,
+    });
+    expect(await screen.findByRole('button', { name: 'Unmute Shop notifications' })).toHaveTextContent('Muted');
+  });
+});
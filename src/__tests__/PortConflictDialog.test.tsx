@@ -42,4 +42,22 @@ describe('PortConflictDialog', () => {
 
     expect(screen.getByRole('button', { name: /Stop owners? & retry/ })).toBeDisabled();
   });
+
+  it('offers a free port only when the services can remember one', () => {
+    const conflict = {
+      port: 3000,
+      pid: 4100,
+      process_name: 'node',
+      protocol: 'tcp',
+      bind_address: '127.0.0.1',
+      url: 'http://localhost:3000',
+    };
+    const onDecide = vi.fn();
+    const { rerender } = render(<PortConflictDialog conflicts={[conflict]} onDecide={onDecide} />);
+    expect(screen.queryByRole('button', { name: /Use a free port/ })).not.toBeInTheDocument();
+
+    rerender(<PortConflictDialog conflicts={[conflict]} onDecide={onDecide} canReassign />);
+    fireEvent.click(screen.getByRole('button', { name: /Use a free port/ }));
+    expect(onDecide).toHaveBeenCalledWith('reassign');
+  });
 });
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { EDGE_ACTIVE_MS, EDGE_FADE_MS, edgeOpacity, isEdgeActive, recordConnections } from '../port-edges';
+
+const connection = (from_port: number, to_port: number) => ({ from_port, from_pid: 10, to_port, to_pid: 20 });
+
+describe('recordConnections', () => {
+  it('names edges by map node ids and refreshes the ones seen again', () => {
+    const first = recordConnections([], [connection(3000, 4000), connection(4000, 5432)], 1_000);
+    expect(first).toEqual([
+      { from: 'p-3000', to: 'p-4000', lastSeen: 1_000 },
+      { from: 'p-4000', to: 'p-5432', lastSeen: 1_000 },
+    ]);
+    const second = recordConnections(first, [connection(4000, 5432)], 6_000);
+    expect(second).toEqual([
+      { from: 'p-3000', to: 'p-4000', lastSeen: 1_000 },
+      { from: 'p-4000', to: 'p-5432', lastSeen: 6_000 },
+    ]);
+  });
+
+  it('drops an edge once it has faded out', () => {
+    const edges = recordConnections([], [connection(3000, 4000)], 0);
+    expect(recordConnections(edges, [], EDGE_FADE_MS - 1)).toHaveLength(1);
+    expect(recordConnections(edges, [], EDGE_FADE_MS)).toEqual([]);
+  });
+});
+
+describe('edge fading', () => {
+  it('stays at full strength while active, then dims to nothing', () => {
+    const edge = { from: 'p-3000', to: 'p-4000', lastSeen: 0 };
+    expect(isEdgeActive(edge, EDGE_ACTIVE_MS - 1)).toBe(true);
+    expect(edgeOpacity(edge, EDGE_ACTIVE_MS)).toBe(1);
+    expect(isEdgeActive(edge, EDGE_ACTIVE_MS)).toBe(false);
+    expect(edgeOpacity(edge, (EDGE_ACTIVE_MS + EDGE_FADE_MS) / 2)).toBeCloseTo(0.5);
+    expect(edgeOpacity(edge, EDGE_FADE_MS)).toBe(0);
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'vitest';
-import { deriveExpectedPorts } from '../port-preflight';
+import { deriveExpectedPorts, followMovedPorts, withPortAssignment } from '../port-preflight';
 
 describe('port preflight inference', () => {
   it('combines configured, PORT environment, and explicit --port values', () => {
@@ -36,4 +36,59 @@ describe('port preflight inference', () => {
       5173,
     )).toEqual([5173]);
   });
+
+  it('launches on an assigned port through PORT and every --port flag', () => {
+    const launch = withPortAssignment(
+      'vite --port 5173 --host',
+      { inherit_system: true, vars: [{ key: 'PORT', value: '5173' }, { key: 'MODE', value: 'dev' }] },
+      5173,
+      { original: 5173, port: 5174 },
+    );
+
+    expect(launch.command).toBe('vite --port 5174 --host');
+    expect(launch.environment.vars).toEqual([{ key: 'MODE', value: 'dev' }, { key: 'PORT', value: '5174' }]);
+    expect(deriveExpectedPorts(launch.command, launch.environment, launch.expectedPort)).toEqual([5174]);
+    expect(withPortAssignment('vite --port=5173', { inherit_system: true, vars: [] }, null, null).command)
+      .toBe('vite --port=5173');
+  });
+
+  it('points variables that mention a moved port at the new one', () => {
+    const { environment, changed } = followMovedPorts(
+      {
+        inherit_system: true,
+        vars: [
+          { key: 'API_URL', value: 'http://localhost:3000/graphql' },
+          { key: 'API_PORT', value: '3000' },
+          { key: 'CACHE_URL', value: 'redis://localhost:63000' },
+          { key: 'PORT', value: '3000' },
+        ],
+      },
+      [{ original: 3000, port: 3001 }, { original: 3001, port: 3002 }],
+    );
+
+    expect(changed).toEqual(['API_URL', 'API_PORT']);
+    expect(environment.vars.map(variable => variable.value)).toEqual([
+      'http://localhost:3001/graphql',
+      '3001',
+      'redis://localhost:63000',
+      '3000',
+    ]);
+  });
+
+  it('leaves bare numbers alone unless the key names a port', () => {
+    const { environment, changed } = followMovedPorts(
+      {
+        inherit_system: true,
+        vars: [
+          { key: 'REQUEST_TIMEOUT_MS', value: '3000' },
+          { key: 'MAX_ITEMS', value: '5173' },
+          { key: 'VITE_PORT', value: '5173' },
+        ],
+      },
+      [{ original: 3000, port: 3001 }, { original: 5173, port: 5174 }],
+    );
+
+    expect(changed).toEqual(['VITE_PORT']);
+    expect(environment.vars.map(variable => variable.value)).toEqual(['3000', '5173', '5174']);
+  });
 });
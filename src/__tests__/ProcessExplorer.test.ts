@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import { adoptedInto, adoptedService, adoptionOf, processRows, type ProcessFilters } from '../process-explorer';
+import type { LivePort, ProcessInfo } from '../tauri-api';
+import type { Repo, StoredWorkspace } from '../types';
+
+const repo: Repo = {
+  id: 'repo::/code/shop',
+  name: 'shop',
+  path: '/code/shop',
+  framework: 'Vite',
+  package_manager: 'npm',
+  scripts: [
+    { name: 'dev', cmd: 'npm run dev', raw_cmd: 'vite' },
+    { name: 'build', cmd: 'npm run build', raw_cmd: 'vite build' },
+  ],
+  has_env: false,
+  has_git: true,
+  git_root: '/code/shop',
+  manifests: ['package.json'],
+  workspace_definition: null,
+  git_status: null,
+  is_running: false,
+  running_port: null,
+  cpu: 0,
+  mem: 0,
+};
+
+const process = (pid: number, cmd: string[], cwd: string | null, cpu: number, memoryMb: number): ProcessInfo => ({
+  pid,
+  name: cmd[0] ?? 'unknown',
+  cmd,
+  cwd,
+  cpu_usage: cpu,
+  memory_kb: memoryMb * 1024,
+  status: 'Run',
+});
+
+const processes = [
+  process(10, ['npm', 'run', 'dev'], '/code/shop', 0.1, 40),
+  process(11, ['node', '/code/shop/node_modules/.bin/vite'], '/code/shop', 3.5, 180),
+  process(20, ['postgres', '-D', '/var/lib/postgres'], '/var/lib/postgres', 1.2, 900),
+  process(30, ['slack'], null, 6, 400),
+];
+
+const ports: LivePort[] = [
+  { port: 5173, pid: 11, process_name: 'node', protocol: 'tcp', bind_address: '127.0.0.1', url: 'http://localhost:5173' },
+  { port: 5432, pid: 20, process_name: 'postgres', protocol: 'tcp', bind_address: '127.0.0.1', url: 'http://localhost:5432' },
+];
+
+const filters: ProcessFilters = { query: '', sort: 'cpu', listening: false, inRepo: false };
+
+describe('processRows', () => {
+  it('sorts by CPU or by memory, heaviest first', () => {
+    expect(processRows(processes, ports, [repo], [], filters).map(row => row.process.pid)).toEqual([30, 11, 20, 10]);
+    expect(processRows(processes, ports, [repo], [], { ...filters, sort: 'memory' }).map(row => row.process.pid)).toEqual([20, 30, 11, 10]);
+  });
+
+  it('narrows to listening processes, processes inside a repo, or both', () => {
+    expect(processRows(processes, ports, [repo], [], { ...filters, listening: true }).map(row => row.process.pid)).toEqual([11, 20]);
+    expect(processRows(processes, ports, [repo], [], { ...filters, inRepo: true }).map(row => row.process.pid)).toEqual([11, 10]);
+    expect(processRows(processes, ports, [repo], [], { ...filters, listening: true, inRepo: true }).map(row => row.process.pid)).toEqual([11]);
+  });
+
+  it('searches pid, command, repo and port', () => {
+    const search = (query: string) => processRows(processes, ports, [repo], [], { ...filters, query }).map(row => row.process.pid);
+    expect(search('20')).toEqual([20]);
+    expect(search('VITE')).toEqual([11]);
+    expect(search('shop')).toEqual([11, 10]);
+    expect(search(':5432')).toEqual([20]);
+  });
+
+  it('recognises the script behind both the runner and the server it spawned', () => {
+    const rows = processRows(processes, ports, [repo], [], filters);
+    expect(rows.find(row => row.process.pid === 10)?.script?.name).toBe('dev');
+    expect(rows.find(row => row.process.pid === 11)?.script?.name).toBe('dev');
+    expect(rows.find(row => row.process.pid === 20)?.script).toBeNull();
+  });
+
+  it('prefers the longest matching script command', () => {
+    const build = process(40, ['node', '/code/shop/node_modules/.bin/vite', 'build'], '/code/shop', 0, 10);
+    expect(processRows([build], [], [repo], [], filters)[0].script?.name).toBe('build');
+  });
+});
+
+describe('adoption', () => {
+  it('offers external dev servers and turns them into a complete workspace service', () => {
+    const row = processRows(processes, ports, [repo], [], filters).find(item => item.process.pid === 11)!;
+    const adoption = adoptionOf(row);
+    expect(adoption?.script.name).toBe('dev');
+
+    expect(adoptedService(adoption!, row.ports, '  ', 'svc-1')).toMatchObject({
+      id: 'svc-1',
+      name: 'dev',
+      repo_path: '/code/shop',
+      script: 'dev',
+      cmd: 'npm run dev',
+      expected_port: 5173,
+      depends_on: [],
+      hooks: { cwd: null, pre_start: [], post_stop: [] },
+    });
+  });
+
+  it('does not offer what Hub runs, or what it cannot start', () => {
+    const running = [{ pid: 99, repo_path: '/code/shop', cmd: 'npm run dev' }];
+    const rows = processRows(processes, ports, [repo], running, filters);
+    expect(rows.filter(row => adoptionOf(row) != null)).toEqual([]);
+    expect(rows.find(row => row.process.pid === 11)?.managed).toBe(true);
+  });
+
+  it('finds the workspace an adopted script was already saved to', () => {
+    const row = processRows(processes, ports, [repo], [], filters).find(item => item.process.pid === 11)!;
+    const saved = adoptedService(adoptionOf(row)!, row.ports, 'shop dev', 'svc-1');
+    const workspace: StoredWorkspace = {
+      id: 'ws-1',
+      name: 'Shop',
+      color: '#4f8cff',
+      services: [saved],
+      hooks: { cwd: null, pre_start: [], post_stop: [] },
+      profiles: [],
+      definition_path: null,
+    };
+    expect(adoptedInto(adoptionOf(row)!, [workspace])?.id).toBe('ws-1');
+    expect(adoptedInto(adoptionOf(row)!, [])).toBeNull();
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import type { ProcessNode } from '../tauri-api';
+import { processCommand, processTreeRows, subtreeUsage } from '../process-tree';
+
+const node = (pid: number, children: ProcessNode[] = [], ports: number[] = []): ProcessNode => ({
+  pid,
+  name: `p${pid}`,
+  cmd: [],
+  cpu_usage: 1.5,
+  memory_kb: 2048,
+  ports,
+  children,
+});
+
+// pnpm → node → esbuild holding :5173, beside a second node child.
+const tree = node(10, [node(12, [node(30, [], [5173])]), node(13)]);
+
+describe('processTreeRows', () => {
+  it('lists the tree depth first with each row indented by depth', () => {
+    expect(processTreeRows(tree, new Set()).map(row => [row.node.pid, row.depth, row.expandable])).toEqual([
+      [10, 0, true],
+      [12, 1, true],
+      [30, 2, false],
+      [13, 1, false],
+    ]);
+  });
+
+  it('hides what is under a collapsed process', () => {
+    expect(processTreeRows(tree, new Set([12])).map(row => row.node.pid)).toEqual([10, 12, 13]);
+  });
+});
+
+describe('process summaries', () => {
+  it('sums usage over a subtree', () => {
+    expect(subtreeUsage(tree)).toEqual({ cpu: 6, memoryKb: 8192, processes: 4 });
+    expect(subtreeUsage(tree.children[1]).processes).toBe(1);
+  });
+
+  it('falls back to the name when the command line is unreadable', () => {
+    expect(processCommand({ name: 'esbuild', cmd: [] })).toBe('esbuild');
+    expect(processCommand({ name: 'node', cmd: ['node', 'server.js'] })).toBe('node server.js');
+  });
+});
@@ -0,0 +1,19 @@
+import { render, screen } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ProcessesView } from '../view-processes';
+import { tauriApi } from '../tauri-api';
+
+describe('ProcessesView', () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  it('reports a process table it cannot read instead of loading forever', async () => {
+    vi.spyOn(tauriApi, 'getProcesses').mockRejectedValue('permission denied');
+
+    render(
+      <ProcessesView ports={[]} repos={[]} workspaces={[]} running={[]} onAdopt={vi.fn()} onCreateWorkspace={vi.fn()} />,
+    );
+
+    expect(await screen.findByText('Could not read the process table: permission denied')).toBeInTheDocument();
+    expect(screen.queryByText('Reading the process table…')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+
+import type { WorkspaceProfile } from '../generated/WorkspaceProfile';
+import { profileServiceIds, profileSummary, withoutService } from '../profiles';
+
+const services = [
+  { id: 'db', name: 'db', depends_on: [] },
+  { id: 'cache', name: 'cache', depends_on: [] },
+  { id: 'api', name: 'api', depends_on: ['db'] },
+  { id: 'worker', name: 'worker', depends_on: ['api', 'cache'] },
+  { id: 'web', name: 'web', depends_on: ['api'] },
+];
+
+function profile(serviceIds: string[]): WorkspaceProfile {
+  return { id: 'profile', name: 'Daily', service_ids: serviceIds };
+}
+
+describe('workspace profiles', () => {
+  it('pulls in dependencies transitively, in workspace order', () => {
+    expect(profileServiceIds(services, profile(['web']))).toEqual(['db', 'api', 'web']);
+    expect(profileServiceIds(services, profile(['worker', 'web']))).toEqual(['db', 'cache', 'api', 'worker', 'web']);
+  });
+
+  it('skips services that no longer exist and survives dependency cycles', () => {
+    const cyclic = [
+      { id: 'a', name: 'a', depends_on: ['b'] },
+      { id: 'b', name: 'b', depends_on: ['a'] },
+    ];
+    expect(profileServiceIds(cyclic, profile(['a', 'gone']))).toEqual(['a', 'b']);
+  });
+
+  it('summarizes the listed services and counts what comes along', () => {
+    expect(profileSummary(services, profile(['web']))).toBe('web, and 2 dependencies');
+    expect(profileSummary(services, profile(['db', 'cache']))).toBe('db + cache');
+    expect(profileSummary(services, profile(['gone']))).toBe('No services');
+  });
+
+  it('forgets a removed service in every profile', () => {
+    expect(withoutService([profile(['api', 'web'])], 'api')[0].service_ids).toEqual(['web']);
+  });
+});
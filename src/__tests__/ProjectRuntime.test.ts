@@ -15,6 +15,7 @@ const repo: Repo = {
   has_git: true,
   git_root: '/code/hub',
   manifests: ['package.json'],
+  workspace_definition: null,
   git_status: null,
   is_running: false,
   running_port: null,
@@ -39,6 +40,7 @@ describe('project runtime adapter', () => {
       memory_mb: 80,
       ports: [5173],
       urls: ['http://localhost:5173'],
+      interactive: false,
     };
 
     const [service] = buildProjectRuntimeServices([repo], [], [managed], [], []);
@@ -2,6 +2,8 @@ import { fireEvent, render, screen } from '@testing-library/react';
 import { describe, expect, it, vi } from 'vitest';
 import { ProjectView } from '../view-project';
 import type { EnvProfile, LogLine, Port, Repo, Service } from '../types';
+import type { ResourceHistory } from '../resource-history';
+import { LogRing } from '../log-buffers';
 
 const project: Repo = {
   id: 'repo-localhost-hub',
@@ -17,6 +19,7 @@ const project: Repo = {
   has_git: true,
   git_root: '/code/localhost-hub',
   manifests: ['package.json', 'Cargo.toml'],
+  workspace_definition: null,
   git_status: {
     branch: 'feat/live-project-detail',
     ahead: 1,
@@ -70,26 +73,33 @@ const port: Port = {
 
 const log: LogLine = {
   ts: '10:42:00',
+  at: 1_700_000_000_000,
+  seq: 0,
   src: 'service-dev',
   msg: 'ready in 184ms',
   kind: 'ok',
 };
 
+const logs = { 'service-dev': new LogRing(10) };
+logs['service-dev'].push(log);
+
 function renderProject({
   services = [service],
   onStartScript = vi.fn(),
   envProfiles = [],
+  resourceHistory = {},
 }: {
   services?: Service[];
   onStartScript?: ReturnType<typeof vi.fn>;
   envProfiles?: EnvProfile[];
+  resourceHistory?: ResourceHistory;
 } = {}) {
   return render(
     <ProjectView
       project={project}
       services={services}
       ports={[port]}
-      logs={[log]}
+      logs={logs}
       onBack={vi.fn()}
       onStartScript={onStartScript}
       onStopService={vi.fn()}
@@ -101,6 +111,7 @@ function renderProject({
       onManageGit={vi.fn()}
       envProfiles={envProfiles}
       onSaveEnvProfiles={vi.fn()}
+      resourceHistory={resourceHistory}
     />,
   );
 }
@@ -117,6 +128,23 @@ describe('ProjectView', () => {
     expect(screen.queryByText('Build times')).not.toBeInTheDocument();
   });
 
+  it('charts recent CPU and memory, including how far memory has climbed', () => {
+    const start = 1_700_000_000_000;
+    renderProject({
+      resourceHistory: {
+        'service-dev': [
+          { at: start, cpu: 4, memoryMb: 300 },
+          { at: start + 5 * 60_000, cpu: 12.5, memoryMb: 280 },
+          { at: start + 20 * 60_000, cpu: 2, memoryMb: 700 },
+        ],
+      },
+    });
+
+    expect(screen.getByText(/Resources · last 30 min/)).toBeInTheDocument();
+    expect(screen.getByLabelText('dev CPU')).toHaveTextContent('2.0% · peak 12.5%');
+    expect(screen.getByLabelText('dev memory')).toHaveTextContent('700 MB · peak 700 MB · +420 MB in 20 min');
+  });
+
   it('connects scripts, logs, ports, and Git tabs to live state', () => {
     renderProject();
 
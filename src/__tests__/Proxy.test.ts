@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { hostnameLabel, proxyHostname, proxyRoutes, proxyUrl, servedPort } from '../proxy';
+
+describe('proxy hostnames', () => {
+  it('reduces names to lowercase DNS labels', () => {
+    expect(hostnameLabel('My Shop / API')).toBe('my-shop-api');
+    expect(hostnameLabel('--web--')).toBe('web');
+    expect(hostnameLabel('日本')).toBe('unnamed');
+    expect(hostnameLabel('a'.repeat(70))).toHaveLength(63);
+    expect(proxyHostname('Shop', 'Web App')).toBe('web-app.shop.localhost');
+  });
+
+  it('gives a colliding hostname only to the first service', () => {
+    const routes = proxyRoutes([
+      { name: 'Shop', services: [{ id: 'a', name: 'web' }, { id: 'b', name: 'Web' }] },
+      { name: 'Blog', services: [{ id: 'c', name: 'web' }] },
+    ]);
+    expect([...routes]).toEqual([
+      ['a', 'web.shop.localhost'],
+      ['c', 'web.blog.localhost'],
+    ]);
+  });
+});
+
+describe('proxy targets', () => {
+  it('prefers the port of the first announced URL', () => {
+    expect(servedPort({ ports: [3000, 9229], urls: ['not a url', 'http://localhost:5173/'] })).toBe(5173);
+    expect(servedPort({ ports: [3000, 9229], urls: [] })).toBe(3000);
+    expect(servedPort({ ports: [], urls: [] })).toBeNull();
+  });
+
+  it('leaves the default HTTP port out of proxied URLs', () => {
+    const status = { enabled: true, port: 1355, running: true, error: null };
+    expect(proxyUrl(status, 'web.shop.localhost')).toBe('http://web.shop.localhost:1355');
+    expect(proxyUrl({ ...status, port: 80 }, 'web.shop.localhost')).toBe('http://web.shop.localhost');
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import {
+  contiguousRuns,
+  memoryTrend,
+  recordResourceSamples,
+  RESOURCE_HISTORY_WINDOW_MS,
+  type ResourceSample,
+} from '../resource-history';
+import type { ManagedServiceInfo } from '../tauri-api';
+
+function managed(serviceId: string, cpu: number, memoryMb: number): ManagedServiceInfo {
+  return {
+    service_id: serviceId,
+    cwd: '/code/api',
+    cmd: 'npm run dev',
+    pid: 42,
+    started_at_ms: 1,
+    uptime_ms: 1_000,
+    cpu_usage: cpu,
+    memory_mb: memoryMb,
+    ports: [],
+    urls: [],
+    interactive: false,
+  };
+}
+
+describe('resource history', () => {
+  it('appends each poll and drops samples older than the window', () => {
+    const start = 1_700_000_000_000;
+    let history = recordResourceSamples({}, [managed('api', 3, 200)], start);
+    history = recordResourceSamples(history, [managed('api', 5, 240)], start + 5_000);
+    expect(history.api.map(sample => sample.memoryMb)).toEqual([200, 240]);
+
+    history = recordResourceSamples(history, [managed('api', 1, 260)], start + RESOURCE_HISTORY_WINDOW_MS + 1);
+    expect(history.api).toEqual([
+      { at: start + 5_000, cpu: 5, memoryMb: 240 },
+      { at: start + RESOURCE_HISTORY_WINDOW_MS + 1, cpu: 1, memoryMb: 260 },
+    ]);
+  });
+
+  it('keeps a stopped service until its samples age out, and leaves an idle history untouched', () => {
+    const start = 1_700_000_000_000;
+    const history = recordResourceSamples({}, [managed('worker', 90, 1_800)], start);
+
+    expect(recordResourceSamples(history, [], start + 5_000)).toBe(history);
+    expect(recordResourceSamples(history, [], start + RESOURCE_HISTORY_WINDOW_MS + 1)).toEqual({});
+  });
+
+  it('breaks the line where polling stopped and measures growth from the lowest reading', () => {
+    const samples: ResourceSample[] = [
+      { at: 0, cpu: 1, memoryMb: 400 },
+      { at: 5_000, cpu: 1, memoryMb: 350 },
+      { at: 10 * 60_000, cpu: 1, memoryMb: 500 },
+      { at: 10 * 60_000 + 5_000, cpu: 1, memoryMb: 610 },
+    ];
+
+    expect(contiguousRuns(samples).map(run => run.length)).toEqual([2, 2]);
+    expect(memoryTrend(samples)).toEqual({ growthMb: 260, spanMs: 10 * 60_000 + 5_000 });
+    expect(memoryTrend(samples.slice(0, 1))).toBeNull();
+  });
+});
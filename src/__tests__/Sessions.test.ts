@@ -29,6 +29,8 @@ function run(
     exit_code: null,
     outcome: 'exited' as RunOutcome,
     log_truncated: false,
+    events: [],
+    app_session_ms: null,
     ...overrides,
   };
 }
@@ -186,6 +188,27 @@ describe('events', () => {
     expect(event?.detail).toBe('still running when Hub last closed');
   });
 
+  it('places guardrail crossings between the start and the stop they caused', () => {
+    const sessions = deriveSessions(
+      [
+        run({
+          started_at_ms: BASE,
+          ended_at_ms: BASE + 4 * MINUTE,
+          outcome: 'stopped',
+          events: [{
+            at_ms: BASE + 4 * MINUTE - 100,
+            kind: 'guardrail_stopped',
+            message: 'memory at 8214 MB, over its 4096 MB ceiling; stopping',
+          }],
+        }),
+      ],
+      BASE + 5 * MINUTE,
+    );
+
+    expect(sessions[0].events.map((e) => e.kind)).toEqual(['started', 'guardrail', 'stopped']);
+    expect(sessions[0].events[1].detail).toBe('memory at 8214 MB, over its 4096 MB ceiling; stopping');
+  });
+
   it('counts only the kinds asked for, at or before the cursor', () => {
     const sessions = deriveSessions(
       [
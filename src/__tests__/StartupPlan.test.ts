@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+
+import { describePlanIssue, planStartup, type PlanService } from '../startup-plan';
+
+function service(id: string, overrides: Partial<PlanService> = {}): PlanService {
+  return { id, name: id, depends_on: [], run_mode: 'parallel', order: 0, ...overrides };
+}
+
+describe('startup plan preview', () => {
+  it('plans explicit dependencies in waves, like the backend', () => {
+    const plan = planStartup([
+      service('database'),
+      service('api', { depends_on: ['database'] }),
+      service('web', { depends_on: ['api'] }),
+      service('docs'),
+    ]);
+    expect(plan.waves).toEqual([['database', 'docs'], ['api'], ['web']]);
+    expect(plan.issues).toEqual([]);
+  });
+
+  it('chains sequential services by order, then list position', () => {
+    const plan = planStartup([
+      service('second', { run_mode: 'sequential', order: 2 }),
+      service('parallel', { order: 99 }),
+      service('first', { run_mode: 'sequential', order: 1 }),
+    ]);
+    expect(plan.waves).toEqual([['parallel', 'first'], ['second']]);
+    expect(plan.sequentialEdges).toEqual([['first', 'second']]);
+  });
+
+  it('accepts watched ports as dependencies without making them waves', () => {
+    const plan = planStartup([
+      service('api', { depends_on: ['watch-postgres'] }),
+      service('web', { depends_on: ['api', 'watch-redis'] }),
+    ], ['watch-postgres']);
+    expect(plan.waves).toEqual([['api'], ['web']]);
+    expect(plan.issues).toEqual([{ kind: 'unknown', serviceId: 'web', dependencyId: 'watch-redis' }]);
+  });
+
+  it('reports unknown ids and self-dependencies but still plans around them', () => {
+    const plan = planStartup([
+      service('api', { depends_on: ['queue'] }),
+      service('web', { depends_on: ['web', 'api'] }),
+    ]);
+    expect(plan.waves).toEqual([['api'], ['web']]);
+    expect(plan.issues).toEqual([
+      { kind: 'unknown', serviceId: 'api', dependencyId: 'queue' },
+      { kind: 'self', serviceId: 'web' },
+    ]);
+  });
+
+  it('names only the services on a cycle, leaving what waits on it out of every wave', () => {
+    const plan = planStartup([
+      service('db'),
+      service('api', { depends_on: ['db', 'web'] }),
+      service('web', { depends_on: ['api'] }),
+      service('e2e', { depends_on: ['web'] }),
+    ]);
+    expect(plan.waves).toEqual([['db']]);
+    expect(plan.stuck).toEqual(['api', 'web', 'e2e']);
+    expect(plan.issues).toEqual([{ kind: 'cycle', serviceIds: ['api', 'web'] }]);
+    expect(describePlanIssue(plan.issues[0], { api: 'API', web: 'Web' }))
+      .toBe('Dependency cycle between API, Web');
+  });
+});
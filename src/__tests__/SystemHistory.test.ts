@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import type { ManagedServiceInfo, SystemStats } from '../tauri-api';
+import {
+  changeOver,
+  managedBands,
+  managedDominated,
+  recordSystemSample,
+  SYSTEM_HISTORY_WINDOW_MS,
+  type SystemSample,
+} from '../system-history';
+
+const MINUTE = 60_000;
+
+const stats = (cpu: number, memoryMb = 8192, load = 1): SystemStats => ({
+  cpu_usage: cpu,
+  memory_used_mb: memoryMb,
+  memory_total_mb: 16384,
+  load_avg: [load, load, load],
+  cpu_count: 8,
+});
+
+const managed = (cpu: number, memoryMb: number): ManagedServiceInfo => ({
+  service_id: 'svc-api',
+  cwd: '/code/api',
+  cmd: 'npm run dev',
+  pid: 42,
+  started_at_ms: 0,
+  uptime_ms: 0,
+  cpu_usage: cpu,
+  memory_mb: memoryMb,
+  ports: [],
+  urls: [],
+  interactive: false,
+});
+
+const sample = (at: number, cpu: number, managedCpu = 0): SystemSample => ({
+  at,
+  cpu,
+  memoryMb: 8192,
+  memoryTotalMb: 16384,
+  load: cpu / 10,
+  managedCpu,
+  managedMemoryMb: 0,
+});
+
+/** One reading every five seconds for `minutes`, ending at `end`. */
+const series = (minutes: number, end: number, cpuAt: (at: number) => number) => {
+  const out: SystemSample[] = [];
+  for (let at = end - minutes * MINUTE; at <= end; at += 5000) out.push(sample(at, cpuAt(at)));
+  return out;
+};
+
+describe('recordSystemSample', () => {
+  it('rescales managed CPU from per-core to a share of the machine', () => {
+    const [recorded] = recordSystemSample([], stats(40), [managed(160, 900), managed(80, 300)], 1000);
+    expect(recorded).toMatchObject({ cpu: 40, managedCpu: 30, managedMemoryMb: 1200, load: 1 });
+  });
+
+  it('drops readings older than the window', () => {
+    const now = SYSTEM_HISTORY_WINDOW_MS + 10 * MINUTE;
+    const history = [sample(5 * MINUTE, 10), sample(20 * MINUTE, 12)];
+    expect(recordSystemSample(history, stats(15), [], now).map(item => item.at)).toEqual([20 * MINUTE, now]);
+  });
+});
+
+describe('changeOver', () => {
+  const end = 30 * MINUTE;
+
+  it('compares against the reading five and fifteen minutes back', () => {
+    const history = series(20, end, at => at / MINUTE);
+    expect(changeOver(history, 'cpu', 5 * MINUTE)).toBeCloseTo(5);
+    expect(changeOver(history, 'cpu', 15 * MINUTE)).toBeCloseTo(15);
+  });
+
+  it('stays null until the history reaches back that far', () => {
+    const history = series(8, end, () => 20);
+    expect(changeOver(history, 'cpu', 5 * MINUTE)).toBe(0);
+    expect(changeOver(history, 'cpu', 15 * MINUTE)).toBeNull();
+  });
+
+  it('does not compare across a stretch nothing was measured', () => {
+    const history = [...series(20, end - 12 * MINUTE, () => 10), ...series(2, end, () => 30)];
+    expect(changeOver(history, 'cpu', 5 * MINUTE)).toBeNull();
+    expect(changeOver(history, 'cpu', 15 * MINUTE)).toBe(20);
+  });
+});
+
+describe('managed periods', () => {
+  it('counts Hub as the main consumer only when busy and at least half the load', () => {
+    expect(managedDominated(sample(0, 40, 25), 'cpu')).toBe(true);
+    expect(managedDominated(sample(0, 40, 10), 'cpu')).toBe(false);
+    expect(managedDominated(sample(0, 3, 3), 'cpu')).toBe(false);
+    expect(managedDominated(sample(0, 40, 25), 'load')).toBe(true);
+  });
+
+  it('joins neighbouring readings into one band', () => {
+    const history = [sample(0, 40), sample(5000, 40, 30), sample(10000, 40, 30), sample(15000, 40), sample(20000, 40, 35)];
+    expect(managedBands(history, 'cpu')).toEqual([
+      { from: 0.125, to: 0.625 },
+      { from: 0.875, to: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import type { StoredWorkspace, WatchedPort } from '../types';
+import { EMPTY_HOOKS } from '../hooks';
+import { DEFAULT_RESTART_POLICY } from '../restart-policy';
+import { watchedDependencies, watchedPortProblem, watchedPortsFor, withoutWatchedPort } from '../watched-ports';
+
+const postgres: WatchedPort = { id: 'watch-pg', port: 5432, label: 'Postgres', group: 'db', workspace_id: null };
+const minio: WatchedPort = { id: 'watch-s3', port: 9000, label: 'MinIO', group: 'api', workspace_id: 'shop' };
+
+function workspace(id: string, dependsOn: string[]): StoredWorkspace {
+  return {
+    id,
+    name: id,
+    color: '#4a78c4',
+    services: [{
+      id: `${id}-api`,
+      name: 'api',
+      repo_path: `/code/${id}`,
+      script: 'dev',
+      cmd: 'npm run dev',
+      depends_on: dependsOn,
+      run_mode: 'parallel',
+      order: 0,
+      env_profile_id: null,
+      expected_port: null,
+      startup_delay_ms: 0,
+      readiness_timeout_ms: 0,
+      http_probe: null,
+      log_readiness: null,
+      restart_policy: DEFAULT_RESTART_POLICY,
+      guardrail: null,
+      file_watch: null,
+      hooks: EMPTY_HOOKS,
+      interactive: false,
+      port_assignment: null,
+    }],
+    hooks: EMPTY_HOOKS,
+    profiles: [],
+    definition_path: null,
+  };
+}
+
+describe('watched ports', () => {
+  it('offers shared ports to every workspace and scoped ones only to their own', () => {
+    expect(watchedPortsFor([postgres, minio], 'shop')).toEqual([postgres, minio]);
+    expect(watchedPortsFor([postgres, minio], 'blog')).toEqual([postgres]);
+  });
+
+  it('sends only the watched ports a service depends on', () => {
+    expect(watchedDependencies([postgres, minio], ['shop-web', 'watch-s3'])).toEqual([minio]);
+  });
+
+  it('refuses a draft without a label, with a bad port, or for a port already watched', () => {
+    expect(watchedPortProblem({ label: ' ', port: '6379' }, [])).toMatch(/label/);
+    expect(watchedPortProblem({ label: 'Redis', port: '70000' }, [])).toMatch(/1 to 65535/);
+    expect(watchedPortProblem({ label: 'Other', port: '5432' }, [postgres])).toBe(':5432 is already watched as Postgres.');
+    expect(watchedPortProblem({ label: 'Redis', port: '6379' }, [postgres])).toBeNull();
+  });
+
+  it('drops a removed port from the services that depended on it', () => {
+    const untouched = workspace('blog', ['blog-db']);
+    const [shop, blog] = withoutWatchedPort([workspace('shop', ['watch-pg', 'shop-cache']), untouched], 'watch-pg');
+    expect(shop.services[0].depends_on).toEqual(['shop-cache']);
+    expect(blog).toBe(untouched);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+
+import type { StoredWorkspace } from '../types';
+import { EMPTY_HOOKS } from '../hooks';
+import { DEFAULT_RESTART_POLICY } from '../restart-policy';
+import { changedDefinitions, definitionPathFor, definitionRoots, withDefinition } from '../workspace-definition';
+
+function stored(id: string, patch: Partial<StoredWorkspace> = {}): StoredWorkspace {
+  return {
+    id,
+    name: id,
+    color: '#4a78c4',
+    services: [],
+    hooks: { cwd: null, pre_start: [], post_stop: [] },
+    profiles: [],
+    definition_path: null,
+    ...patch,
+  };
+}
+
+describe('workspace definitions', () => {
+  it('offers the repos its services live in, the busiest first', () => {
+    const services = [
+      { repo_path: '/code/tools' },
+      { repo_path: '/code/shop/web' },
+      { repo_path: '/code/shop/api' },
+      {},
+    ];
+    const repos = [
+      { path: '/code/shop/web', git_root: '/code/shop' },
+      { path: '/code/shop/api', git_root: '/code/shop' },
+    ];
+    expect(definitionRoots(services, repos)).toEqual(['/code/shop', '/code/tools']);
+    expect(definitionPathFor('/code/shop/')).toBe('/code/shop/localhost-hub.json');
+  });
+
+  it('writes back only file-backed workspaces that changed', () => {
+    const linked = stored('shop', { definition_path: '/code/shop/localhost-hub.json' });
+    const local = stored('blog');
+    const previous = [linked, local];
+
+    expect(changedDefinitions(previous, [linked, { ...local, name: 'Blog' }])).toEqual([]);
+    const renamed = { ...linked, name: 'Shop' };
+    expect(changedDefinitions(previous, [renamed, local])).toEqual([renamed]);
+    const saved = { ...local, definition_path: '/code/blog/localhost-hub.json' };
+    expect(changedDefinitions(previous, [linked, saved])).toEqual([saved]);
+  });
+
+  it('reads a file into the workspace already linked to it, keeping its local id', () => {
+    const linked = stored('ws-1', { name: 'Old', definition_path: '/code/shop/localhost-hub.json' });
+    const read = stored('repo-abc', { name: 'Shop', definition_path: '/code/shop/localhost-hub.json' });
+
+    expect(withDefinition([linked], read)).toEqual([{ ...read, id: 'ws-1' }]);
+    expect(withDefinition([stored('blog')], read)).toEqual([stored('blog'), read]);
+  });
+
+  it('keeps the ports this machine moved services to when reading the file again', () => {
+    const service = {
+      id: 'api',
+      name: 'api',
+      repo_path: '/code/shop',
+      script: 'dev',
+      cmd: 'npm run dev',
+      depends_on: [],
+      run_mode: 'parallel' as const,
+      order: 0,
+      env_profile_id: null,
+      expected_port: 3000,
+      startup_delay_ms: 0,
+      readiness_timeout_ms: 0,
+      http_probe: null,
+      log_readiness: null,
+      restart_policy: DEFAULT_RESTART_POLICY,
+      guardrail: null,
+      file_watch: null,
+      hooks: EMPTY_HOOKS,
+      interactive: false,
+      port_assignment: null,
+    };
+    const path = '/code/shop/localhost-hub.json';
+    const moved = { ...service, port_assignment: { original: 3000, port: 3001 } };
+    const linked = stored('ws-1', { definition_path: path, services: [moved] });
+    const read = stored('repo-abc', { definition_path: path, services: [service] });
+
+    expect(withDefinition([linked], read)[0].services[0].port_assignment).toEqual({ original: 3000, port: 3001 });
+  });
+});
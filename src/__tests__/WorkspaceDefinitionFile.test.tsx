@@ -0,0 +1,54 @@
+import { fireEvent, screen } from '@testing-library/react';
+import { describe, expect, it } from 'vitest';
+import { renderWorkspace, workspace } from '../test/workspace-view';
+import type { Repo } from '../types';
+
+describe('workspace definition file', () => {
+  function repo(path: string, workspaceDefinition: string | null = null): Repo {
+    return {
+      id: `repo::${path}`,
+      name: path.split('/').pop()!,
+      path,
+      framework: '',
+      package_manager: '',
+      scripts: [],
+      has_env: false,
+      has_git: true,
+      git_root: path,
+      manifests: [],
+      workspace_definition: workspaceDefinition,
+      git_status: null,
+      is_running: false,
+      running_port: null,
+      cpu: 0,
+      mem: 0,
+    };
+  }
+
+  it('saves the workspace into one of its repos', () => {
+    const { onUpdateWorkspace } = renderWorkspace({ repos: [
+      repo('/code/api'),
+      repo('/code/web', '/code/web/localhost-hub.json'),
+    ] });
+    fireEvent.click(screen.getByText('Save to repo…'));
+
+    expect(screen.getByRole('button', { name: 'Save Shop to /code/web' })).toBeDisabled();
+    fireEvent.click(screen.getByRole('button', { name: 'Save Shop to /code/api' }));
+    expect(onUpdateWorkspace).toHaveBeenCalledWith('shop', { definition_path: '/code/api/localhost-hub.json' });
+  });
+
+  it('shows the file a linked workspace follows and can stop syncing with it', () => {
+    const { onUpdateWorkspace } = renderWorkspace({ workspace: { ...workspace, definition_path: '/code/api/localhost-hub.json' } });
+    fireEvent.click(screen.getByText('localhost-hub.json'));
+
+    expect(screen.getByTitle('/code/api/localhost-hub.json')).toHaveTextContent('/code/api/localhost-hub.json');
+    fireEvent.click(screen.getByRole('button', { name: 'Stop syncing with the file' }));
+    expect(onUpdateWorkspace).toHaveBeenCalledWith('shop', { definition_path: null });
+  });
+
+  it('shortens a macOS home folder to ~', () => {
+    renderWorkspace({ workspace: { ...workspace, definition_path: '/Users/ana/code/api/localhost-hub.json' } });
+
+    expect(screen.getByTitle('/Users/ana/code/api/localhost-hub.json')).toHaveTextContent('~/code/api/localhost-hub.json');
+  });
+});
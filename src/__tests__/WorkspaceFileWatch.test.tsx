@@ -0,0 +1,70 @@
+import { fireEvent, screen } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+import { renderWorkspace, workspace } from '../test/workspace-view';
+import type { Workspace } from '../types';
+
+describe('workspace file watch', () => {
+  it('starts watching the source folder when switched on', () => {
+    const { onUpdateService } = renderWorkspace();
+
+    fireEvent.click(screen.getByLabelText('api restart on file change'));
+    expect(onUpdateService).toHaveBeenCalledWith('shop', 'api', {
+      file_watch: { globs: ['src/**/*'], ignore: [], debounce_ms: 300 },
+    });
+  });
+
+  it('saves whole globs only and never an empty list', () => {
+    const watched: Workspace = {
+      ...workspace,
+      services: [{
+        ...workspace.services[0],
+        file_watch: { globs: ['src/**/*.rs'], ignore: [], debounce_ms: 300 },
+      }],
+    };
+    const { onUpdateService } = renderWorkspace({ workspace: watched });
+
+    expect(screen.getByText('Watch src/**/*.rs')).toBeInTheDocument();
+    const globs = screen.getByLabelText('api watch globs');
+    fireEvent.change(globs, { target: { value: 'src/**/*.rs, ' } });
+    expect(globs).toHaveValue('src/**/*.rs, ');
+    expect(onUpdateService).toHaveBeenLastCalledWith('shop', 'api', {
+      file_watch: { globs: ['src/**/*.rs'], ignore: [], debounce_ms: 300 },
+    });
+    fireEvent.change(globs, { target: { value: 'src/**/*.rs, Cargo.toml' } });
+    expect(onUpdateService).toHaveBeenLastCalledWith('shop', 'api', {
+      file_watch: { globs: ['src/**/*.rs', 'Cargo.toml'], ignore: [], debounce_ms: 300 },
+    });
+
+    const calls = vi.mocked(onUpdateService).mock.calls.length;
+    fireEvent.change(globs, { target: { value: ' ' } });
+    expect(onUpdateService).toHaveBeenCalledTimes(calls);
+  });
+
+  it('holds a typed wait until it is done and falls back to the default when out of range', () => {
+    const watched: Workspace = {
+      ...workspace,
+      services: [{
+        ...workspace.services[0],
+        file_watch: { globs: ['src/**/*.rs'], ignore: [], debounce_ms: 1_000 },
+      }],
+    };
+    const { onUpdateService } = renderWorkspace({ workspace: watched });
+    const wait = screen.getByLabelText('api watch debounce ms');
+
+    fireEvent.change(wait, { target: { value: '1' } });
+    fireEvent.change(wait, { target: { value: '15' } });
+    expect(wait).toHaveValue('15');
+    fireEvent.change(wait, { target: { value: '150' } });
+    expect(onUpdateService).not.toHaveBeenCalled();
+    fireEvent.keyDown(wait, { key: 'Enter' });
+    expect(onUpdateService).toHaveBeenLastCalledWith('shop', 'api', {
+      file_watch: { globs: ['src/**/*.rs'], ignore: [], debounce_ms: 150 },
+    });
+
+    fireEvent.change(wait, { target: { value: '5' } });
+    fireEvent.blur(wait);
+    expect(onUpdateService).toHaveBeenLastCalledWith('shop', 'api', {
+      file_watch: { globs: ['src/**/*.rs'], ignore: [], debounce_ms: 300 },
+    });
+  });
+});
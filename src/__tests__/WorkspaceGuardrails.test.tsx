@@ -0,0 +1,34 @@
+import { fireEvent, screen } from '@testing-library/react';
+import { describe, expect, it } from 'vitest';
+import { renderWorkspace, workspace } from '../test/workspace-view';
+import type { Workspace } from '../types';
+
+describe('workspace resource guardrails', () => {
+  it('turns on a memory ceiling that warns by default', () => {
+    const { onUpdateService } = renderWorkspace();
+
+    fireEvent.click(screen.getByLabelText('web memory ceiling enabled'));
+    expect(onUpdateService).toHaveBeenCalledWith('shop', 'web', {
+      guardrail: { max_memory_mb: 4_096, max_cpu_percent: null, cpu_sustain_ms: 30_000, action: 'warn' },
+    });
+  });
+
+  it('drops the guardrail once its last ceiling is switched off', () => {
+    const capped: Workspace = {
+      ...workspace,
+      services: [{
+        ...workspace.services[1],
+        guardrail: { max_memory_mb: null, max_cpu_percent: 200, cpu_sustain_ms: 30_000, action: 'restart' },
+      }],
+    };
+    const { onUpdateService } = renderWorkspace({ workspace: capped });
+
+    expect(screen.getByText('Limits: 200% → Restart')).toBeInTheDocument();
+    fireEvent.change(screen.getByLabelText('web guardrail action'), { target: { value: 'stop' } });
+    expect(onUpdateService).toHaveBeenLastCalledWith('shop', 'web', {
+      guardrail: { max_memory_mb: null, max_cpu_percent: 200, cpu_sustain_ms: 30_000, action: 'stop' },
+    });
+    fireEvent.click(screen.getByLabelText('web CPU ceiling enabled'));
+    expect(onUpdateService).toHaveBeenLastCalledWith('shop', 'web', { guardrail: null });
+  });
+});
@@ -0,0 +1,49 @@
+import { fireEvent, screen } from '@testing-library/react';
+import { describe, expect, it } from 'vitest';
+import { renderWorkspace, workspace } from '../test/workspace-view';
+import type { Workspace } from '../types';
+
+describe('workspace hooks', () => {
+  it('saves one hook per non-blank line, keeping timeouts already set', () => {
+    const hooked: Workspace = {
+      ...workspace,
+      services: [{
+        ...workspace.services[0],
+        hooks: {
+          cwd: null,
+          pre_start: [{ cmd: 'docker compose up -d db', timeout_ms: 60_000 }],
+          post_stop: [],
+        },
+      }],
+    };
+    const { onUpdateService } = renderWorkspace({ workspace: hooked });
+
+    expect(screen.getByText('Hooks: 1 before')).toBeInTheDocument();
+    const before = screen.getByLabelText('api pre-start hooks');
+    fireEvent.change(before, { target: { value: 'docker compose up -d db\n\n  cargo sqlx migrate run\n' } });
+    expect(before).toHaveValue('docker compose up -d db\n\n  cargo sqlx migrate run\n');
+    expect(onUpdateService).toHaveBeenLastCalledWith('shop', 'api', {
+      hooks: {
+        cwd: null,
+        pre_start: [
+          { cmd: 'docker compose up -d db', timeout_ms: 60_000 },
+          { cmd: 'cargo sqlx migrate run', timeout_ms: 300_000 },
+        ],
+        post_stop: [],
+      },
+    });
+  });
+
+  it('edits the workspace-wide hooks from the header', () => {
+    const { onUpdateWorkspace } = renderWorkspace();
+
+    fireEvent.change(screen.getByLabelText('Shop post-stop hooks'), { target: { value: 'docker compose down' } });
+    expect(onUpdateWorkspace).toHaveBeenCalledWith('shop', {
+      hooks: {
+        cwd: null,
+        pre_start: [],
+        post_stop: [{ cmd: 'docker compose down', timeout_ms: 300_000 }],
+      },
+    });
+  });
+});
@@ -0,0 +1,54 @@
+import { fireEvent, screen } from '@testing-library/react';
+import { describe, expect, it } from 'vitest';
+import { renderWorkspace, workspace } from '../test/workspace-view';
+import type { Workspace } from '../types';
+
+describe('workspace output readiness', () => {
+  it('waits for output without needing a port or a readiness timeout', () => {
+    const { onUpdateService } = renderWorkspace();
+
+    fireEvent.click(screen.getByLabelText('web output readiness').querySelector('input')!);
+    expect(onUpdateService).not.toHaveBeenCalled();
+    expect(screen.getByText('Not saved until a pattern is typed')).toBeInTheDocument();
+
+    const timeout = screen.getByLabelText('web output readiness timeout seconds');
+    fireEvent.change(timeout, { target: { value: '90' } });
+    fireEvent.blur(timeout);
+    expect(onUpdateService).not.toHaveBeenCalled();
+
+    fireEvent.change(screen.getByLabelText('web readiness pattern'), { target: { value: ' ' } });
+    expect(onUpdateService).not.toHaveBeenCalled();
+    fireEvent.change(screen.getByLabelText('web readiness pattern'), { target: { value: 'Found 0 errors' } });
+    expect(onUpdateService).toHaveBeenCalledWith('shop', 'web', {
+      log_readiness: { pattern: 'Found 0 errors', timeout_ms: 90_000 },
+    });
+  });
+
+  it('edits the pattern and falls back to the default for an out-of-range timeout', () => {
+    const watching: Workspace = {
+      ...workspace,
+      services: [{
+        ...workspace.services[1],
+        log_readiness: { pattern: 'Found 0 errors', timeout_ms: 120_000 },
+      }],
+    };
+    const { onUpdateService } = renderWorkspace({ workspace: watching });
+
+    fireEvent.change(screen.getByLabelText('web readiness pattern'), { target: { value: 'Worker ready' } });
+    expect(onUpdateService).toHaveBeenLastCalledWith('shop', 'web', {
+      log_readiness: { pattern: 'Worker ready', timeout_ms: 120_000 },
+    });
+    fireEvent.change(screen.getByLabelText('web readiness pattern'), { target: { value: '' } });
+    expect(onUpdateService).toHaveBeenCalledTimes(1);
+
+    const timeout = screen.getByLabelText('web output readiness timeout seconds');
+    fireEvent.change(timeout, { target: { value: '9' } });
+    expect(timeout).toHaveValue('9');
+    fireEvent.change(timeout, { target: { value: '900' } });
+    expect(onUpdateService).toHaveBeenCalledTimes(1);
+    fireEvent.blur(timeout);
+    expect(onUpdateService).toHaveBeenLastCalledWith('shop', 'web', {
+      log_readiness: { pattern: 'Found 0 errors', timeout_ms: 60_000 },
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import { fireEvent, screen } from '@testing-library/react';
+import { describe, expect, it } from 'vitest';
+import { renderWorkspace, workspace } from '../test/workspace-view';
+import type { Workspace } from '../types';
+
+describe('workspace HTTP probes', () => {
+  it('enables a probe together with a readiness timeout', () => {
+    const { onUpdateService } = renderWorkspace();
+
+    fireEvent.click(screen.getByLabelText('api HTTP probe').querySelector('input')!);
+    expect(onUpdateService).toHaveBeenCalledWith('shop', 'api', {
+      http_probe: { path: '/', status_min: 200, status_max: 399, body_contains: null, interval_ms: 1_000 },
+      readiness_timeout_ms: 30_000,
+    });
+  });
+
+  it('will not turn a probe on for a service with no expected port', () => {
+    renderWorkspace();
+    const menu = screen.getByLabelText('web HTTP probe');
+
+    expect(menu.querySelector('input')).toBeDisabled();
+    expect(menu).toHaveTextContent('Needs an expected port to send the probe to');
+    expect(screen.getByLabelText('api HTTP probe').querySelector('input')).toBeEnabled();
+  });
+
+  it('shows the probe state and the last failure reason', () => {
+    const probed: Workspace = {
+      ...workspace,
+      services: [{
+        ...workspace.services[0],
+        status: 'running',
+        http_probe: { path: '/health', status_min: 200, status_max: 299, body_contains: null, interval_ms: 1_000 },
+      }],
+    };
+    const { onUpdateService } = renderWorkspace({ workspace: probed, probes: {
+      api: { state: 'failing', lastFailure: 'GET /health on :8080: status 503, expected 200-299' },
+    } });
+
+    expect(screen.getByLabelText('api probe status')).toHaveTextContent('GET /health failing');
+    expect(screen.getByLabelText('api probe status')).toHaveTextContent('status 503, expected 200-299');
+
+    fireEvent.change(screen.getByLabelText('api probe path'), { target: { value: '/ready' } });
+    expect(onUpdateService).toHaveBeenCalledWith('shop', 'api', {
+      http_probe: { path: '/ready', status_min: 200, status_max: 299, body_contains: null, interval_ms: 1_000 },
+    });
+  });
+
+  it('checks a status or interval only once it has been typed out', () => {
+    const probed: Workspace = {
+      ...workspace,
+      services: [{
+        ...workspace.services[0],
+        http_probe: { path: '/health', status_min: 200, status_max: 299, body_contains: null, interval_ms: 1_000 },
+      }],
+    };
+    const { onUpdateService } = renderWorkspace({ workspace: probed });
+    const maximum = screen.getByLabelText('api probe maximum status');
+
+    fireEvent.change(maximum, { target: { value: '5' } });
+    fireEvent.change(maximum, { target: { value: '50' } });
+    expect(maximum).toHaveValue('50');
+    expect(onUpdateService).not.toHaveBeenCalled();
+    fireEvent.change(maximum, { target: { value: '503' } });
+    fireEvent.keyDown(maximum, { key: 'Enter' });
+    expect(onUpdateService).toHaveBeenCalledWith('shop', 'api', {
+      http_probe: { path: '/health', status_min: 200, status_max: 503, body_contains: null, interval_ms: 1_000 },
+    });
+
+    const interval = screen.getByLabelText('api probe interval seconds');
+    fireEvent.change(interval, { target: { value: '' } });
+    fireEvent.change(interval, { target: { value: '15' } });
+    fireEvent.blur(interval);
+    expect(onUpdateService).toHaveBeenLastCalledWith('shop', 'api', {
+      http_probe: { path: '/health', status_min: 200, status_max: 299, body_contains: null, interval_ms: 15_000 },
+    });
+
+    fireEvent.change(interval, { target: { value: '600' } });
+    fireEvent.blur(interval);
+    expect(interval).toHaveValue('1');
+  });
+});
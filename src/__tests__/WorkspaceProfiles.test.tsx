@@ -0,0 +1,41 @@
+import { fireEvent, screen } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+import { renderWorkspace, workspace } from '../test/workspace-view';
+import type { Workspace } from '../types';
+
+describe('workspace profiles', () => {
+  it('boots a profile by id and says what it brings along', () => {
+    const withProfile: Workspace = {
+      ...workspace,
+      services: [workspace.services[0], { ...workspace.services[1], depends_on: ['api'] }],
+      profiles: [{ id: 'front', name: 'Frontend', service_ids: ['web'] }],
+    };
+    const { onStartAll } = renderWorkspace({ workspace: withProfile });
+
+    expect(screen.getByText('web, and 1 dependency')).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Boot profile Frontend' }));
+    expect(onStartAll).toHaveBeenCalledWith('shop', 'front');
+  });
+
+  it('creates a profile and picks its services', () => {
+    const { onUpdateWorkspace } = renderWorkspace();
+
+    fireEvent.change(screen.getByLabelText('Shop new profile name'), { target: { value: 'Web only' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Add' }));
+    const created = vi.mocked(onUpdateWorkspace).mock.calls[0][1].profiles![0];
+    expect(created).toMatchObject({ name: 'Web only', service_ids: [] });
+  });
+
+  it('edits which services a profile lists', () => {
+    const { onUpdateWorkspace } = renderWorkspace({ workspace: {
+      ...workspace,
+      profiles: [{ id: 'front', name: 'Frontend', service_ids: ['web'] }],
+    } });
+
+    fireEvent.click(screen.getByRole('button', { name: 'Edit' }));
+    fireEvent.click(screen.getByLabelText('Frontend includes api'));
+    expect(onUpdateWorkspace).toHaveBeenCalledWith('shop', {
+      profiles: [{ id: 'front', name: 'Frontend', service_ids: ['api', 'web'] }],
+    });
+  });
+});
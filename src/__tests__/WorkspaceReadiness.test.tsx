@@ -1,78 +1,10 @@
-import { fireEvent, render, screen } from '@testing-library/react';
-import { describe, expect, it, vi } from 'vitest';
-import { WorkspaceView } from '../view-workspace';
-import type { Workspace } from '../types';
-
-const workspace: Workspace = {
-  id: 'shop',
-  name: 'Shop',
-  desc: '1 service',
-  swatch: '#4a78c4',
-  path: '',
-  projects: ['api'],
-  services: [{
-    id: 'api',
-    project: 'api',
-    name: 'api',
-    cmd: 'cargo run',
-    repo_path: '/code/api',
-    port: null,
-    status: 'stopped',
-    uptime: 0,
-    pkg: 'cargo',
-    cpu: 0,
-    mem: 0,
-    framework: 'Rust',
-    run_mode: 'sequential',
-    order: 0,
-    expected_port: 8080,
-    startup_delay_ms: 2_000,
-    readiness_timeout_ms: 30_000,
-    depends_on: [],
-  }, {
-    id: 'web',
-    project: 'web',
-    name: 'web',
-    cmd: 'npm run dev',
-    repo_path: '/code/web',
-    port: null,
-    status: 'stopped',
-    uptime: 0,
-    pkg: 'npm',
-    cpu: 0,
-    mem: 0,
-    framework: 'React',
-    run_mode: 'parallel',
-    order: 1,
-    depends_on: [],
-  }],
-  lastOpened: 'recently',
-};
+import { fireEvent, screen } from '@testing-library/react';
+import { describe, expect, it } from 'vitest';
+import { renderWorkspace } from '../test/workspace-view';
 
 describe('workspace readiness controls', () => {
   it('edits sequential startup delay and readiness timeout in seconds', () => {
-    const onUpdateService = vi.fn();
-    render(
-      <WorkspaceView
-        workspace={workspace}
-        onStartSvc={vi.fn()}
-        onStopSvc={vi.fn()}
-        onRestartSvc={vi.fn()}
-        onStartAll={vi.fn()}
-        onStopAll={vi.fn()}
-        onOpenLogs={vi.fn()}
-        onOpenWorkspaceLogs={vi.fn()}
-        onOpenUrl={vi.fn()}
-        onDeleteWorkspace={vi.fn()}
-        onUpdateWorkspace={vi.fn()}
-        onRemoveService={vi.fn()}
-        onUpdateService={onUpdateService}
-        onAddService={vi.fn()}
-        repos={[]}
-        envProfiles={[]}
-        onAddToWorkspace={vi.fn()}
-      />,
-    );
+    const { onUpdateService } = renderWorkspace();
 
     expect(screen.getByLabelText('api startup delay seconds')).toHaveValue('2');
     expect(screen.getByLabelText('api readiness timeout seconds')).toHaveValue('30');
@@ -85,28 +17,7 @@ describe('workspace readiness controls', () => {
   });
 
   it('selects prerequisite services without offering a self dependency', () => {
-    const onUpdateService = vi.fn();
-    render(
-      <WorkspaceView
-        workspace={workspace}
-        onStartSvc={vi.fn()}
-        onStopSvc={vi.fn()}
-        onRestartSvc={vi.fn()}
-        onStartAll={vi.fn()}
-        onStopAll={vi.fn()}
-        onOpenLogs={vi.fn()}
-        onOpenWorkspaceLogs={vi.fn()}
-        onOpenUrl={vi.fn()}
-        onDeleteWorkspace={vi.fn()}
-        onUpdateWorkspace={vi.fn()}
-        onRemoveService={vi.fn()}
-        onUpdateService={onUpdateService}
-        onAddService={vi.fn()}
-        repos={[]}
-        envProfiles={[]}
-        onAddToWorkspace={vi.fn()}
-      />,
-    );
+    const { onUpdateService } = renderWorkspace();
 
     const dependencies = screen.getByLabelText('web dependencies');
     expect(dependencies).toHaveTextContent('api');
@@ -0,0 +1,114 @@
+import { fireEvent, screen } from '@testing-library/react';
+import { describe, expect, it } from 'vitest';
+import { renderWorkspace, workspace } from '../test/workspace-view';
+import type { Workspace } from '../types';
+
+describe('workspace restart policies', () => {
+  it('turns on restarts for a service saved without a policy', () => {
+    const { onUpdateService } = renderWorkspace();
+
+    fireEvent.change(screen.getByLabelText('web restart mode'), { target: { value: 'on_failure' } });
+    expect(onUpdateService).toHaveBeenCalledWith('shop', 'web', {
+      restart_policy: {
+        mode: 'on_failure',
+        max_retries: 5,
+        initial_backoff_ms: 1_000,
+        max_backoff_ms: 30_000,
+        reset_after_ms: 60_000,
+      },
+    });
+  });
+
+  it('keeps the backoff ceiling at or above the first wait', () => {
+    const restarting: Workspace = {
+      ...workspace,
+      services: [{
+        ...workspace.services[0],
+        restart_policy: {
+          mode: 'always',
+          max_retries: 3,
+          initial_backoff_ms: 2_000,
+          max_backoff_ms: 10_000,
+          reset_after_ms: 60_000,
+        },
+      }],
+    };
+    const { onUpdateService } = renderWorkspace({ workspace: restarting });
+
+    const backoff = screen.getByLabelText('api restart backoff seconds');
+    fireEvent.change(backoff, { target: { value: '' } });
+    fireEvent.change(backoff, { target: { value: '20' } });
+    expect(onUpdateService).not.toHaveBeenCalled();
+    fireEvent.blur(backoff);
+    expect(onUpdateService).toHaveBeenLastCalledWith('shop', 'api', {
+      restart_policy: expect.objectContaining({ initial_backoff_ms: 20_000, max_backoff_ms: 20_000 }),
+    });
+
+    const ceiling = screen.getByLabelText('api restart backoff ceiling seconds');
+    fireEvent.change(ceiling, { target: { value: '1' } });
+    fireEvent.keyDown(ceiling, { key: 'Enter' });
+    expect(onUpdateService).toHaveBeenLastCalledWith('shop', 'api', {
+      restart_policy: expect.objectContaining({ initial_backoff_ms: 2_000, max_backoff_ms: 2_000 }),
+    });
+  });
+
+  it('holds typed retries until they are done', () => {
+    const restarting: Workspace = {
+      ...workspace,
+      services: [{
+        ...workspace.services[0],
+        restart_policy: {
+          mode: 'on_failure',
+          max_retries: 3,
+          initial_backoff_ms: 1_000,
+          max_backoff_ms: 30_000,
+          reset_after_ms: 60_000,
+        },
+      }],
+    };
+    const { onUpdateService } = renderWorkspace({ workspace: restarting });
+    const retries = screen.getByLabelText('api restart retries');
+
+    fireEvent.change(retries, { target: { value: '' } });
+    expect(retries).toHaveValue('');
+    fireEvent.change(retries, { target: { value: '12' } });
+    expect(onUpdateService).not.toHaveBeenCalled();
+    fireEvent.blur(retries);
+    expect(onUpdateService).toHaveBeenLastCalledWith('shop', 'api', {
+      restart_policy: expect.objectContaining({ max_retries: 12 }),
+    });
+
+    fireEvent.change(retries, { target: { value: '500' } });
+    fireEvent.blur(retries);
+    expect(retries).toHaveValue('3');
+    expect(onUpdateService).toHaveBeenLastCalledWith('shop', 'api', {
+      restart_policy: expect.objectContaining({ max_retries: 0 }),
+    });
+  });
+
+  it('shows a pending attempt and a service that was given up on', () => {
+    const crashing: Workspace = {
+      ...workspace,
+      services: workspace.services.map(service => ({
+        ...service,
+        status: service.id === 'api' ? 'restarting' : 'crashed',
+        restart_policy: {
+          mode: 'on_failure',
+          max_retries: 3,
+          initial_backoff_ms: 1_000,
+          max_backoff_ms: 30_000,
+          reset_after_ms: 60_000,
+        },
+      })),
+    };
+    renderWorkspace({ workspace: crashing, restarts: {
+      api: { state: 'backing_off', attempt: 2, detail: 'restarting in 2000 ms (attempt 2 of 3, exit code 1)' },
+      web: { state: 'gave_up', attempt: 3, detail: 'gave up after 3 automatic restarts' },
+    } });
+
+    expect(screen.getByLabelText('api restart status')).toHaveTextContent('restart 2/3 pending');
+    expect(screen.getByLabelText('web restart status')).toHaveTextContent('gave up after 3 restarts');
+    // A service waiting out its backoff can still be stopped.
+    expect(screen.getAllByTitle('Stop')).toHaveLength(1);
+  });
+});
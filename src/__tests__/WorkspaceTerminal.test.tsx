@@ -0,0 +1,20 @@
+import { fireEvent, screen } from '@testing-library/react';
+import { describe, expect, it } from 'vitest';
+import { renderWorkspace, workspace } from '../test/workspace-view';
+
+describe('interactive terminal', () => {
+  it('toggles whether the service runs on a terminal', () => {
+    const { onUpdateService } = renderWorkspace();
+
+    const toggle = screen.getByRole('button', { name: 'api interactive terminal' });
+    expect(toggle).toHaveAttribute('aria-pressed', 'false');
+    fireEvent.click(toggle);
+    expect(onUpdateService).toHaveBeenCalledWith('shop', 'api', { interactive: true });
+  });
+
+  it('shows a service already on a terminal as switched on', () => {
+    renderWorkspace({ workspace: { ...workspace, services: [{ ...workspace.services[0], interactive: true }] } });
+
+    expect(screen.getByRole('button', { name: 'api interactive terminal' })).toHaveAttribute('aria-pressed', 'true');
+  });
+});
@@ -0,0 +1,53 @@
+import React from 'react';
+import { markMatches, parseAnsi, type AnsiStyle } from './ansi';
+
+interface AnsiMessageProps {
+  message: string;
+  /** Marked wherever it appears in the visible text, whatever the colours. */
+  query?: string;
+  /** Without it, links keep their underline but are not clickable. */
+  onOpenLink?: (href: string) => void;
+}
+
+function cssOf(style: AnsiStyle): React.CSSProperties | undefined {
+  if (!style.fg && !style.bg && !style.bold && !style.underline) return undefined;
+  return {
+    color: style.fg,
+    background: style.bg,
+    fontWeight: style.bold ? 600 : undefined,
+    textDecoration: style.underline ? 'underline' : undefined,
+  };
+}
+
+/** A line of process output with its ANSI colours and links rendered. */
+export function AnsiMessage({ message, query = '', onOpenLink }: AnsiMessageProps) {
+  const segments = markMatches(parseAnsi(message), query);
+  return (
+    <>
+      {segments.map((segment, index) => {
+        let node: React.ReactNode = segment.match
+          ? <mark className="log-search-match">{segment.text}</mark>
+          : segment.text;
+        const css = cssOf(segment.style);
+        if (css) node = <span style={css}>{node}</span>;
+        if (segment.href) {
+          const href = segment.href;
+          node = onOpenLink ? (
+            <a
+              className="log-link"
+              href={href}
+              title={href}
+              onClick={(event) => {
+                event.preventDefault();
+                onOpenLink(href);
+              }}
+            >
+              {node}
+            </a>
+          ) : <span className="log-link" title={href}>{node}</span>;
+        }
+        return <React.Fragment key={index}>{node}</React.Fragment>;
+      })}
+    </>
+  );
+}
@@ -0,0 +1,190 @@
+/**
+ * ANSI escape sequences in process output, turned into styled text.
+ *
+ * Dev servers colour their output, and the colours carry meaning: red for the
+ * failing test, yellow for the deprecation. `LogLine.msg` keeps the escapes as
+ * the process printed them; this reads them into spans the Logs view renders
+ * as React text, so nothing in a line can become markup. Colours come out as
+ * CSS values built from numbers or the theme's `--ansi-*` palette, and a link
+ * survives only if it is plain HTTP or HTTPS.
+ *
+ * Handled: SGR reset, bold, underline, the 16 named colours, the 256-colour
+ * palette and 24-bit colour, for foreground and background, and OSC 8
+ * hyperlinks. Every other escape sequence is dropped.
+ */
+
+const ESC = '\u001b';
+const BEL = '\u0007';
+
+export interface AnsiStyle {
+  fg?: string;
+  bg?: string;
+  bold?: boolean;
+  underline?: boolean;
+}
+
+export interface AnsiSpan {
+  text: string;
+  style: AnsiStyle;
+  /** Set inside an OSC 8 hyperlink with a safe target. */
+  href?: string;
+}
+
+/** A span, or part of one, and whether it falls inside a search match. */
+export interface AnsiSegment extends AnsiSpan {
+  match: boolean;
+}
+
+/** The steps of each channel in the 6×6×6 colour cube at 16–231. */
+const CUBE_LEVELS = [0, 95, 135, 175, 215, 255];
+
+/** One of the 256 palette colours, or undefined when `index` is not one. */
+export function ansiColor(index: number): string | undefined {
+  if (!Number.isInteger(index) || index < 0 || index > 255) return undefined;
+  if (index < 16) return `var(--ansi-${index})`;
+  if (index < 232) {
+    const cube = index - 16;
+    return rgb(CUBE_LEVELS[Math.floor(cube / 36)], CUBE_LEVELS[Math.floor(cube / 6) % 6], CUBE_LEVELS[cube % 6]);
+  }
+  const level = 8 + (index - 232) * 10;
+  return rgb(level, level, level);
+}
+
+function rgb(red: number, green: number, blue: number): string | undefined {
+  const channels = [red, green, blue];
+  if (channels.some(channel => !Number.isInteger(channel) || channel < 0 || channel > 255)) return undefined;
+  return `rgb(${channels.join(', ')})`;
+}
+
+/**
+ * Reads an extended colour starting at `codes[at]`, the code after 38 or 48,
+ * and returns it with how many codes it used.
+ */
+function extendedColor(codes: number[], at: number): { color: string | undefined; used: number } {
+  if (codes[at] === 5) return { color: ansiColor(codes[at + 1]), used: 2 };
+  if (codes[at] === 2) return { color: rgb(codes[at + 1], codes[at + 2], codes[at + 3]), used: 4 };
+  return { color: undefined, used: 0 };
+}
+
+/** The style after applying one SGR sequence's parameters to `current`. */
+export function applySgr(current: AnsiStyle, parameters: string): AnsiStyle {
+  const codes = parameters === '' ? [0] : parameters.split(/[;:]/).map(code => (code === '' ? 0 : Number(code)));
+  let style = { ...current };
+  for (let index = 0; index < codes.length; index++) {
+    const code = codes[index];
+    if (code === 0) style = {};
+    else if (code === 1) style.bold = true;
+    else if (code === 22) style.bold = false;
+    else if (code === 4) style.underline = true;
+    else if (code === 24) style.underline = false;
+    else if (code >= 30 && code <= 37) style.fg = ansiColor(code - 30);
+    else if (code >= 90 && code <= 97) style.fg = ansiColor(code - 90 + 8);
+    else if (code === 39) style.fg = undefined;
+    else if (code >= 40 && code <= 47) style.bg = ansiColor(code - 40);
+    else if (code >= 100 && code <= 107) style.bg = ansiColor(code - 100 + 8);
+    else if (code === 49) style.bg = undefined;
+    else if (code === 38 || code === 48) {
+      const { color, used } = extendedColor(codes, index + 1);
+      if (color) style[code === 38 ? 'fg' : 'bg'] = color;
+      index += used;
+    }
+  }
+  return style;
+}
+
+/** The link target if it is one Hub will open, which means HTTP or HTTPS. */
+function safeHref(target: string): string | undefined {
+  try {
+    const url = new URL(target);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Splits a line into runs of text that share a style and link. */
+export function parseAnsi(input: string): AnsiSpan[] {
+  if (!input.includes(ESC)) return input ? [{ text: input, style: {} }] : [];
+  const spans: AnsiSpan[] = [];
+  let style: AnsiStyle = {};
+  let href: string | undefined;
+  let text = '';
+  const flush = () => {
+    if (!text) return;
+    spans.push(href ? { text, style, href } : { text, style });
+    text = '';
+  };
+
+  let index = 0;
+  while (index < input.length) {
+    const character = input[index];
+    if (character !== ESC) {
+      text += character;
+      index++;
+      continue;
+    }
+    const kind = input[index + 1];
+    if (kind === '[') {
+      // CSI: parameter and intermediate bytes, then one final byte in @ to ~.
+      let end = index + 2;
+      while (end < input.length && !/[@-~]/.test(input[end])) end++;
+      if (end >= input.length) break;
+      if (input[end] === 'm') {
+        flush();
+        style = applySgr(style, input.slice(index + 2, end));
+      }
+      index = end + 1;
+    } else if (kind === ']') {
+      // OSC: ends at BEL or at ESC \.
+      let end = index + 2;
+      while (end < input.length && input[end] !== BEL && !(input[end] === ESC && input[end + 1] === '\\')) end++;
+      if (end >= input.length) break;
+      const body = input.slice(index + 2, end);
+      if (body.startsWith('8;')) {
+        flush();
+        const separator = body.indexOf(';', 2);
+        href = separator === -1 ? undefined : safeHref(body.slice(separator + 1));
+      }
+      index = end + (input[end] === BEL ? 1 : 2);
+    } else {
+      index += 2;
+    }
+  }
+  flush();
+  return spans;
+}
+
+/** The line as it reads with every escape sequence taken out. */
+export function stripAnsi(input: string): string {
+  if (!input.includes(ESC)) return input;
+  return parseAnsi(input).map(span => span.text).join('');
+}
+
+/**
+ * The spans cut again wherever a case-insensitive match of `query` in the
+ * visible text starts or ends, so a match can be marked across colour changes.
+ */
+export function markMatches(spans: AnsiSpan[], query: string): AnsiSegment[] {
+  if (!query) return spans.map(span => ({ ...span, match: false }));
+  const plain = spans.map(span => span.text).join('');
+  const pattern = new RegExp(query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'ig');
+  const ranges = [...plain.matchAll(pattern)].map(found => [found.index, found.index + found[0].length] as const);
+  if (ranges.length === 0) return spans.map(span => ({ ...span, match: false }));
+
+  const segments: AnsiSegment[] = [];
+  let offset = 0;
+  for (const span of spans) {
+    const spanEnd = offset + span.text.length;
+    let cursor = offset;
+    for (const [from, to] of ranges) {
+      if (to <= cursor || from >= spanEnd) continue;
+      if (from > cursor) segments.push({ ...span, text: plain.slice(cursor, from), match: false });
+      const end = Math.min(to, spanEnd);
+      segments.push({ ...span, text: plain.slice(Math.max(from, cursor), end), match: true });
+      cursor = end;
+    }
+    if (cursor < spanEnd) segments.push({ ...span, text: plain.slice(cursor, spanEnd), match: false });
+    offset = spanEnd;
+  }
+  return segments;
+}
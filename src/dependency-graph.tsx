@@ -0,0 +1,301 @@
+import React from 'react';
+import type { Service, WatchedPort } from './types';
+import { describePlanIssue, planStartup } from './startup-plan';
+
+const NODE_WIDTH = 150;
+const NODE_HEIGHT = 38;
+const COLUMN_GAP = 72;
+const ROW_GAP = 16;
+const PADDING = 16;
+const HEADER = 22;
+
+interface DependencyChange {
+  serviceId: string;
+  dependsOn: string[];
+}
+
+interface DependencyGraphProps {
+  services: Service[];
+  /** Watched ports the services may depend on, drawn ahead of the first wave. */
+  watchedPorts?: WatchedPort[];
+  onSave: (changes: DependencyChange[]) => void;
+}
+
+interface GraphEdge {
+  from: string;
+  to: string;
+  kind: 'explicit' | 'sequential' | 'unknown';
+}
+
+type Column = { label: string; ids: string[]; missing?: boolean; watched?: boolean };
+
+function sameIds(a: string[], b: string[]) {
+  return a.length === b.length && a.every((id, index) => id === b[index]);
+}
+
+/**
+ * The workspace's dependencies as a graph, laid out in the waves a boot will
+ * start them in. Edges are drafted here and only saved together, so a cycle
+ * or a dangling id can be seen and fixed before it ever reaches a boot.
+ *
+ * Drag from a service's right-hand handle onto a service that needs it to add
+ * an edge; click an edge to remove it. Dashed edges come from sequential run
+ * order and are changed there instead.
+ */
+export function DependencyGraph({ services, watchedPorts = [], onSave }: DependencyGraphProps) {
+  const markerId = `dep-arrow-${React.useId().replace(/:/g, '')}`;
+  const svgRef = React.useRef<SVGSVGElement>(null);
+  const [draft, setDraft] = React.useState<Record<string, string[]>>(
+    () => Object.fromEntries(services.map(service => [service.id, service.depends_on ?? []])),
+  );
+  const [dragFrom, setDragFrom] = React.useState<string | null>(null);
+  const [pointer, setPointer] = React.useState<{ x: number; y: number } | null>(null);
+
+  const drafted = services.map(service => ({ ...service, depends_on: draft[service.id] ?? [] }));
+  const plan = planStartup(drafted, watchedPorts.map(port => port.id));
+  const names: Record<string, string> = Object.fromEntries([
+    ...watchedPorts.map(port => [port.id, `${port.label} :${port.port}`]),
+    ...services.map(service => [service.id, service.name]),
+  ]);
+  const known = new Set(services.map(service => service.id));
+  const watchedIds = new Set(watchedPorts.map(port => port.id));
+  const cyclic = new Set(plan.issues.flatMap(issue => issue.kind === 'cycle' ? issue.serviceIds : []));
+  const dependedOn = [...new Set(drafted.flatMap(service => service.depends_on.filter(id => !known.has(id))))];
+  const missing = dependedOn.filter(id => !watchedIds.has(id));
+  const watched = dependedOn.filter(id => watchedIds.has(id));
+
+  const columns: Column[] = [
+    ...(missing.length > 0 ? [{ label: 'Missing', ids: missing, missing: true }] : []),
+    ...(watched.length > 0 ? [{ label: 'Watched', ids: watched, watched: true }] : []),
+    ...plan.waves.map((ids, index) => ({ label: `Wave ${index + 1}`, ids })),
+    ...(plan.stuck.length > 0 ? [{ label: 'Never starts', ids: plan.stuck }] : []),
+  ];
+  const positions = new Map<string, { x: number; y: number }>();
+  columns.forEach((column, columnIndex) => {
+    column.ids.forEach((id, row) => positions.set(id, {
+      x: PADDING + columnIndex * (NODE_WIDTH + COLUMN_GAP),
+      y: PADDING + HEADER + row * (NODE_HEIGHT + ROW_GAP),
+    }));
+  });
+  const tallest = Math.max(1, ...columns.map(column => column.ids.length));
+  const width = PADDING * 2 + columns.length * NODE_WIDTH + Math.max(0, columns.length - 1) * COLUMN_GAP;
+  const height = PADDING * 2 + HEADER + tallest * NODE_HEIGHT + (tallest - 1) * ROW_GAP;
+
+  const edges: GraphEdge[] = drafted.flatMap(service => service.depends_on
+    .filter(id => id !== service.id)
+    .map(id => ({
+      from: id,
+      to: service.id,
+      kind: known.has(id) || watchedIds.has(id) ? 'explicit' as const : 'unknown' as const,
+    })));
+  plan.sequentialEdges.forEach(([from, to]) => {
+    if (!edges.some(edge => edge.from === from && edge.to === to)) edges.push({ from, to, kind: 'sequential' });
+  });
+
+  const changes = services
+    .filter(service => !sameIds(draft[service.id] ?? [], service.depends_on ?? []))
+    .map(service => ({ serviceId: service.id, dependsOn: draft[service.id] ?? [] }));
+
+  function setDependencies(serviceId: string, ids: Set<string>) {
+    // Kept in workspace order, like the Depends picker, with unknown ids last
+    // so removing them stays possible.
+    const ordered = [
+      ...services.filter(service => ids.has(service.id)).map(service => service.id),
+      ...[...ids].filter(id => !known.has(id)),
+    ];
+    setDraft(current => ({ ...current, [serviceId]: ordered }));
+  }
+
+  function connect(to: string) {
+    const from = dragFrom;
+    setDragFrom(null);
+    setPointer(null);
+    if (!from || from === to || (draft[to] ?? []).includes(from)) return;
+    setDependencies(to, new Set([...(draft[to] ?? []), from]));
+  }
+
+  function disconnect(edge: GraphEdge) {
+    setDependencies(edge.to, new Set((draft[edge.to] ?? []).filter(id => id !== edge.from)));
+  }
+
+  function trackPointer(event: React.MouseEvent) {
+    if (!dragFrom || !svgRef.current) return;
+    const bounds = svgRef.current.getBoundingClientRect();
+    setPointer({ x: event.clientX - bounds.left, y: event.clientY - bounds.top });
+  }
+
+  function edgePath(from: { x: number; y: number }, to: { x: number; y: number }) {
+    const x1 = from.x + NODE_WIDTH;
+    const y1 = from.y + NODE_HEIGHT / 2;
+    const x2 = to.x;
+    const y2 = to.y + NODE_HEIGHT / 2;
+    const bend = Math.max(36, Math.abs(x2 - x1) / 2);
+    return `M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}`;
+  }
+
+  const dragStart = dragFrom ? positions.get(dragFrom) : undefined;
+
+  return (
+    <div className="dep-graph">
+      <div className="dep-graph-canvas">
+        <svg
+          ref={svgRef}
+          width={width}
+          height={height}
+          viewBox={`0 0 ${width} ${height}`}
+          role="group"
+          aria-label="Dependency graph"
+          onMouseMove={trackPointer}
+          onMouseUp={() => { setDragFrom(null); setPointer(null); }}
+          onMouseLeave={() => { setDragFrom(null); setPointer(null); }}
+        >
+          <defs>
+            <marker id={markerId} viewBox="0 0 10 10" refX="9" refY="5" markerWidth="7" markerHeight="7" orient="auto">
+              <path d="M 0 0 L 10 5 L 0 10 Z" fill="currentColor" />
+            </marker>
+          </defs>
+          {columns.map((column, index) => (
+            <text
+              key={column.label}
+              className="dep-graph-column"
+              x={PADDING + index * (NODE_WIDTH + COLUMN_GAP)}
+              y={PADDING + 10}
+            >
+              {column.label}
+            </text>
+          ))}
+          {edges.map(edge => {
+            const from = positions.get(edge.from);
+            const to = positions.get(edge.to);
+            if (!from || !to) return null;
+            const d = edgePath(from, to);
+            const broken = edge.kind === 'unknown' || (cyclic.has(edge.from) && cyclic.has(edge.to));
+            const className = `dep-graph-edge ${edge.kind}${broken ? ' broken' : ''}`;
+            if (edge.kind === 'sequential') {
+              return (
+                <path key={`${edge.from}>${edge.to}`} d={d} className={className} markerEnd={`url(#${markerId})`}>
+                  <title>{`${names[edge.to]} follows ${names[edge.from]} in sequential order`}</title>
+                </path>
+              );
+            }
+            const label = `Remove dependency: ${names[edge.to] ?? edge.to} on ${names[edge.from] ?? edge.from}`;
+            return (
+              <g
+                key={`${edge.from}>${edge.to}`}
+                className={className}
+                role="button"
+                tabIndex={0}
+                aria-label={label}
+                onClick={() => disconnect(edge)}
+                onKeyDown={event => {
+                  if (event.key === 'Enter' || event.key === 'Delete' || event.key === 'Backspace') {
+                    event.preventDefault();
+                    disconnect(edge);
+                  }
+                }}
+              >
+                <title>{label}</title>
+                <path d={d} className="dep-graph-edge-hit" />
+                <path d={d} markerEnd={`url(#${markerId})`} />
+              </g>
+            );
+          })}
+          {dragStart && pointer && (
+            <path
+              className="dep-graph-edge pending"
+              d={`M ${dragStart.x + NODE_WIDTH} ${dragStart.y + NODE_HEIGHT / 2} L ${pointer.x} ${pointer.y}`}
+            />
+          )}
+          {columns.flatMap(column => column.ids.map(id => {
+            const position = positions.get(id)!;
+            const service = services.find(item => item.id === id);
+            const status = service?.status ?? 'stopped';
+            const className = [
+              'dep-graph-node',
+              column.missing ? 'missing' : column.watched ? 'watched' : status,
+              cyclic.has(id) ? 'cyclic' : '',
+              dragFrom && dragFrom !== id ? 'droppable' : '',
+            ].filter(Boolean).join(' ');
+            return (
+              <g
+                key={id}
+                className={className}
+                transform={`translate(${position.x} ${position.y})`}
+                role="group"
+                aria-label={names[id] ?? id}
+                onMouseUp={event => {
+                  if (!service) return;
+                  event.stopPropagation();
+                  connect(id);
+                }}
+              >
+                <rect width={NODE_WIDTH} height={NODE_HEIGHT} rx={6} />
+                <circle className="dep-graph-status" cx={14} cy={NODE_HEIGHT / 2} r={4} />
+                <text x={26} y={NODE_HEIGHT / 2 + 4}>{names[id] ?? id}</text>
+                {service && (
+                  <circle
+                    className="dep-graph-handle"
+                    cx={NODE_WIDTH}
+                    cy={NODE_HEIGHT / 2}
+                    r={6}
+                    role="button"
+                    aria-label={`Drag from ${service.name} to a service that needs it`}
+                    onMouseDown={event => {
+                      event.preventDefault();
+                      setDragFrom(id);
+                    }}
+                  />
+                )}
+              </g>
+            );
+          }))}
+        </svg>
+      </div>
+      <div className="dep-graph-foot">
+        <ol className="dep-graph-waves" aria-label="Startup waves">
+          {plan.waves.map((wave, index) => (
+            <li key={index}>
+              <span className="num">{index + 1}</span> {wave.map(id => names[id]).join(', ')}
+            </li>
+          ))}
+        </ol>
+        {plan.issues.map(issue => (
+          <div key={describePlanIssue(issue, names)} className="dep-graph-issue" role="alert">
+            {describePlanIssue(issue, names)}
+            {issue.kind !== 'cycle' && (
+              <button
+                type="button"
+                className="btn sm ghost"
+                onClick={() => {
+                  const dropped = issue.kind === 'unknown' ? issue.dependencyId : issue.serviceId;
+                  setDependencies(issue.serviceId, new Set((draft[issue.serviceId] ?? []).filter(id => id !== dropped)));
+                }}
+              >
+                Remove
+              </button>
+            )}
+          </div>
+        ))}
+        <div className="dep-graph-actions">
+          <button
+            type="button"
+            className="btn sm ghost"
+            disabled={changes.length === 0}
+            onClick={() => setDraft(Object.fromEntries(services.map(service => [service.id, service.depends_on ?? []])))}
+          >
+            Reset
+          </button>
+          <button
+            type="button"
+            className="btn sm primary"
+            disabled={changes.length === 0 || plan.issues.length > 0}
+            title={plan.issues.length > 0 ? 'Fix the problems above before saving' : undefined}
+            onClick={() => onSave(changes)}
+          >
+            Save dependencies
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
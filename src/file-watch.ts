@@ -0,0 +1,30 @@
+import type { FileWatch } from './generated/FileWatch';
+
+/** Mirrors `default_debounce_ms` in Rust. */
+export const DEFAULT_WATCH_DEBOUNCE_MS = 300;
+
+/** A starting point when watching is switched on; most projects keep their code under `src`. */
+export const DEFAULT_WATCH_GLOBS = ['src/**/*'];
+
+export function defaultFileWatch(): FileWatch {
+  return { globs: [...DEFAULT_WATCH_GLOBS], ignore: [], debounce_ms: DEFAULT_WATCH_DEBOUNCE_MS };
+}
+
+/** Globs are typed as one comma- or newline-separated list. */
+export function parseGlobList(text: string): string[] {
+  return text
+    .split(/[,\n]/)
+    .map(glob => glob.trim())
+    .filter(glob => glob.length > 0);
+}
+
+export function formatGlobList(globs: string[]): string {
+  return globs.join(', ');
+}
+
+/** The short form shown on the editor's button, e.g. `src/**\/*.ts +2`. */
+export function fileWatchSummary(watch: FileWatch): string {
+  const [first = '', ...rest] = watch.globs;
+  const shown = first.length > 16 ? `${first.slice(0, 15)}…` : first;
+  return rest.length > 0 ? `${shown} +${rest.length}` : shown;
+}
@@ -2,7 +2,11 @@
 import type { AppearanceConfig } from "./AppearanceConfig";
 import type { EnvProfile } from "./EnvProfile";
 import type { GitHubUser } from "./GitHubUser";
+import type { LogRetention } from "./LogRetention";
+import type { NotificationPreferences } from "./NotificationPreferences";
+import type { ProxySettings } from "./ProxySettings";
 import type { StoredWorkspace } from "./StoredWorkspace";
+import type { WatchedPort } from "./WatchedPort";
 
 export type AppConfig = { onboarding_complete: boolean, github_token: string | null, github_user: GitHubUser | null, workspace_roots: Array<string>, user_workspaces: Array<StoredWorkspace>, appearance: AppearanceConfig, env_profiles: Array<EnvProfile>, 
 /**
@@ -23,4 +27,18 @@ close_to_tray: boolean,
  * stored here: the registration lives with the OS, and `start_at_login` is
  * read back from there rather than trusted from this file.
  */
-start_at_login: boolean, };
+start_at_login: boolean, notifications: NotificationPreferences, 
+/**
+ * Stable `<service>.<workspace>.localhost` names for managed services.
+ */
+proxy: ProxySettings, 
+/**
+ * Ports run outside Hub that the Ports map shows and workspace boots can
+ * wait on.
+ */
+watched_ports: Array<WatchedPort>, 
+/**
+ * How much past output comes back into the Logs view after a restart, and
+ * how long finished runs are kept at all.
+ */
+log_retention: LogRetention, };
@@ -1,4 +1,8 @@
 // This file was generated by [ts-rs](https://github.com/Aleph-Alpha/ts-rs). Do not edit this file manually.
 import type { ScriptEntry } from "./ScriptEntry";
 
-export type DetectedProject = { id: string, path: string, name: string, framework: string, package_manager: string, scripts: Array<ScriptEntry>, has_git: boolean, git_root: string | null, has_env: boolean, env_files: Array<string>, manifests: Array<string>, };
+export type DetectedProject = { id: string, path: string, name: string, framework: string, package_manager: string, scripts: Array<ScriptEntry>, has_git: boolean, git_root: string | null, has_env: boolean, env_files: Array<string>, manifests: Array<string>, 
+/**
+ * A checked-in workspace definition at the project's root, if it has one.
+ */
+workspace_definition: string | null, };
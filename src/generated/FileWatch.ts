@@ -0,0 +1,16 @@
+// This file was generated by [ts-rs](https://github.com/Aleph-Alpha/ts-rs). Do not edit this file manually.
+
+export type FileWatch = { 
+/**
+ * Relative to the service's directory, where `*` stays within one folder
+ * and `**` crosses any number of them.
+ */
+globs: Array<string>, 
+/**
+ * Changes matching these are not restarts, even when a watch glob matches.
+ */
+ignore: Array<string>, 
+/**
+ * Quiet period after the last change before restarting.
+ */
+debounce_ms: number, };
@@ -0,0 +1,20 @@
+// This file was generated by [ts-rs](https://github.com/Aleph-Alpha/ts-rs). Do not edit this file manually.
+import type { HookStage } from "./HookStage";
+
+/**
+ * One hook that ran, for the workspace run's result.
+ */
+export type HookRun = { 
+/**
+ * The service the hook belongs to, or the workspace for its own hooks.
+ */
+scope_id: string, stage: HookStage, cmd: string, 
+/**
+ * `None` when there was no exit code to report: the hook could not be
+ * started, hit its timeout, or was ended by a signal.
+ */
+exit_code: number | null, duration_ms: number, 
+/**
+ * Why the hook counts as failed. `None` means it exited with code 0.
+ */
+error: string | null, };
@@ -0,0 +1,26 @@
+// This file was generated by [ts-rs](https://github.com/Aleph-Alpha/ts-rs). Do not edit this file manually.
+
+export type HttpProbe = { 
+/**
+ * Request path, including any query string. Must start with `/`.
+ */
+path: string, 
+/**
+ * Lowest response status that counts as ready, inclusive.
+ */
+status_min: number, 
+/**
+ * Highest response status that counts as ready, inclusive. The default range
+ * accepts redirects, since a dev server that redirects `/` to a login page
+ * is up.
+ */
+status_max: number, 
+/**
+ * Text the response body must contain, for endpoints that answer 200 while
+ * reporting themselves unhealthy in the payload.
+ */
+body_contains: string | null, 
+/**
+ * Pause between attempts.
+ */
+interval_ms: number, };
@@ -0,0 +1,7 @@
+// This file was generated by [ts-rs](https://github.com/Aleph-Alpha/ts-rs). Do not edit this file manually.
+
+export type ImportNote = { 
+/**
+ * The process the note is about, or none for the file as a whole.
+ */
+service: string | null, message: string, };
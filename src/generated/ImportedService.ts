@@ -0,0 +1,9 @@
+// This file was generated by [ts-rs](https://github.com/Aleph-Alpha/ts-rs). Do not edit this file manually.
+import type { EnvVariable } from "./EnvVariable";
+import type { StoredService } from "./StoredService";
+
+export type ImportedService = { service: StoredService, 
+/**
+ * Variables the file sets for this process, for an environment profile.
+ */
+env: Array<EnvVariable>, };
@@ -0,0 +1,12 @@
+// This file was generated by [ts-rs](https://github.com/Aleph-Alpha/ts-rs). Do not edit this file manually.
+import type { LanReachability } from "./LanReachability";
+
+export type LanAccess = { port: number, reachability: LanReachability, 
+/**
+ * The address the listening socket is bound to, when something listens.
+ */
+bind_address: string | null, 
+/**
+ * The URL to open from another device, set only when it is reachable.
+ */
+lan_url: string | null, };
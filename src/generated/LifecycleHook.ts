@@ -0,0 +1,7 @@
+// This file was generated by [ts-rs](https://github.com/Aleph-Alpha/ts-rs). Do not edit this file manually.
+
+export type LifecycleHook = { cmd: string, 
+/**
+ * Killed, along with everything it started, once this has passed.
+ */
+timeout_ms: number, };
@@ -0,0 +1,10 @@
+// This file was generated by [ts-rs](https://github.com/Aleph-Alpha/ts-rs). Do not edit this file manually.
+import type { LifecycleHook } from "./LifecycleHook";
+
+export type LifecycleHooks = { 
+/**
+ * Where the hooks run. A service's hooks resolve this against the service's
+ * directory and a workspace's against the home directory; unset means that
+ * directory itself.
+ */
+cwd: string | null, pre_start: Array<LifecycleHook>, post_stop: Array<LifecycleHook>, };
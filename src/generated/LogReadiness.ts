@@ -0,0 +1,15 @@
+// This file was generated by [ts-rs](https://github.com/Aleph-Alpha/ts-rs). Do not edit this file manually.
+
+export type LogReadiness = { 
+/**
+ * Regular expression tested against each line of stdout and stderr, with
+ * terminal colour codes removed first, such as `Found 0 errors`.
+ */
+pattern: string, 
+/**
+ * How long after launch the line may take to appear. Kept apart from the
+ * readiness timeout, which bounds the port and HTTP checks, because a
+ * compiler's first pass and a server binding its port take very different
+ * amounts of time.
+ */
+timeout_ms: number, };
@@ -0,0 +1,21 @@
+// This file was generated by [ts-rs](https://github.com/Aleph-Alpha/ts-rs). Do not edit this file manually.
+
+/**
+ * How much log output Hub holds on to, while running and across restarts.
+ * Stored in the app config.
+ */
+export type LogRetention = { 
+/**
+ * Lines of each service's output restored into the Logs view at launch,
+ * newest first, across as many of its runs as it takes to fill.
+ */
+lines_per_service: number, 
+/**
+ * Runs that ended longer ago than this are dropped, logs and all.
+ */
+days: number, 
+/**
+ * Lines the Logs view holds for each service while Hub runs. Only the
+ * frontend reads this; it is kept here so the log settings stay together.
+ */
+live_lines_per_service: number, };
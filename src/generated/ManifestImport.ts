@@ -0,0 +1,17 @@
+// This file was generated by [ts-rs](https://github.com/Aleph-Alpha/ts-rs). Do not edit this file manually.
+import type { ImportNote } from "./ImportNote";
+import type { ImportedService } from "./ImportedService";
+
+export type ManifestImport = { 
+/**
+ * The file the services came from, such as `Procfile`.
+ */
+source: string, 
+/**
+ * The directory holding it, which relative paths in it start from.
+ */
+directory: string, services: Array<ImportedService>, 
+/**
+ * Settings that were left out or only partly carried over.
+ */
+notes: Array<ImportNote>, };
@@ -0,0 +1,17 @@
+// This file was generated by [ts-rs](https://github.com/Aleph-Alpha/ts-rs). Do not edit this file manually.
+
+export type NotificationPreferences = { 
+/**
+ * Off until turned on: an application that starts sending notifications
+ * after an update has not been asked to.
+ */
+enabled: boolean, 
+/**
+ * Workspace ids whose services never notify.
+ */
+muted_workspaces: Array<string>, 
+/**
+ * Ceiling across every service, so a bad morning produces a handful of
+ * notifications rather than a wall of them.
+ */
+max_per_minute: number, };
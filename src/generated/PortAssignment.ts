@@ -0,0 +1,16 @@
+// This file was generated by [ts-rs](https://github.com/Aleph-Alpha/ts-rs). Do not edit this file manually.
+
+/**
+ * A free port picked for a service because the one it expects was taken.
+ * Kept with this machine's copy only: what is free here says nothing about
+ * a teammate's machine, so it never goes into a `localhost-hub.json`.
+ */
+export type PortAssignment = { 
+/**
+ * The port the service asked for.
+ */
+original: number, 
+/**
+ * The one it gets instead, as `PORT` and in place of any `--port` value.
+ */
+port: number, };
@@ -0,0 +1,11 @@
+// This file was generated by [ts-rs](https://github.com/Aleph-Alpha/ts-rs). Do not edit this file manually.
+
+/**
+ * A live TCP connection between two local processes, named by ports the map
+ * already draws.
+ *
+ * `from_port` is a port the client listens on itself, not the ephemeral port
+ * the connection leaves from: a web server calling its API is drawn from the
+ * web server's node.
+ */
+export type PortConnection = { from_port: number, from_pid: number | null, to_port: number, to_pid: number | null, };
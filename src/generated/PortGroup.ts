@@ -0,0 +1,6 @@
+// This file was generated by [ts-rs](https://github.com/Aleph-Alpha/ts-rs). Do not edit this file manually.
+
+/**
+ * Which tier of the Ports map a watched port is drawn in.
+ */
+export type PortGroup = "web" | "api" | "db" | "edge";
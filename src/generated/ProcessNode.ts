@@ -0,0 +1,11 @@
+// This file was generated by [ts-rs](https://github.com/Aleph-Alpha/ts-rs). Do not edit this file manually.
+
+/**
+ * One process in the tree under a service, as the process inspector draws it.
+ */
+export type ProcessNode = { pid: number, name: string, cmd: Array<string>, cpu_usage: number, memory_kb: number, 
+/**
+ * Ports this process listens on itself. A port held by a child is listed on
+ * the child, which is the point: it says which one to kill.
+ */
+ports: Array<number>, children: Array<ProcessNode>, };
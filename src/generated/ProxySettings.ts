@@ -0,0 +1,11 @@
+// This file was generated by [ts-rs](https://github.com/Aleph-Alpha/ts-rs). Do not edit this file manually.
+
+export type ProxySettings = { 
+/**
+ * Off until turned on, since it listens on a port of its own.
+ */
+enabled: boolean, 
+/**
+ * Above 1024 by default, so no elevated privileges are needed to bind it.
+ */
+port: number, };
@@ -0,0 +1,11 @@
+// This file was generated by [ts-rs](https://github.com/Aleph-Alpha/ts-rs). Do not edit this file manually.
+
+export type ProxyStatus = { enabled: boolean, port: number, 
+/**
+ * Whether the listener is actually up, which `enabled` alone does not say.
+ */
+running: boolean, 
+/**
+ * Why the listener could not start, such as the port being taken.
+ */
+error: string | null, };
@@ -0,0 +1,16 @@
+// This file was generated by [ts-rs](https://github.com/Aleph-Alpha/ts-rs). Do not edit this file manually.
+import type { GuardrailAction } from "./GuardrailAction";
+
+export type ResourceGuardrail = { 
+/**
+ * Resident memory of the whole process tree, in megabytes.
+ */
+max_memory_mb: number | null, 
+/**
+ * Summed across the tree, where 100 is one core fully busy.
+ */
+max_cpu_percent: number | null, 
+/**
+ * How long CPU must stay over its ceiling before it counts.
+ */
+cpu_sustain_ms: number, action: GuardrailAction, };
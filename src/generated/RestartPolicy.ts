@@ -0,0 +1,22 @@
+// This file was generated by [ts-rs](https://github.com/Aleph-Alpha/ts-rs). Do not edit this file manually.
+import type { RestartMode } from "./RestartMode";
+
+export type RestartPolicy = { mode: RestartMode, 
+/**
+ * Consecutive automatic restarts allowed before giving up.
+ */
+max_retries: number, 
+/**
+ * Wait before the first restart; each further attempt doubles it.
+ */
+initial_backoff_ms: number, 
+/**
+ * Ceiling for the doubled wait.
+ */
+max_backoff_ms: number, 
+/**
+ * A run that stays up at least this long counts as healthy, and the next
+ * crash starts again from the first attempt. Without it a service that
+ * crashes once a day would run out of retries within a week.
+ */
+reset_after_ms: number, };
@@ -0,0 +1,11 @@
+// This file was generated by [ts-rs](https://github.com/Aleph-Alpha/ts-rs). Do not edit this file manually.
+import type { RunRecord } from "./RunRecord";
+
+/**
+ * The tail of one past run, as restored into the Logs view.
+ */
+export type RestoredLog = { run: RunRecord, lines: Array<string>, 
+/**
+ * True when earlier lines of the run were left out.
+ */
+truncated: boolean, };
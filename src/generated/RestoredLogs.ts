@@ -0,0 +1,12 @@
+// This file was generated by [ts-rs](https://github.com/Aleph-Alpha/ts-rs). Do not edit this file manually.
+import type { RestoredLog } from "./RestoredLog";
+
+export type RestoredLogs = { 
+/**
+ * This launch, so its own runs can be told from earlier ones.
+ */
+app_session_ms: number, 
+/**
+ * Oldest run first.
+ */
+runs: Array<RestoredLog>, };
@@ -0,0 +1,4 @@
+// This file was generated by [ts-rs](https://github.com/Aleph-Alpha/ts-rs). Do not edit this file manually.
+import type { RunEventKind } from "./RunEventKind";
+
+export type RunEvent = { at_ms: number, kind: RunEventKind, message: string, };
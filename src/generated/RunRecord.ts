@@ -1,8 +1,18 @@
 // This file was generated by [ts-rs](https://github.com/Aleph-Alpha/ts-rs). Do not edit this file manually.
+import type { RunEvent } from "./RunEvent";
 import type { RunOutcome } from "./RunOutcome";
 
 export type RunRecord = { run_id: string, service_id: string, cwd: string, cmd: string, pid: number, started_at_ms: number, ended_at_ms: number | null, exit_code: number | null, outcome: RunOutcome, 
 /**
  * True once the log file hit its cap.
  */
-log_truncated: boolean, };
+log_truncated: boolean, 
+/**
+ * Oldest first. Absent from runs recorded before events existed.
+ */
+events: Array<RunEvent>, 
+/**
+ * The launch of Hub that started the run; see `app_session_ms`. Absent
+ * from runs recorded before launches were.
+ */
+app_session_ms: number | null, };
@@ -1,4 +1,9 @@
 // This file was generated by [ts-rs](https://github.com/Aleph-Alpha/ts-rs). Do not edit this file manually.
 import type { ServiceEventKind } from "./ServiceEventKind";
 
-export type ServiceEvent = { service_id: string, kind: ServiceEventKind, message: string, pid: number | null, code: number | null, };
+export type ServiceEvent = { service_id: string, kind: ServiceEventKind, message: string, pid: number | null, code: number | null, 
+/**
+ * Which automatic restart this is, on `restarting` and `gave_up` events sent
+ * by a restart policy. `None` everywhere else, including a manual restart.
+ */
+attempt: number | null, };
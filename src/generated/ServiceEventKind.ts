@@ -1,3 +1,3 @@
 // This file was generated by [ts-rs](https://github.com/Aleph-Alpha/ts-rs). Do not edit this file manually.
 
-export type ServiceEventKind = "starting" | "started" | "restarting" | "stdout" | "stderr" | "url" | "exited" | "error" | "stopped";
+export type ServiceEventKind = "starting" | "started" | "restarting" | "stdout" | "stderr" | "url" | "exited" | "error" | "stopped" | "probe" | "ready" | "matched" | "gave_up" | "guardrail" | "hook" | "hook_failed" | "waiting";
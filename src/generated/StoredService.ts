@@ -1,4 +1,47 @@
 // This file was generated by [ts-rs](https://github.com/Aleph-Alpha/ts-rs). Do not edit this file manually.
+import type { FileWatch } from "./FileWatch";
+import type { HttpProbe } from "./HttpProbe";
+import type { LifecycleHooks } from "./LifecycleHooks";
+import type { LogReadiness } from "./LogReadiness";
+import type { PortAssignment } from "./PortAssignment";
+import type { ResourceGuardrail } from "./ResourceGuardrail";
+import type { RestartPolicy } from "./RestartPolicy";
 import type { WorkspaceRunMode } from "./WorkspaceRunMode";
 
-export type StoredService = { id: string, name: string, repo_path: string, script: string, cmd: string, depends_on: Array<string>, run_mode: WorkspaceRunMode, order: number, env_profile_id: string | null, expected_port: number | null, startup_delay_ms: number, readiness_timeout_ms: number, };
+export type StoredService = { id: string, name: string, repo_path: string, script: string, cmd: string, depends_on: Array<string>, run_mode: WorkspaceRunMode, order: number, env_profile_id: string | null, expected_port: number | null, startup_delay_ms: number, readiness_timeout_ms: number, 
+/**
+ * Optional HTTP check run after the expected port is listening. Only used
+ * when readiness waiting is on, since the timeout bounds the probe too.
+ */
+http_probe: HttpProbe | null, 
+/**
+ * A line of output that marks the service ready, for tools that never open
+ * a port. Independent of the readiness timeout; it carries its own.
+ */
+log_readiness: LogReadiness | null, 
+/**
+ * Off unless chosen, so services saved before restart policies existed keep
+ * staying down when they exit.
+ */
+restart_policy: RestartPolicy, 
+/**
+ * Memory and CPU ceilings, and what to do when one is crossed.
+ */
+guardrail: ResourceGuardrail | null, 
+/**
+ * For services with no watcher of their own: restart when these files change.
+ */
+file_watch: FileWatch | null, 
+/**
+ * Commands run before the service starts and after it stops.
+ */
+hooks: LifecycleHooks, 
+/**
+ * Gives the service a terminal that can be typed into, instead of piped
+ * output and no input.
+ */
+interactive: boolean, 
+/**
+ * Set when a port conflict was settled by moving to a free port.
+ */
+port_assignment: PortAssignment | null, };
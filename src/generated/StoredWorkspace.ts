@@ -1,4 +1,21 @@
 // This file was generated by [ts-rs](https://github.com/Aleph-Alpha/ts-rs). Do not edit this file manually.
+import type { LifecycleHooks } from "./LifecycleHooks";
 import type { StoredService } from "./StoredService";
+import type { WorkspaceProfile } from "./WorkspaceProfile";
 
-export type StoredWorkspace = { id: string, name: string, color: string, services: Array<StoredService>, };
+export type StoredWorkspace = { id: string, name: string, color: string, services: Array<StoredService>, 
+/**
+ * Run around the whole workspace: before any of its services start, and
+ * after they have all stopped.
+ */
+hooks: LifecycleHooks, 
+/**
+ * Named subsets to boot instead of every service.
+ */
+profiles: Array<WorkspaceProfile>, 
+/**
+ * The `localhost-hub.json` this workspace was imported from or saved to.
+ * When set, that file is what the workspace is read from and written to;
+ * this copy only covers the time until it is read again.
+ */
+definition_path: string | null, };
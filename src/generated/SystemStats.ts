@@ -1,3 +1,8 @@
 // This file was generated by [ts-rs](https://github.com/Aleph-Alpha/ts-rs). Do not edit this file manually.
 
-export type SystemStats = { cpu_usage: number, memory_used_mb: number, memory_total_mb: number, load_avg: [number, number, number], };
+export type SystemStats = { cpu_usage: number, memory_used_mb: number, memory_total_mb: number, load_avg: [number, number, number], 
+/**
+ * Logical cores. A process's CPU is a percentage of one core, so this is what
+ * turns a sum of those into a share of `cpu_usage`.
+ */
+cpu_count: number, };
@@ -0,0 +1,7 @@
+// This file was generated by [ts-rs](https://github.com/Aleph-Alpha/ts-rs). Do not edit this file manually.
+
+/**
+ * Raw output from an interactive service, for the terminal pane rather than
+ * the log. Not split into lines: a prompt waiting for input has no newline.
+ */
+export type TerminalOutput = { service_id: string, data: string, };
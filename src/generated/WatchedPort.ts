@@ -0,0 +1,14 @@
+// This file was generated by [ts-rs](https://github.com/Aleph-Alpha/ts-rs). Do not edit this file manually.
+import type { PortGroup } from "./PortGroup";
+
+/**
+ * A port run outside Hub, such as Postgres from a package manager or Redis in
+ * Docker. It appears on the Ports map like a service's port, and workspace
+ * services can list its id in `depends_on` to wait for it at boot.
+ */
+export type WatchedPort = { id: string, port: number, label: string, group: PortGroup, 
+/**
+ * Draws the port in this workspace's column and offers it only to that
+ * workspace's services. Without one, every workspace can depend on it.
+ */
+workspace_id: string | null, };
@@ -0,0 +1,8 @@
+// This file was generated by [ts-rs](https://github.com/Aleph-Alpha/ts-rs). Do not edit this file manually.
+
+/**
+ * A named part of a workspace, such as "frontend + api". Only the services a
+ * day's work needs are listed; whatever they depend on is started with them
+ * without being listed here.
+ */
+export type WorkspaceProfile = { id: string, name: string, service_ids: Array<string>, };
@@ -1,6 +1,11 @@
 // This file was generated by [ts-rs](https://github.com/Aleph-Alpha/ts-rs). Do not edit this file manually.
+import type { HookRun } from "./HookRun";
 import type { WorkspaceServiceBlocked } from "./WorkspaceServiceBlocked";
 import type { WorkspaceServiceFailure } from "./WorkspaceServiceFailure";
 import type { WorkspaceServiceWarning } from "./WorkspaceServiceWarning";
 
-export type WorkspaceRunResult = { workspace_id: string, started: Array<string>, already_running: Array<string>, stopped: Array<string>, not_running: Array<string>, failed: Array<WorkspaceServiceFailure>, warnings: Array<WorkspaceServiceWarning>, blocked: Array<WorkspaceServiceBlocked>, };
+export type WorkspaceRunResult = { workspace_id: string, started: Array<string>, already_running: Array<string>, stopped: Array<string>, not_running: Array<string>, failed: Array<WorkspaceServiceFailure>, warnings: Array<WorkspaceServiceWarning>, blocked: Array<WorkspaceServiceBlocked>, 
+/**
+ * Every hook the run executed, in order, whether or not it succeeded.
+ */
+hooks: Array<HookRun>, };
@@ -1,5 +1,50 @@
 // This file was generated by [ts-rs](https://github.com/Aleph-Alpha/ts-rs). Do not edit this file manually.
+import type { FileWatch } from "./FileWatch";
+import type { HttpProbe } from "./HttpProbe";
+import type { LifecycleHooks } from "./LifecycleHooks";
+import type { LogReadiness } from "./LogReadiness";
+import type { ResourceGuardrail } from "./ResourceGuardrail";
+import type { RestartPolicy } from "./RestartPolicy";
 import type { ServiceEnvironment } from "./ServiceEnvironment";
+import type { WatchedPort } from "./WatchedPort";
 import type { WorkspaceRunMode } from "./WorkspaceRunMode";
 
-export type WorkspaceServiceSpec = { service_id: string, cwd: string, cmd: string, depends_on: Array<string>, run_mode: WorkspaceRunMode, order: number, environment: ServiceEnvironment, expected_ports: Array<number>, allow_port_conflicts: boolean, startup_delay_ms: number, readiness_timeout_ms: number, };
+export type WorkspaceServiceSpec = { service_id: string, cwd: string, cmd: string, depends_on: Array<string>, run_mode: WorkspaceRunMode, order: number, environment: ServiceEnvironment, expected_ports: Array<number>, allow_port_conflicts: boolean, startup_delay_ms: number, readiness_timeout_ms: number, 
+/**
+ * Probed against the first expected port once it is listening; dependents
+ * wait for it to pass within the same readiness timeout.
+ */
+http_probe: HttpProbe | null, 
+/**
+ * A line of output to wait for, for services that never listen on a port.
+ * Has its own timeout and needs no expected port; a service that never
+ * prints the line is reported as failed and its dependents are blocked.
+ */
+log_readiness: LogReadiness | null, 
+/**
+ * Applies once the service is up; the workspace run itself never waits on
+ * a restart.
+ */
+restart_policy: RestartPolicy, 
+/**
+ * Checked for as long as the service runs, not just during the boot.
+ */
+guardrail: ResourceGuardrail | null, 
+/**
+ * Like a restart policy, this outlives the workspace run that started it.
+ */
+file_watch: FileWatch | null, 
+/**
+ * Pre-start hooks run in this service's directory and environment before it
+ * is launched, and not at all when it is already running.
+ */
+hooks: LifecycleHooks, 
+/**
+ * Run on a pseudo-terminal, for tools that prompt or take keystrokes.
+ */
+interactive: boolean, 
+/**
+ * The watched ports whose ids appear in `depends_on`. They travel with the
+ * spec because the runner has no copy of the settings they are kept in.
+ */
+watched_ports: Array<WatchedPort>, };
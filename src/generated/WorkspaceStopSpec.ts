@@ -1,3 +1,14 @@
 // This file was generated by [ts-rs](https://github.com/Aleph-Alpha/ts-rs). Do not edit this file manually.
+import type { LifecycleHooks } from "./LifecycleHooks";
+import type { ServiceEnvironment } from "./ServiceEnvironment";
 
-export type WorkspaceStopSpec = { service_id: string, pid: number | null, };
+export type WorkspaceStopSpec = { service_id: string, pid: number | null, 
+/**
+ * Where the service runs, which its post-stop hooks are relative to. Only
+ * needed when it has some.
+ */
+cwd: string | null, environment: ServiceEnvironment, 
+/**
+ * Only the post-stop hooks are used here.
+ */
+hooks: LifecycleHooks, };
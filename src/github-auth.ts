@@ -8,6 +8,7 @@ import type { DeviceCodeResponse } from './generated/DeviceCodeResponse';
 import type { EnvProfile } from './generated/EnvProfile';
 import type { EnvVariable } from './generated/EnvVariable';
 import type { GitHubUser } from './generated/GitHubUser';
+import type { NotificationPreferences } from './generated/NotificationPreferences';
 import type { StoredService } from './generated/StoredService';
 import type { StoredWorkspace } from './generated/StoredWorkspace';
 
@@ -17,6 +18,7 @@ export type {
   EnvProfile,
   EnvVariable,
   GitHubUser,
+  NotificationPreferences,
   StoredService,
   StoredWorkspace,
 };
@@ -0,0 +1,49 @@
+import type { GuardrailAction } from './generated/GuardrailAction';
+import type { ResourceGuardrail } from './generated/ResourceGuardrail';
+import type { RunEventKind } from './generated/RunEventKind';
+
+/** What a ceiling starts at when first switched on. Generous enough that an ordinary dev server stays under. */
+export const DEFAULT_MEMORY_CEILING_MB = 4_096;
+export const DEFAULT_CPU_CEILING_PERCENT = 200;
+/** Mirrors `default_cpu_sustain_ms` in Rust. */
+export const DEFAULT_CPU_SUSTAIN_MS = 30_000;
+
+export const GUARDRAIL_ACTION_LABELS: Record<GuardrailAction, string> = {
+  warn: 'Warn',
+  restart: 'Restart',
+  stop: 'Stop',
+};
+
+export const RUN_EVENT_LABELS: Record<RunEventKind, string> = {
+  guardrail_warned: 'Guardrail warning',
+  guardrail_restarted: 'Restarted by guardrail',
+  guardrail_stopped: 'Stopped by guardrail',
+};
+
+/**
+ * Applies an edit and drops the guardrail once neither ceiling is left, since the
+ * backend refuses one that has nothing to check.
+ */
+export function updateGuardrail(
+  current: ResourceGuardrail | null | undefined,
+  patch: Partial<ResourceGuardrail>,
+): ResourceGuardrail | null {
+  const next: ResourceGuardrail = {
+    max_memory_mb: null,
+    max_cpu_percent: null,
+    cpu_sustain_ms: DEFAULT_CPU_SUSTAIN_MS,
+    action: 'warn',
+    ...current,
+    ...patch,
+  };
+  return next.max_memory_mb == null && next.max_cpu_percent == null ? null : next;
+}
+
+/** The short form shown on the editor's button, e.g. `4096 MB · 200% → Restart`. */
+export function guardrailSummary(guardrail: ResourceGuardrail): string {
+  const limits = [
+    guardrail.max_memory_mb != null ? `${guardrail.max_memory_mb} MB` : null,
+    guardrail.max_cpu_percent != null ? `${guardrail.max_cpu_percent}%` : null,
+  ].filter(Boolean).join(' · ');
+  return `${limits} → ${GUARDRAIL_ACTION_LABELS[guardrail.action]}`;
+}
@@ -0,0 +1,39 @@
+import type { LifecycleHook } from './generated/LifecycleHook';
+import type { LifecycleHooks } from './generated/LifecycleHooks';
+
+/** Mirrors `default_hook_timeout_ms` in Rust. */
+export const DEFAULT_HOOK_TIMEOUT_MS = 300_000;
+
+/** What services and workspaces saved before hooks existed are treated as having. */
+export const EMPTY_HOOKS: LifecycleHooks = { cwd: null, pre_start: [], post_stop: [] };
+
+export function hooksOf(owner: { hooks?: LifecycleHooks | null }): LifecycleHooks {
+  return owner.hooks ?? EMPTY_HOOKS;
+}
+
+/**
+ * One command per line, run in that order. A line that was already there keeps
+ * its timeout, so retyping the list around a slow hook does not reset it.
+ */
+export function parseHookLines(text: string, previous: LifecycleHook[] = []): LifecycleHook[] {
+  return text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line.length > 0)
+    .map(cmd => ({
+      cmd,
+      timeout_ms: previous.find(hook => hook.cmd === cmd)?.timeout_ms ?? DEFAULT_HOOK_TIMEOUT_MS,
+    }));
+}
+
+export function formatHookLines(hooks: LifecycleHook[]): string {
+  return hooks.map(hook => hook.cmd).join('\n');
+}
+
+/** The short form shown on the editor's button, e.g. `2 before · 1 after`. */
+export function hooksSummary(hooks: LifecycleHooks): string {
+  const parts: string[] = [];
+  if (hooks.pre_start.length > 0) parts.push(`${hooks.pre_start.length} before`);
+  if (hooks.post_stop.length > 0) parts.push(`${hooks.post_stop.length} after`);
+  return parts.join(' · ');
+}
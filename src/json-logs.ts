@@ -0,0 +1,204 @@
+/**
+ * Structured JSON log lines, as pino, bunyan and winston write them.
+ *
+ * A Node service logging JSON fills the Logs view with walls of braces, and
+ * every line lands on one level: whatever the stream it was written to implied.
+ * Lines that parse as a logger's object are read for their level, time and
+ * message, so the level can decide the line's kind and the view can lay the
+ * rest out in columns, filter on fields and show the object on demand.
+ */
+import { stripAnsi } from './ansi';
+import type { LogRing } from './log-buffers';
+import type { JsonLog, LogLine } from './types';
+
+const LEVEL_KEYS = ['level', 'lvl', 'severity'];
+const MESSAGE_KEYS = ['msg', 'message'];
+const TIME_KEYS = ['time', 'timestamp', '@timestamp', 'ts'];
+
+/**
+ * Keys every line of a logger carries, which say nothing as a column: the three
+ * above, plus bunyan's and pino's bookkeeping.
+ */
+const BOOKKEEPING_KEYS = new Set([...LEVEL_KEYS, ...MESSAGE_KEYS, ...TIME_KEYS, 'v', 'pid', 'hostname']);
+
+/** pino and bunyan number their levels; these are the names they stand for. */
+const NUMERIC_LEVELS: Array<[number, string]> = [[60, 'fatal'], [50, 'error'], [40, 'warn'], [30, 'info'], [20, 'debug'], [10, 'trace']];
+
+const ERROR_LEVELS = new Set(['fatal', 'error', 'err', 'critical', 'crit', 'alert', 'emerg', 'emergency', 'panic']);
+const WARN_LEVELS = new Set(['warn', 'warning']);
+
+function firstOf(raw: Record<string, unknown>, keys: string[]): unknown {
+  for (const key of keys) if (raw[key] !== undefined) return raw[key];
+  return undefined;
+}
+
+function levelName(value: unknown): string | null {
+  if (typeof value === 'number') return NUMERIC_LEVELS.find(([floor]) => value >= floor)?.[1] ?? String(value);
+  if (typeof value === 'string' && value.trim()) return value.trim().toLowerCase();
+  return null;
+}
+
+function timeOf(value: unknown): number | null {
+  // Epoch seconds, as some non-Node loggers write, would otherwise read as 1970.
+  if (typeof value === 'number' && Number.isFinite(value)) return value < 1e11 ? value * 1000 : value;
+  if (typeof value === 'string') {
+    const parsed = Date.parse(value);
+    return Number.isNaN(parsed) ? null : parsed;
+  }
+  return null;
+}
+
+/** The line read as a logger's JSON object, or null when it is anything else. */
+export function parseJsonLog(message: string): JsonLog | null {
+  const text = stripAnsi(message).trim();
+  if (!text.startsWith('{') || !text.endsWith('}')) return null;
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (raw === null || typeof raw !== 'object' || Array.isArray(raw)) return null;
+  const object = raw as Record<string, unknown>;
+  const levelValue = firstOf(object, LEVEL_KEYS);
+  const messageValue = firstOf(object, MESSAGE_KEYS);
+  if (levelValue === undefined && messageValue === undefined) return null;
+
+  const level = levelName(levelValue);
+  return {
+    kind: level === null ? null : ERROR_LEVELS.has(level) ? 'error' : WARN_LEVELS.has(level) ? 'warn' : 'info',
+    level,
+    time: timeOf(firstOf(object, TIME_KEYS)),
+    msg: messageValue === undefined ? '' : typeof messageValue === 'string' ? messageValue : JSON.stringify(messageValue),
+    raw: object,
+  };
+}
+
+/**
+ * The line with its JSON read, and its kind taken from the logger's level when
+ * it has one. Anything that is not a logger's object comes back unchanged.
+ */
+export function withJsonLog(line: LogLine): LogLine {
+  const json = parseJsonLog(line.msg);
+  return json ? { ...line, kind: json.kind ?? line.kind, json } : line;
+}
+
+/** The value at a dotted path such as `req.url`, or undefined. */
+export function fieldValue(raw: Record<string, unknown>, path: string): unknown {
+  if (path in raw) return raw[path];
+  let current: unknown = raw;
+  for (const key of path.split('.')) {
+    if (current === null || typeof current !== 'object') return undefined;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+/** A field value as it reads in a column or a filter. */
+export function formatField(value: unknown): string {
+  if (value === undefined) return '';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value);
+}
+
+function leafPaths(value: Record<string, unknown>, prefix: string, depth: number, out: string[]) {
+  for (const [key, child] of Object.entries(value)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (!prefix && BOOKKEEPING_KEYS.has(key)) continue;
+    if (child !== null && typeof child === 'object' && !Array.isArray(child) && depth < 3) {
+      leafPaths(child as Record<string, unknown>, path, depth + 1, out);
+    } else {
+      out.push(path);
+    }
+  }
+}
+
+/**
+ * The fields offered as columns: the paths most lines of these services carry,
+ * most common first. Each ring is read from its newest end for its share of
+ * `sample` JSON lines, which is plenty to tell and never the whole buffer.
+ */
+export function commonFields(rings: readonly LogRing[], limit = 8, sample = 500): string[] {
+  const counts = new Map<string, number>();
+  const share = Math.ceil(sample / Math.max(1, rings.length));
+  for (const ring of rings) {
+    let seen = 0;
+    for (let index = ring.size - 1; index >= 0 && seen < share; index--) {
+      const json = ring.at(index).json;
+      if (!json) continue;
+      seen++;
+      const paths: string[] = [];
+      leafPaths(json.raw, '', 0, paths);
+      for (const path of paths) counts.set(path, (counts.get(path) ?? 0) + 1);
+    }
+  }
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, limit)
+    .map(([path]) => path);
+}
+
+export type FieldOperator = 'contains' | '=' | '!=' | '>' | '>=' | '<' | '<=';
+
+export interface FieldFilter {
+  path: string;
+  operator: FieldOperator;
+  value: string;
+}
+
+const CLAUSE = /^([\w@$-]+(?:\.[\w@$-]+)*)\s*(contains\b|==|!=|>=|<=|=|>|<)\s*(.*)$/i;
+
+/**
+ * Reads filters such as `req.url contains /api` or `res.statusCode >= 500`,
+ * joined with `and`. A value may be quoted to keep its spaces at the ends.
+ */
+export function parseFieldFilters(text: string): { filters: FieldFilter[]; error: string | null } {
+  const trimmed = text.trim();
+  if (!trimmed) return { filters: [], error: null };
+  const filters: FieldFilter[] = [];
+  for (const clause of trimmed.split(/\s+and\s+/i)) {
+    const found = CLAUSE.exec(clause.trim());
+    if (!found) return { filters: [], error: `Cannot read "${clause.trim()}". Try a field, an operator and a value, as in req.url contains /api.` };
+    const operator = found[2].toLowerCase() === '==' ? '=' : found[2].toLowerCase() as FieldOperator;
+    const value = found[3].trim().replace(/^"(.*)"$/, '$1');
+    filters.push({ path: found[1], operator, value });
+  }
+  return { filters, error: null };
+}
+
+/** A number, or a string that spells one; `null`, booleans and blanks are not. */
+function numberOf(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string' || value.trim() === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function matchesFilter(json: JsonLog, filter: FieldFilter): boolean {
+  const value = fieldValue(json.raw, filter.path);
+  if (value === undefined) return filter.operator === '!=';
+  const text = formatField(value);
+  switch (filter.operator) {
+    case 'contains':
+      return text.toLowerCase().includes(filter.value.toLowerCase());
+    case '=':
+      return text === filter.value;
+    case '!=':
+      return text !== filter.value;
+    default: {
+      const left = numberOf(value);
+      const right = numberOf(filter.value);
+      if (left === null || right === null) return false;
+      if (filter.operator === '>') return left > right;
+      if (filter.operator === '>=') return left >= right;
+      if (filter.operator === '<') return left < right;
+      return left <= right;
+    }
+  }
+}
+
+/** Whether a line passes every filter. Lines that are not JSON never do. */
+export function matchesFieldFilters(line: LogLine, filters: FieldFilter[]): boolean {
+  if (filters.length === 0) return true;
+  return line.json != null && filters.every(filter => matchesFilter(line.json!, filter));
+}
@@ -0,0 +1,113 @@
+import React from 'react';
+import { Ic } from './icons';
+import { qrCodePath, withHostFlag } from './lan-access';
+import { tauriApi, type LanAccess } from './tauri-api';
+
+interface LanAccessPanelProps {
+  /** The service's direct localhost URL; see `directUrlOf`. */
+  url: string;
+  /** The command the service runs with, for suggesting the flag it is missing. */
+  cmd?: string;
+}
+
+/** A QR code drawn as one path, on white so phone cameras read it in dark mode. */
+function QrCode({ value, size = 148 }: { value: string; size?: number }) {
+  const { size: modules, d } = React.useMemo(() => qrCodePath(value), [value]);
+  // Four modules of quiet zone, as the QR specification asks for.
+  const box = modules + 8;
+  return (
+    <svg width={size} height={size} viewBox={`-4 -4 ${box} ${box}`} role="img" aria-label={`QR code for ${value}`} shapeRendering="crispEdges" style={{ background: 'white', borderRadius: 6, flexShrink: 0 }}>
+      <path d={d} fill="black" />
+    </svg>
+  );
+}
+
+/**
+ * Offers a service's URL to a phone on the same network, or explains why it
+ * cannot be reached from one. Checked when opened and on request, not polled.
+ */
+export function LanAccessPanel({ url, cmd }: LanAccessPanelProps) {
+  const [access, setAccess] = React.useState<LanAccess | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  const [checking, setChecking] = React.useState(true);
+  const [copied, setCopied] = React.useState(false);
+
+  const check = React.useCallback(async () => {
+    setChecking(true);
+    setError(null);
+    setCopied(false);
+    try {
+      setAccess(await tauriApi.lanAccess(url));
+    } catch (reason) {
+      setAccess(null);
+      setError(reason instanceof Error ? reason.message : String(reason));
+    } finally {
+      setChecking(false);
+    }
+  }, [url]);
+
+  React.useEffect(() => { void check(); }, [check]);
+
+  async function copy(text: string) {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+    } catch {
+      setCopied(false);
+    }
+  }
+
+  const fixed = cmd ? withHostFlag(cmd) : null;
+  let body: React.ReactNode = null;
+  if (error) {
+    body = <div style={{ color: 'var(--danger)' }}>{error}</div>;
+  } else if (!access) {
+    body = <div style={{ color: 'var(--fg-3)' }}>Checking how the port is bound…</div>;
+  } else if (access.reachability === 'reachable' && access.lan_url) {
+    const lanUrl = access.lan_url;
+    body = (
+      <div style={{ display: 'flex', gap: 14, alignItems: 'center' }}>
+        <QrCode value={lanUrl} />
+        <div style={{ display: 'grid', gap: 8, minWidth: 0 }}>
+          <div style={{ color: 'var(--fg-3)' }}>Scan with a phone on the same network.</div>
+          <div className="mono" style={{ color: 'var(--fg-1)', wordBreak: 'break-all' }}>{lanUrl}</div>
+          <div>
+            <button className="btn sm ghost" onClick={() => void copy(lanUrl)}>
+              {copied ? <Ic.Check size={11} /> : null} {copied ? 'Copied' : 'Copy URL'}
+            </button>
+          </div>
+          <div style={{ color: 'var(--fg-4)', fontSize: 11 }}>If the phone cannot connect, a firewall on this machine may be blocking :{access.port}.</div>
+        </div>
+      </div>
+    );
+  } else if (access.reachability === 'loopback_only') {
+    body = (
+      <div style={{ display: 'grid', gap: 6 }}>
+        <div>Only this machine can open :{access.port}, because it listens on <span className="mono">{access.bind_address}</span>.</div>
+        {fixed ? (
+          <div style={{ color: 'var(--fg-3)' }}>Restart it as <span className="mono" style={{ color: 'var(--fg-1)' }}>{fixed}</span> to listen on the network too.</div>
+        ) : (
+          <div style={{ color: 'var(--fg-3)' }}>
+            Most dev servers take a flag for this, such as <span className="mono">--host</span> for Vite. An npm script passes it on after <span className="mono">--</span>, as in <span className="mono">npm run dev -- --host</span>.
+          </div>
+        )}
+      </div>
+    );
+  } else if (access.reachability === 'not_listening') {
+    body = <div style={{ color: 'var(--fg-3)' }}>Nothing is listening on :{access.port} right now.</div>;
+  } else {
+    body = <div style={{ color: 'var(--fg-3)' }}>This machine is not on a network, so there is no address a phone could use.</div>;
+  }
+
+  return (
+    <div style={{ display: 'grid', gap: 10, padding: 12, border: '1px solid var(--line-soft)', borderRadius: 8, background: 'var(--bg-1)', fontSize: 12 }}>
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+        <span className="eyebrow">Open on phone</span>
+        <button className="btn sm ghost" onClick={() => void check()} disabled={checking}>
+          <Ic.Reload size={11} /> {checking ? 'Checking…' : 'Check again'}
+        </button>
+      </div>
+      {body}
+    </div>
+  );
+}
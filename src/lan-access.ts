@@ -0,0 +1,51 @@
+import qrcode from 'qrcode-generator';
+
+/**
+ * Flags that make a dev server listen on every interface rather than loopback
+ * only, keyed by a pattern for the tool's name in a command.
+ */
+const HOST_FLAGS: Array<{ tool: RegExp; flag: string }> = [
+  { tool: /\b(vite|astro|nuxi?|svelte-kit|remix)\b/, flag: '--host' },
+  { tool: /\bnext\b/, flag: '-H 0.0.0.0' },
+  { tool: /\bng\s+serve\b/, flag: '--host 0.0.0.0' },
+  { tool: /\bwebpack(-dev-server|\s+serve)\b/, flag: '--host 0.0.0.0' },
+  { tool: /\b(uvicorn|flask)\b/, flag: '--host 0.0.0.0' },
+  { tool: /\brails\b/, flag: '-b 0.0.0.0' },
+];
+
+/**
+ * The command rewritten to listen beyond loopback, when the tool can be told
+ * from the command itself. A package script such as `npm run dev` hides the
+ * tool, so it gets null and the caller explains the flag instead.
+ */
+export function withHostFlag(cmd: string): string | null {
+  const known = HOST_FLAGS.find(item => item.tool.test(cmd));
+  return known ? `${cmd.trim()} ${known.flag}` : null;
+}
+
+/**
+ * The URL the LAN check should be given. A proxied service's `url` is its
+ * `.localhost` name, which no phone can resolve, so the direct one is used.
+ */
+export function directUrlOf(port: { url?: string; directUrl?: string; port: number }): string {
+  return port.directUrl ?? port.url ?? `http://localhost:${port.port}`;
+}
+
+/**
+ * An SVG path drawing the dark modules of a QR code for `text`, one unit per
+ * module, with the size of its square. Medium error correction is plenty for a
+ * code read off a screen.
+ */
+export function qrCodePath(text: string): { size: number; d: string } {
+  const code = qrcode(0, 'M');
+  code.addData(text);
+  code.make();
+  const size = code.getModuleCount();
+  const parts: string[] = [];
+  for (let row = 0; row < size; row += 1) {
+    for (let col = 0; col < size; col += 1) {
+      if (code.isDark(row, col)) parts.push(`M${col} ${row}h1v1h-1z`);
+    }
+  }
+  return { size, d: parts.join('') };
+}
@@ -0,0 +1,269 @@
+/**
+ * Per-service log buffers for the Logs view.
+ *
+ * All output used to share one array capped at 5000 lines, so a chatty build
+ * could push out the only three lines a quiet API printed before it crashed.
+ * Each service now has a ring of its own, sized by the user, and lines from
+ * different services are interleaved by time only for the sources being shown.
+ *
+ * Rings are filled in place, because copying a buffer of tens of thousands of
+ * lines for every line that arrives is what this replaces. Whoever holds them
+ * publishes a fresh `LogBuffers` object when React should look again.
+ */
+import type { LogLine } from './types';
+
+/** Lines each service keeps when the config says nothing. */
+export const DEFAULT_LIVE_LOG_LINES = 10_000;
+
+let nextSeq = 0;
+
+/** Stamps a line with its arrival order, for telling apart lines from the same millisecond. */
+export function logLine(src: string, msg: string, kind: LogLine['kind'], at: number, ts: string, appSession?: number): LogLine {
+  return { ts, at, seq: nextSeq++, src, msg, kind, appSession };
+}
+
+/** A fixed-size buffer of one service's lines that drops its oldest when full. */
+export class LogRing {
+  private items: LogLine[] = [];
+  private start = 0;
+  /** Lines ever pushed, including those since dropped. */
+  pushed = 0;
+  /** Lines currently held, by kind. */
+  readonly kinds: Record<LogLine['kind'], number> = { error: 0, warn: 0, ok: 0, info: 0 };
+  /** Lines currently held that are a logger's JSON. */
+  structured = 0;
+
+  constructor(readonly capacity: number) {}
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  /** Error lines currently held. */
+  get errors(): number {
+    return this.kinds.error;
+  }
+
+  push(line: LogLine): void {
+    this.pushed++;
+    this.kinds[line.kind]++;
+    if (line.json) this.structured++;
+    if (this.items.length < this.capacity) {
+      this.items.push(line);
+      return;
+    }
+    this.kinds[this.items[this.start].kind]--;
+    if (this.items[this.start].json) this.structured--;
+    this.items[this.start] = line;
+    this.start = (this.start + 1) % this.capacity;
+  }
+
+  /** The line `index` places from the oldest held. */
+  at(index: number): LogLine {
+    return this.items[(this.start + index) % this.items.length];
+  }
+
+  /** Oldest first. */
+  toArray(): LogLine[] {
+    return [...this.items.slice(this.start), ...this.items.slice(0, this.start)];
+  }
+
+  /** A ring of the new size holding the newest of these lines. */
+  resized(capacity: number): LogRing {
+    const ring = new LogRing(capacity);
+    for (const line of this.toArray().slice(-capacity)) ring.push(line);
+    ring.pushed = this.pushed;
+    return ring;
+  }
+}
+
+export type LogBuffers = Readonly<Record<string, LogRing>>;
+
+/** Adds a line to its service's ring, creating the ring on first output. */
+export function appendLog(buffers: Record<string, LogRing>, line: LogLine, capacity: number): void {
+  (buffers[line.src] ??= new LogRing(Math.max(1, capacity))).push(line);
+}
+
+/**
+ * Puts older lines in front of whatever each ring already holds, as restoring
+ * at launch does. When a ring would overflow, the restored lines give way.
+ */
+export function prependLogs(buffers: Record<string, LogRing>, lines: LogLine[], capacity: number): void {
+  const bySource = new Map<string, LogLine[]>();
+  for (const line of lines) {
+    const group = bySource.get(line.src);
+    if (group) group.push(line);
+    else bySource.set(line.src, [line]);
+  }
+  for (const [src, older] of bySource) {
+    const ring = new LogRing(Math.max(1, capacity));
+    const current = buffers[src];
+    for (const line of [...older, ...(current?.toArray() ?? [])].slice(-ring.capacity)) ring.push(line);
+    ring.pushed = older.length + (current?.pushed ?? 0);
+    buffers[src] = ring;
+  }
+}
+
+/** Gives every ring a new size, keeping each one's newest lines. */
+export function resizeLogBuffers(buffers: Record<string, LogRing>, capacity: number): void {
+  const size = Math.max(1, capacity);
+  for (const [src, ring] of Object.entries(buffers)) {
+    if (ring.capacity !== size) buffers[src] = ring.resized(size);
+  }
+}
+
+function before(a: LogLine, b: LogLine): boolean {
+  return a.at < b.at || (a.at === b.at && a.seq < b.seq);
+}
+
+/** Lines in order that merging reads from: a ring, or the newest part of one. */
+interface LogRun {
+  readonly size: number;
+  at(index: number): LogLine;
+}
+
+/** The newest `count` lines of a ring. */
+function newestOf(ring: LogRing, count: number): LogRun {
+  const offset = ring.size - count;
+  return { size: count, at: index => ring.at(offset + index) };
+}
+
+/** Runs already in order, merged head to head rather than sorted. */
+function mergeRuns(runs: LogRun[]): LogLine[] {
+  const heads = runs.map(() => 0);
+  const total = runs.reduce((sum, run) => sum + run.size, 0);
+  const merged: LogLine[] = new Array(total);
+  for (let out = 0; out < total; out++) {
+    let pick = -1;
+    for (let index = 0; index < runs.length; index++) {
+      if (heads[index] >= runs[index].size) continue;
+      if (pick === -1 || before(runs[index].at(heads[index]), runs[pick].at(heads[pick]))) pick = index;
+    }
+    merged[out] = runs[pick].at(heads[pick]++);
+  }
+  return merged;
+}
+
+/** The lines of the given sources as one stream ordered by time. */
+export function mergeLogBuffers(buffers: LogBuffers, sources: Iterable<string>): LogLine[] {
+  const rings = [...new Set(sources)].map(src => buffers[src]).filter((ring): ring is LogRing => ring != null && ring.size > 0);
+  if (rings.length === 1) return rings[0].toArray();
+  return mergeRuns(rings);
+}
+
+/** Lines ever dropped from these rings to make room. */
+function droppedFrom(rings: LogRing[]): number {
+  return rings.reduce((sum, ring) => sum + ring.pushed - ring.size, 0);
+}
+
+export interface StreamedLogs {
+  /** Oldest first. */
+  readonly lines: readonly LogLine[];
+  /**
+   * Changes whenever the lines are rebuilt or thinned rather than added to, so
+   * the lines of one generation always begin with those of any earlier one.
+   */
+  readonly generation: number;
+}
+
+let nextGeneration = 0;
+
+/**
+ * Some sources' lines merged into one stream and filtered, kept current as
+ * their rings fill. Redoing both over every held line each time output arrives
+ * is more than the Logs view can afford at a few hundred thousand lines, so
+ * each `sync` merges and tests only what arrived since the one before.
+ *
+ * Lines a ring has dropped are taken out in batches, once they add up to an
+ * eighth of the stream, so until then it can list a few more old lines than
+ * the rings still hold.
+ */
+export class LogStream {
+  private view: StreamedLogs = { lines: [], generation: nextGeneration++ };
+  private rings: LogRing[] = [];
+  /** Each ring's `pushed` when it was last read. */
+  private taken: number[] = [];
+  /** Lines dropped from the rings when the stream was last thinned. */
+  private dropped = 0;
+  private newest: LogLine | undefined;
+
+  constructor(readonly sources: readonly string[], readonly keep: (line: LogLine) => boolean) {}
+
+  /** Whether this stream already is the one for these sources and this filter. */
+  follows(sources: readonly string[], keep: (line: LogLine) => boolean): boolean {
+    return keep === this.keep && sources.length === this.sources.length && sources.every((src, index) => src === this.sources[index]);
+  }
+
+  /** Brings in what the rings received since the last call. The result is a new object only when something changed. */
+  sync(buffers: LogBuffers): StreamedLogs {
+    const rings = this.sources.map(src => buffers[src]).filter((ring): ring is LogRing => ring != null);
+    // A ring replaced by a resize or a restore, or one that turned over entirely
+    // since the last look, leaves nothing to build on.
+    const fresh = rings.map((ring, index) => (this.rings[index] === ring ? ring.pushed - this.taken[index] : -1));
+    if (rings.length !== this.rings.length || fresh.some((count, index) => count < 0 || count > rings[index].size)) {
+      return this.rebuild(rings);
+    }
+    if (fresh.every(count => count === 0)) return this.view;
+
+    const arrived = mergeRuns(rings.map((ring, index) => newestOf(ring, fresh[index])));
+    // Only a clock stepping back can sort new output before old; start over then.
+    if (this.newest && before(arrived[0], this.newest)) return this.rebuild(rings);
+    this.taken = rings.map(ring => ring.pushed);
+    this.newest = arrived[arrived.length - 1];
+
+    const kept = arrived.filter(this.keep);
+    let { lines, generation } = this.view;
+    if (kept.length > 0) lines = lines.concat(kept);
+    const dropped = droppedFrom(rings);
+    if ((dropped - this.dropped) * 8 > lines.length) {
+      lines = lines.filter((line) => {
+        const ring = buffers[line.src];
+        return ring != null && ring.size > 0 && !before(line, ring.at(0));
+      });
+      this.dropped = dropped;
+      generation = nextGeneration++;
+    }
+    if (lines !== this.view.lines) this.view = { lines, generation };
+    return this.view;
+  }
+
+  private rebuild(rings: LogRing[]): StreamedLogs {
+    const all = mergeRuns(rings);
+    this.rings = rings;
+    this.taken = rings.map(ring => ring.pushed);
+    this.dropped = droppedFrom(rings);
+    this.newest = all[all.length - 1];
+    this.view = { lines: all.filter(this.keep), generation: nextGeneration++ };
+    return this.view;
+  }
+}
+
+/** How many lines of each kind the given sources hold, read off their rings. */
+export function logLevelCounts(buffers: LogBuffers, sources: Iterable<string>): Record<LogLine['kind'], number> {
+  const counts: Record<LogLine['kind'], number> = { error: 0, warn: 0, ok: 0, info: 0 };
+  for (const src of new Set(sources)) {
+    const ring = buffers[src];
+    if (!ring) continue;
+    for (const kind of Object.keys(counts) as Array<LogLine['kind']>) counts[kind] += ring.kinds[kind];
+  }
+  return counts;
+}
+
+/**
+ * Whether a service logs JSON: at least half of what it currently holds is.
+ * Counting what is held rather than what came first lets a service that prints
+ * a plain banner before its logger starts still be detected.
+ */
+export function isJsonSource(ring: LogRing | undefined): boolean {
+  return ring != null && ring.structured > 0 && ring.structured * 2 >= ring.size;
+}
+
+/** Lines ever received across all services, for anything that reacts to activity. */
+export function logActivity(buffers: LogBuffers): number {
+  return Object.values(buffers).reduce((sum, ring) => sum + ring.pushed, 0);
+}
+
+/** Error lines currently held across all services. */
+export function logErrorCount(buffers: LogBuffers): number {
+  return Object.values(buffers).reduce((sum, ring) => sum + ring.errors, 0);
+}
@@ -0,0 +1,54 @@
+/**
+ * Turning persisted run logs back into Logs view lines.
+ *
+ * The live stream lives in memory, so a relaunch used to open on an empty Logs
+ * view even though every run's output was sitting on disk. On launch the backend
+ * hands back the tail of each service's recent runs; this shapes them into the
+ * same lines the live stream pushes, tagged with the launch that wrote them so
+ * the view can mark where one launch of Hub ends and the next begins.
+ *
+ * Run logs keep the text of each line and nothing else, so restored output has
+ * no per-line time or stream and reads as plain info, unless it is a logger's
+ * JSON and says otherwise.
+ */
+import type { LogRetention } from './generated/LogRetention';
+import type { RestoredLogs } from './generated/RestoredLogs';
+import { DEFAULT_LIVE_LOG_LINES, logLine } from './log-buffers';
+import { withJsonLog } from './json-logs';
+import type { LogLine } from './types';
+
+/** Matches the backend's defaults for configs saved before retention existed. */
+export const DEFAULT_LOG_RETENTION: LogRetention = { lines_per_service: 1000, days: 7, live_lines_per_service: DEFAULT_LIVE_LOG_LINES };
+
+/** The clock time shown beside a line, to the millisecond. */
+export function logTimestamp(at: Date): string {
+  return at.toLocaleTimeString('en-GB', { hour12: false }).slice(0, 8) + '.' + String(at.getMilliseconds()).padStart(3, '0');
+}
+
+/**
+ * Each run becomes its command line, stamped with when it started, followed by
+ * its output. Runs from this same launch, which only happens when the window is
+ * reloaded, carry no `appSession` and so join the live stream without a divider.
+ * Every line is placed at its run's start for merging, the only time known.
+ */
+export function restoredLogLines(restored: RestoredLogs): LogLine[] {
+  return restored.runs.flatMap(({ run, lines, truncated }) => {
+    const appSession = run.app_session_ms === restored.app_session_ms ? undefined : run.app_session_ms ?? 0;
+    const line = (ts: string, msg: string) => logLine(run.service_id, msg, 'info', run.started_at_ms, ts, appSession);
+    return [
+      line(logTimestamp(new Date(run.started_at_ms)), `> ${run.cmd}`),
+      ...(truncated ? [line('', '… earlier lines of this run are not shown')] : []),
+      ...lines.map(text => withJsonLog(line('', text))),
+    ];
+  });
+}
+
+/**
+ * The divider shown above the first line of a launch. Zero stands for runs
+ * recorded before launches were, which cannot be told apart from each other.
+ */
+export function appSessionLabel(appSession: number | undefined): string {
+  if (appSession === undefined) return 'This session';
+  if (appSession === 0) return 'Earlier sessions';
+  return `Session from ${new Date(appSession).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}`;
+}
@@ -0,0 +1,60 @@
+/**
+ * Which rows of a long log to put in the DOM.
+ *
+ * The Logs view renders only the lines in and near the viewport, with spacers
+ * standing in for the rest. Lines wrap, so rows differ in height: each is
+ * assumed to be one line tall until it has been rendered and measured, and the
+ * offsets are recomputed as measurements come in.
+ */
+
+/** One line of 11.5px monospace at the log body's line height. */
+export const LOG_ROW_HEIGHT = 18;
+
+/**
+ * Running totals of row heights: entry `i` is where row `i` starts, and the
+ * last entry is the height of everything.
+ *
+ * `reuse` carries offsets worked out before for the same leading rows, which
+ * are copied up to row `from` rather than summed again. Tailing a log adds rows
+ * at the end, so usually only those are new.
+ */
+export function rowOffsets(
+  count: number,
+  heightOf: (index: number) => number,
+  reuse?: { offsets: Float64Array; from: number },
+): Float64Array {
+  const offsets = new Float64Array(count + 1);
+  const from = reuse ? Math.max(0, Math.min(reuse.from, count, reuse.offsets.length - 1)) : 0;
+  if (reuse) offsets.set(reuse.offsets.subarray(0, from + 1));
+  for (let index = from; index < count; index++) offsets[index + 1] = offsets[index] + heightOf(index);
+  return offsets;
+}
+
+/** The last row starting at or above `y`. */
+function rowAt(offsets: Float64Array, y: number): number {
+  let low = 0;
+  let high = offsets.length - 2;
+  while (low < high) {
+    const middle = (low + high + 1) >> 1;
+    if (offsets[middle] <= y) low = middle;
+    else high = middle - 1;
+  }
+  return Math.max(0, low);
+}
+
+/**
+ * The rows from `start` up to but not including `end` that cover the viewport,
+ * plus `overscan` pixels either side so a quick scroll does not show blanks.
+ */
+export function visibleRows(
+  offsets: Float64Array,
+  scrollTop: number,
+  viewportHeight: number,
+  overscan: number,
+): { start: number; end: number } {
+  const count = offsets.length - 1;
+  if (count <= 0) return { start: 0, end: 0 };
+  const start = rowAt(offsets, scrollTop - overscan);
+  const end = Math.min(count, rowAt(offsets, scrollTop + viewportHeight + overscan) + 1);
+  return { start, end };
+}
@@ -5,6 +5,7 @@ import '@fontsource-variable/geist';
 import '@fontsource/jetbrains-mono/400.css';
 import '@fontsource/jetbrains-mono/500.css';
 import '@fontsource/jetbrains-mono/600.css';
+import '@xterm/xterm/css/xterm.css';
 import './styles.css';
 
 createRoot(document.getElementById('root')!).render(
@@ -0,0 +1,113 @@
+import React from 'react';
+import { Ic } from './icons';
+import type { ManifestImport } from './tauri-api';
+
+interface ManifestImportDialogProps {
+  result: ManifestImport;
+  defaultName: string;
+  onCancel: () => void;
+  onCreate: (choice: { name: string; included: string[] }) => void;
+}
+
+function relativeTo(directory: string, path: string) {
+  if (path === directory) return '.';
+  return path.startsWith(`${directory}/`) ? path.slice(directory.length + 1) : path;
+}
+
+/**
+ * The review step of an import. Every process the file declared is listed
+ * with what was filled in for it, next to whatever could not be carried over,
+ * so nothing is dropped without being seen.
+ */
+export function ManifestImportDialog({ result, defaultName, onCancel, onCreate }: ManifestImportDialogProps) {
+  const [name, setName] = React.useState(defaultName);
+  const [included, setIncluded] = React.useState(() => result.services.map(imported => imported.service.id));
+  const general = result.notes.filter(note => !note.service);
+
+  function toggle(id: string, checked: boolean) {
+    setIncluded(current => checked
+      ? result.services.map(imported => imported.service.id).filter(item => item === id || current.includes(item))
+      : current.filter(item => item !== id));
+  }
+
+  return (
+    <div className="manifest-import-backdrop">
+      <div
+        className="panel manifest-import"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="manifest-import-title"
+      >
+        <div className="panel-head">
+          <div>
+            <div className="eyebrow" style={{ marginBottom: 4 }}>Import</div>
+            <div id="manifest-import-title" style={{ color: 'var(--fg-1)', fontSize: 16, fontWeight: 650 }}>
+              {result.source} as a workspace
+            </div>
+            <div className="mono" style={{ color: 'var(--fg-4)', fontSize: 11, marginTop: 5 }}>{result.directory}</div>
+          </div>
+        </div>
+
+        <div className="manifest-import-body">
+          <label className="manifest-import-name">
+            <span className="eyebrow">Workspace name</span>
+            <input className="input" aria-label="Workspace name" value={name} onChange={event => setName(event.target.value)} />
+          </label>
+
+          {result.services.length === 0 ? (
+            <div style={{ color: 'var(--fg-4)', fontSize: 12 }}>No processes could be imported from this file.</div>
+          ) : result.services.map(({ service, env }) => {
+            const notes = result.notes.filter(note => note.service === service.id);
+            return (
+              <div key={service.id} className="ws-card manifest-import-service">
+                <label className="manifest-import-row">
+                  <input
+                    type="checkbox"
+                    aria-label={`Include ${service.name}`}
+                    checked={included.includes(service.id)}
+                    onChange={event => toggle(service.id, event.target.checked)}
+                  />
+                  <span className="name">{service.name}</span>
+                  {service.expected_port != null && <span className="tag">:{service.expected_port}</span>}
+                  {env.length > 0 && (
+                    <span className="tag" title={env.map(variable => variable.key).join(', ')}>
+                      {env.length} {env.length === 1 ? 'variable' : 'variables'}
+                    </span>
+                  )}
+                  {service.depends_on.length > 0 && (
+                    <span className="manifest-import-meta">after {service.depends_on.join(', ')}</span>
+                  )}
+                </label>
+                <div className="mono manifest-import-cmd">
+                  {relativeTo(result.directory, service.repo_path)} $ {service.cmd}
+                </div>
+                {notes.length > 0 && (
+                  <ul className="manifest-import-notes" aria-label={`${service.name} needs review`}>
+                    {notes.map(note => <li key={note.message}>{note.message}</li>)}
+                  </ul>
+                )}
+              </div>
+            );
+          })}
+
+          {general.length > 0 && (
+            <ul className="manifest-import-notes" aria-label={`${result.source} needs review`}>
+              {general.map(note => <li key={note.message}>{note.message}</li>)}
+            </ul>
+          )}
+        </div>
+
+        <div className="manifest-import-foot">
+          <button className="btn sm ghost" onClick={onCancel}>Cancel</button>
+          <button
+            className="btn sm primary"
+            disabled={included.length === 0 || !name.trim()}
+            onClick={() => onCreate({ name: name.trim(), included })}
+          >
+            <Ic.Plus size={10} /> Create workspace
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import type { EnvProfile, StoredWorkspace } from './types';
+import type { ManifestImport } from './tauri-api';
+import { EMPTY_HOOKS } from './hooks';
+
+/** Files the scanner lists in `manifests` that an import can read. */
+export const PROCESS_MANIFESTS = [
+  'Procfile',
+  'compose.yaml',
+  'compose.yml',
+  'docker-compose.yaml',
+  'docker-compose.yml',
+  'ecosystem.config.js',
+  'ecosystem.config.cjs',
+  'ecosystem.config.json',
+];
+
+export function processManifestsOf(repo: { manifests: string[] }): string[] {
+  return repo.manifests.filter(name => PROCESS_MANIFESTS.includes(name));
+}
+
+interface DraftOptions {
+  name: string;
+  color: string;
+  /** Names of the processes to keep; the rest are left out. */
+  included: string[];
+  /** Seeds the ids, which must not collide with anything already saved. */
+  stamp: number;
+}
+
+/**
+ * Turns a reviewed import into a workspace, plus an environment profile for
+ * each service the file gave variables to. The file's process names become
+ * fresh ids, and a dependency on a process that was left out is dropped
+ * rather than left pointing at nothing.
+ */
+export function draftWorkspace(
+  result: ManifestImport,
+  { name, color, included, stamp }: DraftOptions,
+): { workspace: StoredWorkspace; envProfiles: EnvProfile[] } {
+  const kept = result.services.filter(imported => included.includes(imported.service.id));
+  const ids = new Map(kept.map((imported, index) => [imported.service.id, `svc-${stamp}-${index}`]));
+  const envProfiles: EnvProfile[] = [];
+  const services = kept.map((imported, index) => {
+    const { service } = imported;
+    let envProfileId: string | null = null;
+    if (imported.env.length > 0) {
+      envProfileId = `env-${stamp}-${index}`;
+      envProfiles.push({
+        id: envProfileId,
+        project_path: service.repo_path,
+        name: `${service.name} (${result.source})`,
+        description: `Imported from ${result.source}`,
+        is_default: false,
+        vars: imported.env,
+      });
+    }
+    return {
+      ...service,
+      id: ids.get(service.id)!,
+      depends_on: service.depends_on.flatMap(id => ids.has(id) ? [ids.get(id)!] : []),
+      env_profile_id: envProfileId,
+    };
+  });
+  return {
+    workspace: {
+      id: `ws-${stamp}`,
+      name,
+      color,
+      services,
+      hooks: EMPTY_HOOKS,
+      profiles: [],
+      definition_path: null,
+    },
+    envProfiles,
+  };
+}
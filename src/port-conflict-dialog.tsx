@@ -2,11 +2,13 @@ import React from 'react';
 import { Ic } from './icons';
 import type { LivePort } from './tauri-api';
 
-export type PortConflictDecision = 'cancel' | 'terminate' | 'force';
+export type PortConflictDecision = 'cancel' | 'terminate' | 'force' | 'reassign';
 
 interface PortConflictDialogProps {
   conflicts: LivePort[];
   onDecide: (decision: PortConflictDecision) => void;
+  /** Offers moving the clashing services to free ports, which only a saved service can remember. */
+  canReassign?: boolean;
 }
 
 function ownerLabel(conflict: LivePort) {
@@ -16,7 +18,7 @@ function ownerLabel(conflict: LivePort) {
   return 'Unknown process';
 }
 
-export function PortConflictDialog({ conflicts, onDecide }: PortConflictDialogProps) {
+export function PortConflictDialog({ conflicts, onDecide, canReassign = false }: PortConflictDialogProps) {
   const knownOwners = new Set(
     conflicts.map(conflict => conflict.pid).filter((pid): pid is number => pid != null),
   );
@@ -78,6 +80,15 @@ export function PortConflictDialog({ conflicts, onDecide }: PortConflictDialogPr
             >
               <Ic.Stop size={10} /> Stop {knownOwners.size === 1 ? 'owner' : 'owners'} & retry
             </button>
+            {canReassign && (
+              <button
+                className="btn sm primary"
+                title="Start on the next free port instead, passed as PORT and to any --port flag, and keep using it from now on."
+                onClick={() => onDecide('reassign')}
+              >
+                <Ic.Ports size={10} /> Use a free port
+              </button>
+            )}
             <button className="btn sm ghost" onClick={() => onDecide('force')}>
               <Ic.Play size={10} /> Start anyway
             </button>
@@ -0,0 +1,46 @@
+/**
+ * Edges on the ports map, built up from connection samples.
+ *
+ * Each live poll samples the TCP connections open at that instant, and most
+ * dev traffic is short requests that are only open between two polls now and
+ * then. An edge therefore outlives the sample that found it: it stays active
+ * for a couple of polls, then fades out over a minute instead of flickering
+ * away the moment one sample misses it.
+ */
+import type { PortConnection } from './generated/PortConnection';
+import type { PortEdge } from './types';
+
+/** An edge seen within this long is drawn as live traffic. */
+export const EDGE_ACTIVE_MS = 12 * 1000;
+
+/** An edge unseen for this long is gone from the map. */
+export const EDGE_FADE_MS = 60 * 1000;
+
+const edgeKey = (edge: Pick<PortEdge, 'from' | 'to'>) => `${edge.from}>${edge.to}`;
+
+/**
+ * Folds one sample into the edges, refreshing the ones it saw and dropping
+ * those that have faded out. Node ids match the `p-<port>` ids of map nodes.
+ */
+export function recordConnections(edges: PortEdge[], connections: PortConnection[], now: number): PortEdge[] {
+  const next = new Map<string, PortEdge>();
+  edges.forEach(edge => {
+    if (now - edge.lastSeen < EDGE_FADE_MS) next.set(edgeKey(edge), edge);
+  });
+  connections.forEach(connection => {
+    const edge = { from: `p-${connection.from_port}`, to: `p-${connection.to_port}`, lastSeen: now };
+    next.set(edgeKey(edge), edge);
+  });
+  return [...next.values()];
+}
+
+export function isEdgeActive(edge: PortEdge, now: number): boolean {
+  return now - edge.lastSeen < EDGE_ACTIVE_MS;
+}
+
+/** Full strength while active, then falling linearly to nothing at `EDGE_FADE_MS`. */
+export function edgeOpacity(edge: PortEdge, now: number): number {
+  const quiet = now - edge.lastSeen - EDGE_ACTIVE_MS;
+  if (quiet <= 0) return 1;
+  return Math.max(0, 1 - quiet / (EDGE_FADE_MS - EDGE_ACTIVE_MS));
+}
@@ -1,6 +1,9 @@
+import type { PortAssignment } from './types';
 import type { ServiceEnvironment } from './tauri-api';
 
 const PORT_KEYS = new Set(['PORT']);
+/** Keys such as `API_PORT` whose whole value is a port number. */
+const PORT_KEY_SUFFIX = /PORT$/i;
 const EXPLICIT_PORT_PATTERN = /(?:^|\s)--port(?:=|\s+)(\d{1,5})(?=\s|$)/g;
 
 function validPort(value: unknown): number | null {
@@ -30,3 +33,58 @@ export function deriveExpectedPorts(
 
   return [...ports].sort((left, right) => left - right);
 }
+
+/**
+ * A launch with its assigned port swapped in: `PORT` is set to it, every
+ * `--port` value the preflight recognises is rewritten, and it becomes the
+ * expected port. Without an assignment everything passes through untouched.
+ */
+export function withPortAssignment(
+  command: string,
+  environment: ServiceEnvironment,
+  configuredPort: number | null | undefined,
+  assignment: PortAssignment | null | undefined,
+): { command: string; environment: ServiceEnvironment; expectedPort: number | null } {
+  if (!assignment) return { command, environment, expectedPort: configuredPort ?? null };
+  const port = String(assignment.port);
+  return {
+    command: command.replace(EXPLICIT_PORT_PATTERN, (match, value: string) => match.slice(0, -value.length) + port),
+    environment: {
+      ...environment,
+      vars: [
+        ...environment.vars.filter(variable => !PORT_KEYS.has(variable.key.toUpperCase())),
+        { key: 'PORT', value: port },
+      ],
+    },
+    expectedPort: assignment.port,
+  };
+}
+
+/**
+ * Points variables that mention a moved port, such as
+ * `API_URL=http://localhost:3000` or `API_PORT=3000`, at where it went. A
+ * service's own `PORT` is left alone; that is its assignment's business.
+ * Returns the keys that changed so the service can be told.
+ */
+export function followMovedPorts(
+  environment: ServiceEnvironment,
+  moved: PortAssignment[],
+): { environment: ServiceEnvironment; changed: string[] } {
+  if (moved.length === 0) return { environment, changed: [] };
+  const targets = new Map(moved.map(({ original, port }) => [String(original), String(port)]));
+  // One pass over every moved port, so a port that moved onto another moved
+  // port's old number is not rewritten twice.
+  const pattern = new RegExp(`(?<=:)(${[...targets.keys()].join('|')})(?!\\d)`, 'g');
+  const changed: string[] = [];
+  const vars = environment.vars.map(variable => {
+    if (PORT_KEYS.has(variable.key.toUpperCase())) return variable;
+    // A bare number is only a port when the key says so; MAX_ITEMS=3000 is not.
+    const bare = PORT_KEY_SUFFIX.test(variable.key) ? targets.get(variable.value.trim()) : undefined;
+    const value = bare
+      ?? variable.value.replace(pattern, original => targets.get(original)!);
+    if (value === variable.value) return variable;
+    changed.push(variable.key);
+    return { ...variable, value };
+  });
+  return { environment: { ...environment, vars }, changed };
+}
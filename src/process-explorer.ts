@@ -0,0 +1,139 @@
+import { EMPTY_HOOKS } from './hooks';
+import { processCommand } from './process-tree';
+import { repoForPath, scriptForCommand } from './project-runtime';
+import { DEFAULT_RESTART_POLICY } from './restart-policy';
+import type { LivePort, ProcessInfo } from './tauri-api';
+import type { Repo, Script, Service, StoredService, StoredWorkspace } from './types';
+
+export type ProcessSort = 'cpu' | 'memory';
+
+export interface ProcessFilters {
+  query: string;
+  sort: ProcessSort;
+  /** Only processes listening on at least one port. */
+  listening: boolean;
+  /** Only processes whose working directory is inside a scanned repo. */
+  inRepo: boolean;
+}
+
+export interface ProcessRow {
+  process: ProcessInfo;
+  command: string;
+  ports: number[];
+  repo: Repo | null;
+  /** The repo script the command line was started from, when one matches. */
+  script: Script | null;
+  /** Whether Hub already runs it, so there is nothing to adopt. */
+  managed: boolean;
+}
+
+/** What adopting a row saves: the repo and the script to start in it. */
+export interface Adoption {
+  repo: Repo;
+  script: Script;
+}
+
+/**
+ * The process table as the Processes view lists it, filtered and sorted
+ * heaviest first. `running` is what Hub itself runs; a process counts as Hub's
+ * when its pid matches one, or when it is the same script in the same folder,
+ * which covers the `vite` a managed `npm run dev` spawned.
+ */
+export function processRows(
+  processes: ProcessInfo[],
+  ports: LivePort[],
+  repos: Repo[],
+  running: Array<Pick<Service, 'pid' | 'repo_path' | 'cmd'>>,
+  filters: ProcessFilters,
+): ProcessRow[] {
+  const portsByPid = new Map<number, number[]>();
+  for (const port of ports) {
+    if (port.pid == null) continue;
+    const held = portsByPid.get(port.pid) ?? [];
+    if (!held.includes(port.port)) held.push(port.port);
+    portsByPid.set(port.pid, held);
+  }
+  const runningPids = new Set(running.map(service => service.pid).filter((pid): pid is number => pid != null));
+  const query = filters.query.trim().toLowerCase();
+
+  return processes
+    .map((process): ProcessRow => {
+      const command = processCommand(process);
+      const repo = repoForPath(repos, process.cwd);
+      const script = repo ? scriptForCommand(repo, command) : null;
+      const managed = runningPids.has(process.pid) || (repo != null && script != null && running.some(service =>
+        service.cmd === script.cmd && service.repo_path != null && repoForPath([repo], service.repo_path) != null
+      ));
+      return {
+        process,
+        command,
+        ports: (portsByPid.get(process.pid) ?? []).sort((left, right) => left - right),
+        repo,
+        script,
+        managed,
+      };
+    })
+    .filter(row => !filters.listening || row.ports.length > 0)
+    .filter(row => !filters.inRepo || row.repo != null)
+    .filter(row => !query || [
+      String(row.process.pid),
+      row.process.name,
+      row.command,
+      row.process.cwd ?? '',
+      row.repo?.name ?? '',
+      ...row.ports.map(port => `:${port}`),
+    ].some(text => text.toLowerCase().includes(query)))
+    .sort((left, right) => {
+      const difference = filters.sort === 'cpu'
+        ? right.process.cpu_usage - left.process.cpu_usage
+        : right.process.memory_kb - left.process.memory_kb;
+      return difference || left.process.pid - right.process.pid;
+    });
+}
+
+/**
+ * The script a row could be saved as, or null when it is not a dev server Hub
+ * recognises: outside every repo, not started from one of the repo's scripts,
+ * or already run by Hub.
+ */
+export function adoptionOf(row: ProcessRow): Adoption | null {
+  if (row.managed || !row.repo || !row.script) return null;
+  return { repo: row.repo, script: row.script };
+}
+
+/** The workspace that already has the adopted script saved, if one does. */
+export function adoptedInto(adoption: Adoption, workspaces: StoredWorkspace[]): StoredWorkspace | null {
+  return workspaces.find(workspace => workspace.services.some(service =>
+    service.cmd === adoption.script.cmd && repoForPath([adoption.repo], service.repo_path) != null
+  )) ?? null;
+}
+
+/**
+ * The workspace service an adopted process becomes. It keeps the port the
+ * process holds now as its expected port, so the next start is checked
+ * against it like any other service.
+ */
+export function adoptedService(adoption: Adoption, ports: number[], name: string, id: string): StoredService {
+  return {
+    id,
+    name: name.trim() || adoption.script.name,
+    repo_path: adoption.repo.path,
+    script: adoption.script.name,
+    cmd: adoption.script.cmd,
+    depends_on: [],
+    run_mode: 'parallel',
+    order: 0,
+    env_profile_id: null,
+    expected_port: ports[0] ?? null,
+    startup_delay_ms: 0,
+    readiness_timeout_ms: 0,
+    http_probe: null,
+    log_readiness: null,
+    restart_policy: DEFAULT_RESTART_POLICY,
+    guardrail: null,
+    file_watch: null,
+    hooks: EMPTY_HOOKS,
+    interactive: false,
+    port_assignment: null,
+  };
+}
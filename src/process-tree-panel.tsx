@@ -0,0 +1,118 @@
+import React from 'react';
+import { Ic } from './icons';
+import { processCommand, processTreeRows, subtreeUsage } from './process-tree';
+import { tauriApi, type ProcessNode } from './tauri-api';
+
+interface ProcessTreePanelProps {
+  pid: number;
+  /** Names the service the tree belongs to, for screen readers. */
+  label: string;
+}
+
+const REFRESH_MS = 5000;
+
+/**
+ * The processes under a service, each with the ports it holds itself, so a
+ * port held by `esbuild` three levels below `pnpm` can be traced and freed.
+ * Refreshes while open, on the same five-second beat as the rest of the app.
+ */
+export function ProcessTreePanel({ pid, label }: ProcessTreePanelProps) {
+  const [tree, setTree] = React.useState<ProcessNode | null | undefined>(undefined);
+  const [collapsed, setCollapsed] = React.useState<Set<number>>(() => new Set());
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    let cancelled = false;
+    const refresh = () => tauriApi.getProcessTree(pid).then(next => {
+      if (!cancelled) setTree(next);
+    });
+    void refresh();
+    const id = setInterval(refresh, REFRESH_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(id);
+    };
+  }, [pid]);
+
+  function toggle(target: number) {
+    setCollapsed(current => {
+      const next = new Set(current);
+      if (next.has(target)) next.delete(target);
+      else next.add(target);
+      return next;
+    });
+  }
+
+  async function kill(node: ProcessNode) {
+    const others = subtreeUsage(node).processes - 1;
+    const scope = others > 0 ? ` and the ${others} process${others === 1 ? '' : 'es'} under it` : '';
+    if (!window.confirm(`Kill ${node.name} (PID ${node.pid})${scope}?`)) return;
+    setError(null);
+    try {
+      await tauriApi.killProcess(node.pid, true);
+    } catch (reason) {
+      setError(`Could not kill PID ${node.pid}: ${String(reason)}`);
+    }
+    setTree(await tauriApi.getProcessTree(pid));
+  }
+
+  const usage = tree ? subtreeUsage(tree) : null;
+
+  return (
+    <div className="process-tree" aria-label={`${label} process tree`}>
+      <div className="process-tree-head">
+        <span className="eyebrow">Processes</span>
+        {usage ? (
+          <span className="mono" style={{ color: 'var(--fg-4)', fontSize: 10.5 }}>
+            {usage.processes} process{usage.processes === 1 ? '' : 'es'} · {usage.cpu.toFixed(1)}% · {Math.round(usage.memoryKb / 1024)} MB
+          </span>
+        ) : null}
+      </div>
+      {error ? <div style={{ color: 'var(--danger)', fontSize: 11.5, padding: '0 12px 8px' }}>{error}</div> : null}
+      {tree === undefined ? (
+        <div className="process-tree-empty">Reading the process table…</div>
+      ) : tree === null ? (
+        <div className="process-tree-empty">PID {pid} has exited.</div>
+      ) : (
+        <>
+          <div className="process-tree-row process-tree-columns">
+            <span>Command</span><span>PID</span><span>CPU</span><span>Memory</span><span>Ports</span><span />
+          </div>
+          {processTreeRows(tree, collapsed).map(({ node, depth, expandable }) => (
+            <div key={node.pid} className="process-tree-row">
+              <span className="process-tree-command" style={{ paddingLeft: depth * 14 }} title={processCommand(node)}>
+                {expandable ? (
+                  <button
+                    type="button"
+                    className="process-tree-toggle"
+                    aria-expanded={!collapsed.has(node.pid)}
+                    aria-label={`${collapsed.has(node.pid) ? 'Expand' : 'Collapse'} PID ${node.pid}`}
+                    onClick={() => toggle(node.pid)}
+                  >
+                    {collapsed.has(node.pid) ? <Ic.Chevron size={10} /> : <Ic.ChevronD size={10} />}
+                  </button>
+                ) : <span className="process-tree-toggle" />}
+                <span className="mono">{processCommand(node)}</span>
+              </span>
+              <span className="mono">{node.pid}</span>
+              <span className="mono">{node.cpu_usage.toFixed(1)}%</span>
+              <span className="mono">{Math.round(node.memory_kb / 1024)} MB</span>
+              <span className="mono" style={{ color: node.ports.length > 0 ? 'var(--blue)' : 'var(--fg-4)' }}>
+                {node.ports.length > 0 ? node.ports.map(port => `:${port}`).join(' ') : '—'}
+              </span>
+              <button
+                type="button"
+                className="btn sm ghost danger"
+                aria-label={`Kill PID ${node.pid}`}
+                title="Kill this process and everything under it"
+                onClick={() => void kill(node)}
+              >
+                <Ic.Close size={10} />
+              </button>
+            </div>
+          ))}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+import type { ProcessNode } from './tauri-api';
+
+export interface ProcessTreeRow {
+  node: ProcessNode;
+  depth: number;
+  /** Whether the row has children hidden by a collapse, or shown. */
+  expandable: boolean;
+}
+
+/** The rows to draw, depth first, leaving out everything under a collapsed pid. */
+export function processTreeRows(root: ProcessNode, collapsed: ReadonlySet<number>): ProcessTreeRow[] {
+  const rows: ProcessTreeRow[] = [];
+  const visit = (node: ProcessNode, depth: number) => {
+    rows.push({ node, depth, expandable: node.children.length > 0 });
+    if (collapsed.has(node.pid)) return;
+    node.children.forEach(child => visit(child, depth + 1));
+  };
+  visit(root, 0);
+  return rows;
+}
+
+/** The command line as launched, or the process name when it cannot be read. */
+export function processCommand(node: Pick<ProcessNode, 'cmd' | 'name'>): string {
+  const cmd = node.cmd.join(' ').trim();
+  return cmd || node.name;
+}
+
+/** CPU, memory and process count for a node and everything under it. */
+export function subtreeUsage(node: ProcessNode): { cpu: number; memoryKb: number; processes: number } {
+  return node.children.reduce(
+    (total, child) => {
+      const usage = subtreeUsage(child);
+      return {
+        cpu: total.cpu + usage.cpu,
+        memoryKb: total.memoryKb + usage.memoryKb,
+        processes: total.processes + usage.processes,
+      };
+    },
+    { cpu: node.cpu_usage, memoryKb: node.memory_kb, processes: 1 },
+  );
+}
@@ -0,0 +1,48 @@
+import type { WorkspaceProfile } from './generated/WorkspaceProfile';
+
+interface ProfileService {
+  id: string;
+  name: string;
+  depends_on?: string[];
+}
+
+/** Workspaces saved before profiles existed have none stored. */
+export function profilesOf(workspace: { profiles?: WorkspaceProfile[] | null }): WorkspaceProfile[] {
+  return workspace.profiles ?? [];
+}
+
+/**
+ * Every service a profile boots: the ones it lists and everything they depend
+ * on, however indirectly, in the workspace's order. An id whose service has
+ * since been removed is skipped rather than failing the boot.
+ */
+export function profileServiceIds(services: ProfileService[], profile: WorkspaceProfile): string[] {
+  const byId = new Map(services.map(service => [service.id, service]));
+  const included = new Set<string>();
+  const include = (id: string) => {
+    const service = byId.get(id);
+    if (!service || included.has(id)) return;
+    included.add(id);
+    (service.depends_on ?? []).forEach(include);
+  };
+  profile.service_ids.forEach(include);
+  return services.filter(service => included.has(service.id)).map(service => service.id);
+}
+
+/** E.g. `web + api, and 1 dependency`, counting what is pulled in separately. */
+export function profileSummary(services: ProfileService[], profile: WorkspaceProfile): string {
+  const listed = services.filter(service => profile.service_ids.includes(service.id));
+  if (listed.length === 0) return 'No services';
+  const pulledIn = profileServiceIds(services, profile).length - listed.length;
+  const names = listed.map(service => service.name).join(' + ');
+  if (pulledIn === 0) return names;
+  return `${names}, and ${pulledIn} ${pulledIn === 1 ? 'dependency' : 'dependencies'}`;
+}
+
+/** Drops a removed service from every profile that listed it. */
+export function withoutService(profiles: WorkspaceProfile[], serviceId: string): WorkspaceProfile[] {
+  return profiles.map(profile => ({
+    ...profile,
+    service_ids: profile.service_ids.filter(id => id !== serviceId),
+  }));
+}
@@ -15,7 +15,7 @@ function pathContains(parent: string, child: string) {
   return normalizedChild === normalizedParent || normalizedChild.startsWith(`${normalizedParent}/`);
 }
 
-function repoForPath(repos: Repo[], path: string | null) {
+export function repoForPath(repos: Repo[], path: string | null) {
   if (!path) return null;
   const direct = repos
     .filter(repo => pathContains(repo.path, path))
@@ -24,12 +24,22 @@ function repoForPath(repos: Repo[], path: string | null) {
   return repos.find(repo => repo.git_root && pathContains(repo.git_root, path)) ?? null;
 }
 
-function scriptForCommand(repo: Repo, command: string) {
+/**
+ * The repo script a command line was started from. `npm run dev` matches on the
+ * script's command; the `vite` it spawns only on the manifest's raw command, so
+ * both are tried and the longest match wins, which tells `vite` from `vite build`.
+ */
+export function scriptForCommand(repo: Repo, command: string): Script | null {
   const normalized = command.toLowerCase();
-  return repo.scripts.find(script =>
-    normalized === script.cmd.toLowerCase()
-    || normalized.includes(script.cmd.toLowerCase())
-  ) ?? null;
+  let best: { script: Script; length: number } | null = null;
+  for (const script of repo.scripts) {
+    for (const candidate of [script.cmd, script.raw_cmd]) {
+      const text = candidate?.trim().toLowerCase();
+      if (!text || !normalized.includes(text)) continue;
+      if (!best || text.length > best.length) best = { script, length: text.length };
+    }
+  }
+  return best?.script ?? null;
 }
 
 export function directProjectServiceId(project: Repo, script: Script) {
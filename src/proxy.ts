@@ -0,0 +1,61 @@
+import type { ProxyStatus } from './tauri-api';
+
+/** Matches `DEFAULT_PROXY_PORT` in proxy.rs. */
+export const DEFAULT_PROXY_PORT = 1355;
+
+/**
+ * One DNS label from a service or workspace name. Mirrors `hostname_label` in
+ * proxy.rs, so the names shown here are the ones the proxy routes.
+ */
+export function hostnameLabel(name: string): string {
+  const label = name
+    .replace(/[^A-Za-z0-9]+/g, '-')
+    .toLowerCase()
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 63)
+    .replace(/-+$/, '');
+  return label || 'unnamed';
+}
+
+export function proxyHostname(workspaceName: string, serviceName: string): string {
+  return `${hostnameLabel(serviceName)}.${hostnameLabel(workspaceName)}.localhost`;
+}
+
+/**
+ * Service id to hostname for every saved service. When two names reduce to
+ * the same hostname the first keeps it and the other gets none, as in the
+ * backend's route table.
+ */
+export function proxyRoutes(
+  workspaces: { name: string; services: { id: string; name: string }[] }[],
+): Map<string, string> {
+  const routes = new Map<string, string>();
+  const taken = new Set<string>();
+  workspaces.forEach(workspace => workspace.services.forEach(service => {
+    const hostname = proxyHostname(workspace.name, service.name);
+    if (taken.has(hostname)) return;
+    taken.add(hostname);
+    routes.set(service.id, hostname);
+  }));
+  return routes;
+}
+
+/**
+ * The port a service's hostname leads to: the one in the first URL it
+ * announced, or else the lowest it listens on.
+ */
+export function servedPort(runtime: { ports: number[]; urls: string[] }): number | null {
+  for (const url of runtime.urls) {
+    try {
+      const port = Number(new URL(url).port);
+      if (port > 0) return port;
+    } catch {
+      // Not a URL; the next one may be.
+    }
+  }
+  return runtime.ports[0] ?? null;
+}
+
+export function proxyUrl(status: ProxyStatus, hostname: string): string {
+  return status.port === 80 ? `http://${hostname}` : `http://${hostname}:${status.port}`;
+}
@@ -0,0 +1,136 @@
+import type { ResourceSample } from './resource-history';
+import { contiguousRuns, memoryTrend, RESOURCE_HISTORY_WINDOW_MS } from './resource-history';
+
+type Metric = 'cpu' | 'memoryMb';
+
+const METRIC_COLORS: Record<Metric, string> = {
+  cpu: 'var(--blue)',
+  memoryMb: 'var(--warm)',
+};
+
+/** The lowest top of scale, so an idle service draws a flat line near the floor rather than noise blown up to full height. */
+const METRIC_FLOORS: Record<Metric, number> = {
+  cpu: 5,
+  memoryMb: 64,
+};
+
+function formatMetric(metric: Metric, value: number) {
+  return metric === 'cpu' ? `${value.toFixed(1)}%` : `${Math.round(value)} MB`;
+}
+
+function formatSpan(ms: number) {
+  const minutes = Math.round(ms / 60_000);
+  return minutes < 1 ? 'under a minute' : `${minutes} min`;
+}
+
+/** One polyline point list per unbroken run of samples, scaled into the box. */
+function plot(
+  samples: ResourceSample[],
+  metric: Metric,
+  width: number,
+  height: number,
+  start: number,
+  end: number,
+) {
+  const peak = Math.max(METRIC_FLOORS[metric], ...samples.map(sample => sample[metric]));
+  const span = Math.max(1, end - start);
+  return contiguousRuns(samples).map(run => run.map(sample => {
+    const x = ((sample.at - start) / span) * width;
+    const y = height - (sample[metric] / peak) * (height - 2) - 1;
+    return `${x.toFixed(1)},${y.toFixed(1)}`;
+  }).join(' '));
+}
+
+interface ResourceSparklineProps {
+  samples: ResourceSample[];
+  metric: Metric;
+  label: string;
+}
+
+/** A row-sized trend over whatever history exists, oldest sample at the left edge. */
+export function ResourceSparkline({ samples, metric, label }: ResourceSparklineProps) {
+  if (samples.length < 2) return null;
+  const w = 48, h = 14;
+  const last = samples[samples.length - 1];
+  const peak = Math.max(...samples.map(sample => sample[metric]));
+  const runs = plot(samples, metric, w, h, samples[0].at, last.at);
+  return (
+    <svg
+      role="img"
+      aria-label={label}
+      width={w}
+      height={h}
+      viewBox={`0 0 ${w} ${h}`}
+      preserveAspectRatio="none"
+    >
+      <title>{`${formatMetric(metric, last[metric])} now, ${formatMetric(metric, peak)} peak over ${formatSpan(last.at - samples[0].at)}`}</title>
+      {runs.map((points, index) => (
+        <polyline
+          key={index}
+          points={points}
+          fill="none"
+          stroke={METRIC_COLORS[metric]}
+          strokeWidth="1.2"
+          strokeLinejoin="round"
+        />
+      ))}
+    </svg>
+  );
+}
+
+interface ResourceChartProps {
+  samples: ResourceSample[];
+  metric: Metric;
+  title: string;
+}
+
+/**
+ * The full half-hour window with now at the right edge, so a service started five
+ * minutes ago fills only the last sixth and gaps show where nothing was measured.
+ */
+export function ResourceChart({ samples, metric, title }: ResourceChartProps) {
+  const w = 320, h = 72;
+  const last = samples[samples.length - 1];
+  const peak = samples.length > 0 ? Math.max(...samples.map(sample => sample[metric])) : 0;
+  const trend = metric === 'memoryMb' ? memoryTrend(samples) : null;
+  const runs = last ? plot(samples, metric, w, h, last.at - RESOURCE_HISTORY_WINDOW_MS, last.at) : [];
+  return (
+    <div aria-label={title} style={{ minWidth: 0 }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', gap: 8, fontFamily: 'var(--font-mono)', fontSize: 10.5, color: 'var(--fg-3)', marginBottom: 4 }}>
+        <span>{title}</span>
+        <span>
+          {last ? (
+            <>
+              <span style={{ color: 'var(--fg-1)' }}>{formatMetric(metric, last[metric])}</span>
+              {' · peak '}{formatMetric(metric, peak)}
+              {trend && trend.growthMb >= 1 ? ` · +${Math.round(trend.growthMb)} MB in ${formatSpan(trend.spanMs)}` : ''}
+            </>
+          ) : 'no samples yet'}
+        </span>
+      </div>
+      <svg
+        width="100%"
+        height={h}
+        viewBox={`0 0 ${w} ${h}`}
+        preserveAspectRatio="none"
+        style={{ display: 'block', background: 'var(--bg-inset)', borderRadius: 4 }}
+      >
+        {runs.map((points, index) => (
+          <polyline
+            key={index}
+            points={points}
+            fill="none"
+            stroke={METRIC_COLORS[metric]}
+            strokeWidth="1.4"
+            strokeLinejoin="round"
+            vectorEffect="non-scaling-stroke"
+          />
+        ))}
+      </svg>
+      <div style={{ display: 'flex', justifyContent: 'space-between', fontFamily: 'var(--font-mono)', fontSize: 9.5, color: 'var(--fg-4)', marginTop: 2 }}>
+        <span>30 min ago</span>
+        <span>now</span>
+      </div>
+    </div>
+  );
+}
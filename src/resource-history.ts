@@ -0,0 +1,106 @@
+/**
+ * Recent CPU and memory readings per managed service, kept in memory.
+ *
+ * Every poll of `list_managed_services` carries each service's current CPU and
+ * memory, and the runtime state only ever kept the latest, so a dev server
+ * creeping from 300 MB to 3 GB over an afternoon looked fine at every glance.
+ * This keeps the last half hour of readings so the trend is visible too.
+ *
+ * Nothing is persisted: the history is only as old as the window that has been
+ * open, and starts over with the app.
+ */
+import type { ManagedServiceInfo } from './generated/ManagedServiceInfo';
+
+/** How far back the history reaches. Older samples are dropped on the next poll. */
+export const RESOURCE_HISTORY_WINDOW_MS = 30 * 60 * 1000;
+
+/**
+ * A stretch longer than this without a sample is drawn as a gap rather than a
+ * line. Polling runs every five seconds but stops while the window is hidden, and
+ * joining the readings either side would invent a half hour nobody measured.
+ */
+export const RESOURCE_SAMPLE_GAP_MS = 30 * 1000;
+
+/** Guards the bound if polling ever runs far faster than every five seconds. */
+const MAX_SAMPLES_PER_SERVICE = 720;
+
+export interface ResourceSample {
+  /** Milliseconds since the epoch. */
+  at: number;
+  /** Percent of one core, as reported for the whole process tree. */
+  cpu: number;
+  memoryMb: number;
+}
+
+export type ResourceHistory = Record<string, ResourceSample[]>;
+
+/**
+ * Appends one poll's readings and drops whatever has aged out of the window.
+ *
+ * A service that stopped keeps its samples until they age out, so the climb
+ * before a crash is still there to look at afterwards. Returns `history` itself
+ * when nothing changed, so an idle poll does not re-render anything.
+ */
+export function recordResourceSamples(
+  history: ResourceHistory,
+  managed: ManagedServiceInfo[],
+  now: number,
+): ResourceHistory {
+  const cutoff = now - RESOURCE_HISTORY_WINDOW_MS;
+  const next: ResourceHistory = {};
+  let changed = false;
+
+  for (const [serviceId, samples] of Object.entries(history)) {
+    const kept = samples.filter(sample => sample.at >= cutoff);
+    if (kept.length !== samples.length) changed = true;
+    if (kept.length > 0) next[serviceId] = kept.length === samples.length ? samples : kept;
+  }
+
+  for (const service of managed) {
+    const samples = next[service.service_id] ?? [];
+    next[service.service_id] = [
+      ...samples,
+      { at: now, cpu: service.cpu_usage, memoryMb: service.memory_mb },
+    ].slice(-MAX_SAMPLES_PER_SERVICE);
+    changed = true;
+  }
+
+  return changed ? next : history;
+}
+
+/**
+ * Splits samples into runs with no gap longer than `RESOURCE_SAMPLE_GAP_MS`,
+ * so a chart can draw each run as its own line.
+ */
+export function contiguousRuns(samples: ResourceSample[]): ResourceSample[][] {
+  const runs: ResourceSample[][] = [];
+  for (const sample of samples) {
+    const current = runs[runs.length - 1];
+    const previous = current?.[current.length - 1];
+    if (previous && sample.at - previous.at <= RESOURCE_SAMPLE_GAP_MS) {
+      current.push(sample);
+    } else {
+      runs.push([sample]);
+    }
+  }
+  return runs;
+}
+
+export interface MemoryTrend {
+  /** Memory now, less the lowest reading in the window. */
+  growthMb: number;
+  /** How long the history covers, first sample to last. */
+  spanMs: number;
+}
+
+/**
+ * How far memory has climbed within the window. Measured from the lowest
+ * reading rather than the first, so a service that dipped after a garbage
+ * collection and has been climbing since still shows the climb.
+ */
+export function memoryTrend(samples: ResourceSample[]): MemoryTrend | null {
+  if (samples.length < 2) return null;
+  const lowest = Math.min(...samples.map(sample => sample.memoryMb));
+  const last = samples[samples.length - 1];
+  return { growthMb: last.memoryMb - lowest, spanMs: last.at - samples[0].at };
+}
@@ -0,0 +1,22 @@
+import type { RestartMode } from './generated/RestartMode';
+import type { RestartPolicy } from './generated/RestartPolicy';
+
+/** Mirrors `RestartPolicy::default()` in Rust: off, with the backoff ready if it is switched on. */
+export const DEFAULT_RESTART_POLICY: RestartPolicy = {
+  mode: 'never',
+  max_retries: 5,
+  initial_backoff_ms: 1_000,
+  max_backoff_ms: 30_000,
+  reset_after_ms: 60_000,
+};
+
+export const RESTART_MODE_LABELS: Record<RestartMode, string> = {
+  never: 'Never',
+  on_failure: 'On failure',
+  always: 'Always',
+};
+
+/** Services saved before restart policies existed have none stored. */
+export function restartPolicyOf(service: { restart_policy?: RestartPolicy | null }): RestartPolicy {
+  return service.restart_policy ?? DEFAULT_RESTART_POLICY;
+}
@@ -39,7 +39,8 @@ export interface SessionTrack {
   spans: SessionSpan[];
 }
 
-export type SessionEventKind = 'started' | 'exited' | 'failed' | 'stopped' | 'interrupted';
+/** `guardrail` marks a resource ceiling being crossed while the run was live. */
+export type SessionEventKind = 'started' | 'exited' | 'failed' | 'stopped' | 'interrupted' | 'guardrail';
 
 export interface SessionEvent {
   /** Position within the session, 0 to 1. */
@@ -110,6 +111,9 @@ function detailFor(run: RunRecord, kind: SessionEventKind): string {
       return 'stopped from Localhost Hub';
     case 'interrupted':
       return 'still running when Hub last closed';
+    case 'guardrail':
+      // Built from each recorded event's own message instead; this is the fallback.
+      return 'resource ceiling crossed';
   }
 }
 
@@ -182,6 +186,18 @@ function buildSession(runs: RunRecord[], nowMs: number): DerivedSession {
       detail: detailFor(run, 'started'),
     });
 
+    // Every run event so far is a guardrail crossing. The backend already wrote a
+    // readable message for it, naming the ceiling and what was done.
+    for (const event of run.events) {
+      events.push({
+        at: fraction(event.at_ms),
+        atMs: event.at_ms,
+        kind: 'guardrail',
+        serviceId: run.service_id,
+        detail: event.message,
+      });
+    }
+
     if (run.outcome !== 'running') {
       const kind = endKind(run);
       events.push({
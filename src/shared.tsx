@@ -12,10 +12,16 @@ export function StatusDot({ s, style }: StatusDotProps) {
 interface SparklineProps {
   points: number[];
   color?: string;
+  /** Stretches to shade behind the line, as fractions of its width. */
+  bands?: Array<{ from: number; to: number }>;
+  /** Says what the shading means, as the chart's tooltip. */
+  title?: string;
 }
 
-export function Sparkline({ points, color = "var(--blue)" }: SparklineProps) {
+export function Sparkline({ points, color = "var(--blue)", bands = [], title }: SparklineProps) {
   const w = 100, h = 28;
+  // A line needs two points; until then keep the space so the card does not jump.
+  if (points.length < 2) return <svg className="spark" viewBox={`0 0 ${w} ${h}`} preserveAspectRatio="none" />;
   const max = Math.max(...points);
   const min = Math.min(...points);
   const span = Math.max(1, max - min);
@@ -26,6 +32,10 @@ export function Sparkline({ points, color = "var(--blue)" }: SparklineProps) {
   }).join(" ");
   return (
     <svg className="spark" viewBox={`0 0 ${w} ${h}`} preserveAspectRatio="none">
+      {title ? <title>{title}</title> : null}
+      {bands.map((band, i) => (
+        <rect key={i} x={band.from * w} y={0} width={Math.max(0.5, (band.to - band.from) * w)} height={h} fill={color} opacity="0.14" />
+      ))}
       <polyline points={pts} fill="none" stroke={color} strokeWidth="1.4" strokeLinecap="round" strokeLinejoin="round" />
       <polyline points={pts + ` ${w},${h} 0,${h}`} fill={color} opacity="0.08" />
     </svg>
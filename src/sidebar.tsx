@@ -18,6 +18,7 @@ export function Sidebar({ view, setView, ws, setWs, workspaces, runningByWs, onC
     { id: 'github-repos', label: 'GitHub',    icon: <Ic.Branch /> },
     { id: 'health',     label: 'Health',     icon: <Ic.Activity /> },
     { id: 'ports',      label: 'Ports',      icon: <Ic.Ports />,     badge: <span className="badge live">live</span> },
+    { id: 'processes',  label: 'Processes',  icon: <Ic.Cpu /> },
     { id: 'logs',       label: 'Logs',       icon: <Ic.Logs /> },
     { id: 'sessions',   label: 'Sessions',   icon: <Ic.History /> },
     { id: 'history',    label: 'Run history', icon: <Ic.Clock /> },
@@ -0,0 +1,111 @@
+import type { WorkspaceRunMode } from './generated/WorkspaceRunMode';
+
+export interface PlanService {
+  id: string;
+  name: string;
+  depends_on?: string[];
+  run_mode?: WorkspaceRunMode;
+  order?: number;
+}
+
+export type PlanIssue =
+  | { kind: 'unknown'; serviceId: string; dependencyId: string }
+  | { kind: 'self'; serviceId: string }
+  | { kind: 'cycle'; serviceIds: string[] };
+
+export interface StartupPlan {
+  /** Services that start together, in the order the waves run. */
+  waves: string[][];
+  /** Left out of every wave because they wait on a cycle. */
+  stuck: string[];
+  /** The chain the backend adds between sequential services, earlier first. */
+  sequentialEdges: Array<[string, string]>;
+  issues: PlanIssue[];
+}
+
+/**
+ * Mirrors `plan_workspace_services` in workspace.rs, so the preview shows the
+ * waves a boot will actually use: explicit dependencies, plus a chain through
+ * the sequential services by order, with ties broken by list position.
+ *
+ * The backend refuses a plan with any issue. This keeps going instead, leaving
+ * out the offending edges or services, so an editor can show where the
+ * problem is rather than only that there is one.
+ *
+ * `watchedIds` are watched ports, which a boot waits for as each dependent
+ * comes up; they are valid dependencies but never edges between waves.
+ */
+export function planStartup(services: PlanService[], watchedIds: string[] = []): StartupPlan {
+  const watched = new Set(watchedIds);
+  const position = new Map(services.map((service, index) => [service.id, index]));
+  const byPosition = (a: string, b: string) => position.get(a)! - position.get(b)!;
+  const issues: PlanIssue[] = [];
+  const dependencies = new Map<string, Set<string>>();
+
+  services.forEach(service => {
+    const valid = new Set<string>();
+    (service.depends_on ?? []).forEach(dependencyId => {
+      if (dependencyId === service.id) issues.push({ kind: 'self', serviceId: service.id });
+      else if (watched.has(dependencyId)) return;
+      else if (!position.has(dependencyId)) issues.push({ kind: 'unknown', serviceId: service.id, dependencyId });
+      else valid.add(dependencyId);
+    });
+    dependencies.set(service.id, valid);
+  });
+
+  const sequential = services
+    .filter(service => service.run_mode === 'sequential')
+    .sort((a, b) => (a.order ?? 0) - (b.order ?? 0) || byPosition(a.id, b.id));
+  const sequentialEdges: Array<[string, string]> = [];
+  sequential.slice(1).forEach((service, index) => {
+    const previous = sequential[index].id;
+    dependencies.get(service.id)!.add(previous);
+    sequentialEdges.push([previous, service.id]);
+  });
+
+  const remaining = new Map([...dependencies].map(([id, prerequisites]) => [id, new Set(prerequisites)]));
+  const waves: string[][] = [];
+  let ready = [...remaining].filter(([, prerequisites]) => prerequisites.size === 0).map(([id]) => id);
+  while (ready.length > 0) {
+    const wave = ready.sort(byPosition);
+    wave.forEach(id => remaining.delete(id));
+    waves.push(wave);
+    ready = [];
+    remaining.forEach((prerequisites, id) => {
+      wave.forEach(done => prerequisites.delete(done));
+      if (prerequisites.size === 0) ready.push(id);
+    });
+  }
+
+  const stuck = [...remaining.keys()].sort(byPosition);
+  const cyclic = stuck.filter(id => reaches(dependencies, id, id));
+  if (cyclic.length > 0) issues.push({ kind: 'cycle', serviceIds: cyclic });
+  return { waves, stuck, sequentialEdges, issues };
+}
+
+/** Whether `target` can be reached from `from` by following dependencies. */
+function reaches(dependencies: Map<string, Set<string>>, from: string, target: string): boolean {
+  const seen = new Set<string>();
+  const pending = [...(dependencies.get(from) ?? [])];
+  while (pending.length > 0) {
+    const id = pending.pop()!;
+    if (id === target) return true;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    pending.push(...(dependencies.get(id) ?? []));
+  }
+  return false;
+}
+
+/** One line per issue, naming services the way the editor shows them. */
+export function describePlanIssue(issue: PlanIssue, names: Record<string, string>): string {
+  const name = (id: string) => names[id] ?? id;
+  switch (issue.kind) {
+    case 'unknown':
+      return `${name(issue.serviceId)} depends on ${issue.dependencyId}, which is not in this workspace`;
+    case 'self':
+      return `${name(issue.serviceId)} depends on itself`;
+    case 'cycle':
+      return `Dependency cycle between ${issue.serviceIds.map(name).join(', ')}`;
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Machine-wide CPU, memory and load readings, kept while Hub runs.
+ *
+ * `get_system_stats` only ever reports the present, so the Home cards could not
+ * tell a normal afternoon at 60% CPU from a spike that started a minute ago.
+ * Each reading also records what Hub's own services were using at that poll,
+ * which is what lets a busy stretch be put down to them or to something else.
+ *
+ * Like the per-service history in `resource-history.ts`, this is memory only and
+ * starts over with the app.
+ */
+import type { ManagedServiceInfo } from './generated/ManagedServiceInfo';
+import type { SystemStats } from './generated/SystemStats';
+import { RESOURCE_SAMPLE_GAP_MS } from './resource-history';
+
+/** Long enough to compare against fifteen minutes ago with room to spare. */
+export const SYSTEM_HISTORY_WINDOW_MS = 30 * 60 * 1000;
+
+/** Guards the bound if polling ever runs far faster than every five seconds. */
+const MAX_SYSTEM_SAMPLES = 720;
+
+/**
+ * Below this much machine CPU nothing is "the main consumer": one service using
+ * most of an idle machine's 2% is noise, not a finding.
+ */
+const BUSY_CPU_PERCENT = 5;
+
+/** The comparisons each card shows, against the reading this long ago. */
+export const DELTA_WINDOWS = [
+  { label: '5m', ms: 5 * 60 * 1000 },
+  { label: '15m', ms: 15 * 60 * 1000 },
+] as const;
+
+export interface SystemSample {
+  /** Milliseconds since the epoch. */
+  at: number;
+  /** Percent of the whole machine, all cores together. */
+  cpu: number;
+  memoryMb: number;
+  memoryTotalMb: number;
+  /** The one-minute load average. */
+  load: number;
+  /** What Hub's services used, rescaled from per-core to a percent of the machine. */
+  managedCpu: number;
+  managedMemoryMb: number;
+}
+
+export type SystemMetric = 'cpu' | 'memoryMb' | 'load';
+
+/** A stretch of a sparkline, as fractions of its width from 0 to 1. */
+export interface SampleBand {
+  from: number;
+  to: number;
+}
+
+/** Appends one poll's reading and drops whatever has aged out of the window. */
+export function recordSystemSample(
+  history: SystemSample[],
+  stats: SystemStats,
+  managed: ManagedServiceInfo[],
+  now: number,
+): SystemSample[] {
+  const cutoff = now - SYSTEM_HISTORY_WINDOW_MS;
+  const managedCpu = managed.reduce((total, service) => total + service.cpu_usage, 0);
+  const sample: SystemSample = {
+    at: now,
+    cpu: stats.cpu_usage,
+    memoryMb: stats.memory_used_mb,
+    memoryTotalMb: stats.memory_total_mb,
+    load: stats.load_avg[0],
+    managedCpu: managedCpu / Math.max(1, stats.cpu_count),
+    managedMemoryMb: managed.reduce((total, service) => total + service.memory_mb, 0),
+  };
+  return [...history.filter(item => item.at >= cutoff), sample].slice(-MAX_SYSTEM_SAMPLES);
+}
+
+/**
+ * The latest reading less the one taken `agoMs` before it, or null until the
+ * history reaches back that far. A reading more than a poll gap away from the
+ * moment asked for does not count, so a window hidden for ten minutes compares
+ * against nothing rather than against whenever it was last open.
+ */
+export function changeOver(history: SystemSample[], metric: SystemMetric, agoMs: number): number | null {
+  const last = history[history.length - 1];
+  if (!last) return null;
+  const target = last.at - agoMs;
+  let closest: SystemSample | null = null;
+  for (const sample of history) {
+    if (!closest || Math.abs(sample.at - target) < Math.abs(closest.at - target)) closest = sample;
+  }
+  if (!closest || closest === last || Math.abs(closest.at - target) > RESOURCE_SAMPLE_GAP_MS) return null;
+  return last[metric] - closest[metric];
+}
+
+/**
+ * Whether Hub's services were at least half of what the machine was using. Load
+ * has no per-process figure, so it follows CPU.
+ */
+export function managedDominated(sample: SystemSample, metric: SystemMetric): boolean {
+  if (metric === 'memoryMb') return sample.memoryMb > 0 && sample.managedMemoryMb * 2 >= sample.memoryMb;
+  return sample.cpu >= BUSY_CPU_PERCENT && sample.managedCpu * 2 >= sample.cpu;
+}
+
+/**
+ * The stretches of a sparkline drawn one point per sample where Hub's services
+ * dominated. Each sample owns half a step either side, so a single reading still
+ * shows as a sliver rather than nothing.
+ */
+export function managedBands(history: SystemSample[], metric: SystemMetric): SampleBand[] {
+  if (history.length < 2) return [];
+  const step = 1 / (history.length - 1);
+  const bands: SampleBand[] = [];
+  history.forEach((sample, index) => {
+    if (!managedDominated(sample, metric)) return;
+    const from = Math.max(0, (index - 0.5) * step);
+    const to = Math.min(1, (index + 0.5) * step);
+    const previous = bands[bands.length - 1];
+    if (previous && managedDominated(history[index - 1], metric)) previous.to = to;
+    else bands.push({ from, to });
+  });
+  return bands;
+}
@@ -12,7 +12,8 @@
  *   These reject, so the caller surfaces a real error rather than silently
  *   appearing to succeed.
  */
-import type { GitCommitResult, GitDiff, GitNetworkResult, GitRepositoryInfo, GitStatus } from "./types";
+import type { EnvProfile, GitCommitResult, GitDiff, GitNetworkResult, GitRepositoryInfo, GitStatus, StoredWorkspace } from "./types";
+import { DEFAULT_PROXY_PORT } from "./proxy";
 
 // Types owned by the Rust backend.
 //
@@ -25,22 +26,41 @@ import type { DependencyKind } from './generated/DependencyKind';
 import type { DetectedProject } from './generated/DetectedProject';
 import type { EnvFileImport } from './generated/EnvFileImport';
 import type { EnvFileVariable } from './generated/EnvFileVariable';
+import type { FileWatch } from './generated/FileWatch';
 import type { GitHubProjectContext } from './generated/GitHubProjectContext';
 import type { GitHubRepo } from './generated/GitHubRepo';
 import type { HealthSignalState } from './generated/HealthSignalState';
+import type { HookRun } from './generated/HookRun';
+import type { HookStage } from './generated/HookStage';
+import type { ImportedService } from './generated/ImportedService';
+import type { ImportNote } from './generated/ImportNote';
+import type { LanAccess } from './generated/LanAccess';
+import type { LanReachability } from './generated/LanReachability';
+import type { LifecycleHooks } from './generated/LifecycleHooks';
 import type { LivePort } from './generated/LivePort';
+import type { LogRetention } from './generated/LogRetention';
 import type { ManagedServiceInfo } from './generated/ManagedServiceInfo';
+import type { ManifestImport } from './generated/ManifestImport';
 import type { PackageAction } from './generated/PackageAction';
 import type { PackageActionPayload } from './generated/PackageActionPayload';
 import type { PackageActionResult } from './generated/PackageActionResult';
 import type { PackageManager } from './generated/PackageManager';
+import type { PortConnection } from './generated/PortConnection';
 import type { ProcessInfo } from './generated/ProcessInfo';
+import type { ProcessNode } from './generated/ProcessNode';
 import type { ProjectLanguage } from './generated/ProjectLanguage';
 import type { ProjectPackage } from './generated/ProjectPackage';
 import type { ProjectPackages } from './generated/ProjectPackages';
 import type { ProjectTemplate } from './generated/ProjectTemplate';
 import type { RepositoryHealth } from './generated/RepositoryHealth';
+import type { ProxyStatus } from './generated/ProxyStatus';
 import type { RepositoryHealthStatus } from './generated/RepositoryHealthStatus';
+import type { ResourceGuardrail } from './generated/ResourceGuardrail';
+import type { RestartPolicy } from './generated/RestartPolicy';
+import type { RestoredLog } from './generated/RestoredLog';
+import type { RestoredLogs } from './generated/RestoredLogs';
+import type { RunEvent } from './generated/RunEvent';
+import type { RunEventKind } from './generated/RunEventKind';
 import type { RunLog } from './generated/RunLog';
 import type { RunOutcome } from './generated/RunOutcome';
 import type { RunRecord } from './generated/RunRecord';
@@ -48,6 +68,8 @@ import type { SecretBackend } from './generated/SecretBackend';
 import type { ServiceEnvironment } from './generated/ServiceEnvironment';
 import type { ServiceEvent } from './generated/ServiceEvent';
 import type { SystemStats } from './generated/SystemStats';
+import type { TerminalOutput } from './generated/TerminalOutput';
+import type { TerminalSize } from './generated/TerminalSize';
 import type { WorkspaceGroup } from './generated/WorkspaceGroup';
 import type { WorkspaceRunResult } from './generated/WorkspaceRunResult';
 import type { WorkspaceServiceSpec } from './generated/WorkspaceServiceSpec';
@@ -60,22 +82,41 @@ export type {
   DetectedProject,
   EnvFileImport,
   EnvFileVariable,
+  FileWatch,
   GitHubProjectContext,
   GitHubRepo,
   HealthSignalState,
+  HookRun,
+  HookStage,
+  ImportedService,
+  ImportNote,
+  LanAccess,
+  LanReachability,
+  LifecycleHooks,
   LivePort,
+  LogRetention,
   ManagedServiceInfo,
+  ManifestImport,
   PackageAction,
   PackageActionPayload,
   PackageActionResult,
   PackageManager,
+  PortConnection,
   ProcessInfo,
+  ProcessNode,
   ProjectLanguage,
   ProjectPackage,
   ProjectPackages,
   ProjectTemplate,
+  ProxyStatus,
   RepositoryHealth,
   RepositoryHealthStatus,
+  ResourceGuardrail,
+  RestartPolicy,
+  RestoredLog,
+  RestoredLogs,
+  RunEvent,
+  RunEventKind,
   RunLog,
   RunOutcome,
   RunRecord,
@@ -83,6 +124,8 @@ export type {
   ServiceEnvironment,
   ServiceEvent,
   SystemStats,
+  TerminalOutput,
+  TerminalSize,
   WorkspaceGroup,
   WorkspaceRunResult,
   WorkspaceServiceSpec,
@@ -126,14 +169,40 @@ async function action<T>(cmd: string, args?: Record<string, unknown>): Promise<T
 // ── Commands ──────────────────────────────────────────────────────────────────
 
 export const tauriApi = {
-  scanPorts: () => query<LivePort[]>("scan_ports", undefined, []),
+  /** Ports below 1024 are left out unless they are among `watched`. */
+  scanPorts: (watched: number[] = []) => query<LivePort[]>("scan_ports", { watched }, []),
+
+  /** One sample of the connections open between local services right now. */
+  scanPortConnections: () => query<PortConnection[]>("scan_port_connections", undefined, []),
 
   checkPortConflicts: (expectedPorts: number[]) =>
     query<LivePort[]>("check_port_conflicts", { expectedPorts }, []),
 
-  getProcesses: () => query<ProcessInfo[]>("get_processes", undefined, []),
+  /**
+   * Whether a phone on the network can open `url`, read from how its port is
+   * bound at the moment. Takes the direct URL, not a proxy hostname.
+   */
+  lanAccess: (url: string) => action<LanAccess>("lan_access", { url }),
+
+  findFreePort: (taken: number, reserved: number[]) =>
+    action<number>("find_free_port", { taken, reserved }),
+
+  // Settings are saved with the rest of the config; this reports whether the
+  // listener actually came up on the chosen port.
+  proxyStatus: () =>
+    query<ProxyStatus>("proxy_status", undefined, { enabled: false, port: DEFAULT_PROXY_PORT, running: false, error: null }),
 
-  killProcess: (pid: number) => action<void>("kill_process", { pid }),
+  /** Dev tooling by name, or with `all` the whole process table. */
+  getProcesses: (all = false) => query<ProcessInfo[]>("get_processes", { all }, []),
+
+  /**
+   * `subtree` also reaches descendants that moved to process groups of their
+   * own, which signalling `pid`'s group alone would leave running.
+   */
+  killProcess: (pid: number, subtree = false) => action<void>("kill_process", { pid, subtree }),
+
+  /** The process tree under `pid` with each node's own ports, or null once it has exited. */
+  getProcessTree: (pid: number) => query<ProcessNode | null>("get_process_tree", { pid }, null),
 
   startService: (
     serviceId: string,
@@ -142,6 +211,10 @@ export const tauriApi = {
     environment: ServiceEnvironment,
     expectedPorts: number[],
     allowPortConflicts = false,
+    restartPolicy: RestartPolicy | null = null,
+    guardrail: ResourceGuardrail | null = null,
+    fileWatch: FileWatch | null = null,
+    interactive = false,
   ) => action<number>("start_service", {
     serviceId,
     cwd,
@@ -149,6 +222,10 @@ export const tauriApi = {
     environment,
     expectedPorts,
     allowPortConflicts,
+    restartPolicy,
+    guardrail,
+    fileWatch,
+    interactive,
   }),
 
   stopManagedService: (serviceId: string) =>
@@ -157,20 +234,37 @@ export const tauriApi = {
   restartManagedService: (serviceId: string) =>
     action<number>("restart_service", { serviceId }),
 
+  writeServiceTerminal: (serviceId: string, data: string) =>
+    action<void>("write_service_terminal", { serviceId, data }),
+
+  resizeServiceTerminal: (serviceId: string, size: TerminalSize) =>
+    action<void>("resize_service_terminal", { serviceId, size }),
+
+  /** Raw output so far, so a pane opened mid-run starts from a full screen. */
+  readServiceTerminal: (serviceId: string) =>
+    query<string>("read_service_terminal", { serviceId }, ""),
+
   listManagedServices: () =>
     query<ManagedServiceInfo[]>("list_managed_services", undefined, []),
 
-  startWorkspace: (workspaceId: string, workspaceServices: WorkspaceServiceSpec[]) =>
-    action<WorkspaceRunResult>("start_workspace", { workspaceId, workspaceServices }),
+  startWorkspace: (
+    workspaceId: string,
+    workspaceServices: WorkspaceServiceSpec[],
+    workspaceHooks: LifecycleHooks | null = null,
+  ) => action<WorkspaceRunResult>("start_workspace", { workspaceId, workspaceServices, workspaceHooks }),
 
-  stopWorkspace: (workspaceId: string, workspaceServices: WorkspaceStopSpec[]) =>
-    action<WorkspaceRunResult>("stop_workspace", { workspaceId, workspaceServices }),
+  stopWorkspace: (
+    workspaceId: string,
+    workspaceServices: WorkspaceStopSpec[],
+    workspaceHooks: LifecycleHooks | null = null,
+  ) => action<WorkspaceRunResult>("stop_workspace", { workspaceId, workspaceServices, workspaceHooks }),
 
   getSystemStats: () => query<SystemStats>("get_system_stats", undefined, {
     cpu_usage: 0,
     memory_used_mb: 0,
     memory_total_mb: 0,
     load_avg: [0, 0, 0],
+    cpu_count: 0,
   }),
 
   getGitStatus: (path: string) => query<GitStatus | null>("get_git_status", { path }, null),
@@ -238,6 +332,11 @@ export const tauriApi = {
   readRunLog: (runId: string, limit?: number) =>
     query<RunLog>("read_run_log", { runId, limit }, { run_id: runId, lines: [], truncated: false }),
 
+  // Expires runs older than the retention window before reading, so the Logs
+  // view never rehydrates output the user asked Hub to forget.
+  restoreLogs: (retention: LogRetention) =>
+    query<RestoredLogs>("restore_logs", { retention }, { app_session_ms: 0, runs: [] }),
+
   clearRunHistory: () => action<void>("clear_run_history"),
 
   getGitHubProjectContext: (path: string) =>
@@ -252,6 +351,17 @@ export const tauriApi = {
   scanWorkspaceGroups: (roots: string[], maxDepth?: number, ignorePatterns?: string[]) =>
     query<WorkspaceGroup[]>("scan_workspace_groups", { roots, maxDepth, ignorePatterns }, []),
 
+  /** Reads a checked-in `localhost-hub.json`, matching its profile names to `envProfiles`. */
+  readWorkspaceDefinition: (path: string, envProfiles: EnvProfile[]) =>
+    action<StoredWorkspace>("read_workspace_definition", { path, envProfiles }),
+
+  writeWorkspaceDefinition: (workspace: StoredWorkspace, envProfiles: EnvProfile[]) =>
+    action<void>("write_workspace_definition", { workspace, envProfiles }),
+
+  /** Drafts a workspace from a Procfile, Compose file or PM2 ecosystem file, for review. */
+  importProcessManifest: (path: string) =>
+    action<ManifestImport>("import_process_manifest", { path }),
+
   findDefaultWorkspaceRoots: () =>
     query<string[]>("find_default_workspace_roots", undefined, []),
 
@@ -271,6 +381,9 @@ export const tauriApi = {
 
   openUrl: (url: string) => action<void>("open_url", { url }),
 
+  // Any host, unlike openUrl: these are links a service chose to print.
+  openLogLink: (url: string) => action<void>("open_log_link", { url }),
+
   importEnvFile: (path: string) =>
     action<EnvFileImport>("import_env_file", { path }),
 
@@ -284,6 +397,12 @@ export async function listenToServiceEvents(handler: (event: ServiceEvent) => vo
   return mod.listen<ServiceEvent>("service://event", (event) => handler(event.payload));
 }
 
+export async function listenToTerminalOutput(handler: (output: TerminalOutput) => void): Promise<() => void> {
+  if (!isTauri) return () => {};
+  const mod = await import("@tauri-apps/api/event");
+  return mod.listen<TerminalOutput>("service://terminal", (event) => handler(event.payload));
+}
+
 /**
  * Whether the window is on screen, as reported by Rust.
  *
@@ -299,6 +418,19 @@ export async function listenToServiceEvents(handler: (event: ServiceEvent) => vo
  * Outside the desktop application there is always a window, so the fallback reports
  * visible.
  */
+/**
+ * Fires when a desktop notification is clicked, with the services it was about.
+ * Only freedesktop notification servers report clicks, so this is Linux-only in
+ * practice; elsewhere the notification is informational.
+ */
+export async function listenToNotificationClicks(
+  handler: (serviceIds: string[]) => void,
+): Promise<() => void> {
+  if (!isTauri) return () => {};
+  const mod = await import("@tauri-apps/api/event");
+  return mod.listen<string[]>("notification://open-logs", (event) => handler(event.payload));
+}
+
 export async function listenToWindowVisibility(
   handler: (visible: boolean) => void,
 ): Promise<() => void> {
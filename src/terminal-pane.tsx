@@ -0,0 +1,91 @@
+import React from 'react';
+import { FitAddon } from '@xterm/addon-fit';
+import { Terminal } from '@xterm/xterm';
+import { listenToTerminalOutput, tauriApi } from './tauri-api';
+
+interface TerminalPaneProps {
+  serviceId: string;
+  label: string;
+}
+
+/**
+ * A live terminal on a service started in interactive mode. Keystrokes go to
+ * the service, and the pane's size follows the layout so full-screen tools
+ * redraw to fit. The log keeps recording the same output alongside it.
+ */
+export function TerminalPane({ serviceId, label }: TerminalPaneProps) {
+  const hostRef = React.useRef<HTMLDivElement>(null);
+  const [error, setError] = React.useState('');
+
+  React.useEffect(() => {
+    const host = hostRef.current;
+    if (!host) return;
+    const terminal = new Terminal({
+      cursorBlink: true,
+      fontFamily: getComputedStyle(host).getPropertyValue('--font-mono').trim() || 'monospace',
+      fontSize: 11.5,
+      scrollback: 5_000,
+      allowTransparency: true,
+      theme: { background: 'rgba(0, 0, 0, 0)' },
+    });
+    const fit = new FitAddon();
+    terminal.loadAddon(fit);
+    terminal.open(host);
+
+    let disposed = false;
+    let unlisten = () => {};
+    const report = (err: unknown) => {
+      if (!disposed) setError(String(err));
+    };
+
+    // Listen before reading the backlog so nothing printed in between is
+    // lost. A chunk landing in that gap can appear twice, which repeats a few
+    // characters at worst; missing it could hide a prompt.
+    let pending: string[] | null = [];
+    void listenToTerminalOutput(output => {
+      if (output.service_id !== serviceId) return;
+      if (pending) pending.push(output.data);
+      else terminal.write(output.data);
+    }).then(stop => {
+      if (disposed) stop();
+      else unlisten = stop;
+      return tauriApi.readServiceTerminal(serviceId);
+    }).then(backlog => {
+      if (disposed) return;
+      terminal.write(backlog);
+      pending?.forEach(data => terminal.write(data));
+      pending = null;
+    }).catch(report);
+
+    const input = terminal.onData(data => {
+      void tauriApi.writeServiceTerminal(serviceId, data).catch(report);
+    });
+    const resized = terminal.onResize(size => {
+      void tauriApi.resizeServiceTerminal(serviceId, size).catch(report);
+    });
+
+    fit.fit();
+    // The service started at a default size, which a fit to the same
+    // dimensions would not report as a change.
+    void tauriApi.resizeServiceTerminal(serviceId, { cols: terminal.cols, rows: terminal.rows }).catch(report);
+    const observer = typeof ResizeObserver === 'undefined' ? null : new ResizeObserver(() => fit.fit());
+    observer?.observe(host);
+    terminal.focus();
+
+    return () => {
+      disposed = true;
+      observer?.disconnect();
+      input.dispose();
+      resized.dispose();
+      unlisten();
+      terminal.dispose();
+    };
+  }, [serviceId]);
+
+  return (
+    <div className="terminal-pane">
+      <div className="terminal-pane-screen" ref={hostRef} role="region" aria-label={`${label} terminal`} />
+      {error && <div className="terminal-pane-error" role="alert">{error}</div>}
+    </div>
+  );
+}
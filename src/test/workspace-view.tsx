@@ -0,0 +1,82 @@
+import { render } from '@testing-library/react';
+import { vi } from 'vitest';
+import { WorkspaceView } from '../view-workspace';
+import type { Workspace } from '../types';
+
+type WorkspaceViewProps = React.ComponentProps<typeof WorkspaceView>;
+
+/** Two services: a sequential API on :8080 and a parallel web app that has no port. */
+export const workspace: Workspace = {
+  id: 'shop',
+  name: 'Shop',
+  desc: '1 service',
+  swatch: '#4a78c4',
+  path: '',
+  projects: ['api'],
+  services: [{
+    id: 'api',
+    project: 'api',
+    name: 'api',
+    cmd: 'cargo run',
+    repo_path: '/code/api',
+    port: null,
+    status: 'stopped',
+    uptime: 0,
+    pkg: 'cargo',
+    cpu: 0,
+    mem: 0,
+    framework: 'Rust',
+    run_mode: 'sequential',
+    order: 0,
+    expected_port: 8080,
+    startup_delay_ms: 2_000,
+    readiness_timeout_ms: 30_000,
+    depends_on: [],
+  }, {
+    id: 'web',
+    project: 'web',
+    name: 'web',
+    cmd: 'npm run dev',
+    repo_path: '/code/web',
+    port: null,
+    status: 'stopped',
+    uptime: 0,
+    pkg: 'npm',
+    cpu: 0,
+    mem: 0,
+    framework: 'React',
+    run_mode: 'parallel',
+    order: 1,
+    depends_on: [],
+  }],
+  lastOpened: 'recently',
+};
+
+/**
+ * Renders the workspace view with every callback a mock, and returns the props
+ * used so a test can look at what was called. Anything passed replaces the default.
+ */
+export function renderWorkspace(overrides: Partial<WorkspaceViewProps> = {}): WorkspaceViewProps {
+  const props: WorkspaceViewProps = {
+    workspace,
+    onStartSvc: vi.fn(),
+    onStopSvc: vi.fn(),
+    onRestartSvc: vi.fn(),
+    onStartAll: vi.fn(),
+    onStopAll: vi.fn(),
+    onOpenLogs: vi.fn(),
+    onOpenWorkspaceLogs: vi.fn(),
+    onOpenUrl: vi.fn(),
+    onDeleteWorkspace: vi.fn(),
+    onUpdateWorkspace: vi.fn(),
+    onRemoveService: vi.fn(),
+    onUpdateService: vi.fn(),
+    onAddService: vi.fn(),
+    repos: [],
+    envProfiles: [],
+    onAddToWorkspace: vi.fn(),
+    ...overrides,
+  };
+  render(<WorkspaceView {...props} />);
+  return props;
+}
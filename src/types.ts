@@ -6,6 +6,7 @@
 // not a convention, keeps the two sides in agreement.
 import type { EnvProfile } from './generated/EnvProfile';
 import type { EnvVariable } from './generated/EnvVariable';
+import type { FileWatch } from './generated/FileWatch';
 import type { GitBranch } from './generated/GitBranch';
 import type { GitCommitResult } from './generated/GitCommitResult';
 import type { GitDiff } from './generated/GitDiff';
@@ -15,12 +16,25 @@ import type { GitNetworkResult } from './generated/GitNetworkResult';
 import type { GitRemote } from './generated/GitRemote';
 import type { GitRepositoryInfo } from './generated/GitRepositoryInfo';
 import type { GitStatus } from './generated/GitStatus';
+import type { GuardrailAction } from './generated/GuardrailAction';
+import type { HttpProbe } from './generated/HttpProbe';
+import type { LifecycleHook } from './generated/LifecycleHook';
+import type { LifecycleHooks } from './generated/LifecycleHooks';
+import type { LogReadiness } from './generated/LogReadiness';
+import type { PortAssignment } from './generated/PortAssignment';
+import type { PortGroup } from './generated/PortGroup';
+import type { ResourceGuardrail } from './generated/ResourceGuardrail';
+import type { RestartMode } from './generated/RestartMode';
+import type { RestartPolicy } from './generated/RestartPolicy';
 import type { StoredService } from './generated/StoredService';
 import type { StoredWorkspace } from './generated/StoredWorkspace';
+import type { WatchedPort } from './generated/WatchedPort';
+import type { WorkspaceProfile } from './generated/WorkspaceProfile';
 
 export type {
   EnvProfile,
   EnvVariable,
+  FileWatch,
   GitBranch,
   GitCommitResult,
   GitDiff,
@@ -30,8 +44,20 @@ export type {
   GitRemote,
   GitRepositoryInfo,
   GitStatus,
+  GuardrailAction,
+  HttpProbe,
+  LifecycleHook,
+  LifecycleHooks,
+  LogReadiness,
+  PortAssignment,
+  PortGroup,
+  ResourceGuardrail,
+  RestartMode,
+  RestartPolicy,
   StoredService,
   StoredWorkspace,
+  WatchedPort,
+  WorkspaceProfile,
 };
 
 export type ServiceStatus = 'running' | 'starting' | 'stopped' | 'failed' | 'blocked' | 'exited' | 'crashed' | 'restarting';
@@ -58,9 +84,38 @@ export interface Service {
   expected_port?: number | null;
   startup_delay_ms?: number;
   readiness_timeout_ms?: number;
+  http_probe?: HttpProbe | null;
+  log_readiness?: LogReadiness | null;
+  restart_policy?: RestartPolicy;
+  guardrail?: ResourceGuardrail | null;
+  file_watch?: FileWatch | null;
+  hooks?: LifecycleHooks;
+  interactive?: boolean;
+  port_assignment?: PortAssignment | null;
   _ws?: string;
 }
 
+/**
+ * Where a service's HTTP readiness probe stands during a workspace boot, fed by
+ * the `probe` and `ready` service events. The last failure is kept after the
+ * probe passes, so "it was returning 503 for a while" stays visible.
+ */
+export interface ProbeStatus {
+  state: 'waiting' | 'failing' | 'passing';
+  lastFailure: string | null;
+}
+
+/**
+ * What the restart policy last did for a service, fed by `restarting` events
+ * that carry an attempt and by `gave_up`. `recovered` means an automatic restart
+ * came back up; a manual start or stop clears the entry.
+ */
+export interface RestartStatus {
+  state: 'backing_off' | 'recovered' | 'gave_up';
+  attempt: number;
+  detail: string;
+}
+
 export interface Workspace {
   id: string;
   name: string;
@@ -69,6 +124,9 @@ export interface Workspace {
   path: string;
   projects: string[];
   services: Service[];
+  hooks?: LifecycleHooks;
+  profiles?: WorkspaceProfile[];
+  definition_path?: string | null;
   lastOpened: string;
 }
 
@@ -89,6 +147,8 @@ export interface EnvVar {
 export interface Script {
   name: string;
   cmd: string;
+  /** The manifest's own command, such as `vite`, before a runner wraps it. */
+  raw_cmd?: string;
   hot?: boolean;
 }
 
@@ -112,9 +172,32 @@ export interface Project {
 
 export interface LogLine {
   ts: string;
+  /** Milliseconds since the epoch, which is what sources are merged by. */
+  at: number;
+  /** Arrival order, so lines stamped in the same millisecond keep theirs. */
+  seq: number;
   src: string;
   msg: string;
   kind: 'ok' | 'info' | 'warn' | 'error';
+  /**
+   * Set only on output restored from an earlier launch of Hub: the time that
+   * launch started, or 0 when the run predates launches being recorded.
+   */
+  appSession?: number;
+  /** Set when the line is a JSON object from a logger such as pino, bunyan or winston. */
+  json?: JsonLog;
+}
+
+/** What a structured log line says, read out of its JSON. */
+export interface JsonLog {
+  /** The logger's level as a stream level, or null when it gave none. */
+  kind: LogLine['kind'] | null;
+  /** The level as the logger names it, with pino's numbers turned into names. */
+  level: string | null;
+  /** Milliseconds since the epoch, when the line carries a time. */
+  time: number | null;
+  msg: string;
+  raw: Record<string, unknown>;
 }
 
 export interface Port {
@@ -123,6 +206,10 @@ export interface Port {
   svc: string;
   host: string;
   url?: string;
+  /** The raw localhost URL, when `url` is the service's proxy hostname instead. */
+  directUrl?: string;
+  /** Names a watched port, which has no service to take a name from. */
+  label?: string;
   status: ServiceStatus;
   ws: string;
   group: string;
@@ -131,6 +218,8 @@ export interface Port {
 export interface PortEdge {
   from: string;
   to: string;
+  /** When a connection between the two was last sampled, in epoch milliseconds. */
+  lastSeen: number;
 }
 
 export interface Repo {
@@ -144,6 +233,7 @@ export interface Repo {
   has_git: boolean;
   git_root: string | null;
   manifests: string[];
+  workspace_definition: string | null;
   git_status: GitStatus | null;
   // live-derived
   is_running: boolean;
@@ -1,5 +1,6 @@
 import React from 'react';
 import { Ic } from './icons';
+import { RUN_EVENT_LABELS } from './guardrails';
 import { tauriApi, type RunOutcome, type RunRecord } from './tauri-api';
 
 const OUTCOME_LABEL: Record<RunOutcome, string> = {
@@ -168,6 +169,15 @@ export function HistoryView() {
                     >
                       {run.cmd}
                     </div>
+                    {run.events.map((event, index) => (
+                      <div
+                        key={`${event.at_ms}-${index}`}
+                        style={{ color: 'var(--warn)', fontSize: 11.5, marginTop: 2 }}
+                        title={new Date(event.at_ms).toLocaleString()}
+                      >
+                        {RUN_EVENT_LABELS[event.kind]} · {event.message}
+                      </div>
+                    ))}
                   </div>
                   <span style={{ color: 'var(--fg-4)', fontSize: 11.5 }}>PID {run.pid}</span>
                   <span style={{ color: 'var(--fg-3)', fontSize: 11.5 }}>{formatRunDuration(run)}</span>
@@ -2,9 +2,11 @@ import React from 'react';
 import type { HubDataShape, Repo, Workspace } from './types';
 import { Ic } from './icons';
 import { StatusDot, Sparkline, SectionHeader } from './shared';
-import { tauriApi, type SystemStats } from './tauri-api';
+import { tauriApi } from './tauri-api';
 import { attributeSession, deriveSessions, type DerivedSession, type SessionEventKind } from './sessions';
 import { formatDuration } from './utils';
+import { profileSummary, profilesOf } from './profiles';
+import { changeOver, DELTA_WINDOWS, managedBands, type SystemMetric, type SystemSample } from './system-history';
 
 /** How each kind of session event reads in the activity list. */
 const ACTIVITY_TONE: Record<SessionEventKind, string> = {
@@ -13,6 +15,7 @@ const ACTIVITY_TONE: Record<SessionEventKind, string> = {
   failed: '--danger',
   stopped: '--warn',
   interrupted: '--warn',
+  guardrail: '--warn',
 };
 
 function formatClock(ms: number): string {
@@ -32,12 +35,15 @@ interface HomeViewProps {
   projects: Repo[];
   onOpenWs: (id: string) => void;
   onOpenProject: (id: string) => void;
-  onResumeSession: (workspaceId: string) => void;
+  /** Boots the workspace again, all of it or just one of its profiles. */
+  onResumeSession: (workspaceId: string, profileId?: string) => void;
   startWs: (id: string) => void;
   stopWs: (id: string) => void;
+  /** Machine readings since Hub started, oldest first; see `system-history.ts`. */
+  systemHistory: SystemSample[];
 }
 
-export function HomeView({ data, projects, onOpenWs, onOpenProject, onResumeSession, startWs, stopWs }: HomeViewProps) {
+export function HomeView({ data, projects, onOpenWs, onOpenProject, onResumeSession, startWs, stopWs, systemHistory }: HomeViewProps) {
   const allServices = data.workspaces.flatMap((w) => w.services);
   const running = allServices.filter((s) => s.status === "running").length;
   const failed = allServices.filter((s) => s.status === "failed").length;
@@ -95,14 +101,7 @@ export function HomeView({ data, projects, onOpenWs, onOpenProject, onResumeSess
     [allServices],
   );
 
-  const [stats, setStats] = React.useState<SystemStats | null>(null);
-  React.useEffect(() => {
-    tauriApi.getSystemStats().then(s => { if (s) setStats(s); }).catch(() => {});
-    const id = setInterval(() => {
-      tauriApi.getSystemStats().then(s => { if (s) setStats(s); }).catch(() => {});
-    }, 5000);
-    return () => clearInterval(id);
-  }, []);
+  const stats = systemHistory[systemHistory.length - 1] ?? null;
 
   const now = new Date();
   const dateLabel = now.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' })
@@ -177,6 +176,16 @@ export function HomeView({ data, projects, onOpenWs, onOpenProject, onResumeSess
                 <button className="btn primary" onClick={(e) => { e.stopPropagation(); onResumeSession(lastWs.id); }}>
                   <Ic.Play size={12} /> Resume session
                 </button>
+                {profilesOf(lastWs).map((profile) => (
+                  <button
+                    key={profile.id}
+                    className="btn ghost sm"
+                    title={profileSummary(lastWs.services, profile)}
+                    onClick={(e) => { e.stopPropagation(); onResumeSession(lastWs.id, profile.id); }}
+                  >
+                    <Ic.Play size={10} /> {profile.name}
+                  </button>
+                ))}
                 <button className="btn ghost sm" onClick={(e) => { e.stopPropagation(); onOpenWs(lastWs.id); }}>
                   <Ic.External size={11} /> Open workspace
                 </button>
@@ -194,9 +203,9 @@ export function HomeView({ data, projects, onOpenWs, onOpenProject, onResumeSess
       <div style={{ height: 22 }} />
 
       <div className="dash-row">
-        <KpiCard label="CPU usage" value={stats ? stats.cpu_usage.toFixed(1) : "—"} unit="%" delta="" trend={[]} />
-        <KpiCard label="Memory used" value={stats ? (stats.memory_used_mb / 1024).toFixed(1) : "—"} unit={`/ ${stats ? (stats.memory_total_mb / 1024).toFixed(0) : "—"} GB`} delta="" trend={[]} />
-        <KpiCard label="Load average" value={stats ? stats.load_avg[0].toFixed(2) : "—"} unit="1m" delta="" trend={[]} color="var(--warm)" />
+        <KpiCard label="CPU usage" value={stats ? stats.cpu.toFixed(1) : "—"} unit="%" history={systemHistory} metric="cpu" format={(change) => change.toFixed(1)} />
+        <KpiCard label="Memory used" value={stats ? (stats.memoryMb / 1024).toFixed(1) : "—"} unit={`/ ${stats ? (stats.memoryTotalMb / 1024).toFixed(0) : "—"} GB`} history={systemHistory} metric="memoryMb" format={(change) => (change / 1024).toFixed(1)} />
+        <KpiCard label="Load average" value={stats ? stats.load.toFixed(2) : "—"} unit="1m" history={systemHistory} metric="load" format={(change) => change.toFixed(2)} color="var(--warm)" />
       </div>
 
       <div className="dash-grid">
@@ -310,22 +319,42 @@ interface KpiCardProps {
   label: string;
   value: string;
   unit: string;
-  delta: string;
-  trend: number[];
+  history: SystemSample[];
+  metric: SystemMetric;
+  /** Writes a change in the card's own unit, without the sign. */
+  format: (change: number) => string;
   color?: string;
 }
 
-function KpiCard({ label, value, unit, delta, trend, color }: KpiCardProps) {
-  const isDown = delta && delta.startsWith("-");
+/**
+ * One machine reading with its trend. The deltas compare against 5 and 15
+ * minutes ago and stay blank until the history reaches that far; a rise is
+ * the warning colour, since nothing on this row is better for going up.
+ */
+function KpiCard({ label, value, unit, history, metric, format, color }: KpiCardProps) {
+  const deltas = DELTA_WINDOWS.flatMap(({ label: window, ms }) => {
+    const change = changeOver(history, metric, ms);
+    return change === null ? [] : [{ window, change }];
+  });
+  const bands = managedBands(history, metric);
   return (
     <div className="kpi">
       <div className="kpi-label">{label}</div>
       <div className="kpi-value">
         {value}
         <span className="unit">{unit}</span>
-        <span className={"delta " + (isDown ? "warn" : "")}>{delta}</span>
+        {deltas.map(({ window, change }) => (
+          <span key={window} className={"delta " + (change > 0 ? "warn" : "")} title={`Against ${window} ago`}>
+            {change > 0 ? "+" : change < 0 ? "−" : "±"}{format(Math.abs(change))} <span className="unit">{window}</span>
+          </span>
+        ))}
       </div>
-      <Sparkline points={trend} color={color ?? "var(--blue)"} />
+      <Sparkline
+        points={history.map((sample) => sample[metric])}
+        color={color ?? "var(--blue)"}
+        bands={bands}
+        title={bands.length > 0 ? "Shaded where Hub's services were most of the load" : undefined}
+      />
     </div>
   );
 }
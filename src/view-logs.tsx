@@ -1,13 +1,22 @@
 import React from 'react';
 import type { Workspace, Service, LogLine } from './types';
 import { Ic } from './icons';
+import { TerminalPane } from './terminal-pane';
+import { appSessionLabel, logTimestamp } from './log-restore';
+import { isJsonSource, logLevelCounts, LogStream, type LogBuffers } from './log-buffers';
+import { commonFields, fieldValue, formatField, matchesFieldFilters, parseFieldFilters } from './json-logs';
+import { LOG_ROW_HEIGHT, rowOffsets, visibleRows } from './log-window';
+import { stripAnsi } from './ansi';
+import { AnsiMessage } from './ansi-message';
+import { tauriApi } from './tauri-api';
 
 type LogLevel = LogLine['kind'];
 
 interface LogsViewProps {
   workspaces: Workspace[];
   services: Service[];
-  logs: LogLine[];
+  /** Each service's own buffer; only the selected ones are merged for display. */
+  logs: LogBuffers;
   sources: Record<string, boolean>;
   toggleSource: (id: string) => void;
   setAllSources: (enabled: boolean) => void;
@@ -16,8 +25,16 @@ interface LogsViewProps {
   autoscroll: boolean;
   setAutoscroll: (v: boolean) => void;
   clearLogs: () => void;
+  /** Running services that were started on a terminal and can take input. */
+  terminalServiceIds?: string[];
 }
 
+/** How far past the viewport rows are kept rendered, so scrolling does not flash blanks. */
+const OVERSCAN_PX = 600;
+
+/** Used before the body has been laid out, and where it never is, as in tests. */
+const FALLBACK_VIEWPORT_PX = 800;
+
 const LOG_LEVELS: Array<{ id: LogLevel; label: string }> = [
   { id: 'error', label: 'Errors' },
   { id: 'warn', label: 'Warnings' },
@@ -25,8 +42,7 @@ const LOG_LEVELS: Array<{ id: LogLevel; label: string }> = [
   { id: 'info', label: 'Info' },
 ];
 
-export function LogsView({ workspaces, services, logs, sources, toggleSource, setAllSources, search, setSearch, autoscroll, setAutoscroll, clearLogs }: LogsViewProps) {
-  const bodyRef = React.useRef<HTMLDivElement>(null);
+export function LogsView({ workspaces, services, logs, sources, toggleSource, setAllSources, search, setSearch, autoscroll, setAutoscroll, clearLogs, terminalServiceIds = [] }: LogsViewProps) {
   const searchRef = React.useRef<HTMLInputElement>(null);
   const [levels, setLevels] = React.useState<Record<LogLevel, boolean>>({
     error: true,
@@ -35,16 +51,36 @@ export function LogsView({ workspaces, services, logs, sources, toggleSource, se
     info: true,
   });
   const [actionStatus, setActionStatus] = React.useState('');
+  // Off by default: escape codes are noise anywhere but a terminal.
+  const [rawText, setRawText] = React.useState(false);
+  const [terminalRequested, setTerminalRequested] = React.useState(false);
+  const [fieldQuery, setFieldQuery] = React.useState('');
+  const [columns, setColumns] = React.useState<string[]>([]);
+  const [expanded, setExpanded] = React.useState<ReadonlySet<number>>(() => new Set());
   const wsById = Object.fromEntries(workspaces.map((w) => [w.id, w]));
   const svcById = Object.fromEntries(services.map((s) => [s.id, s]));
   const workspaceServiceIds = new Set(workspaces.flatMap(workspace => workspace.services.map(service => service.id)));
   const standaloneServices = services.filter(service => !workspaceServiceIds.has(service.id));
-
-  React.useEffect(() => {
-    if (autoscroll && bodyRef.current) {
-      bodyRef.current.scrollTop = bodyRef.current.scrollHeight;
-    }
-  }, [logs.length, autoscroll]);
+  // A terminal belongs to one service, so it is offered only while the stream
+  // is narrowed to a single source that has one.
+  const selectedSources = Object.keys(sources).filter(id => sources[id]);
+  const terminalService = selectedSources.length === 1 && terminalServiceIds.includes(selectedSources[0])
+    ? svcById[selectedSources[0]]
+    : undefined;
+  const terminalOpen = terminalRequested && terminalService != null;
+  const selectedKey = selectedSources.join('\n');
+  // Decided per service, so one JSON logger does not turn a Vite server's
+  // output into columns beside it.
+  const jsonSources = React.useMemo(
+    () => new Set(selectedKey ? selectedKey.split('\n').filter(id => isJsonSource(logs[id])) : []),
+    [logs, selectedKey],
+  );
+  const fieldFilter = React.useMemo(() => parseFieldFilters(fieldQuery), [fieldQuery]);
+  const fieldChoices = React.useMemo(() => {
+    if (jsonSources.size === 0) return [];
+    const common = commonFields([...jsonSources].map(id => logs[id]));
+    return [...common, ...columns.filter(path => !common.includes(path))];
+  }, [logs, jsonSources, columns]);
 
   React.useEffect(() => {
     function handleShortcut(event: KeyboardEvent) {
@@ -62,21 +98,52 @@ export function LogsView({ workspaces, services, logs, sources, toggleSource, se
     return () => window.removeEventListener('keydown', handleShortcut);
   }, [setSearch]);
 
-  const filtered = logs.filter((l) => {
-    if (!sources[l.src]) return false;
-    if (!levels[l.kind]) return false;
-    if (!search) return true;
+  // The service list is rebuilt on every render upstream; keyed by its names,
+  // the filter below stays the same function until a name actually changes.
+  const namesKey = services.map(service => `${service.id}\t${service.name.toLowerCase()}`).join('\n');
+  const keep = React.useMemo(() => {
     const query = search.toLowerCase();
-    return l.msg.toLowerCase().includes(query)
-      || l.src.toLowerCase().includes(query)
-      || svcById[l.src]?.name.toLowerCase().includes(query);
-  });
-  const levelCounts = Object.fromEntries(
-    LOG_LEVELS.map(level => [level.id, logs.filter(line => line.kind === level.id).length]),
-  ) as Record<LogLevel, number>;
-  const visibleText = serializeLogs(filtered, svcById);
+    const names = new Map(namesKey.split('\n').map(entry => entry.split('\t') as [string, string]));
+    const { filters } = fieldFilter;
+    return (l: LogLine) => {
+      if (!levels[l.kind]) return false;
+      if (!matchesFieldFilters(l, filters)) return false;
+      if (!query) return true;
+      return stripAnsi(l.msg).toLowerCase().includes(query)
+        || l.src.toLowerCase().includes(query)
+        || (names.get(l.src)?.includes(query) ?? false);
+    };
+  }, [levels, search, namesKey, fieldFilter]);
+  // Output arrives ten times a second, so the stream takes in only what is new
+  // and starts over only when the selection or the filter changes.
+  const streamRef = React.useRef<LogStream | null>(null);
+  const streamed = React.useMemo(() => {
+    const selected = selectedKey ? selectedKey.split('\n') : [];
+    if (!streamRef.current?.follows(selected, keep)) streamRef.current = new LogStream(selected, keep);
+    return streamRef.current.sync(logs);
+  }, [logs, selectedKey, keep]);
+  const filtered = streamed.lines;
+  const levelCounts = logLevelCounts(logs, selectedSources);
+  const withCodes = rawText ? ' with escape codes' : '';
+
+  function toggleColumn(path: string) {
+    setColumns(current => (current.includes(path) ? current.filter(column => column !== path) : [...current, path]));
+  }
+
+  function toggleExpanded(seq: number) {
+    setExpanded((current) => {
+      const next = new Set(current);
+      if (!next.delete(seq)) next.add(seq);
+      return next;
+    });
+  }
+
+  function openLink(href: string) {
+    tauriApi.openLogLink(href).catch(() => setActionStatus(`Could not open ${href}`));
+  }
 
   async function copyVisible() {
+    const visibleText = serializeLogs(filtered, svcById, rawText);
     if (!visibleText) return;
     try {
       if (navigator.clipboard?.writeText) {
@@ -92,13 +159,14 @@ export function LogsView({ workspaces, services, logs, sources, toggleSource, se
         textarea.remove();
         if (!copied) throw new Error('clipboard unavailable');
       }
-      setActionStatus(`Copied ${filtered.length} visible lines`);
+      setActionStatus(`Copied ${filtered.length} visible lines${withCodes}`);
     } catch {
       setActionStatus('Could not copy logs');
     }
   }
 
   async function exportVisible() {
+    const visibleText = serializeLogs(filtered, svcById, rawText);
     if (!visibleText) return;
     try {
       const [{ save }, { writeTextFile }] = await Promise.all([
@@ -111,7 +179,7 @@ export function LogsView({ workspaces, services, logs, sources, toggleSource, se
       });
       if (!path) return;
       await writeTextFile(path, `${visibleText}\n`);
-      setActionStatus(`Exported ${filtered.length} visible lines`);
+      setActionStatus(`Exported ${filtered.length} visible lines${withCodes}`);
     } catch {
       setActionStatus('Could not export logs');
     }
@@ -138,6 +206,15 @@ export function LogsView({ workspaces, services, logs, sources, toggleSource, se
             />
             <span className="kbd" style={{ marginRight: 4 }}>/</span>
           </div>
+          <button
+            type="button"
+            className="btn sm ghost"
+            aria-pressed={rawText}
+            title="Copy and export with the colour escape codes left in"
+            onClick={() => setRawText(!rawText)}
+          >
+            Raw codes
+          </button>
           <button className="btn sm" onClick={() => void copyVisible()} disabled={filtered.length === 0}>Copy visible</button>
           <button className="btn sm" onClick={() => void exportVisible()} disabled={filtered.length === 0}>Export</button>
           <button className="btn sm" onClick={clearLogs}><Ic.Close size={11} /> Clear</button>
@@ -161,7 +238,7 @@ export function LogsView({ workspaces, services, logs, sources, toggleSource, se
               </div>
               {g.services.map((s) => {
                 const active = !!sources[s.id];
-                const count = logs.filter((l) => l.src === s.id).length;
+                const count = logs[s.id]?.size ?? 0;
                 return (
                   <div key={s.id} className={"logs-filter-row" + (active ? " active" : " muted")} onClick={() => toggleSource(s.id)}>
                     <span className="ck">{active ? <Ic.Check size={12} /> : <Ic.Dot size={6} />}</span>
@@ -180,7 +257,7 @@ export function LogsView({ workspaces, services, logs, sources, toggleSource, se
               </div>
               {standaloneServices.map((service) => {
                 const active = !!sources[service.id];
-                const count = logs.filter(line => line.src === service.id).length;
+                const count = logs[service.id]?.size ?? 0;
                 return (
                   <div key={service.id} className={"logs-filter-row" + (active ? " active" : " muted")} onClick={() => toggleSource(service.id)}>
                     <span className="ck">{active ? <Ic.Check size={12} /> : <Ic.Dot size={6} />}</span>
@@ -216,33 +293,77 @@ export function LogsView({ workspaces, services, logs, sources, toggleSource, se
                   </button>
                 ))}
               </div>
+              {terminalService && (
+                <button
+                  type="button"
+                  className="btn sm ghost"
+                  aria-pressed={terminalOpen}
+                  title={`Type into ${terminalService.name}`}
+                  onClick={() => setTerminalRequested(!terminalOpen)}
+                >
+                  Terminal
+                </button>
+              )}
               <button className="btn sm ghost" onClick={() => setAutoscroll(!autoscroll)}>{autoscroll ? <><Ic.Pause size={10} /> Unlock</> : <><Ic.Play size={10} /> Tail</>}</button>
             </div>
           </div>
-          <div className="logs-body" ref={bodyRef}>
-            {filtered.length === 0 ? (
+          {jsonSources.size > 0 && !terminalOpen && (
+            <div className="logs-json-bar">
+              <input
+                aria-label="Field filter"
+                aria-invalid={fieldFilter.error != null}
+                value={fieldQuery}
+                placeholder="req.url contains /api and res.statusCode >= 500"
+                spellCheck={false}
+                onChange={(e) => setFieldQuery(e.target.value)}
+              />
+              {fieldChoices.length > 0 && (
+                <div className="logs-json-columns" aria-label="JSON columns">
+                  {fieldChoices.map(path => (
+                    <button
+                      type="button"
+                      key={path}
+                      className="log-level-filter"
+                      aria-pressed={columns.includes(path)}
+                      onClick={() => toggleColumn(path)}
+                    >
+                      {path}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+          {terminalOpen ? (
+            <TerminalPane key={terminalService.id} serviceId={terminalService.id} label={terminalService.name} />
+          ) : filtered.length === 0 ? (
+            <div className="logs-body">
               <div className="empty">
                 <Ic.Logs size={28} />
                 <div style={{ fontFamily: "var(--font-mono)", fontSize: 12 }}>No matching lines</div>
               </div>
-            ) : filtered.map((l, i) => {
-              const svc = svcById[l.src];
-              const wsId = workspaces.find((w) => w.services.some((s) => s.id === l.src))?.id;
-              const wsSwatch = wsId ? wsById[wsId].swatch : "var(--fg-4)";
-              return (
-                <div key={i} className={"log-line " + (l.kind || "info")}>
-                  <span className="ts">{l.ts}</span>
-                  <span className="src" style={{ display: "inline-flex", alignItems: "center", gap: 6 }}>
-                    <span style={{ width: 6, height: 6, borderRadius: 99, background: wsSwatch }} />
-                    {svc ? svc.name : l.src}
-                  </span>
-                  <span className="msg"><HighlightedMessage message={l.msg} query={search} /></span>
-                </div>
-              );
-            })}
-          </div>
+            </div>
+          ) : (
+            <LogRows
+              lines={filtered}
+              generation={streamed.generation}
+              autoscroll={autoscroll}
+              onUnlock={() => setAutoscroll(false)}
+              search={search}
+              structured={jsonSources}
+              columns={columns}
+              expanded={expanded}
+              onToggleExpanded={toggleExpanded}
+              onOpenLink={openLink}
+              nameOf={(src) => svcById[src]?.name ?? src}
+              swatchOf={(src) => {
+                const wsId = workspaces.find((w) => w.services.some((s) => s.id === src))?.id;
+                return wsId ? wsById[wsId].swatch : "var(--fg-4)";
+              }}
+            />
+          )}
           <div className="logs-foot">
-            <span>{actionStatus || 'Filters · workspace · source · level'}</span>
+            <span>{actionStatus || fieldFilter.error || 'Filters · workspace · source · level'}</span>
             <span>{autoscroll ? "▼ tailing" : "tail unlocked"}</span>
           </div>
         </div>
@@ -251,23 +372,169 @@ export function LogsView({ workspaces, services, logs, sources, toggleSource, se
   );
 }
 
-function HighlightedMessage({ message, query }: { message: string; query: string }) {
-  if (!query) return <>{message}</>;
-  const escaped = query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-  const parts = message.split(new RegExp(`(${escaped})`, 'ig'));
+interface LogRowsProps {
+  lines: readonly LogLine[];
+  /** Lines of one generation only ever grow at the end; see `StreamedLogs`. */
+  generation: number;
+  autoscroll: boolean;
+  /** Called when the user scrolls away from the end while tailing. */
+  onUnlock: () => void;
+  search: string;
+  /** Sources whose JSON lines are laid out in columns rather than printed. */
+  structured: ReadonlySet<string>;
+  columns: string[];
+  /** Lines, by `seq`, showing their whole object. */
+  expanded: ReadonlySet<number>;
+  onToggleExpanded: (seq: number) => void;
+  onOpenLink: (href: string) => void;
+  nameOf: (src: string) => string;
+  swatchOf: (src: string) => string;
+}
+
+/**
+ * The log body, rendering only the rows near the viewport. Rows are measured
+ * once drawn, keyed by the line itself, so a wrapped line keeps its height when
+ * it scrolls away and back.
+ */
+function LogRows({ lines, generation, autoscroll, onUnlock, search, structured, columns, expanded, onToggleExpanded, onOpenLink, nameOf, swatchOf }: LogRowsProps) {
+  const bodyRef = React.useRef<HTMLDivElement>(null);
+  // The map is filled in place; replacing the wrapper is what tells React,
+  // and `from` is the first row whose height it learned.
+  const [heights, setHeights] = React.useState(() => ({ map: new WeakMap<LogLine, number>(), from: 0 }));
+  const [scrollTop, setScrollTop] = React.useState(0);
+  const [viewport, setViewport] = React.useState(0);
+  const layoutRef = React.useRef<{ generation: number; heights: typeof heights; offsets: Float64Array } | null>(null);
+
+  const offsets = React.useMemo(() => {
+    const previous = layoutRef.current;
+    // Rows kept from the last layout keep their offsets, up to the first one
+    // measured since; new output only adds rows at the end.
+    const reuse = previous?.generation === generation
+      ? { offsets: previous.offsets, from: previous.heights === heights ? Infinity : heights.from }
+      : undefined;
+    const next = rowOffsets(lines.length, index => heights.map.get(lines[index]) ?? LOG_ROW_HEIGHT, reuse);
+    layoutRef.current = { generation, heights, offsets: next };
+    return next;
+  }, [lines, generation, heights]);
+  const total = offsets[lines.length];
+  const height = viewport || FALLBACK_VIEWPORT_PX;
+  const { start, end } = visibleRows(offsets, autoscroll ? Math.max(0, total - height) : scrollTop, height, OVERSCAN_PX);
+
+  React.useEffect(() => {
+    const body = bodyRef.current;
+    if (!body || typeof ResizeObserver === 'undefined') return;
+    const observer = new ResizeObserver(() => setViewport(body.clientHeight));
+    observer.observe(body);
+    return () => observer.disconnect();
+  }, []);
+
+  React.useLayoutEffect(() => {
+    const body = bodyRef.current;
+    if (!body) return;
+    let from = Infinity;
+    body.querySelectorAll<HTMLElement>('[data-row]').forEach((row) => {
+      const index = Number(row.dataset.row);
+      const line = lines[index];
+      const rowHeight = row.offsetHeight;
+      if (line && rowHeight > 0 && heights.map.get(line) !== rowHeight) {
+        heights.map.set(line, rowHeight);
+        from = Math.min(from, index);
+      }
+    });
+    if (from !== Infinity) setHeights({ map: heights.map, from });
+  }, [lines, heights, start, end, columns, expanded]);
+
+  React.useLayoutEffect(() => {
+    if (autoscroll && bodyRef.current) {
+      bodyRef.current.scrollTop = bodyRef.current.scrollHeight;
+    }
+  }, [autoscroll, total]);
+
+  const query = search.toLowerCase();
+  const rows: React.ReactNode[] = [];
+  for (let i = start; i < end; i++) {
+    const l = lines[i];
+    // Restored output is marked off by the launch of Hub that wrote it.
+    const launchChanged = i === 0 ? l.appSession !== undefined : lines[i - 1].appSession !== l.appSession;
+    const json = l.json && structured.has(l.src) ? l.json : undefined;
+    const open = json != null && expanded.has(l.seq);
+    // Search reads the whole line, so a JSON row can match on a field that no
+    // column shows. Such rows say so rather than showing nothing marked.
+    const hiddenMatch = json != null && query !== '' && ![
+      stripAnsi(json.msg), json.level ?? '', nameOf(l.src), l.src,
+      ...columns.map(path => formatField(fieldValue(json.raw, path))),
+    ].some(text => text.toLowerCase().includes(query));
+    rows.push(
+      <div key={l.seq} data-row={i}>
+        {launchChanged && (
+          <div className="log-session-break" role="separator">{appSessionLabel(l.appSession)}</div>
+        )}
+        <div className={"log-line " + (l.kind || "info")}>
+          <span className="ts">{json?.time != null ? logTimestamp(new Date(json.time)) : l.ts}</span>
+          <span className="src" style={{ display: "inline-flex", alignItems: "center", gap: 6 }}>
+            <span style={{ width: 6, height: 6, borderRadius: 99, background: swatchOf(l.src) }} />
+            {nameOf(l.src)}
+          </span>
+          {json ? (
+            <span className="msg log-json">
+              <button
+                type="button"
+                className="log-json-toggle"
+                aria-expanded={open}
+                aria-label={open ? 'Hide the logged object' : 'Show the logged object'}
+                onClick={() => onToggleExpanded(l.seq)}
+              >
+                {open ? '▾' : '▸'}
+              </button>
+              <span className={"log-json-level " + l.kind}>{json.level?.toUpperCase() ?? '—'}</span>
+              <span className="log-json-msg"><AnsiMessage message={json.msg} query={search} onOpenLink={onOpenLink} /></span>
+              {hiddenMatch && (
+                <button
+                  type="button"
+                  className="log-json-hidden-match"
+                  title="The search matched a field that is not shown"
+                  onClick={() => { if (!open) onToggleExpanded(l.seq); }}
+                >
+                  match in object
+                </button>
+              )}
+              {columns.map(path => (
+                <span key={path} className="log-json-field" title={path}>
+                  <span className="key">{path}</span> {formatField(fieldValue(json.raw, path))}
+                </span>
+              ))}
+            </span>
+          ) : (
+            <span className="msg"><AnsiMessage message={l.msg} query={search} onOpenLink={onOpenLink} /></span>
+          )}
+        </div>
+        {open && <pre className="log-json-raw"><AnsiMessage message={JSON.stringify(json.raw, null, 2)} query={search} /></pre>}
+      </div>,
+    );
+  }
+
   return (
-    <>
-      {parts.map((part, index) => (
-        part.toLowerCase() === query.toLowerCase()
-          ? <mark className="log-search-match" key={index}>{part}</mark>
-          : <React.Fragment key={index}>{part}</React.Fragment>
-      ))}
-    </>
+    <div
+      className="logs-body"
+      ref={bodyRef}
+      onScroll={(event) => {
+        const body = event.currentTarget;
+        setScrollTop(body.scrollTop);
+        // While tailing, rows are drawn for the end whatever the scroll position,
+        // so scrolling up stops tailing instead of showing only the spacers.
+        if (autoscroll && body.scrollHeight - body.scrollTop - body.clientHeight > LOG_ROW_HEIGHT) onUnlock();
+      }}
+    >
+      <div style={{ height: offsets[start] }} />
+      {rows}
+      <div style={{ height: total - offsets[end] }} />
+    </div>
   );
 }
 
-export function serializeLogs(logs: LogLine[], services: Record<string, Service>): string {
+/** Plain text by default; `raw` keeps the escape codes the process printed. */
+export function serializeLogs(logs: readonly LogLine[], services: Record<string, Service>, raw = false): string {
   return logs
-    .map(line => `[${line.ts}] [${line.kind.toUpperCase()}] [${services[line.src]?.name ?? line.src}] ${line.msg}`)
+    .map(line => `${line.ts ? `[${line.ts}] ` : ''}[${line.kind.toUpperCase()}] [${services[line.src]?.name ?? line.src}] ${raw ? line.msg : stripAnsi(line.msg)}`)
     .join('\n');
 }
@@ -3,6 +3,8 @@ import { AnimatedHubLockup } from './brand';
 import { Ic } from './icons';
 import { githubAuth, type GitHubUser, type DeviceCodeResponse } from './github-auth';
 import { tauriApi } from './tauri-api';
+import { DEFAULT_PROXY_PORT } from './proxy';
+import { DEFAULT_LOG_RETENTION } from './log-restore';
 
 interface OnboardingProps {
   onComplete: (user: GitHubUser | null, workspaceRoots: string[]) => void;
@@ -99,6 +101,10 @@ export function OnboardingView({ onComplete }: OnboardingProps) {
       github_user: user,
       close_to_tray: false,
       start_at_login: false,
+      notifications: { enabled: false, muted_workspaces: [], max_per_minute: 6 },
+      proxy: { enabled: false, port: DEFAULT_PROXY_PORT },
+      watched_ports: [],
+      log_retention: DEFAULT_LOG_RETENTION,
       workspace_roots: workspaceRoots,
       user_workspaces: [],
       env_profiles: [],
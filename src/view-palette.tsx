@@ -1,6 +1,7 @@
 import React from 'react';
 import type { HubDataShape, Repo } from './types';
 import { Ic } from './icons';
+import { profileSummary, profilesOf } from './profiles';
 
 interface PaletteItem {
   id: string;
@@ -18,6 +19,7 @@ interface CommandPaletteProps {
   data: HubDataShape;
   projects: Repo[];
   onRunScript: (wsId: string, svcId: string) => void;
+  onBootProfile: (wsId: string, profileId: string) => void;
   onRunProjectScript: (project: Repo, script: Repo['scripts'][number]) => void;
   onSwitchWs: (id: string) => void;
   onOpenView: (v: string) => void;
@@ -25,7 +27,7 @@ interface CommandPaletteProps {
   onOpenUrl: (url: string) => void;
 }
 
-export function CommandPalette({ open, onClose, data, projects, onRunScript, onRunProjectScript, onSwitchWs, onOpenView, onOpenProject, onOpenUrl }: CommandPaletteProps) {
+export function CommandPalette({ open, onClose, data, projects, onRunScript, onBootProfile, onRunProjectScript, onSwitchWs, onOpenView, onOpenProject, onOpenUrl }: CommandPaletteProps) {
   const [q, setQ] = React.useState("");
   const [tab, setTab] = React.useState("all");
   const [idx, setIdx] = React.useState(0);
@@ -45,12 +47,23 @@ export function CommandPalette({ open, onClose, data, projects, onRunScript, onR
       { id: "v-ws",       label: "Go to Workspace",  sub: "Currently selected",  kind: "nav", icon: <Ic.Stack size={13} />,   run: () => onOpenView("workspace") },
       { id: "v-health",   label: "Go to Health",     sub: "Repository health",    kind: "nav", icon: <Ic.Activity size={13} />, run: () => onOpenView("health") },
       { id: "v-ports",    label: "Go to Ports",      sub: "Port topology map",   kind: "nav", icon: <Ic.Ports size={13} />,   run: () => onOpenView("ports") },
+      { id: "v-processes", label: "Go to Processes", sub: "Everything running here", kind: "nav", icon: <Ic.Cpu size={13} />, run: () => onOpenView("processes") },
       { id: "v-logs",     label: "Go to Logs",       sub: "Streaming logs",      kind: "nav", icon: <Ic.Logs size={13} />,    run: () => onOpenView("logs") },
       { id: "v-sessions", label: "Go to Sessions",   sub: "Timeline scrubber",   kind: "nav", icon: <Ic.History size={13} />, run: () => onOpenView("sessions") }
     ].forEach((i) => out.push(i));
 
     data.workspaces.forEach((w) => {
       out.push({ id: "ws-" + w.id, label: `Switch to ${w.name}`, sub: w.path, kind: "ws", icon: <span style={{ width: 10, height: 10, borderRadius: 2, background: w.swatch, display: "inline-block" }} />, run: () => onSwitchWs(w.id) });
+      profilesOf(w).forEach((profile) => {
+        out.push({
+          id: `profile-${w.id}-${profile.id}`,
+          label: `Boot ${w.name} · ${profile.name}`,
+          sub: profileSummary(w.services, profile),
+          kind: "ws",
+          icon: <Ic.Play size={13} />,
+          run: () => onBootProfile(w.id, profile.id),
+        });
+      });
     });
 
     projects.forEach((project) => {
@@ -87,7 +100,7 @@ export function CommandPalette({ open, onClose, data, projects, onRunScript, onR
     // session is offered on Home, where it actually starts the workspace.
 
     return out;
-  }, [data, projects, onOpenProject, onOpenUrl, onOpenView, onRunProjectScript, onRunScript, onSwitchWs]);
+  }, [data, projects, onBootProfile, onOpenProject, onOpenUrl, onOpenView, onRunProjectScript, onRunScript, onSwitchWs]);
 
   const filtered = items.filter((i) => {
     if (tab !== "all" && i.kind !== tab) return false;
@@ -2,6 +2,9 @@ import React from 'react';
 import type { Port, PortEdge, Workspace, Service } from './types';
 import { Ic } from './icons';
 import { StatusDot, StatusBadge } from './shared';
+import { edgeOpacity, isEdgeActive } from './port-edges';
+import { directUrlOf } from './lan-access';
+import { LanAccessPanel } from './lan-access-panel';
 
 interface PortsViewProps {
   ports: Port[];
@@ -9,6 +12,8 @@ interface PortsViewProps {
   workspaces: Workspace[];
   services: Service[];
   onOpenUrl: (url: string) => void;
+  /** Watched ports are declared in Settings, where this takes the user. */
+  onWatchPort: () => void;
 }
 
 interface PortNode extends Port {
@@ -30,8 +35,34 @@ const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
 const bandPosition = (fraction: number) =>
   `calc(${NODE_WIDTH / 2}px + ${clamp01(fraction)} * (100% - ${NODE_WIDTH}px))`;
 
-export function PortsView({ ports, edges, workspaces, services, onOpenUrl }: PortsViewProps) {
+/**
+ * The canvas size in pixels. Nodes can be placed with CSS lengths, but SVG path
+ * data only takes user units, so the connectors need the real size to meet them.
+ */
+function useCanvasSize(ref: React.RefObject<HTMLDivElement | null>) {
+  const [size, setSize] = React.useState({ width: 0, height: 0 });
+  React.useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+    const measure = () => setSize({ width: element.clientWidth, height: element.clientHeight });
+    measure();
+    if (typeof ResizeObserver === 'undefined') {
+      window.addEventListener('resize', measure);
+      return () => window.removeEventListener('resize', measure);
+    }
+    const observer = new ResizeObserver(measure);
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [ref]);
+  return size;
+}
+
+export function PortsView({ ports, edges, workspaces, services, onOpenUrl, onWatchPort }: PortsViewProps) {
   const [hovered, setHovered] = React.useState<string | null>(null);
+  const [phoneFor, setPhoneFor] = React.useState<string | null>(null);
+  const canvasRef = React.useRef<HTMLDivElement>(null);
+  const canvas = useCanvasSize(canvasRef);
+  const now = Date.now();
 
   const wsList = workspaces.map((w) => w.id);
   const groupOrder: Record<string, number> = { web: 0, edge: 0.4, api: 1.5, db: 2.8 };
@@ -77,12 +108,12 @@ export function PortsView({ ports, edges, workspaces, services, onOpenUrl }: Por
         <div style={{ display: "flex", gap: 8 }}>
           <button className="btn sm ghost"><Ic.Filter size={11} /> Workspace</button>
           <button className="btn sm ghost"><Ic.Search size={11} /> Find port</button>
-          <button className="btn sm primary"><Ic.Plus size={11} /> Watch port</button>
+          <button className="btn sm primary" onClick={onWatchPort}><Ic.Plus size={11} /> Watch port</button>
         </div>
       </div>
 
       <div className="ports-map">
-        <div className="ports-canvas">
+        <div className="ports-canvas" ref={canvasRef}>
           {workspaces.map((w) => (
             <div key={w.id} style={{ position: "absolute", left: bandPosition(wsFrac[w.id] ?? 0.5), top: 14, transform: "translateX(-50%)", fontFamily: "var(--font-mono)", fontSize: 10.5, color: "var(--fg-3)", textTransform: "uppercase", letterSpacing: "0.12em", display: "flex", alignItems: "center", gap: 6 }}>
               <span style={{ width: 8, height: 8, borderRadius: 2, background: w.swatch }} />
@@ -104,23 +135,18 @@ export function PortsView({ ports, edges, workspaces, services, onOpenUrl }: Por
                 <path d="M 0 0 L 10 5 L 0 10 Z" fill="var(--blue)" />
               </marker>
             </defs>
-            {edges.map((e, i) => {
+            {canvas.width > 0 ? edges.map((e) => {
               const a = byId[e.from], b = byId[e.to];
               if (!a || !b) return null;
-              const aSvc = svcById[a.svc], bSvc = svcById[b.svc];
-              const active = aSvc?.status === "running" && bSvc?.status === "running";
-              // These connectors do not currently draw: SVG path data takes user
-              // units, not percentages, so every `d` below is rejected outright.
-              // Making them render needs the canvas measured in pixels so the
-              // curve endpoints can match the band the nodes are positioned in —
-              // its own change, tracked with the topology layout work in the
-              // README's status section. Percentages are kept here so the units
-              // stay consistent with `y` rather than mixing in a 0..1 fraction.
-              const x1 = a.x * 100 + "%", y1 = a.y + "%", x2 = b.x * 100 + "%", y2 = b.y + "%";
-              const mx = ((a.x + b.x) / 2) * 100 + "%", my = ((a.y + b.y) / 2 + 4) + "%";
+              const active = isEdgeActive(e, now);
+              // The same band `bandPosition` places node centres in, in pixels.
+              const px = (fraction: number) => NODE_WIDTH / 2 + clamp01(fraction) * Math.max(0, canvas.width - NODE_WIDTH);
+              const py = (percent: number) => (percent / 100) * canvas.height;
+              const x1 = px(a.x), y1 = py(a.y), x2 = px(b.x), y2 = py(b.y);
+              const mx = (x1 + x2) / 2, my = (y1 + y2) / 2 + py(4);
               const d = `M ${x1} ${y1} Q ${mx} ${my} ${x2} ${y2}`;
               return (
-                <g key={i}>
+                <g key={`${e.from}>${e.to}`} className="ports-link" style={{ opacity: edgeOpacity(e, now) }}>
                   <path d={d} className="ports-link-base" />
                   {active ? (
                     <>
@@ -132,7 +158,7 @@ export function PortsView({ ports, edges, workspaces, services, onOpenUrl }: Por
                   )}
                 </g>
               );
-            })}
+            }) : null}
           </svg>
 
           {nodes.map((n) => {
@@ -143,9 +169,8 @@ export function PortsView({ ports, edges, workspaces, services, onOpenUrl }: Por
             const peers = touching.map((e) => {
               const other = e.from === n.id ? byId[e.to] : byId[e.from];
               if (!other) return null;
-              const peerSvc = svcById[other.svc];
-              return { node: other, svc: peerSvc, active: peerSvc?.status === "running" };
-            }).filter(Boolean) as { node: PortNode; svc: Service | undefined; active: boolean }[];
+              return { node: other, svc: svcById[other.svc], active: isEdgeActive(e, now), lastSeen: e.lastSeen };
+            }).filter(Boolean) as { node: PortNode; svc: Service | undefined; active: boolean; lastSeen: number }[];
 
             return (
               <div
@@ -158,8 +183,8 @@ export function PortsView({ ports, edges, workspaces, services, onOpenUrl }: Por
               >
                 <StatusDot s={n.status} />
                 <div>
-                  <div className="pn-name">{svc ? svc.name : "port"}</div>
-                  <div className="pn-port">:{n.port} · {svc ? svc.framework : ""}</div>
+                  <div className="pn-name">{svc ? svc.name : n.label ?? "port"}</div>
+                  <div className="pn-port">:{n.port} · {svc ? svc.framework : n.label ? "watched" : ""}</div>
                 </div>
 
                 {hovered === n.id ? (
@@ -167,7 +192,7 @@ export function PortsView({ ports, edges, workspaces, services, onOpenUrl }: Por
                     <div className="pn-flyout-head">
                       <span style={{ display: "inline-flex", alignItems: "center", gap: 8 }}>
                         <span style={{ width: 8, height: 8, borderRadius: 2, background: w?.swatch ?? 'var(--line-1)' }} />
-                        <span style={{ fontWeight: 600, color: "var(--fg-1)", fontSize: 12.5 }}>{svc ? svc.name : "port"}</span>
+                        <span style={{ fontWeight: 600, color: "var(--fg-1)", fontSize: 12.5 }}>{svc ? svc.name : n.label ?? "port"}</span>
                       </span>
                       <span className="mono" style={{ fontSize: 11, color: "var(--fg-3)" }}>:{n.port}</span>
                     </div>
@@ -188,6 +213,9 @@ export function PortsView({ ports, edges, workspaces, services, onOpenUrl }: Por
                           {url}
                         </a>
                       </div>
+                      {n.directUrl ? (
+                        <div className="row"><span className="k">Direct</span><span className="v mono">{n.directUrl}</span></div>
+                      ) : null}
                       <div className="row"><span className="k">Status</span><span className="v"><StatusBadge s={n.status} /></span></div>
                     </div>
                     {peers.length > 0 ? (
@@ -196,11 +224,11 @@ export function PortsView({ ports, edges, workspaces, services, onOpenUrl }: Por
                         {peers.map((p, i) => (
                           <div key={i} className="pn-peer">
                             <StatusDot s={p.active ? "running" : "stopped"} />
-                            <span className="mono" style={{ color: "var(--fg-1)" }}>{p.svc ? p.svc.name : "—"}</span>
+                            <span className="mono" style={{ color: "var(--fg-1)" }}>{p.svc ? p.svc.name : p.node.label ?? "—"}</span>
                             <span className="mono" style={{ color: "var(--fg-4)" }}>:{p.node.port}</span>
                             {p.active
-                              ? <span className="mono" style={{ color: "var(--ok)", marginLeft: "auto", fontSize: 10.5 }}>{Math.floor(40 + Math.random() * 80)} req/s</span>
-                              : <span className="mono" style={{ color: "var(--fg-4)", marginLeft: "auto", fontSize: 10.5 }}>idle</span>}
+                              ? <span className="mono" style={{ color: "var(--ok)", marginLeft: "auto", fontSize: 10.5 }}>connected</span>
+                              : <span className="mono" style={{ color: "var(--fg-4)", marginLeft: "auto", fontSize: 10.5 }}>{Math.round((now - p.lastSeen) / 1000)}s ago</span>}
                           </div>
                         ))}
                       </div>
@@ -236,9 +264,10 @@ export function PortsView({ ports, edges, workspaces, services, onOpenUrl }: Por
           const w = wsById[n.ws];
           const url = n.url ?? `http://localhost:${n.port}`;
           return (
-            <div key={n.id} style={{ display: "grid", gridTemplateColumns: "70px 1fr 1fr 1fr auto", gap: 10, padding: "10px 14px", alignItems: "center", borderBottom: "1px solid var(--line-soft)", fontSize: 12 }}>
+            <React.Fragment key={n.id}>
+            <div style={{ display: "grid", gridTemplateColumns: "70px 1fr 1fr 1fr auto", gap: 10, padding: "10px 14px", alignItems: "center", borderBottom: "1px solid var(--line-soft)", fontSize: 12 }}>
               <span className="mono" style={{ color: "var(--fg-1)" }}>:{n.port}</span>
-              <span className="mono">{svc ? svc.name : "—"} <span style={{ color: "var(--fg-3)" }}>· {svc ? svc.framework : ""}</span></span>
+              <span className="mono">{svc ? svc.name : n.label ?? "—"} <span style={{ color: "var(--fg-3)" }}>· {svc ? svc.framework : n.label ? "watched" : ""}</span></span>
               <span style={{ display: "inline-flex", gap: 8, alignItems: "center" }}>
                 <span style={{ width: 8, height: 8, borderRadius: 2, background: w?.swatch ?? 'var(--line-1)' }} />
                 <span>{w?.name ?? '—'}</span>
@@ -250,12 +279,30 @@ export function PortsView({ ports, edges, workspaces, services, onOpenUrl }: Por
                   onOpenUrl(url);
                 }}
                 className="mono"
+                title={n.directUrl ? `Forwarded to ${n.directUrl}` : undefined}
                 style={{ color: "var(--blue)", textDecoration: "none" }}
               >
                 {url}
               </a>
-              <span style={{ textAlign: "right" }}><StatusBadge s={n.status} /></span>
+              <span style={{ display: "inline-flex", gap: 8, alignItems: "center", justifyContent: "flex-end" }}>
+                <button
+                  className="btn sm ghost"
+                  aria-pressed={phoneFor === n.id}
+                  aria-label={`Open :${n.port} on a phone`}
+                  title="Open on phone"
+                  onClick={() => setPhoneFor((current) => current === n.id ? null : n.id)}
+                >
+                  <Ic.Wifi size={11} />
+                </button>
+                <StatusBadge s={n.status} />
+              </span>
             </div>
+            {phoneFor === n.id ? (
+              <div style={{ padding: "10px 14px", borderBottom: "1px solid var(--line-soft)" }}>
+                <LanAccessPanel url={directUrlOf(n)} cmd={svc?.cmd} />
+              </div>
+            ) : null}
+            </React.Fragment>
           );
         })}
       </div>
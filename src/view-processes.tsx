@@ -0,0 +1,245 @@
+import React from 'react';
+import { Ic } from './icons';
+import { adoptedInto, adoptedService, adoptionOf, processRows, type ProcessFilters, type ProcessRow, type ProcessSort } from './process-explorer';
+import { tauriApi, type LivePort, type ProcessInfo } from './tauri-api';
+import type { Repo, Service, StoredService, StoredWorkspace } from './types';
+
+interface ProcessesViewProps {
+  ports: LivePort[];
+  repos: Repo[];
+  workspaces: StoredWorkspace[];
+  /** Services Hub runs itself, which are shown but never offered for adoption. */
+  running: Service[];
+  onAdopt: (wsId: string, svc: StoredService) => void;
+  onCreateWorkspace: () => void;
+}
+
+const REFRESH_MS = 5000;
+
+const SORT_LABELS: Record<ProcessSort, string> = { cpu: 'CPU', memory: 'Memory' };
+
+const COLUMNS = '64px minmax(0, 1fr) 64px 76px 110px auto';
+
+export function ProcessesView({ ports, repos, workspaces, running, onAdopt, onCreateWorkspace }: ProcessesViewProps) {
+  const [processes, setProcesses] = React.useState<ProcessInfo[] | null>(null);
+  const [filters, setFilters] = React.useState<ProcessFilters>({ query: '', sort: 'cpu', listening: false, inRepo: false });
+  const [adopting, setAdopting] = React.useState<{ pid: number; wsId: string; name: string } | null>(null);
+  // `listing` marks a failure to read the process table, which the next good
+  // read clears; messages about a kill or an adoption stay until replaced.
+  const [status, setStatus] = React.useState<{ text: string; error: boolean; listing?: boolean } | null>(null);
+
+  const refresh = React.useCallback(async (isCancelled: () => boolean = () => false) => {
+    try {
+      const next = await tauriApi.getProcesses(true);
+      if (isCancelled()) return;
+      setProcesses(next);
+      setStatus(current => (current?.listing ? null : current));
+    } catch (reason) {
+      if (isCancelled()) return;
+      setProcesses(current => current ?? []);
+      setStatus({ text: `Could not read the process table: ${String(reason)}`, error: true, listing: true });
+    }
+  }, []);
+
+  React.useEffect(() => {
+    let cancelled = false;
+    const load = () => void refresh(() => cancelled);
+    load();
+    const id = setInterval(load, REFRESH_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(id);
+    };
+  }, [refresh]);
+
+  const rows = React.useMemo(
+    () => processRows(processes ?? [], ports, repos, running, filters),
+    [processes, ports, repos, running, filters],
+  );
+
+  async function kill(row: ProcessRow) {
+    if (!window.confirm(`Kill ${row.process.name} (PID ${row.process.pid}) and any processes under it?`)) return;
+    setStatus(null);
+    try {
+      await tauriApi.killProcess(row.process.pid, true);
+      setStatus({ text: `Killed PID ${row.process.pid}.`, error: false });
+    } catch (reason) {
+      setStatus({ text: `Could not kill PID ${row.process.pid}: ${String(reason)}`, error: true });
+    }
+    await refresh();
+  }
+
+  function startAdopting(row: ProcessRow) {
+    const adoption = adoptionOf(row);
+    if (!adoption) return;
+    setStatus(null);
+    setAdopting(current => current?.pid === row.process.pid ? null : {
+      pid: row.process.pid,
+      wsId: workspaces[0]?.id ?? '',
+      name: `${adoption.repo.name} ${adoption.script.name}`,
+    });
+  }
+
+  function confirmAdopt(row: ProcessRow) {
+    const adoption = adoptionOf(row);
+    const workspace = workspaces.find(ws => ws.id === adopting?.wsId);
+    if (!adoption || !adopting || !workspace) return;
+    const service = adoptedService(adoption, row.ports, adopting.name, `svc-${Date.now()}`);
+    onAdopt(workspace.id, service);
+    setAdopting(null);
+    setStatus({
+      text: `Added ${service.name} to ${workspace.name}. This copy keeps running; Hub starts it from the next launch of the workspace.`,
+      error: false,
+    });
+  }
+
+  const toggle = (key: 'listening' | 'inRepo') => setFilters(current => ({ ...current, [key]: !current[key] }));
+
+  return (
+    <div className="view"><div className="view-inner">
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-end', marginBottom: 16 }}>
+        <div>
+          <div className="eyebrow" style={{ marginBottom: 4 }}>Machine</div>
+          <h1 className="h1">Processes</h1>
+          <div style={{ color: 'var(--fg-3)', fontSize: 12.5, marginTop: 4 }}>
+            Everything running here, including dev servers started outside Hub.
+          </div>
+        </div>
+        <div style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
+          <div className="tb-search" style={{ width: 240, height: 28 }}>
+            <span className="icon"><Ic.Search size={12} /></span>
+            <input
+              aria-label="Search processes"
+              style={{ background: 'transparent', border: 0, outline: 'none', color: 'var(--fg-1)', fontFamily: 'var(--font-mono)', fontSize: 11.5, width: '100%' }}
+              value={filters.query}
+              placeholder="Name, command, PID or :port…"
+              onChange={event => setFilters(current => ({ ...current, query: event.target.value }))}
+            />
+          </div>
+          <button type="button" className="btn sm ghost" aria-pressed={filters.listening} onClick={() => toggle('listening')}>
+            <Ic.Ports size={11} /> Listening
+          </button>
+          <button type="button" className="btn sm ghost" aria-pressed={filters.inRepo} onClick={() => toggle('inRepo')}>
+            <Ic.Folder size={11} /> In a repo
+          </button>
+        </div>
+      </div>
+
+      {status ? (
+        <div style={{ color: status.error ? 'var(--danger)' : 'var(--fg-3)', fontSize: 12, marginBottom: 10 }}>{status.text}</div>
+      ) : null}
+
+      <div className="panel">
+        <div className="panel-head">
+          <div className="panel-title"><Ic.Cpu size={12} /> {processes === null ? 'Reading the process table…' : `${rows.length} of ${processes.length} processes`}</div>
+          <span style={{ display: 'inline-flex', gap: 4, alignItems: 'center' }}>
+            <span className="mono" style={{ fontSize: 10.5, color: 'var(--fg-4)', marginRight: 4 }}>Sort by</span>
+            {(Object.keys(SORT_LABELS) as ProcessSort[]).map(sort => (
+              <button
+                key={sort}
+                type="button"
+                className="btn sm ghost"
+                aria-pressed={filters.sort === sort}
+                onClick={() => setFilters(current => ({ ...current, sort }))}
+              >
+                {SORT_LABELS[sort]}
+              </button>
+            ))}
+          </span>
+        </div>
+        <div style={{ display: 'grid', gridTemplateColumns: COLUMNS, gap: 10, padding: '8px 14px', borderBottom: '1px solid var(--line-soft)', fontFamily: 'var(--font-mono)', fontSize: 10, color: 'var(--fg-4)', textTransform: 'uppercase', letterSpacing: '0.12em' }}>
+          <span>PID</span><span>Command</span><span>CPU</span><span>Memory</span><span>Ports</span><span />
+        </div>
+        {processes !== null && rows.length === 0 ? (
+          <div style={{ padding: '18px 14px', color: 'var(--fg-4)', fontSize: 12 }}>No process matches these filters.</div>
+        ) : null}
+        {rows.map(row => {
+          const adoption = adoptionOf(row);
+          const savedIn = adoption ? adoptedInto(adoption, workspaces) : null;
+          const open = adopting?.pid === row.process.pid ? adopting : null;
+          return (
+            <React.Fragment key={row.process.pid}>
+              <div style={{ display: 'grid', gridTemplateColumns: COLUMNS, gap: 10, padding: '8px 14px', alignItems: 'center', borderBottom: '1px solid var(--line-soft)', fontSize: 12 }}>
+                <span className="mono" style={{ color: 'var(--fg-3)' }}>{row.process.pid}</span>
+                <span style={{ minWidth: 0 }}>
+                  <span className="mono" style={{ color: 'var(--fg-1)' }}>{row.process.name}</span>
+                  {row.repo ? (
+                    <span style={{ color: 'var(--fg-3)' }}> · {row.repo.name}{row.script ? ` › ${row.script.name}` : ''}</span>
+                  ) : null}
+                  {row.managed ? <span className="mono" style={{ color: 'var(--ok)', fontSize: 10.5 }}> · run by Hub</span> : null}
+                  <div className="mono" title={row.command} style={{ color: 'var(--fg-4)', fontSize: 10.5, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                    {row.command}
+                  </div>
+                </span>
+                <span className="mono">{row.process.cpu_usage.toFixed(1)}%</span>
+                <span className="mono">{Math.round(row.process.memory_kb / 1024)} MB</span>
+                <span className="mono" style={{ color: row.ports.length > 0 ? 'var(--blue)' : 'var(--fg-4)' }}>
+                  {row.ports.length > 0 ? row.ports.map(port => `:${port}`).join(' ') : '—'}
+                </span>
+                <span style={{ display: 'inline-flex', gap: 6, justifyContent: 'flex-end' }}>
+                  {savedIn ? (
+                    <span className="mono" style={{ color: 'var(--fg-4)', fontSize: 10.5, alignSelf: 'center' }}>in {savedIn.name}</span>
+                  ) : adoption ? (
+                    <button
+                      type="button"
+                      className="btn sm ghost"
+                      aria-pressed={open != null}
+                      title={`Save ${adoption.script.name} as a workspace service`}
+                      onClick={() => startAdopting(row)}
+                    >
+                      <Ic.Plus size={10} /> Adopt
+                    </button>
+                  ) : null}
+                  <button
+                    type="button"
+                    className="btn sm ghost danger"
+                    aria-label={`Kill PID ${row.process.pid}`}
+                    title="Kill this process and everything under it"
+                    onClick={() => void kill(row)}
+                  >
+                    <Ic.Close size={10} />
+                  </button>
+                </span>
+              </div>
+              {open && adoption && !savedIn ? (
+                <div style={{ display: 'flex', gap: 8, alignItems: 'center', flexWrap: 'wrap', padding: '10px 14px', borderBottom: '1px solid var(--line-soft)', background: 'var(--bg-1)', fontSize: 12 }}>
+                  {workspaces.length === 0 ? (
+                    <>
+                      <span style={{ color: 'var(--fg-3)' }}>Adopting needs a workspace to add the service to.</span>
+                      <button type="button" className="btn sm ghost" onClick={onCreateWorkspace}>Create one first</button>
+                    </>
+                  ) : (
+                    <>
+                      <span style={{ color: 'var(--fg-3)' }}>Add</span>
+                      <input
+                        className="input"
+                        aria-label="Service name"
+                        value={open.name}
+                        onChange={event => setAdopting({ ...open, name: event.target.value })}
+                        style={{ width: 180, height: 26 }}
+                      />
+                      <span style={{ color: 'var(--fg-3)' }}>to</span>
+                      <select
+                        className="input"
+                        aria-label="Workspace"
+                        value={open.wsId}
+                        onChange={event => setAdopting({ ...open, wsId: event.target.value })}
+                        style={{ height: 26 }}
+                      >
+                        {workspaces.map(ws => <option key={ws.id} value={ws.id}>{ws.name}</option>)}
+                      </select>
+                      <span className="mono" style={{ color: 'var(--fg-4)', fontSize: 10.5 }}>runs {adoption.script.cmd} in {adoption.repo.path}</span>
+                      <span style={{ flex: 1 }} />
+                      <button type="button" className="btn sm ghost" onClick={() => setAdopting(null)}>Cancel</button>
+                      <button type="button" className="btn sm primary" onClick={() => confirmAdopt(row)} disabled={!open.wsId}>Add service</button>
+                    </>
+                  )}
+                </div>
+              ) : null}
+            </React.Fragment>
+          );
+        })}
+      </div>
+    </div></div>
+  );
+}
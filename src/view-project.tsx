@@ -13,6 +13,13 @@ import { EnvProfilesPanel } from './env-profiles-panel';
 import { PackagesPanel } from './packages-panel';
 import { RunWithEnvDialog } from './run-with-env-dialog';
 import { resolveEnvProfile } from './env-profiles';
+import type { ResourceHistory } from './resource-history';
+import { mergeLogBuffers, type LogBuffers } from './log-buffers';
+import { AnsiMessage } from './ansi-message';
+import { ResourceChart } from './resource-charts';
+import { directUrlOf } from './lan-access';
+import { LanAccessPanel } from './lan-access-panel';
+import { ProcessTreePanel } from './process-tree-panel';
 
 type ProjectTab = 'overview' | 'scripts' | 'packages' | 'logs' | 'ports' | 'environment' | 'git' | 'github' | 'health';
 
@@ -20,7 +27,7 @@ interface ProjectViewProps {
   project: Repo;
   services: Service[];
   ports: Port[];
-  logs: LogLine[];
+  logs: LogBuffers;
   onBack: () => void;
   onStartScript: (project: Repo, script: Script, configuredService?: Service, overrides?: EnvVariable[]) => void;
   onStopService: (service: Service) => void;
@@ -32,6 +39,8 @@ interface ProjectViewProps {
   onManageGit: () => void;
   envProfiles: EnvProfile[];
   onSaveEnvProfiles: (projectPath: string, profiles: EnvProfile[]) => Promise<void>;
+  /** Recent CPU and memory readings by service id, for managed services only. */
+  resourceHistory?: ResourceHistory;
 }
 
 function belongsToProject(service: Service, project: Repo) {
@@ -61,6 +70,7 @@ export function ProjectView({
   onManageGit,
   envProfiles,
   onSaveEnvProfiles,
+  resourceHistory = {},
 }: ProjectViewProps) {
   const [tab, setTab] = React.useState<ProjectTab>('overview');
   const projectServices = services.filter(service => belongsToProject(service, project));
@@ -68,7 +78,7 @@ export function ProjectView({
     ...projectServices.map(service => service.id),
     ...project.scripts.map(script => directProjectServiceId(project, script)),
   ]);
-  const projectLogs = logs.filter(line => serviceIds.has(line.src));
+  const projectLogs = mergeLogBuffers(logs, serviceIds);
   const projectPorts = ports.filter(port =>
     serviceIds.has(port.svc)
     || projectServices.some(service => service.port === port.port)
@@ -142,7 +152,7 @@ export function ProjectView({
       </div>
 
       {tab === 'overview' && (
-        <OverviewTab project={project} services={projectServices} ports={projectPorts} />
+        <OverviewTab project={project} services={projectServices} ports={projectPorts} resourceHistory={resourceHistory} />
       )}
       {tab === 'scripts' && (
         <ScriptsTab
@@ -160,7 +170,7 @@ export function ProjectView({
         <LogsTab logs={projectLogs} serviceIds={[...serviceIds]} onOpenLogs={onOpenLogs} />
       )}
       {tab === 'ports' && (
-        <PortsTab ports={projectPorts} fallbackPort={project.running_port} onOpenUrl={onOpenUrl} />
+        <PortsTab ports={projectPorts} fallbackPort={project.running_port} cmd={runningService?.cmd} onOpenUrl={onOpenUrl} />
       )}
       {tab === 'environment' && (
         <EnvProfilesPanel
@@ -184,29 +194,56 @@ export function ProjectView({
   );
 }
 
-function OverviewTab({ project, services, ports }: { project: Repo; services: Service[]; ports: Port[] }) {
+function OverviewTab({
+  project,
+  services,
+  ports,
+  resourceHistory,
+}: {
+  project: Repo;
+  services: Service[];
+  ports: Port[];
+  resourceHistory: ResourceHistory;
+}) {
   const running = services.filter(service => service.status === 'running');
   const cpu = services.reduce((total, service) => total + service.cpu, 0);
   const memory = services.reduce((total, service) => total + service.mem, 0);
+  const charted = services.filter(service => resourceHistory[service.id]?.length);
   return (
     <div style={{ display: 'grid', gridTemplateColumns: 'minmax(0, 2fr) minmax(250px, 1fr)', gap: 16 }}>
-      <div className="panel">
-        <div className="panel-head"><div className="panel-title"><span className="dot" /> Services</div></div>
-        {services.length === 0 ? (
-          <Empty icon={<Ic.Play size={26} />} title="No workspace services are configured for this project." />
-        ) : services.map(service => (
-          <div key={service.id} className="script-row">
-            <span className="name" style={{ display: 'inline-flex', alignItems: 'center', gap: 7 }}>
-              <StatusDot s={service.status} /> {service.name}
-            </span>
-            <span className="cmd">{service.cmd}</span>
-            <span className="mono" style={{ color: 'var(--fg-3)', fontSize: 11 }}>
-              {service.pid ? `PID ${service.pid}` : service.status}
-              {service.port ? ` · :${service.port}` : ''}
-              {service._ws === EXTERNAL_PROCESS_WORKSPACE ? ' · external' : service._ws === DIRECT_PROJECT_WORKSPACE ? ' · direct' : ''}
-            </span>
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 16, minWidth: 0 }}>
+        <div className="panel">
+          <div className="panel-head"><div className="panel-title"><span className="dot" /> Services</div></div>
+          {services.length === 0 ? (
+            <Empty icon={<Ic.Play size={26} />} title="No workspace services are configured for this project." />
+          ) : services.map(service => (
+            <div key={service.id} className="script-row">
+              <span className="name" style={{ display: 'inline-flex', alignItems: 'center', gap: 7 }}>
+                <StatusDot s={service.status} /> {service.name}
+              </span>
+              <span className="cmd">{service.cmd}</span>
+              <span className="mono" style={{ color: 'var(--fg-3)', fontSize: 11 }}>
+                {service.pid ? `PID ${service.pid}` : service.status}
+                {service.port ? ` · :${service.port}` : ''}
+                {service._ws === EXTERNAL_PROCESS_WORKSPACE ? ' · external' : service._ws === DIRECT_PROJECT_WORKSPACE ? ' · direct' : ''}
+              </span>
+            </div>
+          ))}
+        </div>
+        {charted.length > 0 && (
+          <div className="panel">
+            <div className="panel-head"><div className="panel-title"><span className="dot" /> Resources · last 30 min</div></div>
+            {charted.map(service => (
+              <div key={service.id} style={{ padding: '10px 14px', borderTop: '1px solid var(--line-soft)' }}>
+                <div className="mono" style={{ fontSize: 11, color: 'var(--fg-2)', marginBottom: 6 }}>{service.name}</div>
+                <div style={{ display: 'grid', gridTemplateColumns: 'repeat(2, minmax(0, 1fr))', gap: 14 }}>
+                  <ResourceChart samples={resourceHistory[service.id]} metric="cpu" title={`${service.name} CPU`} />
+                  <ResourceChart samples={resourceHistory[service.id]} metric="memoryMb" title={`${service.name} memory`} />
+                </div>
+              </div>
+            ))}
           </div>
-        ))}
+        )}
       </div>
       <div style={{ display: 'flex', flexDirection: 'column', gap: 16 }}>
         <div className="panel">
@@ -252,6 +289,7 @@ function ScriptsTab({
   profiles: EnvProfile[];
 }) {
   const [overrideTarget, setOverrideTarget] = React.useState<{ script: Script; service?: Service } | null>(null);
+  const [treeFor, setTreeFor] = React.useState<string | null>(null);
   if (project.scripts.length === 0) {
     return <div className="panel"><Empty icon={<Ic.Play size={28} />} title="No runnable scripts were detected." /></div>;
   }
@@ -266,7 +304,8 @@ function ScriptsTab({
         const service = services.find(item => item.cmd === script.cmd || item.name === script.name);
         const live = service && service.status !== 'stopped' && service.status !== 'failed' && service.status !== 'exited';
         return (
-          <div key={`${script.name}:${script.cmd}`} className="script-row">
+          <React.Fragment key={`${script.name}:${script.cmd}`}>
+          <div className="script-row">
             <span className="name">{script.name}</span>
             <span className="cmd">{script.cmd}</span>
             <span style={{ display: 'inline-flex', gap: 6 }}>
@@ -274,6 +313,15 @@ function ScriptsTab({
                 {service._ws !== EXTERNAL_PROCESS_WORKSPACE && (
                   <button className="btn sm ghost" onClick={() => onRestart(service)}><Ic.Reload size={11} /> Restart</button>
                 )}
+                {service.pid ? (
+                  <button
+                    className="btn sm ghost"
+                    aria-pressed={treeFor === service.id}
+                    onClick={() => setTreeFor(current => current === service.id ? null : service.id)}
+                  >
+                    <Ic.Cpu size={11} /> Processes
+                  </button>
+                ) : null}
                 <button className="btn sm danger" onClick={() => onStop(service)}><Ic.Stop size={11} /> Stop</button>
               </> : (<>
                 <button className="btn sm primary" onClick={() => onStart(project, script, service)}><Ic.Play size={11} /> Run</button>
@@ -287,6 +335,12 @@ function ScriptsTab({
               )}
             </span>
           </div>
+          {live && service.pid && treeFor === service.id ? (
+            <div style={{ padding: '0 14px 12px' }}>
+              <ProcessTreePanel pid={service.pid} label={service.name} />
+            </div>
+          ) : null}
+          </React.Fragment>
         );
       })}
     </div>
@@ -326,7 +380,7 @@ function LogsTab({ logs, serviceIds, onOpenLogs }: { logs: LogLine[]; serviceIds
             <div key={`${line.ts}:${index}`} className="mono" style={{ display: 'grid', gridTemplateColumns: '70px 110px 1fr', gap: 9, padding: '3px 0', fontSize: 11.5 }}>
               <span style={{ color: 'var(--fg-4)' }}>{line.ts}</span>
               <span style={{ color: 'var(--blue)' }}>{line.src}</span>
-              <span style={{ color: line.kind === 'error' ? 'var(--danger)' : line.kind === 'warn' ? 'var(--warn)' : 'var(--fg-2)', whiteSpace: 'pre-wrap' }}>{line.msg}</span>
+              <span style={{ color: line.kind === 'error' ? 'var(--danger)' : line.kind === 'warn' ? 'var(--warn)' : 'var(--fg-2)', whiteSpace: 'pre-wrap' }}><AnsiMessage message={line.msg} /></span>
             </div>
           ))}
         </div>
@@ -335,7 +389,8 @@ function LogsTab({ logs, serviceIds, onOpenLogs }: { logs: LogLine[]; serviceIds
   );
 }
 
-function PortsTab({ ports, fallbackPort, onOpenUrl }: { ports: Port[]; fallbackPort: number | null; onOpenUrl: (url: string) => void }) {
+function PortsTab({ ports, fallbackPort, cmd, onOpenUrl }: { ports: Port[]; fallbackPort: number | null; cmd?: string; onOpenUrl: (url: string) => void }) {
+  const [phoneFor, setPhoneFor] = React.useState<string | null>(null);
   const visible = ports.length > 0
     ? ports
     : fallbackPort
@@ -356,7 +411,17 @@ function PortsTab({ ports, fallbackPort, onOpenUrl }: { ports: Port[]; fallbackP
                   <span className="mono" style={{ fontSize: 16, fontWeight: 600 }}>:{port.port}</span>
                   <span style={{ display: 'inline-flex', alignItems: 'center', gap: 6 }}><StatusDot s={port.status} /> {port.status}</span>
                 </div>
-                <button className="btn sm ghost" onClick={() => onOpenUrl(url)}><Ic.External size={11} /> {url}</button>
+                <div style={{ display: 'flex', gap: 6, flexWrap: 'wrap' }}>
+                  <button className="btn sm ghost" onClick={() => onOpenUrl(url)}><Ic.External size={11} /> {url}</button>
+                  <button className="btn sm ghost" onClick={() => setPhoneFor(current => current === port.id ? null : port.id)}>
+                    <Ic.Wifi size={11} /> On phone
+                  </button>
+                </div>
+                {phoneFor === port.id ? (
+                  <div style={{ marginTop: 10 }}>
+                    <LanAccessPanel url={directUrlOf(port)} cmd={cmd} />
+                  </div>
+                ) : null}
               </div>
             );
           })}
@@ -4,6 +4,10 @@ import { Ic } from './icons';
 import { StatusDot } from './shared';
 import { tauriApi } from './tauri-api';
 import { GitHubProjectPanel } from './github-project-panel';
+import { DEFAULT_RESTART_POLICY } from './restart-policy';
+import { EMPTY_HOOKS } from './hooks';
+import { DEFINITION_FILE } from './workspace-definition';
+import { processManifestsOf } from './manifest-import';
 
 interface ReposViewProps {
   repos: Repo[];
@@ -12,11 +16,15 @@ interface ReposViewProps {
   onCreateWorkspace: () => void;
   onCreateProject: () => void;
   onGitChanged: (path: string) => Promise<void>;
+  /** Imports, or reads again, a repo's checked-in workspace definition. */
+  onImportDefinition: (path: string) => void;
+  /** Opens the review of a workspace drafted from a Procfile, Compose or PM2 file. */
+  onImportManifest: (repo: Repo, file: string) => void;
   onOpenProject: (id: string) => void;
   onRunScript: (repo: Repo, script: Repo['scripts'][number]) => void;
 }
 
-export function ReposView({ repos, workspaces, onAddToWorkspace, onCreateWorkspace, onCreateProject, onGitChanged, onOpenProject, onRunScript }: ReposViewProps) {
+export function ReposView({ repos, workspaces, onAddToWorkspace, onCreateWorkspace, onCreateProject, onGitChanged, onImportDefinition, onImportManifest, onOpenProject, onRunScript }: ReposViewProps) {
   const [search, setSearch] = React.useState('');
   const [picker, setPicker] = React.useState<{ repoId: string; script: string; cmd: string } | null>(null);
   const [pickerWs, setPickerWs] = React.useState('');
@@ -51,6 +59,14 @@ export function ReposView({ repos, workspaces, onAddToWorkspace, onCreateWorkspa
       expected_port: null,
       startup_delay_ms: 0,
       readiness_timeout_ms: 0,
+      http_probe: null,
+      log_readiness: null,
+      restart_policy: DEFAULT_RESTART_POLICY,
+      guardrail: null,
+      file_watch: null,
+      hooks: EMPTY_HOOKS,
+      interactive: false,
+      port_assignment: null,
     });
     setPicker(null);
   }
@@ -100,6 +116,9 @@ export function ReposView({ repos, workspaces, onAddToWorkspace, onCreateWorkspa
               repo={repo}
               onAddScript={(script, cmd) => openPicker(repo.id, script, cmd, repo.name)}
               onGitChanged={onGitChanged}
+              importedAs={workspaces.find(w => w.definition_path && w.definition_path === repo.workspace_definition)?.name}
+              onImportDefinition={() => repo.workspace_definition && onImportDefinition(repo.workspace_definition)}
+              onImportManifest={file => onImportManifest(repo, file)}
               onOpen={() => onOpenProject(repo.id)}
               onRunScript={(script) => onRunScript(repo, script)}
             />
@@ -168,12 +187,19 @@ function RepoCard({
   repo,
   onAddScript,
   onGitChanged,
+  importedAs,
+  onImportDefinition,
+  onImportManifest,
   onOpen,
   onRunScript,
 }: {
   repo: Repo;
   onAddScript: (script: string, cmd: string) => void;
   onGitChanged: (path: string) => Promise<void>;
+  /** The workspace already linked to this repo's definition file, if any. */
+  importedAs?: string;
+  onImportDefinition: () => void;
+  onImportManifest: (file: string) => void;
   onOpen: () => void;
   onRunScript: (script: Repo['scripts'][number]) => void;
 }) {
@@ -265,6 +291,29 @@ function RepoCard({
             {repo.path.replace(/^\/home\/[^/]+/, '~')}
           </div>
         </div>
+        {repo.workspace_definition && (
+          <button
+            className="btn sm"
+            aria-label={`${importedAs ? 'Refresh' : 'Import'} workspace from ${repo.name}`}
+            title={importedAs
+              ? `${importedAs} follows this repo's ${DEFINITION_FILE}. Read it again now.`
+              : `This repo describes a workspace in ${DEFINITION_FILE}. Add it to your workspaces.`}
+            onClick={onImportDefinition}
+          >
+            {importedAs ? <Ic.Reload size={10} /> : <Ic.Plus size={10} />} {importedAs ? 'Refresh workspace' : 'Import workspace'}
+          </button>
+        )}
+        {processManifestsOf(repo).map(file => (
+          <button
+            key={file}
+            className="btn sm ghost"
+            aria-label={`Import ${file} from ${repo.name} as a workspace`}
+            title={`Make a workspace from the processes in ${file}, after reviewing them`}
+            onClick={() => onImportManifest(file)}
+          >
+            <Ic.Plus size={10} /> {file}
+          </button>
+        ))}
         <button className="btn sm ghost" onClick={onOpen}><Ic.Chevron size={11} /> Details</button>
       </div>
 
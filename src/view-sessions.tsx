@@ -24,6 +24,7 @@ const EVENT_GLYPH: Record<SessionEventKind, string> = {
   failed: '✕',
   stopped: '■',
   interrupted: '!',
+  guardrail: '▼',
 };
 
 const EVENT_LABEL: Record<SessionEventKind, string> = {
@@ -32,6 +33,7 @@ const EVENT_LABEL: Record<SessionEventKind, string> = {
   failed: 'failed',
   stopped: 'stopped',
   interrupted: 'interrupted',
+  guardrail: 'over its ceiling',
 };
 
 function formatWhen(ms: number): string {
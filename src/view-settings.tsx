@@ -1,8 +1,11 @@
 import React from 'react';
 import { Ic } from './icons';
-import { githubAuth, type AppConfig, type DeviceCodeResponse, type GitHubUser } from './github-auth';
-import { tauriApi, type SecretBackend } from './tauri-api';
-import type { Repo, StoredWorkspace } from './types';
+import { githubAuth, type AppConfig, type DeviceCodeResponse, type GitHubUser, type NotificationPreferences } from './github-auth';
+import { tauriApi, type ProxyStatus, type SecretBackend } from './tauri-api';
+import type { PortGroup, Repo, StoredWorkspace, WatchedPort } from './types';
+import { DEFAULT_PROXY_PORT, proxyHostname, proxyUrl } from './proxy';
+import { DEFAULT_LOG_RETENTION } from './log-restore';
+import { PORT_GROUPS, watchedPortProblem, withoutWatchedPort } from './watched-ports';
 
 interface TweakValues {
   theme: string;
@@ -43,6 +46,10 @@ const defaultConfig = (): AppConfig => ({
   env_profiles: [],
   close_to_tray: false,
   start_at_login: false,
+  notifications: { enabled: false, muted_workspaces: [], max_per_minute: 6 },
+  proxy: { enabled: false, port: DEFAULT_PROXY_PORT },
+  watched_ports: [],
+  log_retention: DEFAULT_LOG_RETENTION,
   appearance: {
     theme: 'charcoal',
     accent: '#4a78c4',
@@ -70,6 +77,10 @@ export function SettingsView({
   // config file: the login item can be removed outside Localhost Hub.
   const [startAtLogin, setStartAtLogin] = React.useState(false);
   const [loginItemError, setLoginItemError] = React.useState('');
+  const [proxyStatus, setProxyStatus] = React.useState<ProxyStatus | null>(null);
+  const [proxyPortInput, setProxyPortInput] = React.useState('');
+  const [watchDraft, setWatchDraft] = React.useState({ label: '', port: '', group: 'db' as PortGroup, workspaceId: '' });
+  const [watchError, setWatchError] = React.useState('');
 
   React.useEffect(() => {
     let cancelled = false;
@@ -79,6 +90,9 @@ export function SettingsView({
     tauriApi.getStartAtLogin()
       .then((enabled) => { if (!cancelled) setStartAtLogin(enabled); })
       .catch(() => {});
+    tauriApi.proxyStatus()
+      .then((status) => { if (!cancelled) setProxyStatus(status); })
+      .catch(() => {});
     return () => { cancelled = true; };
   }, []);
 
@@ -204,6 +218,78 @@ export function SettingsView({
     }, intervalMs);
   }
 
+  const notifications = config?.notifications ?? defaultConfig().notifications;
+
+  function saveNotifications(patch: Partial<NotificationPreferences>) {
+    void saveConfig({ notifications: { ...notifications, ...patch } });
+  }
+
+  const logRetention = config?.log_retention ?? DEFAULT_LOG_RETENTION;
+
+  async function saveLogRetention(patch: Partial<AppConfig['log_retention']>) {
+    await saveConfig({ log_retention: { ...logRetention, ...patch } });
+    onConfigChanged();
+  }
+
+  const proxy = config?.proxy ?? defaultConfig().proxy;
+
+  React.useEffect(() => { setProxyPortInput(String(proxy.port)); }, [proxy.port]);
+
+  async function saveProxy(patch: Partial<AppConfig['proxy']>) {
+    await saveConfig({ proxy: { ...proxy, ...patch } });
+    // The backend binds or drops the listener while saving, so asking now
+    // reports whether the new port could actually be taken.
+    setProxyStatus(await tauriApi.proxyStatus().catch(() => null));
+    onConfigChanged();
+  }
+
+  function commitProxyPort() {
+    const port = Number(proxyPortInput);
+    if (!Number.isInteger(port) || port < 1 || port > 65535) {
+      setProxyPortInput(String(proxy.port));
+      return;
+    }
+    if (port !== proxy.port) void saveProxy({ port });
+  }
+
+  const exampleWorkspace = storedWorkspaces.find((workspace) => workspace.services.length > 0);
+  const exampleHost = exampleWorkspace
+    ? proxyHostname(exampleWorkspace.name, exampleWorkspace.services[0].name)
+    : 'web.shop.localhost';
+
+  const watchedPorts = config?.watched_ports ?? [];
+
+  async function addWatchedPort() {
+    const problem = watchedPortProblem(watchDraft, watchedPorts);
+    setWatchError(problem ?? '');
+    if (problem) return;
+    const port: WatchedPort = {
+      id: `watch-${Date.now()}`,
+      port: Number(watchDraft.port),
+      label: watchDraft.label.trim(),
+      group: watchDraft.group,
+      workspace_id: watchDraft.workspaceId || null,
+    };
+    await saveConfig({ watched_ports: [...watchedPorts, port] });
+    setWatchDraft((draft) => ({ ...draft, label: '', port: '' }));
+    onConfigChanged();
+  }
+
+  async function removeWatchedPort(port: WatchedPort) {
+    // Services that waited on it would otherwise be refused at their next boot.
+    const latest = await githubAuth.loadConfig().catch(() => null);
+    await saveConfig({
+      watched_ports: watchedPorts.filter((item) => item.id !== port.id),
+      user_workspaces: withoutWatchedPort(latest?.user_workspaces ?? config?.user_workspaces ?? [], port.id),
+    });
+    onConfigChanged();
+  }
+
+  function toggleWorkspaceMute(workspaceId: string, muted: boolean) {
+    const others = notifications.muted_workspaces.filter((id) => id !== workspaceId);
+    saveNotifications({ muted_workspaces: muted ? [...others, workspaceId] : others });
+  }
+
   function startWorkspaceRename(workspace: StoredWorkspace) {
     setEditingWs(workspace.id);
     setNameInput(workspace.name);
@@ -313,6 +399,258 @@ export function SettingsView({
           </div>
         </section>
 
+        <section className="panel settings-panel settings-wide">
+          <div className="panel-head">
+            <div className={'panel-title ' + (notifications.enabled ? 'active' : '')}>
+              <span className="dot" /> Notifications
+            </div>
+          </div>
+          <div className="settings-form">
+            <Segmented
+              label="Desktop notifications"
+              value={notifications.enabled ? 'on' : 'off'}
+              options={[
+                { value: 'off', label: 'Off' },
+                { value: 'on', label: 'On failures' },
+              ]}
+              onChange={(value) => saveNotifications({ enabled: value === 'on' })}
+            />
+            <Segmented
+              label="At most"
+              value={String(notifications.max_per_minute)}
+              options={[
+                { value: '3', label: '3 / min' },
+                { value: '6', label: '6 / min' },
+                { value: '12', label: '12 / min' },
+              ]}
+              onChange={(value) => saveNotifications({ max_per_minute: Number(value) })}
+            />
+            <div className="settings-field">
+              <div>
+                <label>What notifies</label>
+                <span>
+                  A service that exits with an error code or fails to launch, and a workspace
+                  boot that leaves services failed or blocked. Each service notifies at most
+                  once every thirty seconds, so a crash loop stays one notification.
+                </span>
+                <span style={{ display: 'block', marginTop: 6 }}>
+                  Nothing is sent while the Hub window is focused. On Linux, clicking a
+                  notification opens its logs.
+                </span>
+              </div>
+            </div>
+          </div>
+          {notifications.enabled && storedWorkspaces.length > 0 && (
+            <div className="settings-list" aria-label="Workspace notifications">
+              {storedWorkspaces.map((workspace) => {
+                const muted = notifications.muted_workspaces.includes(workspace.id);
+                return (
+                  <div key={workspace.id} className="settings-row">
+                    <span className="settings-swatch" style={{ background: workspace.color }} />
+                    <span className="settings-path">{workspace.name}</span>
+                    <button
+                      className="btn sm ghost"
+                      aria-label={`${muted ? 'Unmute' : 'Mute'} ${workspace.name} notifications`}
+                      onClick={() => toggleWorkspaceMute(workspace.id, !muted)}
+                    >
+                      {muted ? 'Muted' : 'Notifying'}
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </section>
+
+        <section className="panel settings-panel settings-wide">
+          <div className="panel-head">
+            <div className="panel-title"><span className="dot" /> Log history</div>
+          </div>
+          <div className="settings-form">
+            <Segmented
+              label="Hold per service"
+              value={String(logRetention.live_lines_per_service)}
+              options={[
+                { value: '2000', label: '2,000 lines' },
+                { value: '10000', label: '10,000 lines' },
+                { value: '50000', label: '50,000 lines' },
+                { value: '200000', label: '200,000 lines' },
+              ]}
+              onChange={(value) => void saveLogRetention({ live_lines_per_service: Number(value) })}
+            />
+            <Segmented
+              label="Restore per service"
+              value={String(logRetention.lines_per_service)}
+              options={[
+                { value: '0', label: 'Nothing' },
+                { value: '500', label: '500 lines' },
+                { value: '1000', label: '1,000 lines' },
+                { value: '5000', label: '5,000 lines' },
+              ]}
+              onChange={(value) => void saveLogRetention({ lines_per_service: Number(value) })}
+            />
+            <Segmented
+              label="Keep runs for"
+              value={String(logRetention.days)}
+              options={[
+                { value: '1', label: '1 day' },
+                { value: '7', label: '7 days' },
+                { value: '30', label: '30 days' },
+              ]}
+              onChange={(value) => void saveLogRetention({ days: Number(value) })}
+            />
+            <div className="settings-field">
+              <div>
+                <label>What is kept</label>
+                <span>
+                  Each service keeps its own lines in the Logs view, so a noisy build cannot
+                  push out what a quiet one printed; past the limit its oldest lines go first.
+                </span>
+                <span style={{ display: 'block', marginTop: 6 }}>
+                  Every run's output is written to disk as it streams. When Hub opens, the Logs
+                  view is refilled from the newest runs of each service, with a divider where
+                  each earlier launch of Hub begins. Runs that ended longer ago than the limit
+                  are deleted, along with their entries in History.
+                </span>
+              </div>
+            </div>
+          </div>
+        </section>
+
+        <section className="panel settings-panel settings-wide">
+          <div className="panel-head">
+            <div className={'panel-title ' + (proxyStatus?.running ? 'active' : '')}>
+              <span className="dot" /> Local proxy
+            </div>
+          </div>
+          <div className="settings-form">
+            <Segmented
+              label="Stable hostnames"
+              value={proxy.enabled ? 'on' : 'off'}
+              options={[
+                { value: 'off', label: 'Off' },
+                { value: 'on', label: 'On' },
+              ]}
+              onChange={(value) => void saveProxy({ enabled: value === 'on' })}
+            />
+            <div className="settings-field">
+              <label htmlFor="settings-proxy-port">Proxy port</label>
+              <input
+                id="settings-proxy-port"
+                className="settings-input"
+                inputMode="numeric"
+                value={proxyPortInput}
+                onChange={(event) => setProxyPortInput(event.target.value)}
+                onBlur={commitProxyPort}
+                onKeyDown={(event) => {
+                  if (event.key === 'Enter') commitProxyPort();
+                  if (event.key === 'Escape') setProxyPortInput(String(proxy.port));
+                }}
+              />
+            </div>
+            <div className="settings-field">
+              <div>
+                <label>How it works</label>
+                <span>
+                  Each saved service answers at <code>service.workspace.localhost</code> on the
+                  proxy port and is forwarded to whichever port it bound this run, so a link keeps
+                  working when a service comes back on a different port. The Ports view and the
+                  command palette open these names while the proxy is running.
+                </span>
+                {proxyStatus?.running ? (
+                  <span style={{ display: 'block', marginTop: 6 }}>
+                    For example <code>{proxyUrl(proxyStatus, exampleHost)}</code>
+                  </span>
+                ) : null}
+                {proxyStatus?.error ? (
+                  <span style={{ display: 'block', marginTop: 6, color: 'var(--danger)' }}>
+                    The proxy could not start: {proxyStatus.error}
+                  </span>
+                ) : null}
+              </div>
+            </div>
+          </div>
+        </section>
+
+        <section className="panel settings-panel settings-wide">
+          <div className="panel-head">
+            <div className="panel-title"><span className="dot" /> Watched Ports</div>
+          </div>
+          <div className="settings-list" aria-label="Watched ports">
+            {watchedPorts.length === 0 ? (
+              <EmptyLine
+                icon={<Ic.Ports size={16} />}
+                text="No watched ports. Add databases and other tools Hub does not run to see them on the Ports map."
+              />
+            ) : watchedPorts.map((port) => {
+              const workspace = storedWorkspaces.find((item) => item.id === port.workspace_id);
+              return (
+                <div key={port.id} className="settings-row">
+                  <span className="settings-path">
+                    {port.label} <span style={{ color: 'var(--fg-4)' }}>:{port.port}</span>
+                  </span>
+                  <span className="mono" style={{ color: 'var(--fg-4)', fontSize: 11 }}>
+                    {PORT_GROUPS.find((group) => group.value === port.group)?.label ?? port.group}
+                    {' · '}
+                    {port.workspace_id ? workspace?.name ?? 'Removed workspace' : 'All workspaces'}
+                  </span>
+                  <button
+                    className="btn sm ghost danger"
+                    aria-label={`Stop watching ${port.label}`}
+                    onClick={() => void removeWatchedPort(port)}
+                  >
+                    <Ic.Close size={10} />
+                  </button>
+                </div>
+              );
+            })}
+            <div className="settings-row">
+              <input
+                className="settings-input"
+                aria-label="Watched port label"
+                placeholder="Postgres"
+                value={watchDraft.label}
+                onChange={(event) => setWatchDraft({ ...watchDraft, label: event.target.value })}
+              />
+              <input
+                className="settings-input"
+                aria-label="Watched port number"
+                placeholder="5432"
+                inputMode="numeric"
+                style={{ flex: '0 0 76px' }}
+                value={watchDraft.port}
+                onChange={(event) => setWatchDraft({ ...watchDraft, port: event.target.value })}
+                onKeyDown={(event) => { if (event.key === 'Enter') void addWatchedPort(); }}
+              />
+              <select
+                className="settings-input"
+                aria-label="Watched port group"
+                style={{ flex: '0 0 auto' }}
+                value={watchDraft.group}
+                onChange={(event) => setWatchDraft({ ...watchDraft, group: event.target.value as PortGroup })}
+              >
+                {PORT_GROUPS.map((group) => <option key={group.value} value={group.value}>{group.label}</option>)}
+              </select>
+              <select
+                className="settings-input"
+                aria-label="Watched port workspace"
+                style={{ flex: '0 0 auto' }}
+                value={watchDraft.workspaceId}
+                onChange={(event) => setWatchDraft({ ...watchDraft, workspaceId: event.target.value })}
+              >
+                <option value="">All workspaces</option>
+                {storedWorkspaces.map((workspace) => (
+                  <option key={workspace.id} value={workspace.id}>{workspace.name}</option>
+                ))}
+              </select>
+              <button className="btn sm primary" onClick={() => void addWatchedPort()}>
+                <Ic.Plus size={11} /> Watch
+              </button>
+            </div>
+            {watchError && <div className="settings-inline-error">{watchError}</div>}
+          </div>
+        </section>
+
         <section className="panel settings-panel settings-wide">
           <div className="panel-head">
             <div className="panel-title"><span className="dot" /> Appearance</div>
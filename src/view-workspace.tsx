@@ -1,21 +1,55 @@
 import React from 'react';
-import type { EnvProfile, Workspace, Repo, StoredService } from './types';
+import type { EnvProfile, FileWatch, GuardrailAction, HttpProbe, LifecycleHooks, LogReadiness, PortAssignment, ProbeStatus, RestartMode, RestartPolicy, RestartStatus, ResourceGuardrail, WatchedPort, Workspace, WorkspaceProfile, Repo, Service, StoredService } from './types';
 import { Ic } from './icons';
 import { StatusDot } from './shared';
 import { formatUptime } from './utils';
+import { RESTART_MODE_LABELS, restartPolicyOf } from './restart-policy';
+import {
+  DEFAULT_CPU_CEILING_PERCENT,
+  DEFAULT_CPU_SUSTAIN_MS,
+  DEFAULT_MEMORY_CEILING_MB,
+  GUARDRAIL_ACTION_LABELS,
+  guardrailSummary,
+  updateGuardrail,
+} from './guardrails';
+import {
+  DEFAULT_WATCH_DEBOUNCE_MS,
+  defaultFileWatch,
+  fileWatchSummary,
+  formatGlobList,
+  parseGlobList,
+} from './file-watch';
+import { formatHookLines, hooksOf, hooksSummary, parseHookLines } from './hooks';
+import { profileServiceIds, profileSummary, profilesOf } from './profiles';
+import type { ResourceHistory } from './resource-history';
+import { ResourceSparkline } from './resource-charts';
+import { DependencyGraph } from './dependency-graph';
+import { DEFINITION_FILE, definitionPathFor, definitionRoots } from './workspace-definition';
+import { watchedPortsFor } from './watched-ports';
+import { ProcessTreePanel } from './process-tree-panel';
 
 interface WorkspaceViewProps {
   workspace: Workspace | null;
   onStartSvc: (wsId: string, svcId: string) => void;
   onStopSvc: (wsId: string, svcId: string) => void;
   onRestartSvc: (wsId: string, svcId: string) => void;
-  onStartAll: (wsId: string) => void;
+  /** Boots every service, or only a profile's and what they depend on. */
+  onStartAll: (wsId: string, profileId?: string) => void;
   onStopAll: (wsId: string) => void;
   onOpenLogs: (srcId: string) => void;
   onOpenWorkspaceLogs: (wsId: string) => void;
   onOpenUrl: (url: string) => void;
   onDeleteWorkspace: (id: string) => void;
-  onUpdateWorkspace: (id: string, patch: { name?: string; color?: string }) => void;
+  onUpdateWorkspace: (
+    id: string,
+    patch: {
+      name?: string;
+      color?: string;
+      hooks?: LifecycleHooks;
+      profiles?: WorkspaceProfile[];
+      definition_path?: string | null;
+    },
+  ) => void;
   onRemoveService: (wsId: string, svcId: string) => void;
   onUpdateService: (
     wsId: string,
@@ -27,6 +61,14 @@ interface WorkspaceViewProps {
       expected_port?: number | null;
       startup_delay_ms?: number;
       readiness_timeout_ms?: number;
+      http_probe?: HttpProbe | null;
+      log_readiness?: LogReadiness | null;
+      restart_policy?: RestartPolicy;
+      guardrail?: ResourceGuardrail | null;
+      file_watch?: FileWatch | null;
+      hooks?: LifecycleHooks;
+      interactive?: boolean;
+      port_assignment?: PortAssignment | null;
       depends_on?: string[];
     },
   ) => void;
@@ -34,8 +76,30 @@ interface WorkspaceViewProps {
   repos: Repo[];
   envProfiles: EnvProfile[];
   onAddToWorkspace: (wsId: string, svc: StoredService) => void;
+  /** Readiness probe progress by service id, from the latest workspace boot. */
+  probes?: Record<string, ProbeStatus>;
+  /** What each service's restart policy last did, by service id. */
+  restarts?: Record<string, RestartStatus>;
+  /** Recent CPU and memory readings by service id. */
+  resourceHistory?: ResourceHistory;
+  /** Every watched port; the ones this workspace can depend on are picked here. */
+  watchedPorts?: WatchedPort[];
 }
 
+const DEFAULT_PROBE: HttpProbe = {
+  path: '/',
+  status_min: 200,
+  status_max: 399,
+  body_contains: null,
+  interval_ms: 1_000,
+};
+
+/** Readiness waiting bounds the probe, so enabling one without it would be refused at boot. */
+const DEFAULT_PROBE_TIMEOUT_MS = 30_000;
+
+/** Matches the backend default, which allows for a compiler's first full pass. */
+const DEFAULT_OUTPUT_TIMEOUT_MS = 60_000;
+
 const COLOR_OPTIONS = [
   'oklch(0.66 0.115 252)', 'oklch(0.80 0.07 75)', 'oklch(0.73 0.13 148)',
   'oklch(0.66 0.19 25)',   'oklch(0.66 0.16 290)', 'oklch(0.65 0.13 165)',
@@ -46,12 +110,14 @@ export function WorkspaceView({
   workspace: w, onStartSvc, onStopSvc, onRestartSvc, onStartAll, onStopAll,
   onOpenLogs, onOpenWorkspaceLogs, onOpenUrl, onDeleteWorkspace, onUpdateWorkspace,
   onRemoveService, onUpdateService, onAddService,
-  envProfiles,
+  repos, envProfiles, probes = {}, restarts = {}, resourceHistory = {}, watchedPorts = [],
 }: WorkspaceViewProps) {
 
   const [editingName, setEditingName] = React.useState(false);
   const [nameInput, setNameInput] = React.useState('');
   const [showColorPicker, setShowColorPicker] = React.useState(false);
+  const [showGraph, setShowGraph] = React.useState(false);
+  const [treeFor, setTreeFor] = React.useState<string | null>(null);
 
   // Empty state — no workspaces exist at all
   if (!w) {
@@ -82,6 +148,20 @@ export function WorkspaceView({
   const active = w.services.filter(s => s.status === 'running' || s.status === 'starting' || s.status === 'restarting').length;
   const total = w.services.length;
   const liveAny = active > 0;
+  const watchable = watchedPortsFor(watchedPorts, w.id);
+
+  function toggleDependency(service: Service, dependencyId: string, checked: boolean) {
+    const dependencies = new Set(service.depends_on ?? []);
+    if (checked) dependencies.add(dependencyId);
+    else dependencies.delete(dependencyId);
+    // Services in workspace order, then watched ports in the order they were added.
+    onUpdateService(w!.id, service.id, {
+      depends_on: [
+        ...w!.services.filter(item => dependencies.has(item.id)).map(item => item.id),
+        ...[...dependencies].filter(id => !w!.services.some(item => item.id === id)),
+      ],
+    });
+  }
 
   function startNameEdit() {
     setNameInput(w!.name);
@@ -160,12 +240,28 @@ export function WorkspaceView({
         </div>
 
         <div className="actions">
+          <HooksEditor
+            label={w.name}
+            hooks={hooksOf(w)}
+            title="Commands run before any service starts and after they have all stopped"
+            onChange={hooks => onUpdateWorkspace(w.id, { hooks })}
+          />
           <button className="btn ghost" onClick={() => onOpenWorkspaceLogs(w.id)} disabled={total === 0}>
             <Ic.Logs size={12} /> Combined logs
           </button>
           {liveAny
             ? <button className="btn danger" onClick={() => onStopAll(w.id)}><Ic.Stop size={12} /> Stop all</button>
             : <button className="btn primary" onClick={() => onStartAll(w.id)} disabled={total === 0}><Ic.Play size={12} /> Boot all</button>}
+          <ProfilesMenu
+            workspace={w}
+            onBoot={profileId => onStartAll(w.id, profileId)}
+            onChange={profiles => onUpdateWorkspace(w.id, { profiles })}
+          />
+          <DefinitionMenu
+            workspace={w}
+            repos={repos}
+            onChange={definitionPath => onUpdateWorkspace(w.id, { definition_path: definitionPath })}
+          />
           <button className="btn ghost sm" style={{ color: 'var(--danger)' }} onClick={() => onDeleteWorkspace(w.id)}>
             <Ic.Stop size={11} /> Delete
           </button>
@@ -181,10 +277,32 @@ export function WorkspaceView({
             <span className="num" style={{ color: 'var(--fg-3)', marginLeft: 8 }}>{running}/{total}</span>
           </div>
           <div className="panel-actions">
+            {total > 0 && (
+              <button
+                type="button"
+                className="btn sm ghost"
+                aria-pressed={showGraph}
+                title="See and edit dependencies as a graph, with the startup waves they produce"
+                onClick={() => setShowGraph(!showGraph)}
+              >
+                Graph
+              </button>
+            )}
             <button className="btn sm ghost" onClick={onAddService}><Ic.Plus size={11} /> Add from repos</button>
           </div>
         </div>
 
+        {showGraph && total > 0 && (
+          <DependencyGraph
+            // The draft starts over whenever the saved dependencies or sequence
+            // change, whether from this graph or from the pickers below.
+            key={w.services.map(s => `${s.id}:${(s.depends_on ?? []).join(',')}:${s.run_mode}:${s.order}`).join('|')}
+            services={w.services}
+            watchedPorts={watchable}
+            onSave={changes => changes.forEach(change => onUpdateService(w.id, change.serviceId, { depends_on: change.dependsOn }))}
+          />
+        )}
+
         {total === 0 ? (
           <div style={{ padding: '32px 24px', textAlign: 'center' }}>
             <div style={{ color: 'var(--fg-4)', fontSize: 12.5, marginBottom: 12 }}>
@@ -206,7 +324,8 @@ export function WorkspaceView({
             </div>
 
             {w.services.map(s => (
-              <div key={s.id} className={'svc-row status-' + s.status}>
+              <React.Fragment key={s.id}>
+              <div className={'svc-row status-' + s.status}>
                 <div className="svc-stat-cell"><StatusDot s={s.status} /></div>
                 <div className="svc-name">
                   <span className="name">{s.name}</span>
@@ -214,6 +333,8 @@ export function WorkspaceView({
                     {s.cmd}
                     {s.pid ? <span style={{ color: 'var(--fg-3)' }}> · pid {s.pid}</span> : null}
                   </span>
+                  {s.http_probe && probes[s.id] && <ProbeBadge service={s} status={probes[s.id]} />}
+                  {restarts[s.id] && <RestartBadge service={s} status={restarts[s.id]} />}
                 </div>
                 <div className="svc-cmd">
                   <div>{s.cmd}</div>
@@ -242,11 +363,11 @@ export function WorkspaceView({
                         .filter(profile => profile.project_path === s.repo_path)
                         .map(profile => <option key={profile.id} value={profile.id}>{profile.name}</option>)}
                     </select>
-                    {w.services.length > 1 && (
+                    {(w.services.length > 1 || watchable.length > 0) && (
                       <details className="dependency-picker">
                         <summary
                           className="btn sm ghost"
-                          title="Select services that must start and become ready before this service"
+                          title="Select services or watched ports that must be ready before this service"
                         >
                           Depends{(s.depends_on ?? []).length > 0 ? ` (${s.depends_on!.length})` : ''}
                         </summary>
@@ -258,20 +379,21 @@ export function WorkspaceView({
                                 <input
                                   type="checkbox"
                                   checked={(s.depends_on ?? []).includes(candidate.id)}
-                                  onChange={event => {
-                                    const dependencies = new Set(s.depends_on ?? []);
-                                    if (event.target.checked) dependencies.add(candidate.id);
-                                    else dependencies.delete(candidate.id);
-                                    onUpdateService(w.id, s.id, {
-                                      depends_on: w.services
-                                        .filter(service => dependencies.has(service.id))
-                                        .map(service => service.id),
-                                    });
-                                  }}
+                                  onChange={event => toggleDependency(s, candidate.id, event.target.checked)}
                                 />
                                 {candidate.name}
                               </label>
                             ))}
+                          {watchable.map(port => (
+                            <label key={port.id} title="Watched port, run outside Hub">
+                              <input
+                                type="checkbox"
+                                checked={(s.depends_on ?? []).includes(port.id)}
+                                onChange={event => toggleDependency(s, port.id, event.target.checked)}
+                              />
+                              {port.label} <span className="mono" style={{ color: 'var(--fg-4)' }}>:{port.port}</span>
+                            </label>
+                          ))}
                         </div>
                       </details>
                     )}
@@ -319,6 +441,42 @@ export function WorkspaceView({
                       />
                       s
                     </label>
+                    <ProbeEditor
+                      service={s}
+                      onChange={patch => onUpdateService(w.id, s.id, patch)}
+                    />
+                    <OutputReadinessEditor
+                      service={s}
+                      onChange={log_readiness => onUpdateService(w.id, s.id, { log_readiness })}
+                    />
+                    <RestartPolicyEditor
+                      service={s}
+                      onChange={restart_policy => onUpdateService(w.id, s.id, { restart_policy })}
+                    />
+                    <GuardrailEditor
+                      service={s}
+                      onChange={guardrail => onUpdateService(w.id, s.id, { guardrail })}
+                    />
+                    <FileWatchEditor
+                      service={s}
+                      onChange={file_watch => onUpdateService(w.id, s.id, { file_watch })}
+                    />
+                    <HooksEditor
+                      label={s.name}
+                      hooks={hooksOf(s)}
+                      title="Commands run in this service's folder before it starts and after it stops"
+                      onChange={hooks => onUpdateService(w.id, s.id, { hooks })}
+                    />
+                    <button
+                      type="button"
+                      className="btn sm ghost"
+                      aria-pressed={s.interactive ?? false}
+                      aria-label={`${s.name} interactive terminal`}
+                      title="Run on a terminal you can type into from the Logs view, for tools that prompt or take keystrokes. Applies from the next start. macOS and Linux only"
+                      onClick={() => onUpdateService(w.id, s.id, { interactive: !s.interactive })}
+                    >
+                      Terminal
+                    </button>
                   </div>
                 </div>
                 <div className="svc-port">
@@ -336,6 +494,7 @@ export function WorkspaceView({
                       </a>
                     </>
                   ) : (
+                    <>
                     <input
                       className="input mono"
                       aria-label={`${s.name} expected port`}
@@ -354,13 +513,43 @@ export function WorkspaceView({
                       }}
                       style={{ width: 84, height: 26, fontSize: 10.5 }}
                     />
+                    {s.port_assignment && (
+                      <button
+                        type="button"
+                        className="tag warm port-assignment"
+                        aria-label={`Move ${s.name} back to port ${s.port_assignment.original}`}
+                        title={`:${s.port_assignment.original} was taken, so ${s.name} starts on :${s.port_assignment.port}. Click to go back to :${s.port_assignment.original} from the next start.`}
+                        onClick={() => onUpdateService(w.id, s.id, { port_assignment: null })}
+                      >
+                        → :{s.port_assignment.port}
+                      </button>
+                    )}
+                    </>
+                  )}
+                </div>
+                <div className="svc-uptime">
+                  {formatUptime(s.uptime)}
+                  {resourceHistory[s.id] && (
+                    <div style={{ display: 'flex', gap: 4, marginTop: 3 }}>
+                      <ResourceSparkline samples={resourceHistory[s.id]} metric="cpu" label={`${s.name} CPU history`} />
+                      <ResourceSparkline samples={resourceHistory[s.id]} metric="memoryMb" label={`${s.name} memory history`} />
+                    </div>
                   )}
                 </div>
-                <div className="svc-uptime">{formatUptime(s.uptime)}</div>
                 <div className="svc-actions">
-                  {s.status === 'running' || s.status === 'starting' ? (
+                  {s.status === 'running' || s.status === 'starting' || s.status === 'restarting' ? (
                     <>
                       <button className="btn sm ghost" title="Logs" onClick={() => onOpenLogs(s.id)}><Ic.Logs size={11} /></button>
+                      {s.pid ? (
+                        <button
+                          className="btn sm ghost"
+                          title="Processes"
+                          aria-pressed={treeFor === s.id}
+                          onClick={() => setTreeFor(current => current === s.id ? null : s.id)}
+                        >
+                          <Ic.Cpu size={11} />
+                        </button>
+                      ) : null}
                       <button className="btn sm ghost" title="Restart" onClick={() => onRestartSvc(w.id, s.id)}><Ic.Reload size={11} /></button>
                       <button className="btn sm ghost danger" title="Stop" onClick={() => onStopSvc(w.id, s.id)}><Ic.Stop size={11} /></button>
                     </>
@@ -378,6 +567,12 @@ export function WorkspaceView({
                   )}
                 </div>
               </div>
+              {treeFor === s.id && s.pid ? (
+                <div style={{ padding: '10px 16px', borderBottom: '1px solid var(--line-soft)' }}>
+                  <ProcessTreePanel pid={s.pid} label={s.name} />
+                </div>
+              ) : null}
+              </React.Fragment>
             ))}
           </>
         )}
@@ -397,6 +592,756 @@ export function WorkspaceView({
   );
 }
 
+function ProbeBadge({ service, status }: { service: Service; status: ProbeStatus }) {
+  const target = `GET ${service.http_probe!.path}`;
+  const label = status.state === 'passing'
+    ? `${target} passed`
+    : status.state === 'failing'
+      ? `${target} failing`
+      : `waiting for ${target}`;
+  const color = status.state === 'passing'
+    ? 'var(--ok)'
+    : status.state === 'failing' ? 'var(--danger)' : 'var(--fg-3)';
+  return (
+    <span
+      className="sub mono"
+      aria-label={`${service.name} probe status`}
+      title={status.lastFailure ? `Last failure: ${status.lastFailure}` : undefined}
+      style={{ color }}
+    >
+      {label}
+      {status.lastFailure && status.state !== 'passing' && (
+        <span style={{ color: 'var(--fg-3)' }}> · {status.lastFailure}</span>
+      )}
+    </span>
+  );
+}
+
+function RestartBadge({ service, status }: { service: Service; status: RestartStatus }) {
+  const max = restartPolicyOf(service).max_retries;
+  const label = status.state === 'gave_up'
+    ? `gave up after ${status.attempt} restart${status.attempt === 1 ? '' : 's'}`
+    : status.state === 'backing_off'
+      ? `restart ${status.attempt}/${max} pending`
+      : `recovered on restart ${status.attempt}`;
+  const color = status.state === 'gave_up'
+    ? 'var(--danger)'
+    : status.state === 'backing_off' ? 'var(--warn)' : 'var(--fg-3)';
+  return (
+    <span
+      className="sub mono"
+      aria-label={`${service.name} restart status`}
+      title={status.detail}
+      style={{ color }}
+    >
+      {label}
+    </span>
+  );
+}
+
+interface RestartPolicyEditorProps {
+  service: Service;
+  onChange: (policy: RestartPolicy) => void;
+}
+
+function RestartPolicyEditor({ service, onChange }: RestartPolicyEditorProps) {
+  const policy = restartPolicyOf(service);
+
+  function update(patch: Partial<RestartPolicy>) {
+    onChange({ ...policy, ...patch });
+  }
+
+  function retriesValue(value: string) {
+    const retries = Number(value.trim() || NaN);
+    return Number.isInteger(retries) && retries >= 0 && retries <= 100 ? retries : 0;
+  }
+
+  function secondsValue(value: string, fallback: number) {
+    const seconds = Number(value.trim() || NaN);
+    return Number.isInteger(seconds) && seconds >= 1 && seconds <= 300 ? seconds : fallback;
+  }
+
+  return (
+    <details className="dependency-picker">
+      <summary
+        className="btn sm ghost"
+        title="Restart this service automatically when it exits"
+      >
+        {policy.mode === 'never' ? 'Restart' : `Restart: ${RESTART_MODE_LABELS[policy.mode]}`}
+      </summary>
+      <div className="dependency-menu" aria-label={`${service.name} restart policy`} style={{ minWidth: 220 }}>
+        <label>
+          When
+          <select
+            className="input"
+            aria-label={`${service.name} restart mode`}
+            value={policy.mode}
+            onChange={event => update({ mode: event.target.value as RestartMode })}
+            style={{ flex: 1, height: 24, fontSize: 10.5 }}
+          >
+            {(Object.keys(RESTART_MODE_LABELS) as RestartMode[]).map(mode => (
+              <option key={mode} value={mode}>{RESTART_MODE_LABELS[mode]}</option>
+            ))}
+          </select>
+        </label>
+        {policy.mode !== 'never' && (
+          <>
+            <label>
+              Retries
+              <DraftNumberInput
+                label={`${service.name} restart retries`}
+                value={policy.max_retries}
+                parse={retriesValue}
+                onCommit={max_retries => update({ max_retries })}
+                width={40}
+              />
+            </label>
+            <label title="Doubles after each attempt, up to the ceiling">
+              Backoff
+              <DraftNumberInput
+                label={`${service.name} restart backoff seconds`}
+                value={Math.round(policy.initial_backoff_ms / 1000)}
+                parse={text => secondsValue(text, 1)}
+                onCommit={(seconds) => {
+                  const initial = seconds * 1000;
+                  update({ initial_backoff_ms: initial, max_backoff_ms: Math.max(initial, policy.max_backoff_ms) });
+                }}
+                width={40}
+              />
+              –
+              <DraftNumberInput
+                label={`${service.name} restart backoff ceiling seconds`}
+                value={Math.round(policy.max_backoff_ms / 1000)}
+                parse={text => secondsValue(text, Math.round(policy.initial_backoff_ms / 1000))}
+                onCommit={seconds => update({ max_backoff_ms: Math.max(seconds * 1000, policy.initial_backoff_ms) })}
+                width={40}
+              />
+              s
+            </label>
+          </>
+        )}
+      </div>
+    </details>
+  );
+}
+
+interface GuardrailEditorProps {
+  service: Service;
+  onChange: (guardrail: ResourceGuardrail | null) => void;
+}
+
+function GuardrailEditor({ service, onChange }: GuardrailEditorProps) {
+  const guardrail = service.guardrail ?? null;
+
+  function update(patch: Partial<ResourceGuardrail>) {
+    onChange(updateGuardrail(guardrail, patch));
+  }
+
+  function numberValue(value: string, min: number, max: number, fallback: number) {
+    const parsed = Number(value);
+    return Number.isInteger(parsed) && parsed >= min && parsed <= max ? parsed : fallback;
+  }
+
+  return (
+    <details className="dependency-picker">
+      <summary
+        className="btn sm ghost"
+        title="Act when this service uses too much memory or CPU"
+      >
+        {guardrail ? `Limits: ${guardrailSummary(guardrail)}` : 'Limits'}
+      </summary>
+      <div className="dependency-menu" aria-label={`${service.name} resource guardrail`} style={{ minWidth: 240 }}>
+        <label>
+          <input
+            type="checkbox"
+            aria-label={`${service.name} memory ceiling enabled`}
+            checked={guardrail?.max_memory_mb != null}
+            onChange={event => update({ max_memory_mb: event.target.checked ? DEFAULT_MEMORY_CEILING_MB : null })}
+          />
+          Memory over
+          <input
+            className="input mono"
+            aria-label={`${service.name} memory ceiling MB`}
+            inputMode="numeric"
+            disabled={guardrail?.max_memory_mb == null}
+            value={guardrail?.max_memory_mb ?? DEFAULT_MEMORY_CEILING_MB}
+            onChange={event => update({
+              max_memory_mb: numberValue(event.target.value, 1, 1_048_576, guardrail?.max_memory_mb ?? DEFAULT_MEMORY_CEILING_MB),
+            })}
+            style={{ width: 56, height: 24, fontSize: 10.5 }}
+          />
+          MB
+        </label>
+        <label title="Summed over the service's processes; 100% is one core">
+          <input
+            type="checkbox"
+            aria-label={`${service.name} CPU ceiling enabled`}
+            checked={guardrail?.max_cpu_percent != null}
+            onChange={event => update({ max_cpu_percent: event.target.checked ? DEFAULT_CPU_CEILING_PERCENT : null })}
+          />
+          CPU over
+          <input
+            className="input mono"
+            aria-label={`${service.name} CPU ceiling percent`}
+            inputMode="numeric"
+            disabled={guardrail?.max_cpu_percent == null}
+            value={guardrail?.max_cpu_percent ?? DEFAULT_CPU_CEILING_PERCENT}
+            onChange={event => update({
+              max_cpu_percent: numberValue(event.target.value, 1, 10_000, guardrail?.max_cpu_percent ?? DEFAULT_CPU_CEILING_PERCENT),
+            })}
+            style={{ width: 44, height: 24, fontSize: 10.5 }}
+          />
+          % for
+          <input
+            className="input mono"
+            aria-label={`${service.name} CPU ceiling seconds`}
+            inputMode="numeric"
+            disabled={guardrail?.max_cpu_percent == null}
+            value={Math.round((guardrail?.cpu_sustain_ms ?? DEFAULT_CPU_SUSTAIN_MS) / 1000)}
+            onChange={event => update({
+              cpu_sustain_ms: numberValue(event.target.value, 1, 3_600, 30) * 1000,
+            })}
+            style={{ width: 40, height: 24, fontSize: 10.5 }}
+          />
+          s
+        </label>
+        {guardrail && (
+          <label>
+            Then
+            <select
+              className="input"
+              aria-label={`${service.name} guardrail action`}
+              value={guardrail.action}
+              onChange={event => update({ action: event.target.value as GuardrailAction })}
+              style={{ flex: 1, height: 24, fontSize: 10.5 }}
+            >
+              {(Object.keys(GUARDRAIL_ACTION_LABELS) as GuardrailAction[]).map(action => (
+                <option key={action} value={action}>{GUARDRAIL_ACTION_LABELS[action]}</option>
+              ))}
+            </select>
+          </label>
+        )}
+      </div>
+    </details>
+  );
+}
+
+interface FileWatchEditorProps {
+  service: Service;
+  onChange: (fileWatch: FileWatch | null) => void;
+}
+
+function FileWatchEditor({ service, onChange }: FileWatchEditorProps) {
+  const watch = service.file_watch ?? null;
+  // The lists are edited as text, so a half-typed `src/**/*.ts,` keeps its comma
+  // while the saved list only ever holds whole globs.
+  const [globsText, setGlobsText] = React.useState(formatGlobList(watch?.globs ?? []));
+  const [ignoreText, setIgnoreText] = React.useState(formatGlobList(watch?.ignore ?? []));
+
+  function enable(enabled: boolean) {
+    const next = enabled ? defaultFileWatch() : null;
+    setGlobsText(formatGlobList(next?.globs ?? []));
+    setIgnoreText('');
+    onChange(next);
+  }
+
+  function debounceValue(value: string) {
+    const debounce = Number(value.trim() || NaN);
+    return Number.isInteger(debounce) && debounce >= 50 && debounce <= 60_000 ? debounce : DEFAULT_WATCH_DEBOUNCE_MS;
+  }
+
+  return (
+    <details className="dependency-picker">
+      <summary
+        className="btn sm ghost"
+        title="Restart this service when its files change, for tools that do not reload themselves"
+      >
+        {watch ? `Watch ${fileWatchSummary(watch)}` : 'Watch'}
+      </summary>
+      <div className="dependency-menu" aria-label={`${service.name} file watch`} style={{ minWidth: 240 }}>
+        <label>
+          <input
+            type="checkbox"
+            aria-label={`${service.name} restart on file change`}
+            checked={watch != null}
+            onChange={event => enable(event.target.checked)}
+          />
+          Restart when files change
+        </label>
+        {watch && (
+          <>
+            <label title="Relative to the service's folder. node_modules, target and .git are always skipped">
+              Files
+              <input
+                className="input mono"
+                aria-label={`${service.name} watch globs`}
+                placeholder="src/**/*.ts, *.json"
+                value={globsText}
+                onChange={event => {
+                  setGlobsText(event.target.value);
+                  const globs = parseGlobList(event.target.value);
+                  // An empty list watches nothing and the backend refuses it, so
+                  // the last usable one is kept until something is typed.
+                  if (globs.length > 0) onChange({ ...watch, globs });
+                }}
+                style={{ flex: 1, height: 24, fontSize: 10.5 }}
+              />
+            </label>
+            <label>
+              Except
+              <input
+                className="input mono"
+                aria-label={`${service.name} watch ignore globs`}
+                placeholder="**/*.test.ts"
+                value={ignoreText}
+                onChange={event => {
+                  setIgnoreText(event.target.value);
+                  onChange({ ...watch, ignore: parseGlobList(event.target.value) });
+                }}
+                style={{ flex: 1, height: 24, fontSize: 10.5 }}
+              />
+            </label>
+            <label title="How long to wait after the last change before restarting">
+              Wait
+              <DraftNumberInput
+                label={`${service.name} watch debounce ms`}
+                value={watch.debounce_ms}
+                parse={debounceValue}
+                onCommit={debounce_ms => onChange({ ...watch, debounce_ms })}
+                width={48}
+              />
+              ms
+            </label>
+          </>
+        )}
+      </div>
+    </details>
+  );
+}
+
+interface HooksEditorProps {
+  /** Names the service or workspace in the controls' accessible labels. */
+  label: string;
+  hooks: LifecycleHooks;
+  title: string;
+  onChange: (hooks: LifecycleHooks) => void;
+}
+
+function HooksEditor({ label, hooks, title, onChange }: HooksEditorProps) {
+  // Edited as text for the same reason as the watch globs: a blank line being
+  // typed is not a hook yet, but it should stay on screen.
+  const [beforeText, setBeforeText] = React.useState(formatHookLines(hooks.pre_start));
+  const [afterText, setAfterText] = React.useState(formatHookLines(hooks.post_stop));
+  const summary = hooksSummary(hooks);
+
+  return (
+    <details className="dependency-picker">
+      <summary className="btn sm ghost" title={title}>
+        {summary ? `Hooks: ${summary}` : 'Hooks'}
+      </summary>
+      <div className="dependency-menu" aria-label={`${label} hooks`} style={{ minWidth: 280 }}>
+        <label
+          title="Run in order; the first to fail stops the start and blocks anything that depends on it"
+          style={{ alignItems: 'flex-start', flexDirection: 'column' }}
+        >
+          Before start, one command per line
+          <textarea
+            className="input mono"
+            aria-label={`${label} pre-start hooks`}
+            placeholder="docker compose up -d db"
+            rows={3}
+            value={beforeText}
+            onChange={event => {
+              setBeforeText(event.target.value);
+              onChange({ ...hooks, pre_start: parseHookLines(event.target.value, hooks.pre_start) });
+            }}
+            style={{ width: '100%', fontSize: 10.5, resize: 'vertical' }}
+          />
+        </label>
+        <label
+          title="Run in order once stopped; a failure is reported but the rest still run"
+          style={{ alignItems: 'flex-start', flexDirection: 'column' }}
+        >
+          After stop, one command per line
+          <textarea
+            className="input mono"
+            aria-label={`${label} post-stop hooks`}
+            placeholder="docker compose stop db"
+            rows={3}
+            value={afterText}
+            onChange={event => {
+              setAfterText(event.target.value);
+              onChange({ ...hooks, post_stop: parseHookLines(event.target.value, hooks.post_stop) });
+            }}
+            style={{ width: '100%', fontSize: 10.5, resize: 'vertical' }}
+          />
+        </label>
+      </div>
+    </details>
+  );
+}
+
+interface ProfilesMenuProps {
+  workspace: Workspace;
+  onBoot: (profileId: string) => void;
+  onChange: (profiles: WorkspaceProfile[]) => void;
+}
+
+function ProfilesMenu({ workspace, onBoot, onChange }: ProfilesMenuProps) {
+  const menuRef = React.useRef<HTMLDetailsElement>(null);
+  const [editing, setEditing] = React.useState<string | null>(null);
+  const [newName, setNewName] = React.useState('');
+  const profiles = profilesOf(workspace);
+
+  function update(profileId: string, patch: Partial<WorkspaceProfile>) {
+    onChange(profiles.map(profile => profile.id === profileId ? { ...profile, ...patch } : profile));
+  }
+
+  function create() {
+    const name = newName.trim();
+    if (!name) return;
+    const profile: WorkspaceProfile = { id: `profile-${Date.now()}`, name, service_ids: [] };
+    onChange([...profiles, profile]);
+    setNewName('');
+    setEditing(profile.id);
+  }
+
+  return (
+    <details className="dependency-picker" ref={menuRef}>
+      <summary className="btn" title="Boot a named subset of this workspace, with whatever it depends on">
+        <Ic.Play size={12} /> Boot profile…
+      </summary>
+      <div className="dependency-menu profiles-menu" aria-label={`${workspace.name} profiles`}>
+        {profiles.length === 0 && (
+          <div className="profiles-empty">No profiles yet. Name one below, then pick its services.</div>
+        )}
+        {profiles.map(profile => (
+          <div key={profile.id} className="profile-entry">
+            <div className="profile-row">
+              <button
+                type="button"
+                className="btn sm primary"
+                aria-label={`Boot profile ${profile.name}`}
+                disabled={profileServiceIds(workspace.services, profile).length === 0}
+                onClick={() => {
+                  if (menuRef.current) menuRef.current.open = false;
+                  onBoot(profile.id);
+                }}
+              >
+                <Ic.Play size={10} /> {profile.name}
+              </button>
+              <span className="profile-summary">{profileSummary(workspace.services, profile)}</span>
+              <button
+                type="button"
+                className="btn sm ghost"
+                aria-pressed={editing === profile.id}
+                onClick={() => setEditing(editing === profile.id ? null : profile.id)}
+              >
+                Edit
+              </button>
+              <button
+                type="button"
+                className="btn sm ghost danger"
+                aria-label={`Delete profile ${profile.name}`}
+                onClick={() => onChange(profiles.filter(item => item.id !== profile.id))}
+              >
+                <Ic.Close size={10} />
+              </button>
+            </div>
+            {editing === profile.id && workspace.services.map(service => (
+              <label key={service.id}>
+                <input
+                  type="checkbox"
+                  aria-label={`${profile.name} includes ${service.name}`}
+                  checked={profile.service_ids.includes(service.id)}
+                  onChange={event => {
+                    const selected = new Set(profile.service_ids);
+                    if (event.target.checked) selected.add(service.id);
+                    else selected.delete(service.id);
+                    update(profile.id, {
+                      service_ids: workspace.services
+                        .filter(item => selected.has(item.id))
+                        .map(item => item.id),
+                    });
+                  }}
+                />
+                {service.name}
+              </label>
+            ))}
+          </div>
+        ))}
+        <form
+          className="profile-row"
+          onSubmit={event => {
+            event.preventDefault();
+            create();
+          }}
+        >
+          <input
+            className="input"
+            aria-label={`${workspace.name} new profile name`}
+            placeholder="frontend + api"
+            value={newName}
+            onChange={event => setNewName(event.target.value)}
+            style={{ flex: 1, height: 24, fontSize: 11 }}
+          />
+          <button type="submit" className="btn sm" disabled={!newName.trim()}>
+            <Ic.Plus size={10} /> Add
+          </button>
+        </form>
+      </div>
+    </details>
+  );
+}
+
+interface DraftNumberInputProps {
+  label: string;
+  value: number;
+  /** The number the text stands for, or the fallback when it stands for none. */
+  parse: (text: string) => number;
+  onCommit: (value: number) => void;
+  width: number;
+}
+
+/**
+ * A numeric field that holds what is typed until the user leaves it or presses
+ * Enter. Checking every keystroke would put the fallback back the moment a
+ * partial value such as the "5" of "503" fails, and save the workspace each time.
+ */
+function DraftNumberInput({ label, value, parse, onCommit, width }: DraftNumberInputProps) {
+  const [draft, setDraft] = React.useState<string | null>(null);
+
+  function commit() {
+    if (draft === null) return;
+    const next = parse(draft);
+    setDraft(null);
+    if (next !== value) onCommit(next);
+  }
+
+  return (
+    <input
+      className="input mono"
+      aria-label={label}
+      inputMode="numeric"
+      value={draft ?? String(value)}
+      onChange={event => setDraft(event.target.value)}
+      onBlur={commit}
+      onKeyDown={(event) => {
+        if (event.key === 'Enter') {
+          event.preventDefault();
+          commit();
+        }
+      }}
+      style={{ width, height: 24, fontSize: 10.5 }}
+    />
+  );
+}
+
+interface ProbeEditorProps {
+  service: Service;
+  onChange: (patch: { http_probe: HttpProbe | null; readiness_timeout_ms?: number }) => void;
+}
+
+function ProbeEditor({ service, onChange }: ProbeEditorProps) {
+  const probe = service.http_probe ?? null;
+  // Without a port the backend has nowhere to send the probe and refuses the
+  // whole workspace, so it cannot be switched on; one already on can be turned off.
+  const portless = service.expected_port == null;
+
+  function update(patch: Partial<HttpProbe>) {
+    if (probe) onChange({ http_probe: { ...probe, ...patch } });
+  }
+
+  function statusValue(value: string, fallback: number) {
+    const status = Number(value.trim() || NaN);
+    return Number.isInteger(status) && status >= 100 && status <= 599 ? status : fallback;
+  }
+
+  function intervalSeconds(value: string) {
+    const seconds = Number(value.trim() || NaN);
+    return Number.isInteger(seconds) && seconds >= 1 && seconds <= 60 ? seconds : DEFAULT_PROBE.interval_ms / 1000;
+  }
+
+  return (
+    <details className="dependency-picker">
+      <summary
+        className="btn sm ghost"
+        title="Require an HTTP response before dependent services start"
+      >
+        {probe ? `Probe ${probe.path}` : 'Probe'}
+      </summary>
+      <div className="dependency-menu" aria-label={`${service.name} HTTP probe`} style={{ minWidth: 220 }}>
+        <label>
+          <input
+            type="checkbox"
+            checked={probe != null}
+            disabled={portless && probe == null}
+            onChange={event => onChange(event.target.checked
+              ? {
+                http_probe: DEFAULT_PROBE,
+                readiness_timeout_ms: service.readiness_timeout_ms || DEFAULT_PROBE_TIMEOUT_MS,
+              }
+              : { http_probe: null })}
+          />
+          Wait for an HTTP response
+        </label>
+        {portless && (
+          <div style={{ padding: '3px 7px', color: 'var(--fg-4)', fontSize: 10.5 }}>
+            Needs an expected port to send the probe to
+          </div>
+        )}
+        {probe && (
+          <>
+            <label>
+              Path
+              <input
+                className="input mono"
+                aria-label={`${service.name} probe path`}
+                value={probe.path}
+                onChange={event => update({ path: event.target.value })}
+                style={{ flex: 1, height: 24, fontSize: 10.5 }}
+              />
+            </label>
+            <label>
+              Status
+              <DraftNumberInput
+                label={`${service.name} probe minimum status`}
+                value={probe.status_min}
+                parse={text => statusValue(text, DEFAULT_PROBE.status_min)}
+                onCommit={status_min => update({ status_min })}
+                width={48}
+              />
+              –
+              <DraftNumberInput
+                label={`${service.name} probe maximum status`}
+                value={probe.status_max}
+                parse={text => statusValue(text, DEFAULT_PROBE.status_max)}
+                onCommit={status_max => update({ status_max })}
+                width={48}
+              />
+            </label>
+            <label>
+              Body
+              <input
+                className="input mono"
+                aria-label={`${service.name} probe body text`}
+                placeholder="Optional text"
+                value={probe.body_contains ?? ''}
+                onChange={event => update({ body_contains: event.target.value || null })}
+                style={{ flex: 1, height: 24, fontSize: 10.5 }}
+              />
+            </label>
+            <label>
+              Every
+              <DraftNumberInput
+                label={`${service.name} probe interval seconds`}
+                value={Math.round(probe.interval_ms / 1000)}
+                parse={intervalSeconds}
+                onCommit={seconds => update({ interval_ms: seconds * 1000 })}
+                width={40}
+              />
+              s
+            </label>
+          </>
+        )}
+      </div>
+    </details>
+  );
+}
+
+interface OutputReadinessEditorProps {
+  service: Service;
+  onChange: (readiness: LogReadiness | null) => void;
+}
+
+/**
+ * For services with no port to wait on: dependents start once a line of output
+ * matches. The pattern is a regular expression, checked by the backend at boot.
+ */
+function OutputReadinessEditor({ service, onChange }: OutputReadinessEditorProps) {
+  const saved = service.log_readiness ?? null;
+  // The backend refuses an empty pattern and would not start the workspace at
+  // all, so switching this on only drafts it here until a pattern is typed.
+  const [draft, setDraft] = React.useState<LogReadiness | null>(null);
+  const [patternText, setPatternText] = React.useState(saved?.pattern ?? '');
+  const readiness = saved ?? draft;
+  const pattern = saved?.pattern ?? '';
+  const shown = pattern.length > 16 ? `${pattern.slice(0, 15)}…` : pattern;
+
+  function enable(enabled: boolean) {
+    setPatternText('');
+    setDraft(enabled ? { pattern: '', timeout_ms: DEFAULT_OUTPUT_TIMEOUT_MS } : null);
+    if (!enabled && saved) onChange(null);
+  }
+
+  function update(next: LogReadiness) {
+    if (saved) onChange(next);
+    else setDraft(next);
+  }
+
+  function timeoutSeconds(value: string) {
+    const seconds = Number(value.trim() || NaN);
+    return Number.isInteger(seconds) && seconds >= 1 && seconds <= 300 ? seconds : DEFAULT_OUTPUT_TIMEOUT_MS / 1000;
+  }
+
+  return (
+    <details className="dependency-picker">
+      <summary
+        className="btn sm ghost"
+        title="Require a line of output before dependent services start"
+      >
+        {shown ? `Output /${shown}/` : 'Output'}
+      </summary>
+      <div className="dependency-menu" aria-label={`${service.name} output readiness`} style={{ minWidth: 220 }}>
+        <label>
+          <input
+            type="checkbox"
+            checked={readiness != null}
+            onChange={event => enable(event.target.checked)}
+          />
+          Wait for a line of output
+        </label>
+        {readiness && (
+          <>
+            <label>
+              Match
+              <input
+                className="input mono"
+                aria-label={`${service.name} readiness pattern`}
+                placeholder="Found 0 errors"
+                value={patternText}
+                onChange={event => {
+                  setPatternText(event.target.value);
+                  // A cleared field keeps the last pattern saved rather than one
+                  // the backend refuses.
+                  if (event.target.value.trim()) onChange({ ...readiness, pattern: event.target.value });
+                }}
+                style={{ flex: 1, height: 24, fontSize: 10.5 }}
+              />
+            </label>
+            <label>
+              Within
+              <DraftNumberInput
+                label={`${service.name} output readiness timeout seconds`}
+                value={Math.round(readiness.timeout_ms / 1000)}
+                parse={timeoutSeconds}
+                onCommit={seconds => update({ ...readiness, timeout_ms: seconds * 1000 })}
+                width={40}
+              />
+              s
+            </label>
+            {!saved && (
+              <div style={{ padding: '3px 7px', color: 'var(--fg-4)', fontSize: 10.5 }}>
+                Not saved until a pattern is typed
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </details>
+  );
+}
+
 interface ResourceBarProps {
   label: string;
   value: number;
@@ -419,3 +1364,73 @@ function ResourceBar({ label, value, max, unit, color }: ResourceBarProps) {
     </div>
   );
 }
+
+interface DefinitionMenuProps {
+  workspace: Workspace;
+  repos: Repo[];
+  onChange: (definitionPath: string | null) => void;
+}
+
+/**
+ * Saves the workspace as a definition file in one of its repos, so it can be
+ * committed and imported by anyone with a clone. Unlinking keeps the workspace
+ * as it is here and leaves the file alone.
+ */
+function DefinitionMenu({ workspace, repos, onChange }: DefinitionMenuProps) {
+  const menuRef = React.useRef<HTMLDetailsElement>(null);
+  const path = workspace.definition_path;
+  const roots = definitionRoots(workspace.services, repos);
+  // Home folders are /home/<user> on Linux and /Users/<user> on macOS.
+  const shortPath = (value: string) => value.replace(/^\/(?:home|Users)\/[^/]+/, '~');
+
+  function choose(definitionPath: string | null) {
+    if (menuRef.current) menuRef.current.open = false;
+    onChange(definitionPath);
+  }
+
+  return (
+    <details className="dependency-picker" ref={menuRef}>
+      <summary
+        className="btn ghost"
+        title={path ? `Kept in ${path}` : 'Keep this workspace in a file that can be committed with the code'}
+      >
+        {path ? DEFINITION_FILE : 'Save to repo…'}
+      </summary>
+      <div className="dependency-menu profiles-menu" aria-label={`${workspace.name} definition file`}>
+        {path ? (
+          <>
+            <div className="definition-path" title={path}>{shortPath(path)}</div>
+            <div className="profiles-empty">
+              Changes made here are written to this file. Commit it to share the workspace.
+            </div>
+            <div className="profile-row">
+              <button type="button" className="btn sm ghost" onClick={() => choose(null)}>
+                Stop syncing with the file
+              </button>
+            </div>
+          </>
+        ) : roots.length === 0 ? (
+          <div className="profiles-empty">Add a service first. The file is saved in its repo.</div>
+        ) : (
+          roots.map(root => {
+            const existing = repos.find(repo => repo.path === root)?.workspace_definition;
+            return (
+              <div key={root} className="profile-row">
+                <button
+                  type="button"
+                  className="btn sm ghost"
+                  aria-label={`Save ${workspace.name} to ${root}`}
+                  disabled={!!existing}
+                  title={existing ? `${root} already has a ${DEFINITION_FILE}. Import it from Repos instead.` : undefined}
+                  onClick={() => choose(definitionPathFor(root))}
+                >
+                  {shortPath(root)}
+                </button>
+              </div>
+            );
+          })
+        )}
+      </div>
+    </details>
+  );
+}
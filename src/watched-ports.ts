@@ -0,0 +1,50 @@
+import type { PortGroup, StoredWorkspace, WatchedPort } from './types';
+
+export const PORT_GROUPS: Array<{ value: PortGroup; label: string }> = [
+  { value: 'web', label: 'Web' },
+  { value: 'api', label: 'API' },
+  { value: 'db', label: 'Data' },
+  { value: 'edge', label: 'Edge' },
+];
+
+/** The ones a workspace's services can depend on: its own, and the shared ones. */
+export function watchedPortsFor(watched: WatchedPort[], workspaceId: string): WatchedPort[] {
+  return watched.filter(port => !port.workspace_id || port.workspace_id === workspaceId);
+}
+
+/** The watched ports named in a service's `depends_on`, as its boot spec carries them. */
+export function watchedDependencies(watched: WatchedPort[], dependsOn: string[]): WatchedPort[] {
+  return watched.filter(port => dependsOn.includes(port.id));
+}
+
+/**
+ * Why a watched port cannot be saved as drafted, or null when it can. A port
+ * is watched once, so a second entry for it is refused rather than drawn twice.
+ */
+export function watchedPortProblem(
+  draft: { label: string; port: string },
+  existing: WatchedPort[],
+): string | null {
+  if (!draft.label.trim()) return 'Give the port a label, such as Postgres.';
+  const port = Number(draft.port);
+  if (!Number.isInteger(port) || port < 1 || port > 65535) return 'Ports run from 1 to 65535.';
+  const taken = existing.find(item => item.port === port);
+  if (taken) return `:${port} is already watched as ${taken.label}.`;
+  return null;
+}
+
+/**
+ * Drops a removed watched port from every `depends_on` that names it, which
+ * the backend would otherwise refuse as a dependency on a missing service.
+ */
+export function withoutWatchedPort(workspaces: StoredWorkspace[], id: string): StoredWorkspace[] {
+  return workspaces.map(workspace => workspace.services.some(service => service.depends_on.includes(id))
+    ? {
+      ...workspace,
+      services: workspace.services.map(service => ({
+        ...service,
+        depends_on: service.depends_on.filter(dependencyId => dependencyId !== id),
+      })),
+    }
+    : workspace);
+}
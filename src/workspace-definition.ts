@@ -0,0 +1,54 @@
+import type { Repo, StoredWorkspace } from './types';
+
+export const DEFINITION_FILE = 'localhost-hub.json';
+
+export function definitionPathFor(root: string): string {
+  return `${root.replace(/[\\/]+$/, '')}/${DEFINITION_FILE}`;
+}
+
+/**
+ * Where a workspace could be saved as a definition file: the repository each
+ * of its services lives in, or the service's own folder outside of one. The
+ * root covering the most services comes first.
+ */
+export function definitionRoots(
+  services: { repo_path?: string }[],
+  repos: Pick<Repo, 'path' | 'git_root'>[],
+): string[] {
+  const counts = new Map<string, number>();
+  services.forEach(service => {
+    if (!service.repo_path) return;
+    const repo = repos.find(item => item.path === service.repo_path);
+    const root = repo?.git_root ?? repo?.path ?? service.repo_path;
+    counts.set(root, (counts.get(root) ?? 0) + 1);
+  });
+  return [...counts].sort((a, b) => b[1] - a[1]).map(([root]) => root);
+}
+
+/**
+ * The file-backed workspaces in `next` that differ from how they were in
+ * `previous`, which are the ones whose files need writing.
+ */
+export function changedDefinitions(previous: StoredWorkspace[], next: StoredWorkspace[]): StoredWorkspace[] {
+  return next.filter(workspace => {
+    if (!workspace.definition_path) return false;
+    const before = previous.find(item => item.id === workspace.id);
+    return !before || JSON.stringify(before) !== JSON.stringify(workspace);
+  });
+}
+
+/**
+ * Replaces a workspace with what its file now says. The local id is kept so
+ * running services and selections still point at it; the file's id is only
+ * used when the workspace is first imported. Port assignments never reach the
+ * file, so each service keeps the one this machine gave it.
+ */
+export function withDefinition(workspaces: StoredWorkspace[], read: StoredWorkspace): StoredWorkspace[] {
+  const existing = workspaces.find(workspace => workspace.definition_path === read.definition_path);
+  if (!existing) return [...workspaces, read];
+  const services = read.services.map(service => ({
+    ...service,
+    port_assignment: existing.services.find(item => item.id === service.id)?.port_assignment ?? null,
+  }));
+  return workspaces.map(workspace => workspace === existing ? { ...read, id: existing.id, services } : workspace);
+}